@@ -0,0 +1,290 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { ApiTokenSummary, CreateApiToken, CreatedApiToken } from "@shared/schema";
+import { API_TOKEN_SCOPES, API_TOKEN_SCOPE_LABELS, ApiTokenScope, canGrantScope } from "@shared/permissions";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { KeyRound, Loader2, Trash2 } from "lucide-react";
+import { format, formatDistanceToNow } from "date-fns";
+
+const apiTokensQueryKey = ["/api/user/api-tokens"];
+
+// Expiry choices in days; "never" is stored as null
+const EXPIRY_OPTIONS = [
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "365", label: "1 year" },
+  { value: "never", label: "Never" },
+];
+
+function isExpired(token: ApiTokenSummary) {
+  return !!token.expiresAt && new Date(token.expiresAt).getTime() <= Date.now();
+}
+
+// Profile card for creating and revoking personal API tokens
+export function ApiTokenSettings() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [isCreating, setIsCreating] = useState(false);
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiTokenScope[]>([]);
+  const [expiry, setExpiry] = useState("90");
+  const [created, setCreated] = useState<CreatedApiToken | null>(null);
+  const [revoking, setRevoking] = useState<ApiTokenSummary | null>(null);
+
+  const { data: tokens = [], isLoading } = useQuery<ApiTokenSummary[]>({
+    queryKey: apiTokensQueryKey,
+  });
+
+  const grantableScopes = API_TOKEN_SCOPES.filter(scope => canGrantScope(user, scope));
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const closeCreateDialog = () => {
+    setIsCreating(false);
+    setCreated(null);
+    setName("");
+    setScopes([]);
+    setExpiry("90");
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: CreateApiToken) => {
+      const res = await apiRequest("POST", "/api/user/api-tokens", data);
+      return await res.json() as CreatedApiToken;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: apiTokensQueryKey });
+      setCreated(result);
+    },
+    onError,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (tokenId: number) => {
+      await apiRequest("DELETE", `/api/user/api-tokens/${tokenId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: apiTokensQueryKey });
+      setRevoking(null);
+      toast({ title: "Token revoked", description: "Scripts using it will stop working." });
+    },
+    onError,
+  });
+
+  const toggleScope = (scope: ApiTokenScope, checked: boolean) => {
+    setScopes(current => checked ? [...current, scope] : current.filter(existing => existing !== scope));
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    createMutation.mutate({
+      name: name.trim(),
+      scopes,
+      expiresInDays: expiry === "never" ? null : parseInt(expiry),
+    });
+  };
+
+  const copySecret = (secret: string) => {
+    navigator.clipboard.writeText(secret)
+      .then(() => toast({ title: "Copied", description: "API token copied to the clipboard" }))
+      .catch(() => onError(new Error("Couldn't copy to the clipboard")));
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader className="p-6 pb-2">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg font-bold">API Tokens</CardTitle>
+          <Button size="sm" variant="outline" onClick={() => setIsCreating(true)}>
+            New Token
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="p-6 pt-2 space-y-3">
+        <p className="text-sm text-gray-600">
+          Tokens let scripts use the API as you. Send one in an <code>Authorization: Bearer</code> header.
+        </p>
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : tokens.length === 0 ? (
+          <p className="text-sm text-gray-500">You don't have any API tokens.</p>
+        ) : (
+          <ul className="divide-y">
+            {tokens.map(token => (
+              <li key={token.id} className="py-3 flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <KeyRound className="h-4 w-4 text-gray-500 shrink-0" />
+                    <span className="font-medium truncate">{token.name}</span>
+                    <code className="text-xs text-gray-500">{token.tokenPrefix}…</code>
+                    {isExpired(token) && <Badge variant="destructive">Expired</Badge>}
+                  </div>
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {token.scopes.map(scope => (
+                      <Badge key={scope} variant="outline" className="text-xs">{scope}</Badge>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {token.lastUsedAt
+                      ? `Last used ${formatDistanceToNow(new Date(token.lastUsedAt), { addSuffix: true })}`
+                      : "Never used"}
+                    {" · "}
+                    {token.expiresAt
+                      ? `${isExpired(token) ? "Expired" : "Expires"} ${format(new Date(token.expiresAt), "MMM d, yyyy")}`
+                      : "Never expires"}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="text-red-600 shrink-0"
+                  aria-label={`Revoke ${token.name}`}
+                  onClick={() => setRevoking(token)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+
+      <Dialog open={isCreating} onOpenChange={(open) => !open && closeCreateDialog()}>
+        <DialogContent>
+          {created ? (
+            <>
+              <DialogHeader>
+                <DialogTitle>Copy your new token</DialogTitle>
+                <DialogDescription>
+                  This is the only time it's shown. Store it somewhere safe, such as a password manager.
+                </DialogDescription>
+              </DialogHeader>
+              <code className="block break-all rounded bg-gray-100 p-2 text-sm">{created.secret}</code>
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={() => copySecret(created.secret)}>Copy</Button>
+                <Button onClick={closeCreateDialog}>Done</Button>
+              </div>
+            </>
+          ) : (
+            <>
+              <DialogHeader>
+                <DialogTitle>New API token</DialogTitle>
+                <DialogDescription>Give the token only the scopes your script needs.</DialogDescription>
+              </DialogHeader>
+              <form onSubmit={handleCreate} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="api-token-name">Name</Label>
+                  <Input
+                    id="api-token-name"
+                    placeholder="e.g. Nightly gym sync"
+                    maxLength={60}
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Scopes</Label>
+                  {grantableScopes.map(scope => (
+                    <div key={scope} className="flex items-start gap-2">
+                      <Checkbox
+                        id={`api-token-scope-${scope}`}
+                        checked={scopes.includes(scope)}
+                        onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                      />
+                      <Label htmlFor={`api-token-scope-${scope}`} className="font-normal leading-tight">
+                        <code className="text-xs">{scope}</code>
+                        <span className="block text-xs text-gray-500">{API_TOKEN_SCOPE_LABELS[scope]}</span>
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+                <div className="space-y-2">
+                  <Label>Expires</Label>
+                  <Select value={expiry} onValueChange={setExpiry}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {EXPIRY_OPTIONS.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button
+                  type="submit"
+                  className="w-full bg-primary"
+                  disabled={!name.trim() || scopes.length === 0 || createMutation.isPending}
+                >
+                  {createMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                  Create Token
+                </Button>
+              </form>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={revoking !== null} onOpenChange={(open) => !open && setRevoking(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revoke "{revoking?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Anything using this token will lose access straight away. This can't be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-600 hover:bg-red-700"
+              onClick={() => revoking && revokeMutation.mutate(revoking.id)}
+            >
+              Revoke
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,126 @@
+import { useEffect } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+
+import { CheckCircle2, Loader2, MailWarning, XCircle } from "lucide-react";
+import {
+  Card,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+
+interface VerifyEmailCardProps {
+  token: string;
+  onDone: () => void;
+}
+
+// Confirms the address from an emailed verification link as soon as it's opened
+export function VerifyEmailCard({ token, onDone }: VerifyEmailCardProps) {
+  const verifyMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/email-verification/confirm", { token });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+    },
+  });
+
+  const { mutate } = verifyMutation;
+  useEffect(() => {
+    mutate();
+  }, [token, mutate]);
+
+  if (verifyMutation.isSuccess) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-primary flex items-center gap-2">
+            <CheckCircle2 className="h-5 w-5" /> Email verified
+          </CardTitle>
+          <CardDescription>Thanks for confirming your email address.</CardDescription>
+        </CardHeader>
+        <CardFooter>
+          <Button className="w-full bg-primary" onClick={onDone}>
+            Continue
+          </Button>
+        </CardFooter>
+      </Card>
+    );
+  }
+
+  if (verifyMutation.isError) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-red-600 flex items-center gap-2">
+            <XCircle className="h-5 w-5" /> Couldn't verify your email
+          </CardTitle>
+          <CardDescription>
+            This verification link is invalid or has expired. Sign in and send yourself a new one from your profile.
+          </CardDescription>
+        </CardHeader>
+        <CardFooter>
+          <Button variant="outline" className="w-full" onClick={onDone}>
+            Continue
+          </Button>
+        </CardFooter>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="flex justify-center py-8">
+      <Loader2 className="h-8 w-8 animate-spin text-primary" />
+    </div>
+  );
+}
+
+// Reminds signed-in users with an unconfirmed email to verify it
+export function EmailVerificationNotice() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const resendMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/email-verification/resend");
+    },
+    onSuccess: () => {
+      toast({
+        title: "Verification email sent",
+        description: `Check ${user?.email} for a link to confirm your address.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't send verification email",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!user?.email || user.emailVerifiedAt) return null;
+
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 rounded-lg border border-yellow-200 bg-yellow-50 p-3 mb-6">
+      <div className="flex items-center gap-2 text-sm text-yellow-800">
+        <MailWarning className="h-4 w-4 shrink-0" />
+        Please confirm your email address, {user.email}.
+      </div>
+      <Button
+        size="sm"
+        variant="outline"
+        onClick={() => resendMutation.mutate()}
+        disabled={resendMutation.isPending || resendMutation.isSuccess}
+      >
+        {resendMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+        {resendMutation.isSuccess ? "Email sent" : "Resend email"}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+import { useForm } from "react-hook-form";
+import { useMutation } from "@tanstack/react-query";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import {
+  PasswordResetRequest,
+  passwordResetRequestSchema,
+  passwordResetConfirmSchema
+} from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+import { Loader2, MailCheck } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+
+interface ForgotPasswordFormProps {
+  onBack: () => void;
+}
+
+// Ask for a password reset link by email
+export function ForgotPasswordForm({ onBack }: ForgotPasswordFormProps) {
+  const { toast } = useToast();
+  const form = useForm<PasswordResetRequest>({
+    resolver: zodResolver(passwordResetRequestSchema),
+    defaultValues: { email: "" },
+  });
+
+  const requestResetMutation = useMutation({
+    mutationFn: async (data: PasswordResetRequest) => {
+      await apiRequest("POST", "/api/password-reset/request", data);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't send reset link",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (requestResetMutation.isSuccess) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-primary flex items-center gap-2">
+            <MailCheck className="h-5 w-5" /> Check your email
+          </CardTitle>
+          <CardDescription>
+            If an account uses {form.getValues("email")}, we've sent it a link to reset the password.
+            The link expires in 1 hour.
+          </CardDescription>
+        </CardHeader>
+        <CardFooter>
+          <Button variant="outline" className="w-full" onClick={onBack}>
+            Back to sign in
+          </Button>
+        </CardFooter>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-primary">Forgot your password?</CardTitle>
+        <CardDescription>Enter the email address on your account and we'll send you a reset link</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => requestResetMutation.mutate(data))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="email"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Email</FormLabel>
+                  <FormControl>
+                    <Input type="email" placeholder="you@example.com" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <Button type="submit" className="w-full bg-primary" disabled={requestResetMutation.isPending}>
+              {requestResetMutation.isPending ? (
+                <Loader2 className="h-4 w-4 animate-spin mr-2" />
+              ) : null}
+              Send Reset Link
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+      <CardFooter>
+        <Button variant="link" className="p-0 h-auto text-primary" onClick={onBack}>
+          Back to sign in
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
+
+const resetPasswordFormSchema = passwordResetConfirmSchema.pick({ password: true }).extend({
+  confirmPassword: z.string(),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ["confirmPassword"],
+});
+
+type ResetPasswordFormValues = z.infer<typeof resetPasswordFormSchema>;
+
+interface ResetPasswordFormProps {
+  token: string;
+  onDone: () => void;
+}
+
+// Choose a new password from an emailed reset link
+export function ResetPasswordForm({ token, onDone }: ResetPasswordFormProps) {
+  const { toast } = useToast();
+  const form = useForm<ResetPasswordFormValues>({
+    resolver: zodResolver(resetPasswordFormSchema),
+    defaultValues: { password: "", confirmPassword: "" },
+  });
+
+  const resetPasswordMutation = useMutation({
+    mutationFn: async ({ password }: ResetPasswordFormValues) => {
+      await apiRequest("POST", "/api/password-reset/confirm", { token, password });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Password reset",
+        description: "You can now sign in with your new password.",
+      });
+      onDone();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't reset password",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-primary">Choose a new password</CardTitle>
+        <CardDescription>Reset links can only be used once</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => resetPasswordMutation.mutate(data))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="password"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>New Password</FormLabel>
+                  <FormControl>
+                    <Input type="password" placeholder="••••••••" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="confirmPassword"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Confirm Password</FormLabel>
+                  <FormControl>
+                    <Input type="password" placeholder="••••••••" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <Button type="submit" className="w-full bg-primary" disabled={resetPasswordMutation.isPending}>
+              {resetPasswordMutation.isPending ? (
+                <Loader2 className="h-4 w-4 animate-spin mr-2" />
+              ) : null}
+              Reset Password
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+      <CardFooter>
+        <Button variant="link" className="p-0 h-auto text-primary" onClick={onDone}>
+          Back to sign in
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
@@ -0,0 +1,69 @@
+import { useState } from "react";
+import { TwoFactorCode } from "@shared/schema";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Loader2 } from "lucide-react";
+
+interface TwoFactorCodeInputProps {
+  submitLabel: string;
+  isPending: boolean;
+  onSubmit: (code: TwoFactorCode) => void;
+  // Setup can't use recovery codes, since none have been issued yet
+  allowRecoveryCode?: boolean;
+}
+
+// Six-digit authenticator code entry, with a fallback to a recovery code
+export function TwoFactorCodeInput({ submitLabel, isPending, onSubmit, allowRecoveryCode = true }: TwoFactorCodeInputProps) {
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [code, setCode] = useState("");
+  const [recoveryCode, setRecoveryCode] = useState("");
+
+  const canSubmit = useRecoveryCode ? recoveryCode.trim().length > 0 : code.length === 6;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+    onSubmit(useRecoveryCode ? { recoveryCode: recoveryCode.trim() } : { code });
+  };
+
+  const toggleMode = () => {
+    setUseRecoveryCode(!useRecoveryCode);
+    setCode("");
+    setRecoveryCode("");
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {useRecoveryCode ? (
+        <Input
+          placeholder="xxxxx-xxxxx"
+          autoComplete="off"
+          value={recoveryCode}
+          onChange={(e) => setRecoveryCode(e.target.value)}
+        />
+      ) : (
+        <div className="flex justify-center">
+          <InputOTP maxLength={6} value={code} onChange={setCode} autoFocus>
+            <InputOTPGroup>
+              {Array.from({ length: 6 }, (_, index) => (
+                <InputOTPSlot key={index} index={index} />
+              ))}
+            </InputOTPGroup>
+          </InputOTP>
+        </div>
+      )}
+
+      <Button type="submit" className="w-full bg-primary" disabled={!canSubmit || isPending}>
+        {isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+        {submitLabel}
+      </Button>
+
+      {allowRecoveryCode && (
+        <Button type="button" variant="link" className="p-0 h-auto text-primary" onClick={toggleMode}>
+          {useRecoveryCode ? "Use your authenticator app instead" : "Lost your device? Use a recovery code"}
+        </Button>
+      )}
+    </form>
+  );
+}
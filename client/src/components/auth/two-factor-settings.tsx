@@ -0,0 +1,227 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { TwoFactorCode, TwoFactorSetup, TwoFactorStatus } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { TwoFactorCodeInput } from "./two-factor-code-input";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2, ShieldCheck } from "lucide-react";
+
+export const twoFactorStatusQueryKey = ["/api/user/2fa"];
+
+// Which dialog is open: setting up, showing fresh recovery codes, or confirming a change
+type DialogState =
+  | { kind: "setup"; setup: TwoFactorSetup }
+  | { kind: "recovery-codes"; codes: string[] }
+  | { kind: "confirm"; action: "disable" | "regenerate" }
+  | null;
+
+// Profile card for turning TOTP two-factor authentication on and off
+export function TwoFactorSettings() {
+  const { toast } = useToast();
+  const [dialog, setDialog] = useState<DialogState>(null);
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: twoFactorStatusQueryKey,
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const refreshStatus = () => {
+    queryClient.invalidateQueries({ queryKey: twoFactorStatusQueryKey });
+    queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/2fa/setup");
+      return await res.json() as TwoFactorSetup;
+    },
+    onSuccess: (setup) => setDialog({ kind: "setup", setup }),
+    onError,
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async (code: TwoFactorCode) => {
+      const res = await apiRequest("POST", "/api/user/2fa/enable", code);
+      return await res.json() as { recoveryCodes: string[] };
+    },
+    onSuccess: ({ recoveryCodes }) => {
+      refreshStatus();
+      setDialog({ kind: "recovery-codes", codes: recoveryCodes });
+    },
+    onError,
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async (code: TwoFactorCode) => {
+      const res = await apiRequest("POST", "/api/user/2fa/recovery-codes", code);
+      return await res.json() as { recoveryCodes: string[] };
+    },
+    onSuccess: ({ recoveryCodes }) => {
+      refreshStatus();
+      setDialog({ kind: "recovery-codes", codes: recoveryCodes });
+    },
+    onError,
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async (code: TwoFactorCode) => {
+      await apiRequest("POST", "/api/user/2fa/disable", code);
+    },
+    onSuccess: () => {
+      refreshStatus();
+      setDialog(null);
+      toast({
+        title: "Two-factor authentication off",
+        description: "You'll only need your password to sign in.",
+      });
+    },
+    onError,
+  });
+
+  const copyRecoveryCodes = (codes: string[]) => {
+    navigator.clipboard.writeText(codes.join("\n"))
+      .then(() => toast({ title: "Copied", description: "Recovery codes copied to the clipboard" }))
+      .catch(() => onError(new Error("Couldn't copy to the clipboard")));
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader className="p-6 pb-2">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg font-bold">Two-Factor Authentication</CardTitle>
+          {status?.enabled && (
+            <Badge className="bg-green-100 text-green-800 hover:bg-green-100">
+              <ShieldCheck className="h-3 w-3 mr-1" /> On
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="p-6 pt-2 space-y-3">
+        {isLoading || !status ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : status.enabled ? (
+          <>
+            <p className="text-sm text-gray-600">
+              Signing in needs a code from your authenticator app. You have {status.recoveryCodesRemaining} recovery
+              {status.recoveryCodesRemaining === 1 ? " code" : " codes"} left.
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" size="sm" onClick={() => setDialog({ kind: "confirm", action: "regenerate" })}>
+                New recovery codes
+              </Button>
+              {!status.required && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="text-red-600"
+                  onClick={() => setDialog({ kind: "confirm", action: "disable" })}
+                >
+                  Turn off
+                </Button>
+              )}
+            </div>
+          </>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600">
+              {status.required
+                ? "Your role requires two-factor authentication. Turn it on to use the admin tools."
+                : "Protect your account with a code from an authenticator app as well as your password."}
+            </p>
+            <Button size="sm" onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending}>
+              {setupMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+              Set up
+            </Button>
+          </>
+        )}
+      </CardContent>
+
+      <Dialog open={dialog !== null} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent>
+          {dialog?.kind === "setup" && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Set up two-factor authentication</DialogTitle>
+                <DialogDescription>
+                  Add GymMatch to an authenticator app such as Google Authenticator or 1Password, then enter the
+                  6-digit code it shows.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-2">
+                <Button asChild variant="outline" className="w-full">
+                  <a href={dialog.setup.otpauthUri}>Open in authenticator app</a>
+                </Button>
+                <p className="text-xs text-gray-500">Or enter this key manually:</p>
+                <code className="block break-all rounded bg-gray-100 p-2 text-sm">{dialog.setup.secret}</code>
+              </div>
+              <TwoFactorCodeInput
+                submitLabel="Turn On"
+                isPending={enableMutation.isPending}
+                onSubmit={(code) => enableMutation.mutate(code)}
+                allowRecoveryCode={false}
+              />
+            </>
+          )}
+
+          {dialog?.kind === "recovery-codes" && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Save your recovery codes</DialogTitle>
+                <DialogDescription>
+                  Each code signs you in once if you lose your authenticator. They won't be shown again.
+                </DialogDescription>
+              </DialogHeader>
+              <ul className="grid grid-cols-2 gap-2 rounded bg-gray-100 p-3 font-mono text-sm">
+                {dialog.codes.map(code => <li key={code}>{code}</li>)}
+              </ul>
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={() => copyRecoveryCodes(dialog.codes)}>Copy</Button>
+                <Button onClick={() => setDialog(null)}>Done</Button>
+              </div>
+            </>
+          )}
+
+          {dialog?.kind === "confirm" && (
+            <>
+              <DialogHeader>
+                <DialogTitle>
+                  {dialog.action === "disable" ? "Turn off two-factor authentication?" : "Replace your recovery codes?"}
+                </DialogTitle>
+                <DialogDescription>
+                  {dialog.action === "disable"
+                    ? "Enter a code to confirm. Your recovery codes will stop working."
+                    : "Enter a code to confirm. Your old recovery codes will stop working."}
+                </DialogDescription>
+              </DialogHeader>
+              <TwoFactorCodeInput
+                submitLabel={dialog.action === "disable" ? "Turn Off" : "Replace Codes"}
+                isPending={disableMutation.isPending || regenerateMutation.isPending}
+                onSubmit={(code) => dialog.action === "disable" ? disableMutation.mutate(code) : regenerateMutation.mutate(code)}
+              />
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -1,8 +1,13 @@
 import { Link, useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { unreadCountQueryKey } from "@/hooks/use-websocket";
 import { Home, Dumbbell, User, MessageSquare, Users } from "lucide-react";
 
 export default function MobileNav() {
   const [location] = useLocation();
+  const { data: unread } = useQuery<{ count: number }>({
+    queryKey: unreadCountQueryKey,
+  });
 
   return (
     <nav className="fixed bottom-0 w-full bg-white border-t border-gray-200 z-10 md:hidden">
@@ -19,6 +24,17 @@ export default function MobileNav() {
             <span className="text-xs mt-1">Matches</span>
           </a>
         </Link>
+        <Link href="/messages">
+          <a className={`relative py-2 px-4 flex flex-col items-center ${location.startsWith('/messages') ? 'text-primary' : 'text-gray-500'}`}>
+            <MessageSquare className="h-5 w-5" />
+            {!!unread?.count && (
+              <span className="absolute top-1 right-3 rounded-full bg-primary text-white text-[10px] px-1 leading-tight">
+                {unread.count}
+              </span>
+            )}
+            <span className="text-xs mt-1">Messages</span>
+          </a>
+        </Link>
         <Link href="/users">
           <a className={`py-2 px-4 flex flex-col items-center ${location === '/users' ? 'text-primary' : 'text-gray-500'}`}>
             <Users className="h-5 w-5" />
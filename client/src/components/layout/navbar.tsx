@@ -1,6 +1,9 @@
 import { useState } from "react";
 import { Link, useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
+import { unreadCountQueryKey } from "@/hooks/use-websocket";
+import { isStaff } from "@shared/permissions";
 import { Dumbbell, ChevronDown, LogOut, User, Settings } from "lucide-react";
 import {
   DropdownMenu,
@@ -15,6 +18,10 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 export default function Navbar() {
   const { user, logoutMutation } = useAuth();
   const [location] = useLocation();
+  const { data: unread } = useQuery<{ count: number }>({
+    queryKey: unreadCountQueryKey,
+    enabled: !!user,
+  });
   
   if (!user) return null;
 
@@ -50,13 +57,24 @@ export default function Navbar() {
             </a>
           </Link>
           
+          <Link href="/messages">
+            <a className={`flex items-center ${location.startsWith('/messages') ? 'text-primary font-medium' : 'text-gray-600 hover:text-primary transition-colors'}`}>
+              Messages
+              {!!unread?.count && (
+                <span className="ml-1.5 rounded-full bg-primary text-white text-xs px-1.5 py-0.5 leading-none">
+                  {unread.count}
+                </span>
+              )}
+            </a>
+          </Link>
+          
           <Link href="/users">
             <a className={`${location === '/users' ? 'text-primary font-medium' : 'text-gray-600 hover:text-primary transition-colors'}`}>
               Community
             </a>
           </Link>
           
-          {user.isAdmin && (
+          {isStaff(user) && (
             <Link href="/admin">
               <a className={`${location.startsWith('/admin') ? 'text-primary font-medium' : 'text-gray-600 hover:text-primary transition-colors'}`}>
                 Admin
@@ -0,0 +1,39 @@
+import { AmenityFacet } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { AmenityIcon } from "@/components/ui/amenity-icon";
+
+interface AmenityFilterChipsProps {
+  facets: AmenityFacet[];
+  selected: number[];
+  onChange: (selected: number[]) => void;
+}
+
+// Multi-select amenity filter; each chip shows how many of the current results have it
+export function AmenityFilterChips({ facets, selected, onChange }: AmenityFilterChipsProps) {
+  if (facets.length === 0) return null;
+
+  const toggle = (amenityId: number) => {
+    onChange(selected.includes(amenityId)
+      ? selected.filter(existing => existing !== amenityId)
+      : [...selected, amenityId]);
+  };
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {facets.map(({ id, name, icon, count }) => {
+        const isSelected = selected.includes(id);
+        return (
+          <Badge
+            key={id}
+            variant={isSelected ? "default" : "outline"}
+            className={`cursor-pointer select-none ${isSelected ? "" : "bg-white hover:bg-gray-100"}`}
+            onClick={() => toggle(id)}
+          >
+            <AmenityIcon icon={icon} className="h-3 w-3 mr-1" />
+            {name} <span className="ml-1 opacity-70">{count}</span>
+          </Badge>
+        );
+      })}
+    </div>
+  );
+}
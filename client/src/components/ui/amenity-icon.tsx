@@ -0,0 +1,43 @@
+import { AmenityIcon as AmenityIconName } from "@shared/schema";
+import {
+  Activity, Baby, Bath, Bike, Car, CircleDot, Clock, CupSoda, Dumbbell, Flame, Flower2, Footprints,
+  HeartPulse, Lock, Shield, ShoppingBag, Sparkles, Swords, Tag, Trophy, UserCheck, Users, Waves,
+  type LucideIcon
+} from "lucide-react";
+
+const AMENITY_ICON_COMPONENTS: Record<AmenityIconName, LucideIcon> = {
+  "dumbbell": Dumbbell,
+  "heart-pulse": HeartPulse,
+  "activity": Activity,
+  "trophy": Trophy,
+  "swords": Swords,
+  "bike": Bike,
+  "users": Users,
+  "flower": Flower2,
+  "waves": Waves,
+  "flame": Flame,
+  "sparkles": Sparkles,
+  "footprints": Footprints,
+  "circle-dot": CircleDot,
+  "bath": Bath,
+  "lock": Lock,
+  "car": Car,
+  "baby": Baby,
+  "shield": Shield,
+  "user-check": UserCheck,
+  "cup-soda": CupSoda,
+  "shopping-bag": ShoppingBag,
+  "clock": Clock,
+  "tag": Tag,
+};
+
+interface AmenityIconProps {
+  icon: string | null;
+  className?: string;
+}
+
+// An amenity's icon, or a plain tag for amenities without one
+export function AmenityIcon({ icon, className }: AmenityIconProps) {
+  const Icon = AMENITY_ICON_COMPONENTS[icon as AmenityIconName] ?? Tag;
+  return <Icon className={className} />;
+}
@@ -0,0 +1,136 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Gym } from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2 } from "lucide-react";
+
+export const gymClaimsQueryKey = ["/api/user/gym-claims"];
+
+interface ClaimGymDialogProps {
+  gym: Pick<Gym, "id" | "name"> | null;
+  onClose: () => void;
+}
+
+// Ask the admins to let you manage a gym's listing
+export function ClaimGymDialog({ gym, onClose }: ClaimGymDialogProps) {
+  const { toast } = useToast();
+  const [proofText, setProofText] = useState("");
+  const [document, setDocument] = useState<File | null>(null);
+
+  const reset = () => {
+    setProofText("");
+    setDocument(null);
+  };
+
+  const claimMutation = useMutation({
+    mutationFn: async () => {
+      const formData = new FormData();
+      formData.append("proofText", proofText.trim());
+      if (document) {
+        formData.append("document", document);
+      }
+
+      const res = await fetch(`/api/gyms/${gym!.id}/claims`, {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.message || "Failed to submit claim");
+      }
+
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: gymClaimsQueryKey });
+      toast({
+        title: "Claim submitted",
+        description: "An admin will review it and get back to you.",
+      });
+      reset();
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      reset();
+      onClose();
+    }
+  };
+
+  return (
+    <Dialog open={!!gym} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Claim {gym?.name}</DialogTitle>
+          <DialogDescription>
+            Work at this gym? Once an admin approves your claim you can update its photos, hours,
+            amenities and announcements.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="claim-proof">How are you connected to this gym?</Label>
+            <Textarea
+              id="claim-proof"
+              placeholder="e.g. I'm the owner. You can reach me on the gym's listed phone number."
+              maxLength={2000}
+              value={proofText}
+              onChange={(e) => setProofText(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="claim-document">Supporting document (optional)</Label>
+            <Input
+              id="claim-document"
+              type="file"
+              accept="application/pdf,image/*"
+              onChange={(e) => setDocument(e.target.files?.[0] ?? null)}
+            />
+            <p className="text-xs text-gray-500">
+              A business license, utility bill or similar. Only admins can see it.
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => claimMutation.mutate()}
+            disabled={(!proofText.trim() && !document) || claimMutation.isPending}
+          >
+            {claimMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+            Submit Claim
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,46 @@
+import { useQuery } from "@tanstack/react-query";
+import { Loader2, Megaphone } from "lucide-react";
+import { format } from "date-fns";
+import { GymAnnouncement } from "@shared/schema";
+
+interface GymAnnouncementsProps {
+  gymId: number;
+}
+
+// News posted by a gym's managers, newest first
+export function GymAnnouncements({ gymId }: GymAnnouncementsProps) {
+  const { data: announcements = [], isLoading } = useQuery<GymAnnouncement[]>({
+    queryKey: [`/api/gyms/${gymId}/announcements`],
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="h-5 w-5 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (announcements.length === 0) {
+    return <p className="text-gray-500">No announcements from this gym yet.</p>;
+  }
+
+  return (
+    <ul className="space-y-3">
+      {announcements.map(announcement => (
+        <li key={announcement.id} className="border rounded-lg p-3">
+          <div className="flex items-start gap-2">
+            <Megaphone className="h-4 w-4 mt-0.5 text-primary shrink-0" />
+            <div>
+              <p className="font-medium text-gray-900">{announcement.title}</p>
+              {announcement.createdAt && (
+                <p className="text-xs text-gray-500">{format(new Date(announcement.createdAt), "MMM d, yyyy")}</p>
+              )}
+              <p className="text-sm text-gray-700 mt-1 whitespace-pre-line">{announcement.body}</p>
+            </div>
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
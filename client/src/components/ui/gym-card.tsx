@@ -4,17 +4,20 @@ import { Button } from "@/components/ui/button";
 import { InfoIcon, Star, StarHalf } from "lucide-react";
 import { Gym } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { formatPrice } from "@/lib/utils";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useState } from "react";
 
 interface GymCardProps {
-  gym: Gym & { matchScore?: number };
+  gym: Gym & { matchScore?: number | null; lowestMonthlyPrice?: number | null };
   onClick?: () => void;
 }
 
 export function GymCard({ gym, onClick }: GymCardProps) {
   const { toast } = useToast();
+  const { user } = useAuth();
   const queryClient = useQueryClient();
   const [isSaving, setIsSaving] = useState(false);
   
@@ -104,7 +107,7 @@ export function GymCard({ gym, onClick }: GymCardProps) {
   };
 
   // Rating stars display
-  const renderRatingStars = (rating: number = 0) => {
+  const renderRatingStars = (rating: number = 0, reviewCount: number = 0) => {
     const fullStars = Math.floor(rating);
     const hasHalfStar = rating % 1 >= 0.5;
     
@@ -118,7 +121,7 @@ export function GymCard({ gym, onClick }: GymCardProps) {
           <Star key={i + fullStars + (hasHalfStar ? 1 : 0)} className="h-4 w-4 text-gray-300" />
         ))}
         <span className="text-xs text-gray-600 ml-1">
-          ({Math.round(rating * 10)})</span>
+          ({reviewCount})</span>
       </div>
     );
   };
@@ -150,8 +153,13 @@ export function GymCard({ gym, onClick }: GymCardProps) {
           {(gym.location as any)?.address || 'Location information unavailable'}
         </p>
         
-        <div className="mt-2">
-          {renderRatingStars(gym.rating || 0)}
+        <div className="mt-2 flex items-center justify-between">
+          {renderRatingStars(gym.rating || 0, gym.reviewCount)}
+          {gym.lowestMonthlyPrice != null && (
+            <span className="text-sm text-gray-700">
+              From <span className="font-semibold">{formatPrice(gym.lowestMonthlyPrice, user?.budgetCurrency ?? "USD")}</span>/mo
+            </span>
+          )}
         </div>
         
         <div className="flex flex-wrap gap-2 mt-3">
@@ -0,0 +1,343 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Star, Loader2, Pencil, Trash2, X } from "lucide-react";
+import { GymReviewSummary, GymReviewWithAuthor } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+
+type GymReviewsResponse = {
+  summary: GymReviewSummary;
+  reviews: GymReviewWithAuthor[];
+};
+
+interface GymReviewsProps {
+  gymId: number;
+}
+
+export function StarRating({ rating, size = "h-4 w-4" }: { rating: number; size?: string }) {
+  return (
+    <div className="flex items-center">
+      {[1, 2, 3, 4, 5].map(star => (
+        <Star
+          key={star}
+          className={`${size} ${star <= Math.round(rating) ? 'text-yellow-500 fill-yellow-500' : 'text-gray-300'}`}
+        />
+      ))}
+    </div>
+  );
+}
+
+export function GymReviews({ gymId }: GymReviewsProps) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [isEditing, setIsEditing] = useState(false);
+
+  const reviewsQueryKey = [`/api/gyms/${gymId}/reviews`];
+  const { data, isLoading } = useQuery<GymReviewsResponse>({
+    queryKey: reviewsQueryKey,
+  });
+
+  const myReview = data?.reviews.find(review => review.userId === user?.id);
+
+  const onReviewsChanged = () => {
+    queryClient.invalidateQueries({ queryKey: reviewsQueryKey });
+    // The gym's aggregated rating changed too
+    queryClient.invalidateQueries({ queryKey: ["/api/gyms"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/matches"] });
+  };
+
+  const deleteReviewMutation = useMutation({
+    mutationFn: async (reviewId: number) => {
+      await apiRequest("DELETE", `/api/gym-reviews/${reviewId}`);
+    },
+    onSuccess: () => {
+      onReviewsChanged();
+      toast({
+        title: "Review deleted",
+        description: "Your review has been removed",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to delete review: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading || !data) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const { summary, reviews } = data;
+
+  return (
+    <div className="space-y-6">
+      {/* Summary */}
+      <div className="flex flex-col sm:flex-row gap-6">
+        <div className="flex flex-col items-center justify-center min-w-[120px]">
+          <span className="text-4xl font-bold text-gray-900">
+            {summary.average !== null ? summary.average.toFixed(1) : "–"}
+          </span>
+          <StarRating rating={summary.average ?? 0} />
+          <span className="text-sm text-gray-600 mt-1">
+            {summary.count} {summary.count === 1 ? "review" : "reviews"}
+          </span>
+        </div>
+        <div className="flex-1 space-y-1">
+          {([5, 4, 3, 2, 1] as const).map(stars => (
+            <div key={stars} className="flex items-center gap-2 text-sm">
+              <span className="w-3 text-gray-600">{stars}</span>
+              <Star className="h-3 w-3 text-yellow-500 fill-yellow-500" />
+              <Progress
+                value={summary.count > 0 ? (summary.distribution[stars] / summary.count) * 100 : 0}
+                className="h-2 flex-1"
+              />
+              <span className="w-6 text-right text-gray-500">{summary.distribution[stars]}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Write or edit your review */}
+      {user && (!myReview || isEditing) && (
+        <ReviewForm
+          gymId={gymId}
+          review={isEditing ? myReview : undefined}
+          onDone={() => {
+            setIsEditing(false);
+            onReviewsChanged();
+          }}
+          onCancel={isEditing ? () => setIsEditing(false) : undefined}
+        />
+      )}
+
+      {/* Reviews */}
+      {reviews.length === 0 ? (
+        <p className="text-gray-500 text-center">No reviews yet. Be the first to review this gym!</p>
+      ) : (
+        <ul className="space-y-4">
+          {reviews.map(review => (
+            <li key={review.id} className="border-b pb-4 last:border-0">
+              <div className="flex items-start justify-between">
+                <div className="flex items-center gap-3">
+                  <Avatar className="h-8 w-8">
+                    <AvatarImage src={review.author.profilePic || undefined} alt={review.author.name} />
+                    <AvatarFallback className="bg-primary text-white text-xs">
+                      {review.author.name.charAt(0).toUpperCase()}
+                    </AvatarFallback>
+                  </Avatar>
+                  <div>
+                    <p className="font-medium text-gray-800">{review.author.name}</p>
+                    <div className="flex items-center gap-2">
+                      <StarRating rating={review.rating} size="h-3 w-3" />
+                      {review.visitDate && (
+                        <span className="text-xs text-gray-500">
+                          Visited {format(new Date(review.visitDate), "MMM d, yyyy")}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                </div>
+                {review.userId === user?.id && !isEditing && (
+                  <div className="flex gap-1">
+                    <Button variant="ghost" size="icon" onClick={() => setIsEditing(true)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => deleteReviewMutation.mutate(review.id)}
+                      disabled={deleteReviewMutation.isPending}
+                    >
+                      <Trash2 className="h-4 w-4 text-red-500" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+              {review.text && <p className="text-gray-700 mt-2 whitespace-pre-wrap">{review.text}</p>}
+              {review.photos && review.photos.length > 0 && (
+                <div className="flex gap-2 mt-2 flex-wrap">
+                  {review.photos.map(photo => (
+                    <a key={photo} href={photo} target="_blank" rel="noreferrer">
+                      <img src={photo} alt="Review photo" className="h-20 w-20 object-cover rounded" />
+                    </a>
+                  ))}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function ReviewForm({
+  gymId,
+  review,
+  onDone,
+  onCancel,
+}: {
+  gymId: number;
+  review?: GymReviewWithAuthor;
+  onDone: () => void;
+  onCancel?: () => void;
+}) {
+  const { toast } = useToast();
+  const [rating, setRating] = useState(review?.rating ?? 0);
+  const [text, setText] = useState(review?.text ?? "");
+  const [visitDate, setVisitDate] = useState(
+    review?.visitDate ? format(new Date(review.visitDate), "yyyy-MM-dd") : ""
+  );
+  const [keptPhotos, setKeptPhotos] = useState<string[]>(review?.photos ?? []);
+  const [newPhotos, setNewPhotos] = useState<File[]>([]);
+
+  const saveReviewMutation = useMutation({
+    mutationFn: async () => {
+      const formData = new FormData();
+      formData.append("rating", String(rating));
+      formData.append("text", text);
+      if (visitDate || review) {
+        formData.append("visitDate", visitDate);
+      }
+      if (review) {
+        formData.append("keepPhotos", JSON.stringify(keptPhotos));
+      }
+      newPhotos.forEach(photo => formData.append("photos", photo));
+
+      const res = await fetch(review ? `/api/gym-reviews/${review.id}` : `/api/gyms/${gymId}/reviews`, {
+        method: review ? "PUT" : "POST",
+        body: formData,
+        credentials: "include",
+      });
+
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.message || "Failed to save review");
+      }
+
+      return await res.json();
+    },
+    onSuccess: () => {
+      setNewPhotos([]);
+      toast({
+        title: review ? "Review updated" : "Review posted",
+        description: "Thanks for sharing your experience",
+      });
+      onDone();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (rating < 1) {
+      toast({
+        title: "Rating required",
+        description: "Please choose between 1 and 5 stars",
+        variant: "destructive",
+      });
+      return;
+    }
+    saveReviewMutation.mutate();
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 bg-gray-50 p-4 rounded-lg">
+      <h4 className="font-semibold text-gray-800">{review ? "Edit your review" : "Write a review"}</h4>
+
+      <div className="flex items-center gap-1">
+        {[1, 2, 3, 4, 5].map(star => (
+          <button
+            key={star}
+            type="button"
+            onClick={() => setRating(star)}
+            aria-label={`${star} star${star > 1 ? 's' : ''}`}
+          >
+            <Star
+              className={`h-6 w-6 ${star <= rating ? 'text-yellow-500 fill-yellow-500' : 'text-gray-300'}`}
+            />
+          </button>
+        ))}
+      </div>
+
+      <Textarea
+        placeholder="What was your visit like?"
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        maxLength={2000}
+      />
+
+      <div className="flex flex-col sm:flex-row gap-3">
+        <label className="text-sm text-gray-600 flex-1">
+          Visit date
+          <Input
+            type="date"
+            value={visitDate}
+            max={format(new Date(), "yyyy-MM-dd")}
+            onChange={(e) => setVisitDate(e.target.value)}
+          />
+        </label>
+        <label className="text-sm text-gray-600 flex-1">
+          Photos
+          <Input
+            type="file"
+            accept="image/*"
+            multiple
+            onChange={(e) => setNewPhotos(Array.from(e.target.files ?? []))}
+          />
+        </label>
+      </div>
+
+      {keptPhotos.length > 0 && (
+        <div className="flex gap-2 flex-wrap">
+          {keptPhotos.map(photo => (
+            <div key={photo} className="relative">
+              <img src={photo} alt="Review photo" className="h-16 w-16 object-cover rounded" />
+              <button
+                type="button"
+                className="absolute -top-1 -right-1 bg-white rounded-full shadow"
+                onClick={() => setKeptPhotos(photos => photos.filter(p => p !== photo))}
+                aria-label="Remove photo"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button type="button" variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+        <Button type="submit" disabled={saveReviewMutation.isPending}>
+          {saveReviewMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          {review ? "Save changes" : "Post review"}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,93 @@
+import { ReactNode } from "react";
+import { MatchBreakdown } from "@shared/schema";
+import { formatDistance } from "@/hooks/use-geolocation";
+import { formatPrice } from "@/lib/utils";
+import { Dumbbell, Heart, MapPin, Star, Wallet } from "lucide-react";
+
+interface MatchReasonsProps {
+  breakdown: MatchBreakdown;
+}
+
+interface Reason {
+  icon: ReactNode;
+  text: string;
+  points: number;
+}
+
+// Turn a score breakdown into the "why this gym" list, skipping factors that didn't apply
+function getReasons(breakdown: MatchBreakdown): Reason[] {
+  const reasons: Reason[] = [];
+  const { goals, preferences, distance, rating, budget } = breakdown;
+
+  for (const match of goals.matches) {
+    reasons.push({
+      icon: <Dumbbell className="h-4 w-4" />,
+      text: `Supports your goal "${match.goal}" with ${match.amenities.join(", ")}`,
+      points: goals.points / goals.matches.length,
+    });
+  }
+
+  for (const hit of preferences.hits) {
+    reasons.push({
+      icon: <Heart className="h-4 w-4" />,
+      text: `Has ${hit.amenity}, which you prefer`,
+      points: preferences.points / preferences.hits.length,
+    });
+  }
+
+  if (distance.distanceKm !== null) {
+    reasons.push({
+      icon: <MapPin className="h-4 w-4" />,
+      text: `${formatDistance(distance.distanceKm)} from you`,
+      points: distance.points,
+    });
+  }
+
+  if (rating.rating !== null) {
+    reasons.push({
+      icon: <Star className="h-4 w-4" />,
+      text: `Rated ${rating.rating.toFixed(1)} from ${rating.reviewCount} ${rating.reviewCount === 1 ? "review" : "reviews"}`,
+      points: rating.points,
+    });
+  }
+
+  if (budget.lowestMonthlyPrice !== null && budget.monthlyBudget !== null) {
+    const price = formatPrice(budget.lowestMonthlyPrice, budget.currency);
+    reasons.push({
+      icon: <Wallet className="h-4 w-4" />,
+      text: budget.lowestMonthlyPrice <= budget.monthlyBudget
+        ? `Plans from ${price}/mo fit your budget`
+        : `Cheapest plan (${price}/mo) is over your ${formatPrice(budget.monthlyBudget, budget.currency)} budget`,
+      points: budget.points,
+    });
+  }
+
+  return reasons;
+}
+
+// "Why this gym": the factors behind a match score
+export function MatchReasons({ breakdown }: MatchReasonsProps) {
+  const reasons = getReasons(breakdown);
+
+  if (reasons.length === 0) {
+    return (
+      <p className="text-sm text-gray-500">
+        Add fitness goals and gym preferences to your profile for more personal matches.
+      </p>
+    );
+  }
+
+  return (
+    <ul className="space-y-2">
+      {reasons.map((reason, index) => (
+        <li key={index} className="flex items-start gap-2 text-sm text-gray-700">
+          <span className="mt-0.5 text-gray-500">{reason.icon}</span>
+          <span className="flex-1">{reason.text}</span>
+          <span className={`font-medium ${reason.points >= 0 ? "text-green-700" : "text-red-600"}`}>
+            {reason.points >= 0 ? "+" : ""}{Math.round(reason.points)}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,68 @@
+import { useQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { MembershipPlan } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { formatPrice } from "@/lib/utils";
+
+interface MembershipPlansProps {
+  gymId: number;
+}
+
+export function formatContract(contractMonths: number) {
+  if (contractMonths === 0) return "No contract";
+  return `${contractMonths}-month contract`;
+}
+
+// A gym's membership plans, cheapest first
+export function MembershipPlans({ gymId }: MembershipPlansProps) {
+  const { data: plans = [], isLoading } = useQuery<MembershipPlan[]>({
+    queryKey: [`/api/gyms/${gymId}/plans`],
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="h-5 w-5 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (plans.length === 0) {
+    return <p className="text-gray-500">Pricing hasn't been published for this gym yet.</p>;
+  }
+
+  return (
+    <ul className="space-y-3">
+      {plans.map(plan => (
+        <li key={plan.id} className="border rounded-lg p-3">
+          <div className="flex justify-between items-start">
+            <div>
+              <p className="font-medium text-gray-900">{plan.name}</p>
+              <p className="text-sm text-gray-500">{formatContract(plan.contractMonths)}</p>
+            </div>
+            <div className="text-right">
+              <p className="font-semibold text-gray-900">
+                {formatPrice(plan.monthlyPrice, plan.currency)}
+                <span className="text-sm font-normal text-gray-500">/mo</span>
+              </p>
+              {plan.dayPassPrice != null && (
+                <p className="text-xs text-gray-500">
+                  Day pass {formatPrice(plan.dayPassPrice, plan.currency)}
+                </p>
+              )}
+            </div>
+          </div>
+          {plan.includedAmenities && plan.includedAmenities.length > 0 && (
+            <div className="flex flex-wrap gap-1 mt-2">
+              {plan.includedAmenities.map(amenity => (
+                <Badge key={amenity} variant="outline" className="bg-gray-100 text-gray-800 hover:bg-gray-100">
+                  {amenity}
+                </Badge>
+              ))}
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
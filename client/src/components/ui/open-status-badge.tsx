@@ -0,0 +1,31 @@
+import { Gym } from "@shared/schema";
+import { isOpenAt, getTodaysHours, formatTimeRanges } from "@shared/opening-hours";
+import { Badge } from "@/components/ui/badge";
+import { Clock } from "lucide-react";
+
+interface OpenStatusBadgeProps {
+  gym: Gym;
+}
+
+// Open/closed badge with today's hours, evaluated in the gym's own timezone.
+// Renders nothing for gyms whose hours are unknown.
+export function OpenStatusBadge({ gym }: OpenStatusBadgeProps) {
+  const isOpen = isOpenAt(gym);
+  if (isOpen === null) return null;
+
+  return (
+    <div className="flex items-center gap-2">
+      <Badge
+        className={isOpen
+          ? "bg-green-100 text-green-800 hover:bg-green-100"
+          : "bg-red-100 text-red-800 hover:bg-red-100"}
+      >
+        {isOpen ? "Open now" : "Closed"}
+      </Badge>
+      <span className="flex items-center text-sm text-gray-500">
+        <Clock className="h-3 w-3 mr-1" />
+        Today: {formatTimeRanges(getTodaysHours(gym))}
+      </span>
+    </div>
+  );
+}
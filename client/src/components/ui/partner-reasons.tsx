@@ -0,0 +1,96 @@
+import { ReactNode } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { PartnerBreakdown } from "@shared/schema";
+import { formatDistance } from "@/hooks/use-geolocation";
+import { Activity, Calendar, Dumbbell, Heart, MapPin, Target } from "lucide-react";
+
+interface PartnerReasonsProps {
+  breakdown: PartnerBreakdown;
+}
+
+interface Reason {
+  icon: ReactNode;
+  text: string;
+  points: number;
+}
+
+// Turn a partner score breakdown into readable reasons, skipping factors that didn't apply
+function getReasons(breakdown: PartnerBreakdown): Reason[] {
+  const reasons: Reason[] = [];
+  const { goals, preferences, gyms, age, distance, activity } = breakdown;
+
+  if (goals.shared.length > 0) {
+    reasons.push({
+      icon: <Target className="h-4 w-4" />,
+      text: `Shares your goals: ${goals.shared.join(", ")}`,
+      points: goals.points,
+    });
+  }
+
+  if (preferences.shared.length > 0) {
+    reasons.push({
+      icon: <Heart className="h-4 w-4" />,
+      text: `Also looks for ${preferences.shared.join(", ")}`,
+      points: preferences.points,
+    });
+  }
+
+  if (gyms.shared.length > 0) {
+    reasons.push({
+      icon: <Dumbbell className="h-4 w-4" />,
+      text: `Saved the same ${gyms.shared.length === 1 ? "gym" : "gyms"}: ${gyms.shared.map(gym => gym.name).join(", ")}`,
+      points: gyms.points,
+    });
+  }
+
+  if (age.points > 0 && age.band) {
+    reasons.push({
+      icon: <Calendar className="h-4 w-4" />,
+      text: age.sameBand ? `Same age group (${age.band})` : `Similar age group (${age.band})`,
+      points: age.points,
+    });
+  }
+
+  if (distance.distanceKm !== null) {
+    reasons.push({
+      icon: <MapPin className="h-4 w-4" />,
+      text: `Their gyms are ${formatDistance(distance.distanceKm)} from yours`,
+      points: distance.points,
+    });
+  }
+
+  if (activity.lastActiveAt) {
+    reasons.push({
+      icon: <Activity className="h-4 w-4" />,
+      text: `Active ${formatDistanceToNow(new Date(activity.lastActiveAt), { addSuffix: true })}`,
+      points: activity.points,
+    });
+  }
+
+  return reasons;
+}
+
+// Why a member was suggested as a workout partner
+export function PartnerReasons({ breakdown }: PartnerReasonsProps) {
+  const reasons = getReasons(breakdown);
+
+  if (reasons.length === 0) {
+    return (
+      <p className="text-sm text-gray-500">
+        Add fitness goals, gym preferences and saved gyms to your profile for better suggestions.
+      </p>
+    );
+  }
+
+  return (
+    <ul className="space-y-2">
+      {reasons.map((reason, index) => (
+        <li key={index} className="flex items-start gap-2 text-sm text-gray-700">
+          <span className="mt-0.5 text-gray-500">{reason.icon}</span>
+          <span className="flex-1">{reason.text}</span>
+          <span className="font-medium text-green-700">+{Math.round(reason.points)}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,170 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { REPORT_REASONS, ReportReason } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useBlockUser } from "@/hooks/use-blocks";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2 } from "lucide-react";
+
+export const REPORT_REASON_LABELS: Record<ReportReason, string> = {
+  spam: "Spam or scam",
+  harassment: "Harassment or bullying",
+  inappropriate_content: "Inappropriate content",
+  fake_profile: "Fake profile",
+  other: "Something else",
+};
+
+export interface ReportTarget {
+  user: { id: number; name: string };
+  // A message they sent, quoted in the report for moderators
+  message?: { id: number; content: string };
+}
+
+interface ReportUserDialogProps {
+  target: ReportTarget | null;
+  onClose: () => void;
+  // Called after the reporter also chose to block the user
+  onBlocked?: () => void;
+}
+
+// Report a member to the moderators, optionally blocking them at the same time
+export function ReportUserDialog({ target, onClose, onBlocked }: ReportUserDialogProps) {
+  const { toast } = useToast();
+  const [reason, setReason] = useState<ReportReason | "">("");
+  const [details, setDetails] = useState("");
+  const [alsoBlock, setAlsoBlock] = useState(false);
+  const blockMutation = useBlockUser(onBlocked);
+
+  const reset = () => {
+    setReason("");
+    setDetails("");
+    setAlsoBlock(false);
+  };
+
+  const reportMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/reports", {
+        reportedUserId: target!.user.id,
+        reason,
+        details: details.trim() || null,
+        messageId: target!.message?.id ?? null,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Report sent",
+        description: "Thanks for letting us know. A moderator will review it.",
+      });
+      if (alsoBlock) {
+        blockMutation.mutate(target!.user.id);
+      }
+      reset();
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to send report: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      reset();
+      onClose();
+    }
+  };
+
+  return (
+    <Dialog open={!!target} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Report {target?.user.name}</DialogTitle>
+          <DialogDescription>
+            Reports are private. The member won't know who reported them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {target?.message && (
+            <blockquote className="border-l-4 border-gray-200 pl-3 text-sm text-gray-600 italic line-clamp-3">
+              {target.message.content}
+            </blockquote>
+          )}
+
+          <div className="space-y-2">
+            <Label>Reason</Label>
+            <Select value={reason} onValueChange={(value) => setReason(value as ReportReason)}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a reason" />
+              </SelectTrigger>
+              <SelectContent>
+                {REPORT_REASONS.map(value => (
+                  <SelectItem key={value} value={value}>
+                    {REPORT_REASON_LABELS[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="report-details">Details (optional)</Label>
+            <Textarea
+              id="report-details"
+              placeholder="Tell us what happened"
+              maxLength={1000}
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+            />
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="report-block"
+              checked={alsoBlock}
+              onCheckedChange={(checked) => setAlsoBlock(checked === true)}
+            />
+            <Label htmlFor="report-block">Also block {target?.user.name}</Label>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={() => reportMutation.mutate()}
+            disabled={!reason || reportMutation.isPending}
+          >
+            {reportMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+            Send Report
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -4,7 +4,7 @@ import {
   useMutation,
   UseMutationResult,
 } from "@tanstack/react-query";
-import { RegisterData, LoginData, User } from "@shared/schema";
+import { RegisterData, LoginData, User, TwoFactorChallenge, TwoFactorCode } from "@shared/schema";
 import { getQueryFn, apiRequest, queryClient } from "../lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 
@@ -12,7 +12,9 @@ type AuthContextType = {
   user: User | null;
   isLoading: boolean;
   error: Error | null;
-  loginMutation: UseMutationResult<User, Error, LoginData>;
+  // Resolves to a challenge instead of the user when the account has 2FA on
+  loginMutation: UseMutationResult<User | TwoFactorChallenge, Error, LoginData>;
+  twoFactorLoginMutation: UseMutationResult<User, Error, TwoFactorCode>;
   logoutMutation: UseMutationResult<void, Error, void>;
   registerMutation: UseMutationResult<User, Error, RegisterData>;
   updateProfileMutation: UseMutationResult<User, Error, Partial<User>>;
@@ -36,6 +38,31 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       const res = await apiRequest("POST", "/api/login", credentials);
       return await res.json();
     },
+    onSuccess: (result: User | TwoFactorChallenge) => {
+      // The auth page asks for the code and finishes with twoFactorLoginMutation
+      if ("twoFactorRequired" in result) return;
+      
+      const user = result;
+      queryClient.setQueryData(["/api/user"], user);
+      toast({
+        title: "Welcome back!",
+        description: `You are now logged in as ${user.name}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Login failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const twoFactorLoginMutation = useMutation({
+    mutationFn: async (code: TwoFactorCode) => {
+      const res = await apiRequest("POST", "/api/login/2fa", code);
+      return await res.json();
+    },
     onSuccess: (user: User) => {
       queryClient.setQueryData(["/api/user"], user);
       toast({
@@ -61,7 +88,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       queryClient.setQueryData(["/api/user"], user);
       toast({
         title: "Account created!",
-        description: "Your account has been successfully created.",
+        description: "We've emailed you a link to confirm your email address.",
       });
     },
     onError: (error: Error) => {
@@ -149,7 +176,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       
       // Do NOT force a refetch as it can cause issues with timing
       // and potentially override our local changes
-      
+
+      // Match scores depend on goals, preferences and budget
+      queryClient.invalidateQueries({ queryKey: ["/api/matches"] });
+
       toast({
         title: "Profile updated",
         description: "Your profile has been successfully updated.",
@@ -172,6 +202,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         isLoading,
         error,
         loginMutation,
+        twoFactorLoginMutation,
         logoutMutation,
         registerMutation,
         updateProfileMutation,
@@ -0,0 +1,65 @@
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { conversationsQueryKey } from "@/hooks/use-websocket";
+
+export const blocksQueryKey = ["/api/blocks"];
+
+// Everything a block or unblock changes: suggestions, matches and the inbox
+function invalidateBlockedContent() {
+  queryClient.invalidateQueries({ queryKey: blocksQueryKey });
+  queryClient.invalidateQueries({ queryKey: ["/api/users/recommendations"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/user-matches"] });
+  queryClient.invalidateQueries({ queryKey: conversationsQueryKey });
+}
+
+// Block a member; they disappear from suggestions and any match or conversation ends
+export function useBlockUser(onBlocked?: () => void) {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (userId: number) => {
+      const res = await apiRequest("POST", "/api/blocks", { userId });
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateBlockedContent();
+      toast({
+        title: "User blocked",
+        description: "You won't see each other in suggestions or messages",
+      });
+      onBlocked?.();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to block user: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+export function useUnblockUser() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (userId: number) => {
+      await apiRequest("DELETE", `/api/blocks/${userId}`);
+    },
+    onSuccess: () => {
+      invalidateBlockedContent();
+      toast({
+        title: "User unblocked",
+        description: "They can find and contact you again",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to unblock user: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+}
@@ -0,0 +1,13 @@
+import { useEffect, useState } from "react";
+
+// The value once it has stopped changing for delayMs, e.g. to search as the user types
+export function useDebouncedValue<T>(value: T, delayMs: number = 300): T {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delayMs);
+    return () => clearTimeout(timer);
+  }, [value, delayMs]);
+
+  return debounced;
+}
@@ -0,0 +1,57 @@
+import { useState, useEffect } from "react";
+
+type GeolocationState = {
+  position: { lat: number; lng: number } | null;
+  error: string | null;
+  isLoading: boolean;
+};
+
+// Ask the browser for the user's current position once
+export function useGeolocation(enabled: boolean = true) {
+  const [state, setState] = useState<GeolocationState>({
+    position: null,
+    error: null,
+    isLoading: enabled,
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    if (!("geolocation" in navigator)) {
+      setState({ position: null, error: "Location is not supported by this browser", isLoading: false });
+      return;
+    }
+
+    let cancelled = false;
+
+    navigator.geolocation.getCurrentPosition(
+      (pos) => {
+        if (cancelled) return;
+        setState({
+          position: { lat: pos.coords.latitude, lng: pos.coords.longitude },
+          error: null,
+          isLoading: false,
+        });
+      },
+      (err) => {
+        if (cancelled) return;
+        setState({ position: null, error: err.message || "Unable to get your location", isLoading: false });
+      },
+      { maximumAge: 5 * 60 * 1000, timeout: 10000 }
+    );
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled]);
+
+  return state;
+}
+
+// Format a distance in km for display, e.g. "850 m" or "3.2 km"
+export function formatDistance(distanceKm: number) {
+  if (distanceKm < 1) {
+    return `${Math.round(distanceKm * 1000)} m`;
+  }
+  return `${distanceKm.toFixed(1)} km`;
+}
@@ -0,0 +1,63 @@
+import { useInfiniteQuery, keepPreviousData } from "@tanstack/react-query";
+import { GymSearchPage } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+
+export type GymSearchSort = "rating" | "distance" | "newest" | "match" | "price";
+
+export interface GymSearchParams {
+  q?: string;
+  amenities?: number[]; // amenity IDs
+  minRating?: number;
+  openNow?: boolean;
+  near?: { lat: number; lng: number; radiusKm: number };
+  managed?: boolean; // only the gyms the signed-in manager looks after
+  saved?: boolean; // only the signed-in user's saved gyms
+  sort?: GymSearchSort;
+  maxPrice?: number;
+  limit?: number;
+}
+
+function toSearchParams(params: GymSearchParams): URLSearchParams {
+  const searchParams = new URLSearchParams();
+  if (params.q?.trim()) searchParams.set("q", params.q.trim());
+  for (const amenity of params.amenities ?? []) searchParams.append("amenity", String(amenity));
+  if (params.minRating !== undefined) searchParams.set("minRating", String(params.minRating));
+  if (params.openNow) searchParams.set("openNow", "true");
+  if (params.near) {
+    searchParams.set("lat", String(params.near.lat));
+    searchParams.set("lng", String(params.near.lng));
+    searchParams.set("radius", String(params.near.radiusKm));
+  }
+  if (params.managed) searchParams.set("managed", "true");
+  if (params.saved) searchParams.set("saved", "true");
+  if (params.sort) searchParams.set("sort", params.sort);
+  if (params.maxPrice !== undefined) searchParams.set("maxPrice", String(params.maxPrice));
+  if (params.limit !== undefined) searchParams.set("limit", String(params.limit));
+  return searchParams;
+}
+
+// Pages of GET /api/gyms/search. Keyed under "/api/gyms" so anything that
+// invalidates the gym list refreshes searches too.
+export function useGymSearch(params: GymSearchParams, enabled: boolean = true) {
+  const query = useInfiniteQuery({
+    queryKey: ["/api/gyms", "search", params],
+    queryFn: async ({ pageParam }): Promise<GymSearchPage> => {
+      const searchParams = toSearchParams(params);
+      if (pageParam) searchParams.set("cursor", pageParam);
+      const res = await apiRequest("GET", `/api/gyms/search?${searchParams}`);
+      return await res.json();
+    },
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => (lastPage.hasMore && lastPage.nextCursor !== null ? lastPage.nextCursor : undefined),
+    placeholderData: keepPreviousData,
+    enabled,
+  });
+
+  const firstPage = query.data?.pages[0];
+  return {
+    ...query,
+    gyms: query.data?.pages.flatMap(page => page.gyms) ?? [],
+    total: firstPage?.total ?? 0,
+    facets: firstPage?.facets ?? [],
+  };
+}
@@ -0,0 +1,79 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { JobStatus, JobSummary } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+export const jobsQueryKey = ["/api/jobs"];
+export const jobQueryKey = (jobId: number) => [`/api/jobs/${jobId}`];
+
+// Updates normally arrive over the websocket as "job_update"; polling covers a dropped connection
+const ACTIVE_JOB_POLL_MS = 3000;
+
+export const JOB_STATUS_LABELS: Record<JobStatus, string> = {
+  queued: "Queued",
+  running: "Running",
+  succeeded: "Done",
+  failed: "Failed",
+  cancelled: "Cancelled",
+};
+
+export function isJobActive(job: JobSummary | undefined): boolean {
+  return job?.status === "queued" || job?.status === "running";
+}
+
+// Store a job pushed over the websocket or returned by a mutation
+export function applyJobUpdate(job: JobSummary) {
+  if (job.type === "gym.import" && job.status === "succeeded") {
+    queryClient.invalidateQueries({ queryKey: ["/api/gyms"] });
+  }
+  // Renames and merges change the amenity list and the amenity names on gyms
+  if ((job.type === "amenity.rename" || job.type === "amenity.merge") && job.status === "succeeded") {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/amenities"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/amenities"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/gyms"] });
+  }
+
+  queryClient.setQueryData(jobQueryKey(job.id), job);
+  queryClient.setQueryData<JobSummary[]>(jobsQueryKey, (current) => {
+    if (!current) return current;
+    return current.some(existing => existing.id === job.id)
+      ? current.map(existing => existing.id === job.id ? job : existing)
+      : [job, ...current];
+  });
+}
+
+// Follow one job until it finishes
+export function useJob(jobId: number | null) {
+  return useQuery<JobSummary>({
+    queryKey: jobQueryKey(jobId ?? 0),
+    enabled: jobId !== null,
+    refetchInterval: (query) => isJobActive(query.state.data) ? ACTIVE_JOB_POLL_MS : false,
+  });
+}
+
+// The current user's recent jobs, newest first
+export function useJobs() {
+  return useQuery<JobSummary[]>({
+    queryKey: jobsQueryKey,
+    refetchInterval: (query) => query.state.data?.some(isJobActive) ? ACTIVE_JOB_POLL_MS : false,
+  });
+}
+
+export function useCancelJob() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (jobId: number) => {
+      const res = await apiRequest("POST", `/api/jobs/${jobId}/cancel`);
+      return await res.json() as JobSummary;
+    },
+    onSuccess: applyJobUpdate,
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to cancel job: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+}
@@ -1,72 +1,173 @@
-import { useState, useEffect, useRef, useCallback } from "react";
+import { createContext, ReactNode, useContext, useState, useEffect, useRef, useCallback } from "react";
+import { InfiniteData, useQuery } from "@tanstack/react-query";
+import { Message, MessageStatus } from "@shared/schema";
 import { useAuth } from "./use-auth";
-import { queryClient } from "@/lib/queryClient";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "./use-toast";
+import { applyJobUpdate } from "./use-jobs";
 
 type WebSocketMessage = {
   type: string;
   [key: string]: any;
 };
 
-export function useWebSocket() {
+// A message as held in the thread cache; optimistic sends carry a clientId
+// until the server confirms them with "message_sent"
+export type ChatMessage = Message & {
+  clientId?: string;
+  pending?: boolean;
+  failed?: boolean;
+};
+
+// A page of message history from GET /api/messages/:userId, oldest first
+export type ThreadPage = {
+  messages: ChatMessage[];
+  nextCursor: number | null;
+  hasMore: boolean;
+};
+
+// Thread cache: pages[0] is the newest page, later pages are older history
+export type ThreadData = InfiniteData<ThreadPage, number | undefined>;
+
+type WebSocketContextType = {
+  isConnected: boolean;
+  isConnecting: boolean;
+  connect: () => void;
+  disconnect: () => void;
+  sendChatMessage: (receiverId: number, content: string) => boolean;
+  markMessagesAsRead: (senderId: number) => Promise<void>;
+  sendTyping: (receiverId: number, isTyping: boolean) => void;
+  isUserTyping: (userId: number) => boolean;
+  isUserOnline: (userId: number) => boolean;
+};
+
+type Presence = {
+  online: number[];
+};
+
+// Query keys shared with the messages page
+export const conversationsQueryKey = ["/api/conversations"];
+export const unreadCountQueryKey = ["/api/messages/unread/count"];
+export const threadQueryKey = (otherUserId: number) => [`/api/messages/${otherUserId}`];
+export const presenceQueryKey = ["/api/presence"];
+
+const RECONNECT_DELAY_MS = 5000;
+
+// Close codes the server uses when the session is no longer allowed to connect
+const SESSION_CLOSE_CODES = [4001, 4003];
+
+// Clear a partner's typing state if their typing_stop never arrives
+const TYPING_TIMEOUT_MS = 6000;
+
+export const WebSocketContext = createContext<WebSocketContextType | null>(null);
+
+export function WebSocketProvider({ children }: { children: ReactNode }) {
   const { user } = useAuth();
   const [isConnected, setIsConnected] = useState(false);
   const [isConnecting, setIsConnecting] = useState(false);
   const socketRef = useRef<WebSocket | null>(null);
+  const reconnectTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const shouldReconnectRef = useRef(false);
+  const handleMessageRef = useRef<(data: WebSocketMessage) => void>(() => {});
+  const [typingUserIds, setTypingUserIds] = useState<number[]>([]);
+  const typingTimersRef = useRef(new Map<number, ReturnType<typeof setTimeout>>());
   const { toast } = useToast();
-  
+
+  // Which accepted matches are online; kept current by presence events
+  const { data: presence } = useQuery<Presence>({
+    queryKey: presenceQueryKey,
+    enabled: !!user,
+  });
+
+  // Update each page of a cached thread if it has been loaded; new messages
+  // belong on the newest page
+  const updateThread = useCallback((
+    otherUserId: number,
+    update: (messages: ChatMessage[], isNewestPage: boolean) => ChatMessage[]
+  ) => {
+    queryClient.setQueryData<ThreadData>(threadQueryKey(otherUserId), (data) =>
+      data
+        ? {
+            ...data,
+            pages: data.pages.map((page, index) => ({ ...page, messages: update(page.messages, index === 0) })),
+          }
+        : data
+    );
+  }, []);
+
+  const setUserTyping = useCallback((userId: number, isTyping: boolean) => {
+    const timers = typingTimersRef.current;
+    const existing = timers.get(userId);
+    if (existing) {
+      clearTimeout(existing);
+      timers.delete(userId);
+    }
+
+    if (isTyping) {
+      timers.set(userId, setTimeout(() => setUserTyping(userId, false), TYPING_TIMEOUT_MS));
+    }
+
+    setTypingUserIds((current) => {
+      const others = current.filter(id => id !== userId);
+      return isTyping ? [...others, userId] : others;
+    });
+  }, []);
+
   const connect = useCallback(() => {
-    if (!user || isConnecting || isConnected || socketRef.current) {
+    if (!user || socketRef.current) {
       return;
     }
-    
+
     try {
       setIsConnecting(true);
-      
-      // Create WebSocket connection
+      shouldReconnectRef.current = true;
+
+      // Create WebSocket connection; the server identifies us from the session cookie
       const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
-      const wsUrl = `${protocol}//${window.location.host}/ws?userId=${user.id}`;
+      const wsUrl = `${protocol}//${window.location.host}/ws`;
       const socket = new WebSocket(wsUrl);
-      
+
       socket.onopen = () => {
         setIsConnected(true);
         setIsConnecting(false);
         console.log("WebSocket connection established");
+
+        // Presence may have changed while we were disconnected
+        queryClient.invalidateQueries({ queryKey: presenceQueryKey });
       };
-      
+
       socket.onclose = (event) => {
         setIsConnected(false);
         setIsConnecting(false);
-        socketRef.current = null;
-        
+        if (socketRef.current === socket) {
+          socketRef.current = null;
+        }
+
         console.log(`WebSocket connection closed: ${event.reason || "Unknown reason"}`);
-        
-        // Try to reconnect after a delay, but only if the user is still logged in
-        if (user) {
-          setTimeout(() => {
+
+        // Try to reconnect after a delay, unless we disconnected on purpose
+        // or the server closed us for logging out or being banned
+        if (shouldReconnectRef.current && !SESSION_CLOSE_CODES.includes(event.code)) {
+          reconnectTimerRef.current = setTimeout(() => {
+            reconnectTimerRef.current = null;
             connect();
-          }, 5000);
+          }, RECONNECT_DELAY_MS);
         }
       };
-      
+
       socket.onerror = (error) => {
         console.error("WebSocket error:", error);
-        toast({
-          title: "Connection Error",
-          description: "Failed to connect to messaging service. Please try again.",
-          variant: "destructive",
-        });
       };
-      
+
       socket.onmessage = (event) => {
         try {
           const data = JSON.parse(event.data);
-          handleMessage(data);
+          handleMessageRef.current(data);
         } catch (error) {
           console.error("Failed to parse WebSocket message:", error);
         }
       };
-      
+
       socketRef.current = socket;
     } catch (error) {
       setIsConnecting(false);
@@ -77,16 +178,29 @@ export function useWebSocket() {
         variant: "destructive",
       });
     }
-  }, [user, isConnecting, isConnected, toast]);
-  
+  }, [user, toast]);
+
   const disconnect = useCallback(() => {
+    shouldReconnectRef.current = false;
+
+    if (reconnectTimerRef.current) {
+      clearTimeout(reconnectTimerRef.current);
+      reconnectTimerRef.current = null;
+    }
+
     if (socketRef.current) {
       socketRef.current.close();
       socketRef.current = null;
-      setIsConnected(false);
     }
+
+    typingTimersRef.current.forEach(timer => clearTimeout(timer));
+    typingTimersRef.current.clear();
+    setTypingUserIds([]);
+
+    setIsConnected(false);
+    setIsConnecting(false);
   }, []);
-  
+
   const sendMessage = useCallback((message: WebSocketMessage) => {
     if (!socketRef.current || socketRef.current.readyState !== WebSocket.OPEN) {
       toast({
@@ -96,7 +210,7 @@ export function useWebSocket() {
       });
       return false;
     }
-    
+
     try {
       socketRef.current.send(JSON.stringify(message));
       return true;
@@ -110,45 +224,114 @@ export function useWebSocket() {
       return false;
     }
   }, [toast]);
-  
+
   // Handle different types of incoming messages
   const handleMessage = useCallback((data: WebSocketMessage) => {
     switch (data.type) {
-      case "new_message":
-        // A new message received
-        // Invalidate cache to refresh the messages
-        queryClient.invalidateQueries({
-          queryKey: ["/api/messages", data.message.senderId]
-        });
-        
-        // Invalidate unread count
-        queryClient.invalidateQueries({
-          queryKey: ["/api/messages/unread/count"]
-        });
-        
+      case "new_message": {
+        // A new message received - append it to the open thread
+        const message: ChatMessage = data.message;
+        setUserTyping(message.senderId, false);
+        updateThread(message.senderId, (messages, isNewestPage) =>
+          !isNewestPage || messages.some(m => m.id === message.id) ? messages : [...messages, message]
+        );
+
+        queryClient.invalidateQueries({ queryKey: unreadCountQueryKey });
+        queryClient.invalidateQueries({ queryKey: conversationsQueryKey });
+
         // Show notification if user is not in the chat
         const currentPath = window.location.pathname;
-        if (!currentPath.includes(`/messages/${data.message.senderId}`)) {
+        if (!currentPath.includes(`/messages/${message.senderId}`)) {
           toast({
             title: "New Message",
             description: "You have received a new message",
           });
         }
         break;
-        
-      case "message_sent":
-        // Confirmation that a message was sent
-        // Invalidate cache to refresh the messages
-        queryClient.invalidateQueries({
-          queryKey: ["/api/messages", data.message.receiverId]
+      }
+
+      case "message_sent": {
+        // Confirmation that a message was stored - swap out the optimistic copy
+        const message: ChatMessage = data.message;
+        updateThread(message.receiverId, (messages, isNewestPage) => {
+          if (!isNewestPage) return messages;
+          const withoutDuplicates = messages.filter(m => m.id !== message.id || m.pending);
+          const index = withoutDuplicates.findIndex(m => m.pending && m.clientId === data.clientId);
+          if (index === -1) {
+            return [...withoutDuplicates, message];
+          }
+          const next = [...withoutDuplicates];
+          next[index] = message;
+          return next;
+        });
+        queryClient.invalidateQueries({ queryKey: conversationsQueryKey });
+        break;
+      }
+
+      case "messages_read": {
+        // We read their messages (possibly on another device) - update the
+        // thread and refresh unread badges
+        updateThread(data.senderId, (messages) =>
+          messages.map(m => (m.senderId === data.senderId ? { ...m, read: true, status: "read" } : m))
+        );
+        queryClient.invalidateQueries({ queryKey: unreadCountQueryKey });
+        queryClient.invalidateQueries({ queryKey: conversationsQueryKey });
+        break;
+      }
+
+      case "message_status": {
+        // Our messages were delivered to or read by the receiver
+        const status: MessageStatus = data.status;
+        const ids = new Set<number>(data.messageIds);
+        updateThread(data.receiverId, (messages) =>
+          messages.map(m => {
+            if (!ids.has(m.id)) return m;
+            return status === "read"
+              ? { ...m, status, read: true, readAt: data.at, deliveredAt: m.deliveredAt ?? data.at }
+              : { ...m, status, deliveredAt: data.at };
+          })
+        );
+        break;
+      }
+
+      case "typing_start":
+      case "typing_stop":
+        setUserTyping(data.senderId, data.type === "typing_start");
+        break;
+
+      case "user_online":
+      case "user_offline": {
+        // A match connected or disconnected
+        const online = data.type === "user_online";
+        queryClient.setQueryData<Presence>(presenceQueryKey, (current) => {
+          const others = (current?.online ?? []).filter(id => id !== data.userId);
+          return { online: online ? [...others, data.userId] : others };
+        });
+        break;
+      }
+
+      case "account_warning":
+        // A moderator warned this user after reviewing a report
+        toast({
+          title: "Warning from the moderators",
+          description: data.message,
+          variant: "destructive",
         });
         break;
-        
-      case "messages_read":
-        // Confirmation that messages were marked as read
+
+      case "job_update":
+        // One of our background jobs was queued, moved along or finished
+        applyJobUpdate(data.job);
         break;
-        
+
       case "error":
+        // A failed send echoes our clientId so the optimistic copy can be flagged
+        if (data.clientId && data.receiverId) {
+          updateThread(data.receiverId, (messages) =>
+            messages.map(m => (m.clientId === data.clientId ? { ...m, pending: false, failed: true } : m))
+          );
+        }
+
         // Error from the server
         toast({
           title: "Error",
@@ -156,24 +339,26 @@ export function useWebSocket() {
           variant: "destructive",
         });
         break;
-        
+
       default:
         console.log("Unknown message type:", data.type);
     }
-  }, [toast]);
-  
-  // Connect to WebSocket when user logs in
+  }, [user, toast, updateThread, setUserTyping]);
+
+  handleMessageRef.current = handleMessage;
+
+  // Connect to WebSocket when user logs in, disconnect when they log out
   useEffect(() => {
-    if (user && !isConnected && !isConnecting && !socketRef.current) {
+    if (user) {
       connect();
     }
-    
+
     return () => {
       disconnect();
     };
-  }, [user, isConnected, isConnecting, connect, disconnect]);
-  
-  // Send a message to another user
+  }, [user?.id, connect, disconnect]);
+
+  // Send a message to another user, showing it in the thread straight away
   const sendChatMessage = useCallback((receiverId: number, content: string) => {
     if (!user) {
       toast({
@@ -183,33 +368,93 @@ export function useWebSocket() {
       });
       return false;
     }
-    
-    return sendMessage({
+
+    const clientId = `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+    const sent = sendMessage({
       type: "send_message",
       senderId: user.id,
       receiverId,
       content,
+      clientId,
     });
-  }, [user, sendMessage, toast]);
-  
-  // Mark messages from a user as read
-  const markMessagesAsRead = useCallback((senderId: number) => {
-    if (!user) {
-      return false;
+
+    if (sent) {
+      const optimisticMessage: ChatMessage = {
+        id: -Date.now(),
+        senderId: user.id,
+        receiverId,
+        content,
+        read: false,
+        status: "sent",
+        deliveredAt: null,
+        readAt: null,
+        createdAt: new Date(),
+        clientId,
+        pending: true,
+      };
+      updateThread(receiverId, (messages, isNewestPage) =>
+        isNewestPage ? [...messages, optimisticMessage] : messages
+      );
     }
-    
-    return sendMessage({
-      type: "read_messages",
-      senderId,
-    });
-  }, [user, sendMessage]);
-  
-  return {
-    isConnected,
-    isConnecting,
-    connect,
-    disconnect,
-    sendChatMessage,
-    markMessagesAsRead,
-  };
-}
\ No newline at end of file
+
+    return sent;
+  }, [user, sendMessage, toast, updateThread]);
+
+  // Mark messages from a user as read. The server echoes "messages_read" to our
+  // sockets; the local update covers the case where we aren't connected.
+  const markMessagesAsRead = useCallback(async (senderId: number) => {
+    try {
+      await apiRequest("POST", `/api/messages/${senderId}/read`);
+      handleMessageRef.current({ type: "messages_read", senderId });
+    } catch (error) {
+      console.error("Failed to mark messages as read:", error);
+    }
+  }, []);
+
+  // Tell a conversation partner we started or stopped typing
+  const sendTyping = useCallback((receiverId: number, isTyping: boolean) => {
+    if (!socketRef.current || socketRef.current.readyState !== WebSocket.OPEN) {
+      return;
+    }
+
+    socketRef.current.send(JSON.stringify({
+      type: isTyping ? "typing_start" : "typing_stop",
+      receiverId,
+    }));
+  }, []);
+
+  const isUserTyping = useCallback((userId: number) => {
+    return typingUserIds.includes(userId);
+  }, [typingUserIds]);
+
+  const isUserOnline = useCallback((userId: number) => {
+    return presence?.online.includes(userId) ?? false;
+  }, [presence]);
+
+  return (
+    <WebSocketContext.Provider
+      value={{
+        isConnected,
+        isConnecting,
+        connect,
+        disconnect,
+        sendChatMessage,
+        markMessagesAsRead,
+        sendTyping,
+        isUserTyping,
+        isUserOnline,
+      }}
+    >
+      {children}
+    </WebSocketContext.Provider>
+  );
+}
+
+export function useWebSocket() {
+  const context = useContext(WebSocketContext);
+  if (!context) {
+    throw new Error("useWebSocket must be used within a WebSocketProvider");
+  }
+  return context;
+}
@@ -4,3 +4,8 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Format an amount in an ISO 4217 currency, e.g. formatPrice(29.99, "USD") -> "$29.99"
+export function formatPrice(amount: number, currency: string) {
+  return new Intl.NumberFormat(undefined, { style: "currency", currency }).format(amount)
+}
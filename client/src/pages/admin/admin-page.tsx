@@ -1,13 +1,23 @@
 import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
-import { useLocation, Redirect } from "wouter";
+import { hasPermission, isStaff, type Permission } from "@shared/permissions";
+import { useLocation, Redirect, Link } from "wouter";
+import { TwoFactorStatus } from "@shared/schema";
+import { twoFactorStatusQueryKey } from "@/components/auth/two-factor-settings";
 import Navbar from "@/components/layout/navbar";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
 import UsersManagement from "./users-management";
 import GymsManagement from "./gyms-management";
-import { Dumbbell, FileDown, Loader2, Users, Building, BarChart3 } from "lucide-react";
+import ReportsManagement from "./reports-management";
+import ClaimsManagement from "./claims-management";
+import AuditLog from "./audit-log";
+import LoginAttempts from "./login-attempts";
+import PasswordHashReport from "./password-hash-report";
+import AmenitiesManagement from "./amenities-management";
+import { Dumbbell, FileDown, Loader2, Users, Building, BarChart3, Flag, History, BadgeCheck, ShieldAlert, KeyRound, Tag, type LucideIcon } from "lucide-react";
 import { Button } from "@/components/ui/button";
 
 // Sample data for demo charts
@@ -28,13 +38,34 @@ const gymMatchesData = [
   { name: "UrbanFit Gym", matches: 50 },
 ];
 
+// Each tab is shown only to roles with its permission
+const ADMIN_TABS: { value: string; label: string; icon: LucideIcon; permission: Permission }[] = [
+  { value: "dashboard", label: "Dashboard", icon: BarChart3, permission: "stats:view" },
+  { value: "gyms", label: "Gyms Management", icon: Dumbbell, permission: "gyms:update" },
+  { value: "users", label: "User Management", icon: Users, permission: "users:manage" },
+  { value: "amenities", label: "Amenities", icon: Tag, permission: "amenities:manage" },
+  { value: "claims", label: "Claims", icon: BadgeCheck, permission: "gyms:review_claims" },
+  { value: "reports", label: "Reports", icon: Flag, permission: "reports:moderate" },
+  { value: "audit", label: "Audit", icon: History, permission: "audit:view" },
+  { value: "security", label: "Security", icon: KeyRound, permission: "security:manage" },
+];
+
+// Full class names so Tailwind keeps them
+const TAB_GRID_COLS = ["grid-cols-1", "grid-cols-1", "grid-cols-2", "grid-cols-3", "grid-cols-4", "grid-cols-5", "grid-cols-6", "grid-cols-7", "grid-cols-8"];
+
 export default function AdminPage() {
   const { user } = useAuth();
   const [, setLocation] = useLocation();
   const [activeTab, setActiveTab] = useState("dashboard");
+  
+  // The admin APIs refuse staff without 2FA once the site requires it
+  const { data: twoFactorStatus } = useQuery<TwoFactorStatus>({
+    queryKey: twoFactorStatusQueryKey,
+    enabled: isStaff(user),
+  });
 
-  // Redirect non-admin users
-  if (user && !user.isAdmin) {
+  // Redirect users without any staff permissions
+  if (user && !isStaff(user)) {
     return <Redirect to="/" />;
   }
 
@@ -46,6 +77,9 @@ export default function AdminPage() {
     );
   }
 
+  const visibleTabs = ADMIN_TABS.filter(tab => hasPermission(user, tab.permission));
+  const currentTab = visibleTabs.some(tab => tab.value === activeTab) ? activeTab : visibleTabs[0].value;
+
   const handleExportData = (type: string) => {
     // In a real app, this would generate and download reports
     console.log(`Exporting ${type} data...`);
@@ -60,20 +94,31 @@ export default function AdminPage() {
           <h1 className="text-2xl font-bold">Admin Dashboard</h1>
         </div>
 
-        <Tabs value={activeTab} onValueChange={setActiveTab}>
-          <TabsList className="grid w-full grid-cols-3 mb-8">
-            <TabsTrigger value="dashboard" className="flex items-center">
-              <BarChart3 className="h-4 w-4 mr-2" />
-              Dashboard
-            </TabsTrigger>
-            <TabsTrigger value="gyms" className="flex items-center">
-              <Dumbbell className="h-4 w-4 mr-2" />
-              Gyms Management
-            </TabsTrigger>
-            <TabsTrigger value="users" className="flex items-center">
-              <Users className="h-4 w-4 mr-2" />
-              User Management
-            </TabsTrigger>
+        {twoFactorStatus?.required && !twoFactorStatus.enabled ? (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <ShieldAlert className="h-5 w-5 text-orange-500" /> Two-factor authentication required
+              </CardTitle>
+              <CardDescription>
+                Staff accounts need two-factor authentication before they can use the admin tools.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button asChild>
+                <Link href="/profile">Set it up on your profile</Link>
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+        <Tabs value={currentTab} onValueChange={setActiveTab}>
+          <TabsList className={`grid w-full ${TAB_GRID_COLS[visibleTabs.length]} mb-8`}>
+            {visibleTabs.map(({ value, label, icon: Icon }) => (
+              <TabsTrigger key={value} value={value} className="flex items-center">
+                <Icon className="h-4 w-4 mr-2" />
+                {label}
+              </TabsTrigger>
+            ))}
           </TabsList>
 
           <TabsContent value="dashboard">
@@ -204,7 +249,29 @@ export default function AdminPage() {
           <TabsContent value="users">
             <UsersManagement />
           </TabsContent>
+
+          <TabsContent value="amenities">
+            <AmenitiesManagement />
+          </TabsContent>
+
+          <TabsContent value="claims">
+            <ClaimsManagement />
+          </TabsContent>
+
+          <TabsContent value="reports">
+            <ReportsManagement />
+          </TabsContent>
+
+          <TabsContent value="audit">
+            <AuditLog />
+          </TabsContent>
+
+          <TabsContent value="security">
+            <PasswordHashReport />
+            <LoginAttempts />
+          </TabsContent>
         </Tabs>
+        )}
       </div>
     </div>
   );
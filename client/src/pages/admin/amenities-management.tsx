@@ -0,0 +1,476 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { AMENITY_CATEGORIES, AMENITY_ICONS, AmenityCategory, AmenityWithUsage, JobSummary } from "@shared/schema";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { applyJobUpdate } from "@/hooks/use-jobs";
+
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { AmenityIcon } from "@/components/ui/amenity-icon";
+import { Edit2, GitMerge, Loader2, Plus, Search } from "lucide-react";
+import { BackgroundJobs } from "./background-jobs";
+
+const amenitiesQueryKey = ["/api/admin/amenities"];
+
+const CATEGORY_LABELS: Record<AmenityCategory, string> = {
+  equipment: "Equipment",
+  classes: "Classes",
+  facilities: "Facilities",
+  services: "Services",
+  access: "Access",
+  other: "Other",
+};
+
+// Select items can't have an empty value
+const NO_ICON = "none";
+
+const amenityFormSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  category: z.enum(AMENITY_CATEGORIES),
+  icon: z.string(),
+  synonyms: z.string(), // comma-separated
+});
+
+type AmenityFormValues = z.infer<typeof amenityFormSchema>;
+
+const emptyAmenityForm: AmenityFormValues = { name: "", category: "other", icon: NO_ICON, synonyms: "" };
+
+function toAmenityData(values: AmenityFormValues) {
+  return {
+    name: values.name,
+    category: values.category,
+    icon: values.icon === NO_ICON ? null : values.icon,
+    synonyms: values.synonyms.split(",").map(synonym => synonym.trim()).filter(Boolean),
+  };
+}
+
+// Amenity names typed into gym forms and CSV imports resolve to this list by
+// name or synonym. Names that match nothing are added under "Other" so they
+// can be categorised here or merged into the amenity they duplicate.
+export default function AmenitiesManagement() {
+  const { toast } = useToast();
+  const [searchQuery, setSearchQuery] = useState("");
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [editingAmenity, setEditingAmenity] = useState<AmenityWithUsage | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [isMergeOpen, setIsMergeOpen] = useState(false);
+  const [mergeTargetId, setMergeTargetId] = useState<number | null>(null);
+
+  const { data: amenities = [], isLoading } = useQuery<AmenityWithUsage[]>({
+    queryKey: amenitiesQueryKey,
+  });
+
+  const form = useForm<AmenityFormValues>({
+    resolver: zodResolver(amenityFormSchema),
+    defaultValues: emptyAmenityForm,
+  });
+
+  const onAmenitiesChanged = () => {
+    queryClient.invalidateQueries({ queryKey: amenitiesQueryKey });
+    // Gym amenity names change with renames and merges
+    queryClient.invalidateQueries({ queryKey: ["/api/gyms"] });
+  };
+
+  // A rename updates every gym with the amenity, so the server runs it as a
+  // background job and answers 202 with the job instead of the amenity
+  const saveAmenityMutation = useMutation({
+    mutationFn: async (values: AmenityFormValues) => {
+      const res = editingAmenity
+        ? await apiRequest("PUT", `/api/admin/amenities/${editingAmenity.id}`, toAmenityData(values))
+        : await apiRequest("POST", "/api/admin/amenities", toAmenityData(values));
+      return res.status === 202 ? await res.json() as JobSummary : null;
+    },
+    onSuccess: (job) => {
+      if (job) {
+        applyJobUpdate(job);
+        toast({
+          title: "Rename started",
+          description: "Gyms with this amenity are being updated under Background Jobs",
+        });
+      } else {
+        onAmenitiesChanged();
+        toast({
+          title: "Success",
+          description: editingAmenity ? "Amenity has been updated" : "Amenity has been added",
+        });
+      }
+      closeForm();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to save amenity: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: async ({ targetId, sourceIds }: { targetId: number; sourceIds: number[] }) => {
+      const res = await apiRequest("POST", `/api/admin/amenities/${targetId}/merge`, { sourceIds });
+      return await res.json() as JobSummary;
+    },
+    onSuccess: (job) => {
+      applyJobUpdate(job);
+      toast({
+        title: "Merge started",
+        description: "Gyms with the merged amenities are being updated under Background Jobs",
+      });
+      setSelectedIds([]);
+      closeMerge();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to merge amenities: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openForm = (amenity: AmenityWithUsage | null) => {
+    setEditingAmenity(amenity);
+    form.reset(amenity ? {
+      name: amenity.name,
+      category: amenity.category as AmenityCategory,
+      icon: amenity.icon ?? NO_ICON,
+      synonyms: amenity.synonyms.join(", "),
+    } : emptyAmenityForm);
+    setIsFormOpen(true);
+  };
+
+  const closeForm = () => {
+    setIsFormOpen(false);
+    setEditingAmenity(null);
+    form.reset(emptyAmenityForm);
+  };
+
+  const openMerge = () => {
+    // Default to keeping the most used amenity
+    const selected = amenities.filter(amenity => selectedIds.includes(amenity.id));
+    const mostUsed = selected.reduce((best, amenity) => amenity.gymCount > best.gymCount ? amenity : best);
+    setMergeTargetId(mostUsed.id);
+    setIsMergeOpen(true);
+  };
+
+  const closeMerge = () => {
+    setIsMergeOpen(false);
+    setMergeTargetId(null);
+  };
+
+  const confirmMerge = () => {
+    if (mergeTargetId === null) return;
+    mergeMutation.mutate({
+      targetId: mergeTargetId,
+      sourceIds: selectedIds.filter(id => id !== mergeTargetId),
+    });
+  };
+
+  const toggleSelected = (amenityId: number, checked: boolean) => {
+    setSelectedIds(checked ? [...selectedIds, amenityId] : selectedIds.filter(id => id !== amenityId));
+  };
+
+  const query = searchQuery.trim().toLowerCase();
+  const filteredAmenities = query
+    ? amenities.filter(amenity =>
+        [amenity.name, ...amenity.synonyms].some(name => name.toLowerCase().includes(query)))
+    : amenities;
+  const selectedAmenities = amenities.filter(amenity => selectedIds.includes(amenity.id));
+  const mergeTarget = selectedAmenities.find(amenity => amenity.id === mergeTargetId);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+          <div>
+            <CardTitle>Amenities</CardTitle>
+            <CardDescription>
+              Gym amenities are matched to this list by name or synonym. Merge duplicates to combine them.
+            </CardDescription>
+          </div>
+          <div className="flex flex-col sm:flex-row gap-2 w-full md:w-auto">
+            <div className="relative">
+              <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-gray-500" />
+              <Input
+                placeholder="Search amenities..."
+                className="pl-8 w-full sm:w-64"
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+              />
+            </div>
+            <Button variant="outline" onClick={openMerge} disabled={selectedIds.length < 2}>
+              <GitMerge className="h-4 w-4 mr-2" /> Merge Selected
+            </Button>
+            <Button onClick={() => openForm(null)}>
+              <Plus className="h-4 w-4 mr-2" /> Add Amenity
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : filteredAmenities.length === 0 ? (
+          <div className="text-center py-8">
+            <p className="text-gray-500">No amenities found.</p>
+          </div>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10" />
+                  <TableHead>Amenity</TableHead>
+                  <TableHead>Category</TableHead>
+                  <TableHead>Synonyms</TableHead>
+                  <TableHead className="text-right">Gyms</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredAmenities.map((amenity) => (
+                  <TableRow key={amenity.id}>
+                    <TableCell>
+                      <Checkbox
+                        checked={selectedIds.includes(amenity.id)}
+                        onCheckedChange={(checked) => toggleSelected(amenity.id, checked === true)}
+                        aria-label={`Select ${amenity.name}`}
+                      />
+                    </TableCell>
+                    <TableCell className="font-medium">
+                      <div className="flex items-center">
+                        <AmenityIcon icon={amenity.icon} className="h-4 w-4 mr-2 text-gray-500" />
+                        {amenity.name}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={amenity.category === "other" ? "outline" : "secondary"}>
+                        {CATEGORY_LABELS[amenity.category as AmenityCategory] ?? amenity.category}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="max-w-xs text-sm text-gray-600">
+                      {amenity.synonyms.join(", ")}
+                    </TableCell>
+                    <TableCell className="text-right">{amenity.gymCount}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" onClick={() => openForm(amenity)}>
+                        <Edit2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <BackgroundJobs />
+
+        {/* Add/Edit Amenity Dialog */}
+        <Dialog open={isFormOpen} onOpenChange={(open) => !open && closeForm()}>
+          <DialogContent className="sm:max-w-lg">
+            <DialogHeader>
+              <DialogTitle>{editingAmenity ? "Edit Amenity" : "Add Amenity"}</DialogTitle>
+              <DialogDescription>
+                {editingAmenity
+                  ? "Renaming updates every gym with this amenity and keeps the old name as a synonym."
+                  : "Gyms listing this name or any of its synonyms will get this amenity."}
+              </DialogDescription>
+            </DialogHeader>
+
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit((values) => saveAmenityMutation.mutate(values))} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Name</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Swimming Pool" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="category"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Category</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {AMENITY_CATEGORIES.map(category => (
+                              <SelectItem key={category} value={category}>{CATEGORY_LABELS[category]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="icon"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Icon</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value={NO_ICON}>None</SelectItem>
+                            {AMENITY_ICONS.map(icon => (
+                              <SelectItem key={icon} value={icon}>
+                                <div className="flex items-center">
+                                  <AmenityIcon icon={icon} className="h-4 w-4 mr-2" />
+                                  {icon}
+                                </div>
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="synonyms"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Synonyms</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Pool, Indoor Pool, Lap Pool" {...field} />
+                      </FormControl>
+                      <FormDescription>Separate synonyms with commas. Matching ignores case.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <DialogFooter>
+                  <Button type="button" variant="outline" onClick={closeForm}>
+                    Cancel
+                  </Button>
+                  <Button type="submit" disabled={saveAmenityMutation.isPending}>
+                    {saveAmenityMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                    {editingAmenity ? "Save" : "Add"}
+                  </Button>
+                </DialogFooter>
+              </form>
+            </Form>
+          </DialogContent>
+        </Dialog>
+
+        {/* Merge Amenities Dialog */}
+        <Dialog open={isMergeOpen} onOpenChange={(open) => !open && closeMerge()}>
+          <DialogContent className="sm:max-w-lg">
+            <DialogHeader>
+              <DialogTitle>Merge {selectedAmenities.length} Amenities</DialogTitle>
+              <DialogDescription>
+                Pick the amenity to keep. Gyms with any of the others get it instead, and the
+                others' names become its synonyms.
+              </DialogDescription>
+            </DialogHeader>
+
+            <Select
+              value={mergeTargetId !== null ? String(mergeTargetId) : undefined}
+              onValueChange={(value) => setMergeTargetId(parseInt(value))}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Amenity to keep" />
+              </SelectTrigger>
+              <SelectContent>
+                {selectedAmenities.map(amenity => (
+                  <SelectItem key={amenity.id} value={String(amenity.id)}>
+                    {amenity.name} ({amenity.gymCount} {amenity.gymCount === 1 ? "gym" : "gyms"})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            {mergeTarget && (
+              <p className="text-sm text-gray-600">
+                {selectedAmenities
+                  .filter(amenity => amenity.id !== mergeTarget.id)
+                  .map(amenity => amenity.name)
+                  .join(", ")}{" "}
+                will be merged into <strong>{mergeTarget.name}</strong>.
+              </p>
+            )}
+
+            <DialogFooter>
+              <Button variant="outline" onClick={closeMerge}>Cancel</Button>
+              <Button onClick={confirmMerge} disabled={!mergeTarget || mergeMutation.isPending}>
+                {mergeMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                Merge
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </CardContent>
+    </Card>
+  );
+}
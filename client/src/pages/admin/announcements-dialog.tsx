@@ -0,0 +1,218 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Gym, GymAnnouncement, gymAnnouncementFormSchema } from "@shared/schema";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Edit2, Trash2, Loader2, Plus } from "lucide-react";
+
+type AnnouncementFormValues = z.infer<typeof gymAnnouncementFormSchema>;
+
+const emptyAnnouncementForm: AnnouncementFormValues = { title: "", body: "" };
+
+interface AnnouncementsDialogProps {
+  gym: Gym | null;
+  onClose: () => void;
+}
+
+// Dialog for posting, editing and removing a gym's announcements
+export function AnnouncementsDialog({ gym, onClose }: AnnouncementsDialogProps) {
+  const { toast } = useToast();
+  const [editingAnnouncementId, setEditingAnnouncementId] = useState<number | null>(null);
+  const announcementsQueryKey = [`/api/gyms/${gym?.id}/announcements`];
+
+  const { data: announcements = [], isLoading } = useQuery<GymAnnouncement[]>({
+    queryKey: announcementsQueryKey,
+    enabled: !!gym,
+  });
+
+  const form = useForm<AnnouncementFormValues>({
+    resolver: zodResolver(gymAnnouncementFormSchema),
+    defaultValues: emptyAnnouncementForm,
+  });
+
+  const saveAnnouncementMutation = useMutation({
+    mutationFn: async (data: AnnouncementFormValues) => {
+      const res = editingAnnouncementId
+        ? await apiRequest("PUT", `/api/gyms/${gym!.id}/announcements/${editingAnnouncementId}`, data)
+        : await apiRequest("POST", `/api/gyms/${gym!.id}/announcements`, data);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: announcementsQueryKey });
+      toast({
+        title: "Success",
+        description: editingAnnouncementId ? "Announcement has been updated" : "Announcement has been posted",
+      });
+      setEditingAnnouncementId(null);
+      form.reset(emptyAnnouncementForm);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to save announcement: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteAnnouncementMutation = useMutation({
+    mutationFn: async (announcementId: number) => {
+      await apiRequest("DELETE", `/api/gyms/${gym!.id}/announcements/${announcementId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: announcementsQueryKey });
+      toast({
+        title: "Success",
+        description: "Announcement has been removed",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to remove announcement: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleEditAnnouncement = (announcement: GymAnnouncement) => {
+    setEditingAnnouncementId(announcement.id);
+    form.reset({ title: announcement.title, body: announcement.body });
+  };
+
+  const handleCancelEdit = () => {
+    setEditingAnnouncementId(null);
+    form.reset(emptyAnnouncementForm);
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      handleCancelEdit();
+      onClose();
+    }
+  };
+
+  return (
+    <Dialog open={!!gym} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Announcements</DialogTitle>
+          <DialogDescription>
+            News shown on {gym?.name}'s listing
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : announcements.length === 0 ? (
+          <p className="text-gray-500 text-sm">No announcements yet.</p>
+        ) : (
+          <ul className="divide-y border rounded-md">
+            {announcements.map(announcement => (
+              <li key={announcement.id} className="flex items-start justify-between p-3">
+                <div>
+                  <p className="font-medium">{announcement.title}</p>
+                  {announcement.createdAt && (
+                    <p className="text-xs text-gray-500">{format(new Date(announcement.createdAt), "MMM d, yyyy")}</p>
+                  )}
+                  <p className="text-sm text-gray-600 line-clamp-2">{announcement.body}</p>
+                </div>
+                <div className="flex space-x-2">
+                  <Button size="sm" variant="ghost" onClick={() => handleEditAnnouncement(announcement)}>
+                    <Edit2 className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="text-red-500 hover:text-red-700"
+                    onClick={() => deleteAnnouncementMutation.mutate(announcement.id)}
+                    disabled={deleteAnnouncementMutation.isPending}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => saveAnnouncementMutation.mutate(data))} className="space-y-4 border-t pt-4">
+            <h4 className="font-medium">{editingAnnouncementId ? "Edit announcement" : "Post an announcement"}</h4>
+
+            <FormField
+              control={form.control}
+              name="title"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Title</FormLabel>
+                  <FormControl>
+                    <Input placeholder="New spin classes on Saturdays" maxLength={120} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="body"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Announcement</FormLabel>
+                  <FormControl>
+                    <Textarea rows={4} maxLength={2000} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end space-x-2">
+              {editingAnnouncementId && (
+                <Button type="button" variant="outline" onClick={handleCancelEdit}>
+                  Cancel
+                </Button>
+              )}
+              <Button type="submit" disabled={saveAnnouncementMutation.isPending}>
+                {saveAnnouncementMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                ) : editingAnnouncementId ? (
+                  <Edit2 className="h-4 w-4 mr-2" />
+                ) : (
+                  <Plus className="h-4 w-4 mr-2" />
+                )}
+                {editingAnnouncementId ? "Update" : "Post"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,320 @@
+import { Fragment, useState } from "react";
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { AUDIT_ACTIONS, AUDIT_TARGET_TYPES, AuditAction, AuditLogEntry, AuditTargetType } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Loader2, ChevronDown, ChevronRight } from "lucide-react";
+import { format } from "date-fns";
+
+const AUDIT_PAGE_SIZE = 50;
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  "user.delete": "Deleted user",
+  "user.ban": "Banned user",
+  "user.unban": "Unbanned user",
+  "user.role_change": "Changed role",
+  "user.two_factor_reset": "Reset two-factor auth",
+  "gym.create": "Created gym",
+  "gym.update": "Updated gym",
+  "gym.delete": "Deleted gym",
+  "gym.import": "Imported gyms",
+  "gym.export": "Exported gyms",
+  "amenity.create": "Created amenity",
+  "amenity.update": "Updated amenity",
+  "amenity.merge": "Merged amenities",
+  "membership_plan.create": "Created plan",
+  "membership_plan.update": "Updated plan",
+  "membership_plan.delete": "Deleted plan",
+  "report.resolve": "Resolved report",
+  "gym_claim.approve": "Approved gym claim",
+  "gym_claim.reject": "Rejected gym claim",
+  "gym_announcement.create": "Posted announcement",
+  "gym_announcement.update": "Edited announcement",
+  "gym_announcement.delete": "Removed announcement",
+  "settings.update": "Changed settings",
+};
+
+const TARGET_TYPE_LABELS: Record<AuditTargetType, string> = {
+  user: "Users",
+  gym: "Gyms",
+  amenity: "Amenities",
+  membership_plan: "Membership Plans",
+  report: "Reports",
+  gym_claim: "Gym Claims",
+  gym_announcement: "Announcements",
+  settings: "Settings",
+};
+
+interface AuditPage {
+  entries: AuditLogEntry[];
+  nextCursor: number | null;
+  hasMore: boolean;
+}
+
+interface AuditFilters {
+  action: string;
+  targetType: string;
+  actorId: string;
+  targetId: string;
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: AuditFilters = { action: "all", targetType: "all", actorId: "", targetId: "", from: "", to: "" };
+
+// Query string for the filters that are set; dates cover whole days
+function toQueryString(filters: AuditFilters) {
+  const params = new URLSearchParams();
+  if (filters.action !== "all") params.set("action", filters.action);
+  if (filters.targetType !== "all") params.set("targetType", filters.targetType);
+  if (filters.actorId.trim()) params.set("actorId", filters.actorId.trim());
+  if (filters.targetId.trim()) params.set("targetId", filters.targetId.trim());
+  if (filters.from) params.set("from", new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) params.set("to", new Date(`${filters.to}T23:59:59.999`).toISOString());
+  return params.toString();
+}
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined) return "—";
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+// Read-only history of privileged actions taken by admins
+export default function AuditLog() {
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  const updateFilter = (key: keyof AuditFilters, value: string) => {
+    setFilters(current => ({ ...current, [key]: value }));
+  };
+
+  const queryString = toQueryString(filters);
+  const {
+    data,
+    isLoading,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ["/api/admin/audit", queryString],
+    queryFn: async ({ pageParam }): Promise<AuditPage> => {
+      const cursor = pageParam ? `&before=${pageParam}` : "";
+      const filterParams = queryString ? `&${queryString}` : "";
+      const res = await apiRequest("GET", `/api/admin/audit?limit=${AUDIT_PAGE_SIZE}${filterParams}${cursor}`);
+      return await res.json();
+    },
+    initialPageParam: undefined as number | undefined,
+    getNextPageParam: (lastPage) => (lastPage.hasMore && lastPage.nextCursor !== null ? lastPage.nextCursor : undefined),
+    // Every admin action adds entries, so refetch whenever the tab is opened
+    staleTime: 0,
+  });
+
+  const entries = data?.pages.flatMap(page => page.entries) ?? [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+          <div>
+            <CardTitle>Audit Log</CardTitle>
+            <CardDescription>Every change made by an admin, newest first</CardDescription>
+          </div>
+          <Button variant="outline" onClick={() => setFilters(EMPTY_FILTERS)}>
+            Clear Filters
+          </Button>
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-6 gap-2 pt-4">
+          <Select value={filters.action} onValueChange={(value) => updateFilter("action", value)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Actions</SelectItem>
+              {AUDIT_ACTIONS.map(action => (
+                <SelectItem key={action} value={action}>
+                  {ACTION_LABELS[action]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={filters.targetType} onValueChange={(value) => updateFilter("targetType", value)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Targets</SelectItem>
+              {AUDIT_TARGET_TYPES.map(targetType => (
+                <SelectItem key={targetType} value={targetType}>
+                  {TARGET_TYPE_LABELS[targetType]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            min={1}
+            placeholder="Admin ID"
+            value={filters.actorId}
+            onChange={(e) => updateFilter("actorId", e.target.value)}
+          />
+          <Input
+            type="number"
+            min={1}
+            placeholder="Target ID"
+            value={filters.targetId}
+            onChange={(e) => updateFilter("targetId", e.target.value)}
+          />
+          <Input
+            type="date"
+            aria-label="From date"
+            value={filters.from}
+            onChange={(e) => updateFilter("from", e.target.value)}
+          />
+          <Input
+            type="date"
+            aria-label="To date"
+            value={filters.to}
+            onChange={(e) => updateFilter("to", e.target.value)}
+          />
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : error ? (
+          <div className="text-center py-8">
+            <p className="text-red-500">Failed to load the audit log: {(error as Error).message}</p>
+          </div>
+        ) : entries.length === 0 ? (
+          <div className="text-center py-8">
+            <p className="text-gray-500">No audit entries match these filters.</p>
+          </div>
+        ) : (
+          <>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-8" />
+                    <TableHead>Time</TableHead>
+                    <TableHead>Admin</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Target</TableHead>
+                    <TableHead>IP Address</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.map((entry) => {
+                    const changes = Object.entries(entry.changes ?? {});
+                    const hasDetails = changes.length > 0 || !!entry.metadata;
+                    const isExpanded = expandedId === entry.id;
+
+                    return (
+                      <Fragment key={entry.id}>
+                        <TableRow
+                          className={hasDetails ? "cursor-pointer" : undefined}
+                          onClick={() => hasDetails && setExpandedId(isExpanded ? null : entry.id)}
+                        >
+                          <TableCell>
+                            {hasDetails && (isExpanded
+                              ? <ChevronDown className="h-4 w-4 text-gray-500" />
+                              : <ChevronRight className="h-4 w-4 text-gray-500" />)}
+                          </TableCell>
+                          <TableCell className="whitespace-nowrap">
+                            {format(new Date(entry.createdAt), "MMM d, yyyy HH:mm:ss")}
+                          </TableCell>
+                          <TableCell>
+                            <div className="font-medium">{entry.actorUsername ?? "Unknown"}</div>
+                            {entry.actorId !== null && <div className="text-xs text-gray-500">ID {entry.actorId}</div>}
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant="outline">
+                              {ACTION_LABELS[entry.action as AuditAction] ?? entry.action}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>
+                            {entry.targetType}
+                            {entry.targetId !== null && ` #${entry.targetId}`}
+                          </TableCell>
+                          <TableCell className="font-mono text-xs">{entry.ip ?? "—"}</TableCell>
+                        </TableRow>
+                        {isExpanded && (
+                          <TableRow className="bg-gray-50 hover:bg-gray-50">
+                            <TableCell />
+                            <TableCell colSpan={5}>
+                              {changes.length > 0 && (
+                                <table className="text-xs w-full">
+                                  <thead>
+                                    <tr className="text-left text-gray-500">
+                                      <th className="pr-4 font-medium">Field</th>
+                                      <th className="pr-4 font-medium">Before</th>
+                                      <th className="font-medium">After</th>
+                                    </tr>
+                                  </thead>
+                                  <tbody>
+                                    {changes.map(([field, change]) => (
+                                      <tr key={field} className="align-top">
+                                        <td className="pr-4 font-medium">{field}</td>
+                                        <td className="pr-4 text-red-700 break-all">{formatValue(change.before)}</td>
+                                        <td className="text-green-700 break-all">{formatValue(change.after)}</td>
+                                      </tr>
+                                    ))}
+                                  </tbody>
+                                </table>
+                              )}
+                              {entry.metadata && (
+                                <pre className="mt-2 text-xs text-gray-600 whitespace-pre-wrap break-all">
+                                  {JSON.stringify(entry.metadata, null, 2)}
+                                </pre>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        )}
+                      </Fragment>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+            {hasNextPage && (
+              <div className="flex justify-center mt-4">
+                <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                  {isFetchingNextPage && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                  Load More
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
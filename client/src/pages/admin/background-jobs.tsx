@@ -0,0 +1,103 @@
+import { AmenityUpdateResult, GymExportResult, GymImportResult, JobStatus, JobSummary } from "@shared/schema";
+import { JOB_STATUS_LABELS, isJobActive, useCancelJob, useJobs } from "@/hooks/use-jobs";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Download, Loader2, X } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+
+const STATUS_BADGE_VARIANTS: Record<JobStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  queued: "outline",
+  running: "secondary",
+  succeeded: "default",
+  failed: "destructive",
+  cancelled: "outline",
+};
+
+function jobOutcome(job: JobSummary): string | null {
+  if (job.status === "failed") return job.error;
+  if (job.status !== "succeeded" || !job.result) return null;
+
+  if (job.type === "gym.import") {
+    const result = job.result as GymImportResult;
+    const skipped = result.failed > 0 ? `, ${result.failed} ${result.dryRun ? "with errors" : "skipped"}` : "";
+    return result.dryRun
+      ? `${result.created} new, ${result.updated} updates${skipped}`
+      : `Added ${result.created}, updated ${result.updated}${skipped}`;
+  }
+  if (job.type === "gym.export") {
+    return `${(job.result as GymExportResult).exported} gyms`;
+  }
+  if (job.type === "amenity.rename" || job.type === "amenity.merge") {
+    const { gymsUpdated } = job.result as AmenityUpdateResult;
+    return `${gymsUpdated} ${gymsUpdated === 1 ? "gym" : "gyms"} updated`;
+  }
+  return null;
+}
+
+function JobRow({ job }: { job: JobSummary }) {
+  const cancelMutation = useCancelJob();
+  const active = isJobActive(job);
+  const outcome = jobOutcome(job);
+
+  return (
+    <li className="py-3 space-y-2">
+      <div className="flex items-center justify-between gap-4">
+        <div className="min-w-0">
+          <div className="flex items-center gap-2">
+            <span className="font-medium truncate">{job.description}</span>
+            <Badge variant={STATUS_BADGE_VARIANTS[job.status as JobStatus]}>
+              {job.cancelRequested && active ? "Cancelling" : JOB_STATUS_LABELS[job.status as JobStatus]}
+            </Badge>
+          </div>
+          <p className={`text-xs ${job.status === "failed" ? "text-red-600" : "text-gray-500"}`}>
+            {formatDistanceToNow(new Date(job.createdAt), { addSuffix: true })}
+            {outcome && ` · ${outcome}`}
+          </p>
+        </div>
+        {active && !job.cancelRequested && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => cancelMutation.mutate(job.id)}
+            disabled={cancelMutation.isPending}
+          >
+            <X className="h-4 w-4 mr-1" /> Cancel
+          </Button>
+        )}
+        {job.type === "gym.export" && job.status === "succeeded" && (
+          <Button variant="outline" size="sm" asChild>
+            <a href={`/api/jobs/${job.id}/download`} download>
+              <Download className="h-4 w-4 mr-1" /> Download
+            </a>
+          </Button>
+        )}
+      </div>
+      {active && <Progress value={job.progress} className="h-2" />}
+    </li>
+  );
+}
+
+// Recent background jobs started by the signed-in admin, updated live over the websocket
+export function BackgroundJobs() {
+  const { data: jobs = [], isLoading } = useJobs();
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+  if (jobs.length === 0) return null;
+
+  return (
+    <div className="mt-4 p-4 border rounded-md">
+      <h3 className="text-sm font-medium mb-1">Background Jobs</h3>
+      <ul className="divide-y">
+        {jobs.map(job => <JobRow key={job.id} job={job} />)}
+      </ul>
+    </div>
+  );
+}
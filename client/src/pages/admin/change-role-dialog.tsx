@@ -0,0 +1,160 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Gym, User } from "@shared/schema";
+import { ROLES, ROLE_LABELS, Role, isRole } from "@shared/permissions";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Loader2 } from "lucide-react";
+
+const ROLE_DESCRIPTIONS: Record<Role, string> = {
+  member: "No admin access.",
+  gym_manager: "Can edit the gyms below and their membership plans.",
+  moderator: "Can review reports and remove reviews.",
+  super_admin: "Full access, including users, roles and the audit log.",
+};
+
+interface ChangeRoleDialogProps {
+  user: User | null;
+  onClose: () => void;
+}
+
+// Admin dialog for changing a user's role and, for gym managers, their gyms
+export function ChangeRoleDialog({ user, onClose }: ChangeRoleDialogProps) {
+  const { toast } = useToast();
+  const [role, setRole] = useState<Role>("member");
+  const [gymIds, setGymIds] = useState<number[]>([]);
+  const managedGymsQueryKey = [`/api/admin/users/${user?.id}/managed-gyms`];
+
+  const { data: gyms = [] } = useQuery<Gym[]>({
+    queryKey: ["/api/gyms"],
+    enabled: !!user,
+  });
+
+  const { data: managedGymIds, isLoading: isLoadingManagedGyms } = useQuery<number[]>({
+    queryKey: managedGymsQueryKey,
+    enabled: !!user,
+  });
+
+  // Start from the user's current role and assignments each time the dialog opens
+  useEffect(() => {
+    if (user) {
+      setRole(isRole(user.role) ? user.role : "member");
+    }
+  }, [user]);
+
+  useEffect(() => {
+    setGymIds(managedGymIds ?? []);
+  }, [managedGymIds]);
+
+  const changeRoleMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PUT", `/api/admin/users/${user!.id}/role`, {
+        role,
+        gymIds: role === "gym_manager" ? gymIds : [],
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+      queryClient.invalidateQueries({ queryKey: managedGymsQueryKey });
+      onClose();
+      toast({
+        title: "Success",
+        description: "Role has been updated",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to update role: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleGym = (gymId: number, checked: boolean) => {
+    setGymIds(current => checked ? [...current, gymId] : current.filter(id => id !== gymId));
+  };
+
+  return (
+    <Dialog open={!!user} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Change role for {user?.name}</DialogTitle>
+          <DialogDescription>{ROLE_DESCRIPTIONS[role]}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Role</Label>
+            <Select value={role} onValueChange={(value) => setRole(value as Role)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ROLES.map(value => (
+                  <SelectItem key={value} value={value}>
+                    {ROLE_LABELS[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {role === "gym_manager" && (
+            <div className="space-y-2">
+              <Label>Managed gyms</Label>
+              {isLoadingManagedGyms ? (
+                <Loader2 className="h-5 w-5 animate-spin text-primary" />
+              ) : (
+                <div className="max-h-60 overflow-y-auto rounded-md border p-3 space-y-2">
+                  {gyms.map(gym => (
+                    <div key={gym.id} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`managed-gym-${gym.id}`}
+                        checked={gymIds.includes(gym.id)}
+                        onCheckedChange={(checked) => toggleGym(gym.id, checked === true)}
+                      />
+                      <Label htmlFor={`managed-gym-${gym.id}`} className="font-normal">
+                        {gym.name}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={() => changeRoleMutation.mutate()} disabled={changeRoleMutation.isPending}>
+            {changeRoleMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+            Save Role
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,257 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { GymClaimAction, GymClaimWithDetails } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2, Check, X, FileText } from "lucide-react";
+import { format } from "date-fns";
+
+type StatusFilter = "pending" | "approved" | "rejected" | "all";
+
+const ACTION_COPY: Record<GymClaimAction, { title: string; description: string; confirm: string }> = {
+  approve: {
+    title: "Approve this claim?",
+    description: "The claimant becomes a manager of this gym and can edit its photos, hours, amenities and announcements.",
+    confirm: "Approve",
+  },
+  reject: {
+    title: "Reject this claim?",
+    description: "The claimant will see that their claim was rejected, along with your note.",
+    confirm: "Reject",
+  },
+};
+
+const STATUS_BADGES: Record<string, string> = {
+  pending: "bg-yellow-100 text-yellow-800 hover:bg-yellow-100",
+  approved: "bg-green-100 text-green-800 hover:bg-green-100",
+  rejected: "bg-red-100 text-red-800 hover:bg-red-100",
+};
+
+// Admin queue of requests from gym staff to manage a listing
+export default function ClaimsManagement() {
+  const { toast } = useToast();
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("pending");
+  const [pendingAction, setPendingAction] = useState<{ claim: GymClaimWithDetails; action: GymClaimAction } | null>(null);
+  const [note, setNote] = useState("");
+
+  const claimsUrl = `/api/admin/gym-claims?status=${statusFilter}`;
+  const { data: claims = [], isLoading } = useQuery<GymClaimWithDetails[]>({
+    queryKey: [claimsUrl],
+  });
+
+  const closeActionDialog = () => {
+    setPendingAction(null);
+    setNote("");
+  };
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ claimId, action }: { claimId: number; action: GymClaimAction }) => {
+      const res = await apiRequest("PUT", `/api/admin/gym-claims/${claimId}`, {
+        action,
+        note: note.trim() || undefined,
+      });
+      return res.json();
+    },
+    onSuccess: (_data, { action }) => {
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/admin/gym-claims"),
+      });
+      if (action === "approve") {
+        queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+      }
+      closeActionDialog();
+      toast({
+        title: "Success",
+        description: action === "approve" ? "Claim approved" : "Claim rejected",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to review claim: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const confirmAction = () => {
+    if (pendingAction) {
+      reviewMutation.mutate({ claimId: pendingAction.claim.id, action: pendingAction.action });
+    }
+  };
+
+  const actionCopy = pendingAction ? ACTION_COPY[pendingAction.action] : null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+          <div>
+            <CardTitle>Gym Claims</CardTitle>
+            <CardDescription>Check that claimants really work at the gym before approving</CardDescription>
+          </div>
+          <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as StatusFilter)}>
+            <SelectTrigger className="w-full sm:w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="pending">Pending</SelectItem>
+              <SelectItem value="approved">Approved</SelectItem>
+              <SelectItem value="rejected">Rejected</SelectItem>
+              <SelectItem value="all">All Claims</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : claims.length === 0 ? (
+          <div className="text-center py-8">
+            <p className="text-gray-500">No claims to show.</p>
+          </div>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Gym</TableHead>
+                  <TableHead>Claimant</TableHead>
+                  <TableHead>Proof</TableHead>
+                  <TableHead>Submitted</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {claims.map((claim) => (
+                  <TableRow key={claim.id}>
+                    <TableCell className="font-medium">{claim.gym?.name ?? "Deleted gym"}</TableCell>
+                    <TableCell>
+                      <div className="font-medium">{claim.claimant?.name ?? "Deleted user"}</div>
+                      {claim.claimant && (
+                        <div className="text-xs text-gray-500">
+                          @{claim.claimant.username}
+                          {claim.claimant.email && ` · ${claim.claimant.email}`}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="max-w-xs">
+                      {claim.proofText && <p className="text-sm whitespace-pre-line">{claim.proofText}</p>}
+                      {claim.hasDocument && (
+                        <a
+                          href={`/api/admin/gym-claims/${claim.id}/document`}
+                          target="_blank"
+                          rel="noreferrer"
+                          className="mt-1 inline-flex items-center text-xs text-primary hover:underline"
+                        >
+                          <FileText className="h-3 w-3 mr-1" />
+                          {claim.documentName ?? "Document"}
+                        </a>
+                      )}
+                      {claim.reviewNote && (
+                        <p className="mt-1 text-xs text-gray-500">Note: {claim.reviewNote}</p>
+                      )}
+                    </TableCell>
+                    <TableCell>{claim.createdAt ? format(new Date(claim.createdAt), "MMM d, yyyy") : "N/A"}</TableCell>
+                    <TableCell className="text-right">
+                      {claim.status === "pending" ? (
+                        <div className="flex justify-end space-x-1">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="text-green-600"
+                            onClick={() => setPendingAction({ claim, action: "approve" })}
+                            disabled={!claim.claimant || !claim.gym}
+                          >
+                            <Check className="h-4 w-4 mr-1" /> Approve
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="text-red-600"
+                            onClick={() => setPendingAction({ claim, action: "reject" })}
+                          >
+                            <X className="h-4 w-4 mr-1" /> Reject
+                          </Button>
+                        </div>
+                      ) : (
+                        <Badge variant="outline" className={STATUS_BADGES[claim.status]}>
+                          {claim.status.charAt(0).toUpperCase() + claim.status.slice(1)}
+                        </Badge>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        {/* Review Claim Confirmation Dialog */}
+        <AlertDialog open={pendingAction !== null} onOpenChange={(open) => !open && closeActionDialog()}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>{actionCopy?.title}</AlertDialogTitle>
+              <AlertDialogDescription>{actionCopy?.description}</AlertDialogDescription>
+            </AlertDialogHeader>
+            <Textarea
+              placeholder={pendingAction?.action === "reject" ? "Reason for the claimant (optional)" : "Note for other admins (optional)"}
+              maxLength={1000}
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={confirmAction}
+                className={pendingAction?.action === "reject" ? "bg-red-500 hover:bg-red-600" : undefined}
+                disabled={reviewMutation.isPending}
+              >
+                {reviewMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                {actionCopy?.confirm}
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </CardContent>
+    </Card>
+  );
+}
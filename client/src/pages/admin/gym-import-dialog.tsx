@@ -0,0 +1,308 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { GymImportResult, GymImportRow, JobSummary } from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { applyJobUpdate, isJobActive, useCancelJob, useJob } from "@/hooks/use-jobs";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Download, Loader2, Upload } from "lucide-react";
+
+interface GymImportDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+// Uploads the file and returns the queued gym.import job
+async function postGymCsv(file: File, dryRun: boolean): Promise<JobSummary> {
+  const formData = new FormData();
+  formData.append("file", file);
+
+  const res = await fetch(`/api/gyms/import${dryRun ? "?dryRun=true" : ""}`, {
+    method: "POST",
+    body: formData,
+    credentials: "include",
+  });
+
+  if (!res.ok) {
+    const errorData = await res.json();
+    throw new Error(errorData.message || "Failed to import CSV");
+  }
+
+  return await res.json() as JobSummary;
+}
+
+function downloadErrorReport(fileName: string, report: string) {
+  const url = URL.createObjectURL(new Blob([report], { type: "text/csv" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName.replace(/\.csv$/i, "") + "-errors.csv";
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function ActionBadge({ action }: { action: GymImportRow["action"] }) {
+  if (action === "create") return <Badge>New</Badge>;
+  if (action === "update") return <Badge variant="secondary">Update</Badge>;
+  return <Badge variant="destructive">Error</Badge>;
+}
+
+function rowDetails(row: GymImportRow) {
+  if (row.action === "error") return row.errors.join("; ");
+  if (row.action === "update") return `Updates gym #${row.gymId}, ${row.distanceMeters} m away`;
+  return row.gymId ? `Added as gym #${row.gymId}` : "";
+}
+
+// Checks a gym CSV with a dry run and shows what each row will do before
+// anything is written. Both the check and the import run as background jobs,
+// so closing the dialog doesn't stop them.
+export function GymImportDialog({ open, onClose }: GymImportDialogProps) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [previewJobId, setPreviewJobId] = useState<number | null>(null);
+  const [importJobId, setImportJobId] = useState<number | null>(null);
+  const { data: previewJob } = useJob(previewJobId);
+  const { data: importJob } = useJob(importJobId);
+  const cancelMutation = useCancelJob();
+
+  const onError = (error: Error) => {
+    toast({
+      title: "CSV Import Failed",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: (file: File) => postGymCsv(file, true),
+    onSuccess: (job) => {
+      applyJobUpdate(job);
+      setPreviewJobId(job.id);
+    },
+    onError,
+  });
+
+  const importMutation = useMutation({
+    mutationFn: (file: File) => postGymCsv(file, false),
+    onSuccess: (job) => {
+      applyJobUpdate(job);
+      setImportJobId(job.id);
+    },
+    onError,
+  });
+
+  const importStatus = importJob?.status;
+  useEffect(() => {
+    if (importStatus !== "succeeded" || !importJob?.result) return;
+    const data = importJob.result as GymImportResult;
+    queryClient.invalidateQueries({ queryKey: ["/api/gyms"] });
+    toast({
+      title: "CSV Import Successful",
+      description: `Added ${data.created} and updated ${data.updated} gyms.${data.failed > 0 ? ` ${data.failed} rows were skipped.` : ""}`,
+    });
+  }, [importStatus]);
+
+  const close = () => {
+    setFile(null);
+    setPreviewJobId(null);
+    setImportJobId(null);
+    previewMutation.reset();
+    importMutation.reset();
+    onClose();
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    if (selected) {
+      setFile(selected);
+      setPreviewJobId(null);
+      setImportJobId(null);
+      importMutation.reset();
+      previewMutation.mutate(selected);
+      // Reset file input so the same file can be picked again after editing it
+      e.target.value = "";
+    }
+  };
+
+  // The job in charge of what the dialog shows: the import once started, else the check
+  const currentJob = importJob ?? previewJob;
+  const result = currentJob?.status === "succeeded" ? currentJob.result as GymImportResult : null;
+  const isImported = result !== null && !result.dryRun;
+  const toImport = result ? result.created + result.updated : 0;
+  const isBusy = previewMutation.isPending || importMutation.isPending || isJobActive(currentJob);
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && close()}>
+      <DialogContent className="sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Import Gyms from CSV</DialogTitle>
+          <DialogDescription>
+            Columns: name, address, latitude and longitude, plus optional city, state, zip_code, amenities,
+            images, opening_hours, holiday_hours and timezone. A row with the same name as a gym
+            within 250 m updates that gym instead of adding a new one.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-3">
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={isBusy}>
+            {previewMutation.isPending || isJobActive(previewJob) ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Upload className="h-4 w-4 mr-2" />
+            )}
+            {file ? "Choose Another File" : "Choose CSV File"}
+          </Button>
+          {file && <span className="text-sm text-gray-600 truncate">{file.name}</span>}
+          <input
+            type="file"
+            accept=".csv"
+            ref={fileInputRef}
+            onChange={handleFileChange}
+            className="hidden"
+          />
+        </div>
+
+        {currentJob && isJobActive(currentJob) && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-sm">
+              <span>
+                {currentJob.cancelRequested
+                  ? "Cancelling…"
+                  : `${importJob ? "Importing" : "Checking"} rows… ${currentJob.progress}%`}
+              </span>
+              {!currentJob.cancelRequested && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => cancelMutation.mutate(currentJob.id)}
+                  disabled={cancelMutation.isPending}
+                >
+                  Cancel
+                </Button>
+              )}
+            </div>
+            <Progress value={currentJob.progress} className="h-2" />
+            {importJob && (
+              <p className="text-xs text-gray-500">
+                You can close this dialog; the import keeps running and shows under Background Jobs.
+              </p>
+            )}
+          </div>
+        )}
+
+        {currentJob?.status === "failed" && (
+          <p className="text-sm text-red-600">{currentJob.error}</p>
+        )}
+        {currentJob?.status === "cancelled" && (
+          <p className="text-sm text-gray-600">{importJob ? "The import" : "The check"} was cancelled.</p>
+        )}
+
+        {result && (
+          <>
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span>
+                {isImported ? "Added" : "New"}: <strong>{result.created}</strong>
+              </span>
+              <span>·</span>
+              <span>
+                {isImported ? "Updated" : "Updates"}: <strong>{result.updated}</strong>
+              </span>
+              <span>·</span>
+              <span className={result.failed > 0 ? "text-red-600" : undefined}>
+                {isImported ? "Skipped" : "Errors"}: <strong>{result.failed}</strong>
+              </span>
+              {result.errorReport && file && (
+                <Button
+                  variant="link"
+                  size="sm"
+                  className="ml-auto"
+                  onClick={() => downloadErrorReport(file.name, result.errorReport!)}
+                >
+                  <Download className="h-4 w-4 mr-1" /> Download error report
+                </Button>
+              )}
+            </div>
+            {result.ignoredColumns.length > 0 && (
+              <p className="text-xs text-gray-500">
+                Ignored columns: {result.ignoredColumns.join(", ")}
+              </p>
+            )}
+
+            <div className="max-h-96 overflow-y-auto border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">Line</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Address</TableHead>
+                    <TableHead className="w-24">Action</TableHead>
+                    <TableHead>Details</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {result.rows.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center text-gray-500">
+                        The file has no rows
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    result.rows.map(row => (
+                      <TableRow key={row.line}>
+                        <TableCell>{row.line}</TableCell>
+                        <TableCell className="font-medium">{row.name}</TableCell>
+                        <TableCell>{row.address}</TableCell>
+                        <TableCell><ActionBadge action={row.action} /></TableCell>
+                        <TableCell className={row.action === "error" ? "text-red-600 text-sm" : "text-sm text-gray-600"}>
+                          {rowDetails(row)}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </>
+        )}
+
+        <DialogFooter>
+          {isImported ? (
+            <Button onClick={close}>Done</Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={close}>Cancel</Button>
+              <Button
+                onClick={() => file && importMutation.mutate(file)}
+                disabled={!file || !result || toImport === 0 || isBusy}
+              >
+                {(importMutation.isPending || isJobActive(importJob)) && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {result && result.failed > 0
+                  ? `Import ${toImport} Gyms, Skip ${result.failed}`
+                  : `Import ${toImport} Gyms`}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
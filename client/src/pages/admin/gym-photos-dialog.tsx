@@ -0,0 +1,142 @@
+import { useMutation } from "@tanstack/react-query";
+import { Gym } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, X } from "lucide-react";
+
+interface GymPhotosDialogProps {
+  gym: Gym | null;
+  onClose: () => void;
+  // The dialog shows the gym as it was opened, so report changes back to the parent
+  onChange: (gym: Gym) => void;
+}
+
+// Dialog for adding and removing the photos on a gym's listing
+export function GymPhotosDialog({ gym, onClose, onChange }: GymPhotosDialogProps) {
+  const { toast } = useToast();
+  const images = gym?.images ?? [];
+
+  const onPhotosChanged = (updatedGym: Gym) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/gyms"] });
+    onChange(updatedGym);
+  };
+
+  const uploadPhotosMutation = useMutation({
+    mutationFn: async (files: File[]) => {
+      const formData = new FormData();
+      files.forEach(file => formData.append("images", file));
+
+      const res = await fetch(`/api/gyms/${gym!.id}/images`, {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.message || "Failed to upload photos");
+      }
+
+      return await res.json() as Gym;
+    },
+    onSuccess: (updatedGym) => {
+      onPhotosChanged(updatedGym);
+      toast({
+        title: "Success",
+        description: "Photos have been added",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removePhotoMutation = useMutation({
+    mutationFn: async (url: string) => {
+      const res = await apiRequest("PUT", `/api/gyms/${gym!.id}`, {
+        images: images.filter(image => image !== url),
+      });
+      return await res.json() as Gym;
+    },
+    onSuccess: (updatedGym) => {
+      onPhotosChanged(updatedGym);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to remove photo: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={!!gym} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Photos</DialogTitle>
+          <DialogDescription>
+            Photos shown on {gym?.name}'s listing
+          </DialogDescription>
+        </DialogHeader>
+
+        {images.length === 0 ? (
+          <p className="text-gray-500 text-sm">No photos yet.</p>
+        ) : (
+          <div className="grid grid-cols-3 gap-2">
+            {images.map(url => (
+              <div key={url} className="relative">
+                <img src={url} alt="" className="h-28 w-full object-cover rounded-md" />
+                <Button
+                  size="icon"
+                  variant="destructive"
+                  className="absolute top-1 right-1 h-6 w-6"
+                  onClick={() => removePhotoMutation.mutate(url)}
+                  disabled={removePhotoMutation.isPending}
+                  title="Remove photo"
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2 border-t pt-4">
+          <Label htmlFor="gym-photos">Add photos</Label>
+          <div className="flex items-center gap-2">
+            <Input
+              id="gym-photos"
+              type="file"
+              accept="image/*"
+              multiple
+              onChange={(e) => {
+                const files = Array.from(e.target.files ?? []);
+                if (files.length > 0) uploadPhotosMutation.mutate(files);
+                e.target.value = "";
+              }}
+              disabled={uploadPhotosMutation.isPending}
+            />
+            {uploadPhotosMutation.isPending && <Loader2 className="h-4 w-4 animate-spin text-primary" />}
+          </div>
+          <p className="text-xs text-gray-500">Up to 5 at a time</p>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
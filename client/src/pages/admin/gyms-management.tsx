@@ -1,11 +1,28 @@
-import { useState, useRef } from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
-import { Gym, insertGymSchema } from "@shared/schema";
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Gym, JobSummary, insertGymSchema } from "@shared/schema";
+import { hasPermission } from "@shared/permissions";
+import {
+  parseOpeningHours,
+  parseHolidayHours,
+  formatOpeningHours,
+  formatHolidayHours,
+  isValidTimeZone,
+} from "@shared/opening-hours";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { applyJobUpdate } from "@/hooks/use-jobs";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
+import { useGymSearch } from "@/hooks/use-gym-search";
+import { MembershipPlansDialog } from "./membership-plans-dialog";
+import { AnnouncementsDialog } from "./announcements-dialog";
+import { GymPhotosDialog } from "./gym-photos-dialog";
+import { GymImportDialog } from "./gym-import-dialog";
+import { BackgroundJobs } from "./background-jobs";
 
 import {
   Table,
@@ -51,9 +68,18 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { AmenityFilterChips } from "@/components/ui/amenity-filter-chips";
 import { 
   Search, 
   Plus, 
@@ -62,9 +88,40 @@ import {
   Loader2, 
   MapPin, 
   Star,
-  Upload 
+  Upload,
+  DollarSign,
+  Megaphone,
+  ImagePlus,
+  Download
 } from "lucide-react";
 
+const EXPORT_FORMATS = [
+  { format: "csv", label: "CSV (re-importable)" },
+  { format: "json", label: "JSON" },
+  { format: "geojson", label: "GeoJSON" },
+];
+
+const GYMS_PAGE_SIZE = 50;
+
+// Catalog export, narrowed by the search box and amenity chips like the table
+function gymExportUrl(format: string, searchQuery: string, amenities: number[]) {
+  const params = new URLSearchParams({ format });
+  if (searchQuery.trim()) params.set("q", searchQuery.trim());
+  for (const amenity of amenities) params.append("amenity", String(amenity));
+  return `/api/admin/gyms/export?${params}`;
+}
+
+// Validate a free-text hours field with the shared parser, surfacing its error message
+const hoursString = (parser: (text: string) => unknown) =>
+  z.string().superRefine((val, ctx) => {
+    if (!val.trim()) return;
+    try {
+      parser(val);
+    } catch (error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: (error as Error).message });
+    }
+  });
+
 // Extended schema with validation for admin form
 const gymFormSchema = insertGymSchema.extend({
   name: z.string().min(2, "Name must be at least 2 characters"),
@@ -76,24 +133,56 @@ const gymFormSchema = insertGymSchema.extend({
     message: "Longitude must be a number",
   }),
   amenitiesString: z.string(),
-  rating: z.string().refine((val) => !isNaN(parseFloat(val)) && parseFloat(val) >= 0 && parseFloat(val) <= 5, {
-    message: "Rating must be a number between 0 and 5",
+  openingHoursString: hoursString(parseOpeningHours),
+  holidayHoursString: hoursString(parseHolidayHours),
+  timezone: z.string().refine(isValidTimeZone, {
+    message: "Unknown timezone, use an IANA name like America/New_York",
   }),
 });
 
 type GymFormValues = z.infer<typeof gymFormSchema>;
 
+// Convert the hours text fields into the shape the API expects
+function hoursFromForm(data: GymFormValues) {
+  return {
+    openingHours: data.openingHoursString.trim() ? parseOpeningHours(data.openingHoursString) : null,
+    holidayHours: data.holidayHoursString.trim() ? parseHolidayHours(data.holidayHoursString) : [],
+    timezone: data.timezone,
+  };
+}
+
 export default function GymsManagement() {
   const { toast } = useToast();
+  const { user } = useAuth();
   const [searchQuery, setSearchQuery] = useState("");
+  const [selectedAmenities, setSelectedAmenities] = useState<number[]>([]);
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
   const [selectedGym, setSelectedGym] = useState<Gym | null>(null);
   const [deleteGymId, setDeleteGymId] = useState<number | null>(null);
+  const [plansGym, setPlansGym] = useState<Gym | null>(null);
+  const [announcementsGym, setAnnouncementsGym] = useState<Gym | null>(null);
+  const [photosGym, setPhotosGym] = useState<Gym | null>(null);
+
+  const canManageAllGyms = hasPermission(user, "gyms:manage_all");
 
-  // Fetch all gyms
-  const { data: gyms = [], isLoading } = useQuery<Gym[]>({
-    queryKey: ["/api/gyms"],
+  // Searched on the server, newest first. Gym managers only see the gyms assigned to them.
+  const debouncedQuery = useDebouncedValue(searchQuery.trim());
+  const {
+    gyms: filteredGyms,
+    total,
+    facets,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useGymSearch({
+    q: debouncedQuery || undefined,
+    amenities: selectedAmenities,
+    managed: !canManageAllGyms,
+    sort: "newest",
+    limit: GYMS_PAGE_SIZE,
   });
 
   // Create form
@@ -105,7 +194,9 @@ export default function GymsManagement() {
       locationLat: "",
       locationLng: "",
       amenitiesString: "",
-      rating: "0",
+      openingHoursString: "",
+      holidayHoursString: "",
+      timezone: "UTC",
     },
   });
 
@@ -127,7 +218,7 @@ export default function GymsManagement() {
           lng: parseFloat(data.locationLng),
         },
         amenities: amenitiesArray,
-        rating: parseFloat(data.rating),
+        ...hoursFromForm(data),
         images: [] // Explicitly provide empty images array
       };
       
@@ -180,16 +271,22 @@ export default function GymsManagement() {
   const updateGymMutation = useMutation({
     mutationFn: async (data: GymFormValues & { id: number }) => {
       const { id, ...formData } = data;
-      const gymData = {
-        name: formData.name,
-        location: {
-          address: formData.locationAddress,
-          lat: parseFloat(formData.locationLat),
-          lng: parseFloat(formData.locationLng),
-        },
+      const listingData = {
         amenities: formData.amenitiesString.split(",").map(item => item.trim()).filter(Boolean),
-        rating: parseFloat(formData.rating),
+        ...hoursFromForm(formData),
       };
+      // Gym managers may only touch the listing details, so leave name and location out
+      const gymData = canManageAllGyms
+        ? {
+            name: formData.name,
+            location: {
+              address: formData.locationAddress,
+              lat: parseFloat(formData.locationLat),
+              lng: parseFloat(formData.locationLng),
+            },
+            ...listingData,
+          }
+        : listingData;
 
       const res = await apiRequest("PUT", `/api/gyms/${id}`, gymData);
       return res.json();
@@ -249,7 +346,7 @@ export default function GymsManagement() {
       amenities: data.amenitiesString.trim() 
         ? data.amenitiesString.split(',').map(item => item.trim()) 
         : [],
-      rating: parseFloat(data.rating) || 0,
+      ...hoursFromForm(data),
       images: []
     };
     
@@ -308,7 +405,9 @@ export default function GymsManagement() {
       locationLat: gym.location.lat.toString(),
       locationLng: gym.location.lng.toString(),
       amenitiesString: gym.amenities ? gym.amenities.join(", ") : "",
-      rating: gym.rating ? gym.rating.toString() : "0",
+      openingHoursString: gym.openingHours ? formatOpeningHours(gym.openingHours) : "",
+      holidayHoursString: formatHolidayHours(gym.holidayHours),
+      timezone: gym.timezone,
     });
     setIsEditDialogOpen(true);
   };
@@ -325,64 +424,27 @@ export default function GymsManagement() {
     }
   };
 
-  // Filter gyms based on search query
-  const filteredGyms = gyms.filter(gym => 
-    gym.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    gym.location.address.toLowerCase().includes(searchQuery.toLowerCase())
-  );
-  
-  // CSV upload mutation
-  const uploadCsvMutation = useMutation({
-    mutationFn: async (file: File) => {
-      const formData = new FormData();
-      formData.append('file', file);
-      
-      const res = await fetch('/api/gyms/upload-csv', {
-        method: 'POST',
-        body: formData,
-        credentials: 'include',
-      });
-      
-      if (!res.ok) {
-        const errorData = await res.json();
-        throw new Error(errorData.message || 'Failed to upload CSV');
-      }
-      
-      return res.json();
+  // Exports run as background jobs; the file is downloaded from the jobs list when ready
+  const exportMutation = useMutation({
+    mutationFn: async (url: string) => {
+      const res = await apiRequest("POST", url);
+      return await res.json() as JobSummary;
     },
-    onSuccess: (data) => {
-      queryClient.invalidateQueries({ queryKey: ["/api/gyms"] });
+    onSuccess: (job) => {
+      applyJobUpdate(job);
       toast({
-        title: "CSV Import Successful",
-        description: `Successfully imported ${data.imported} gyms.${data.errors > 0 ? ` ${data.errors} rows had errors.` : ''}`,
+        title: "Export started",
+        description: "It will be ready to download under Background Jobs",
       });
     },
     onError: (error: Error) => {
       toast({
-        title: "CSV Import Failed",
+        title: "Export Failed",
         description: error.message,
         variant: "destructive",
       });
     },
   });
-  
-  // Handle CSV file upload
-  const fileInputRef = useRef<HTMLInputElement>(null);
-  
-  const handleUploadClick = () => {
-    if (fileInputRef.current) {
-      fileInputRef.current.click();
-    }
-  };
-  
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      uploadCsvMutation.mutate(file);
-      // Reset file input so the same file can be uploaded again if needed
-      e.target.value = '';
-    }
-  };
 
   // Initialize add gym form
   const handleAddGym = () => {
@@ -392,7 +454,9 @@ export default function GymsManagement() {
       locationLat: "",
       locationLng: "",
       amenitiesString: "",
-      rating: "0",
+      openingHoursString: "",
+      holidayHoursString: "",
+      timezone: "UTC",
     });
     setIsAddDialogOpen(true);
   };
@@ -403,7 +467,9 @@ export default function GymsManagement() {
         <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
           <div>
             <CardTitle>Gyms Management</CardTitle>
-            <CardDescription>Manage all gyms in the system</CardDescription>
+            <CardDescription>
+              {canManageAllGyms ? "Manage all gyms in the system" : "Manage the gyms assigned to you"}
+            </CardDescription>
           </div>
           <div className="flex flex-col sm:flex-row gap-3 w-full md:w-auto">
             <div className="relative w-full sm:w-64">
@@ -416,33 +482,52 @@ export default function GymsManagement() {
               />
             </div>
             <div className="flex gap-2">
-              <Button onClick={handleAddGym}>
-                <Plus className="h-4 w-4 mr-2" /> Add Gym
-              </Button>
-              <Button 
-                variant="outline" 
-                onClick={handleUploadClick}
-                disabled={uploadCsvMutation.isPending}
-              >
-                {uploadCsvMutation.isPending ? (
-                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                ) : (
-                  <Upload className="h-4 w-4 mr-2" />
-                )}
-                Import CSV
-              </Button>
-              <input
-                type="file"
-                accept=".csv"
-                ref={fileInputRef}
-                onChange={handleFileChange}
-                className="hidden"
-              />
+              {hasPermission(user, "gyms:create") && (
+                <Button onClick={handleAddGym}>
+                  <Plus className="h-4 w-4 mr-2" /> Add Gym
+                </Button>
+              )}
+              {hasPermission(user, "gyms:import") && (
+                <Button variant="outline" onClick={() => setIsImportOpen(true)}>
+                  <Upload className="h-4 w-4 mr-2" /> Import CSV
+                </Button>
+              )}
+              {hasPermission(user, "gyms:export") && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="outline" disabled={exportMutation.isPending}>
+                      {exportMutation.isPending ? (
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      ) : (
+                        <Download className="h-4 w-4 mr-2" />
+                      )}
+                      Export
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuLabel>
+                      {searchQuery.trim() || selectedAmenities.length > 0 ? "Export matching gyms" : "Export all gyms"}
+                    </DropdownMenuLabel>
+                    <DropdownMenuSeparator />
+                    {EXPORT_FORMATS.map(({ format, label }) => (
+                      <DropdownMenuItem
+                        key={format}
+                        onSelect={() => exportMutation.mutate(gymExportUrl(format, searchQuery, selectedAmenities))}
+                      >
+                        {label}
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
             </div>
           </div>
         </div>
       </CardHeader>
       <CardContent>
+        <div className="mb-4">
+          <AmenityFilterChips facets={facets} selected={selectedAmenities} onChange={setSelectedAmenities} />
+        </div>
         {isLoading ? (
           <div className="flex justify-center py-8">
             <Loader2 className="h-8 w-8 animate-spin text-primary" />
@@ -476,7 +561,9 @@ export default function GymsManagement() {
                     <TableCell>
                       <div className="flex items-center">
                         <Star className="h-4 w-4 mr-1 text-yellow-500 fill-yellow-500" />
-                        <span>{gym.rating?.toFixed(1) || "N/A"}</span>
+                        <span>
+                          {gym.rating != null ? `${gym.rating.toFixed(1)} (${gym.reviewCount})` : "N/A"}
+                        </span>
                       </div>
                     </TableCell>
                     <TableCell>
@@ -486,33 +573,44 @@ export default function GymsManagement() {
                     </TableCell>
                     <TableCell className="text-right">
                       <div className="flex justify-end gap-2">
+                        <Button size="sm" variant="ghost" onClick={() => setPlansGym(gym)} title="Membership plans">
+                          <DollarSign className="h-4 w-4" />
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={() => setPhotosGym(gym)} title="Photos">
+                          <ImagePlus className="h-4 w-4" />
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={() => setAnnouncementsGym(gym)} title="Announcements">
+                          <Megaphone className="h-4 w-4" />
+                        </Button>
                         <Button size="sm" variant="ghost" onClick={() => handleEditGym(gym)}>
                           <Edit2 className="h-4 w-4" />
                         </Button>
-                        <AlertDialog>
-                          <AlertDialogTrigger asChild>
-                            <Button size="sm" variant="ghost" className="text-red-500 hover:text-red-700">
-                              <Trash2 className="h-4 w-4" />
-                            </Button>
-                          </AlertDialogTrigger>
-                          <AlertDialogContent>
-                            <AlertDialogHeader>
-                              <AlertDialogTitle>Are you sure?</AlertDialogTitle>
-                              <AlertDialogDescription>
-                                This will permanently delete the gym "{gym.name}". This action cannot be undone.
-                              </AlertDialogDescription>
-                            </AlertDialogHeader>
-                            <AlertDialogFooter>
-                              <AlertDialogCancel>Cancel</AlertDialogCancel>
-                              <AlertDialogAction 
-                                onClick={() => handleDeleteGym(gym.id)}
-                                className="bg-red-500 hover:bg-red-600"
-                              >
-                                Delete
-                              </AlertDialogAction>
-                            </AlertDialogFooter>
-                          </AlertDialogContent>
-                        </AlertDialog>
+                        {hasPermission(user, "gyms:delete") && (
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button size="sm" variant="ghost" className="text-red-500 hover:text-red-700">
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Are you sure?</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  This will permanently delete the gym "{gym.name}". This action cannot be undone.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction 
+                                  onClick={() => handleDeleteGym(gym.id)}
+                                  className="bg-red-500 hover:bg-red-600"
+                                >
+                                  Delete
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        )}
                       </div>
                     </TableCell>
                   </TableRow>
@@ -521,6 +619,17 @@ export default function GymsManagement() {
             </Table>
           </div>
         )}
+        {filteredGyms.length > 0 && (
+          <div className="flex items-center justify-between mt-4 text-sm text-gray-500">
+            <span>Showing {filteredGyms.length} of {total} gyms</span>
+            {hasNextPage && (
+              <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                {isFetchingNextPage && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                Load More
+              </Button>
+            )}
+          </div>
+        )}
 
         {/* Add Gym Dialog */}
         <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
@@ -614,7 +723,7 @@ export default function GymsManagement() {
                         />
                       </FormControl>
                       <FormDescription>
-                        Separate multiple amenities with commas
+                        Separate multiple amenities with commas. Names are matched to the amenity list.
                       </FormDescription>
                       <FormMessage />
                     </FormItem>
@@ -623,12 +732,49 @@ export default function GymsManagement() {
                 
                 <FormField
                   control={form.control}
-                  name="rating"
+                  name="openingHoursString"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Rating (0-5)</FormLabel>
+                      <FormLabel>Opening Hours</FormLabel>
                       <FormControl>
-                        <Input type="number" min="0" max="5" step="0.1" {...field} />
+                        <Textarea 
+                          placeholder="Mon-Fri 06:00-22:00; Sat-Sun 08:00-20:00" 
+                          {...field} 
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        Use 24-hour times, "closed" for closed days, or "24/7". Leave empty if unknown.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                
+                <FormField
+                  control={form.control}
+                  name="holidayHoursString"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Holiday Hours</FormLabel>
+                      <FormControl>
+                        <Input placeholder="2025-12-25 closed; 2025-12-31 08:00-14:00" {...field} />
+                      </FormControl>
+                      <FormDescription>
+                        Dates that replace the regular hours
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                
+                <FormField
+                  control={form.control}
+                  name="timezone"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Timezone</FormLabel>
+                      <FormControl>
+                        <Input placeholder="America/New_York" {...field} />
                       </FormControl>
                       <FormMessage />
                     </FormItem>
@@ -681,7 +827,7 @@ export default function GymsManagement() {
                     <FormItem>
                       <FormLabel>Gym Name</FormLabel>
                       <FormControl>
-                        <Input {...field} />
+                        <Input {...field} disabled={!canManageAllGyms} />
                       </FormControl>
                       <FormMessage />
                     </FormItem>
@@ -698,7 +844,7 @@ export default function GymsManagement() {
                         <FormItem>
                           <FormLabel>Address</FormLabel>
                           <FormControl>
-                            <Input {...field} />
+                            <Input {...field} disabled={!canManageAllGyms} />
                           </FormControl>
                           <FormMessage />
                         </FormItem>
@@ -712,7 +858,7 @@ export default function GymsManagement() {
                           <FormItem>
                             <FormLabel>Latitude</FormLabel>
                             <FormControl>
-                              <Input {...field} />
+                              <Input {...field} disabled={!canManageAllGyms} />
                             </FormControl>
                             <FormMessage />
                           </FormItem>
@@ -725,7 +871,7 @@ export default function GymsManagement() {
                           <FormItem>
                             <FormLabel>Longitude</FormLabel>
                             <FormControl>
-                              <Input {...field} />
+                              <Input {...field} disabled={!canManageAllGyms} />
                             </FormControl>
                             <FormMessage />
                           </FormItem>
@@ -745,7 +891,27 @@ export default function GymsManagement() {
                         <Textarea {...field} />
                       </FormControl>
                       <FormDescription>
-                        Separate multiple amenities with commas
+                        Separate multiple amenities with commas. Names are matched to the amenity list.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                
+                <FormField
+                  control={form.control}
+                  name="openingHoursString"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Opening Hours</FormLabel>
+                      <FormControl>
+                        <Textarea 
+                          placeholder="Mon-Fri 06:00-22:00; Sat-Sun 08:00-20:00" 
+                          {...field} 
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        Use 24-hour times, "closed" for closed days, or "24/7". Leave empty if unknown.
                       </FormDescription>
                       <FormMessage />
                     </FormItem>
@@ -754,12 +920,29 @@ export default function GymsManagement() {
                 
                 <FormField
                   control={form.control}
-                  name="rating"
+                  name="holidayHoursString"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Rating (0-5)</FormLabel>
+                      <FormLabel>Holiday Hours</FormLabel>
                       <FormControl>
-                        <Input type="number" min="0" max="5" step="0.1" {...field} />
+                        <Input placeholder="2025-12-25 closed; 2025-12-31 08:00-14:00" {...field} />
+                      </FormControl>
+                      <FormDescription>
+                        Dates that replace the regular hours
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                
+                <FormField
+                  control={form.control}
+                  name="timezone"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Timezone</FormLabel>
+                      <FormControl>
+                        <Input placeholder="America/New_York" {...field} />
                       </FormControl>
                       <FormMessage />
                     </FormItem>
@@ -811,29 +994,29 @@ export default function GymsManagement() {
         </AlertDialog>
 
         {/* CSV Bulk Upload UI */}
-        <div className="mt-4 p-4 border border-dashed rounded-md">
-          <div className="flex flex-col sm:flex-row items-center justify-between gap-4">
-            <div>
-              <h3 className="text-sm font-medium mb-1">Bulk Import Gyms</h3>
-              <p className="text-xs text-gray-500">
-                Upload a CSV file with gym data to add multiple gyms at once. CSV must include columns for name, address, latitude, longitude, rating, and amenities.
-              </p>
+        {hasPermission(user, "gyms:import") && (
+          <div className="mt-4 p-4 border border-dashed rounded-md">
+            <div className="flex flex-col sm:flex-row items-center justify-between gap-4">
+              <div>
+                <h3 className="text-sm font-medium mb-1">Bulk Import Gyms</h3>
+                <p className="text-xs text-gray-500">
+                  Upload a CSV file to add or update many gyms at once. You'll see what each row will do before anything is saved. Ratings come from member reviews.
+                </p>
+              </div>
+              <Button variant="outline" onClick={() => setIsImportOpen(true)}>
+                <Upload className="h-4 w-4 mr-2" /> Upload CSV
+              </Button>
             </div>
-            <Button 
-              variant="outline" 
-              onClick={handleUploadClick}
-              disabled={uploadCsvMutation.isPending}
-            >
-              {uploadCsvMutation.isPending ? (
-                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-              ) : (
-                <Upload className="h-4 w-4 mr-2" />
-              )}
-              Upload CSV
-            </Button>
           </div>
-        </div>
+        )}
+
+        {(hasPermission(user, "gyms:import") || hasPermission(user, "gyms:export")) && <BackgroundJobs />}
       </CardContent>
+      
+      <MembershipPlansDialog gym={plansGym} onClose={() => setPlansGym(null)} />
+      <AnnouncementsDialog gym={announcementsGym} onClose={() => setAnnouncementsGym(null)} />
+      <GymPhotosDialog gym={photosGym} onClose={() => setPhotosGym(null)} onChange={setPhotosGym} />
+      <GymImportDialog open={isImportOpen} onClose={() => setIsImportOpen(false)} />
     </Card>
   );
 }
@@ -0,0 +1,226 @@
+import { useState } from "react";
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { LOGIN_ATTEMPT_KINDS, LOGIN_ATTEMPT_OUTCOMES, LoginAttempt, LoginAttemptKind, LoginAttemptOutcome } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Loader2 } from "lucide-react";
+import { format } from "date-fns";
+
+const ATTEMPTS_PAGE_SIZE = 50;
+
+const KIND_LABELS: Record<LoginAttemptKind, string> = {
+  login: "Sign-in",
+  register: "Sign-up",
+  password_reset: "Password reset",
+};
+
+const OUTCOME_LABELS: Record<LoginAttemptOutcome, string> = {
+  success: "Succeeded",
+  failure: "Failed",
+  blocked: "Rate limited",
+  two_factor: "Asked for 2FA code",
+};
+
+const OUTCOME_BADGE_CLASSES: Record<LoginAttemptOutcome, string> = {
+  success: "bg-green-100 text-green-800 hover:bg-green-100",
+  failure: "bg-red-100 text-red-800 hover:bg-red-100",
+  blocked: "bg-orange-100 text-orange-800 hover:bg-orange-100",
+  two_factor: "bg-blue-100 text-blue-800 hover:bg-blue-100",
+};
+
+interface LoginAttemptsPage {
+  attempts: LoginAttempt[];
+  nextCursor: number | null;
+  hasMore: boolean;
+}
+
+interface LoginAttemptFilters {
+  kind: string;
+  outcome: string;
+  username: string;
+  ip: string;
+}
+
+// Failed attempts are what admins usually come here for
+const DEFAULT_FILTERS: LoginAttemptFilters = { kind: "all", outcome: "failure", username: "", ip: "" };
+
+function toQueryString(filters: LoginAttemptFilters) {
+  const params = new URLSearchParams();
+  if (filters.kind !== "all") params.set("kind", filters.kind);
+  if (filters.outcome !== "all") params.set("outcome", filters.outcome);
+  if (filters.username.trim()) params.set("username", filters.username.trim());
+  if (filters.ip.trim()) params.set("ip", filters.ip.trim());
+  return params.toString();
+}
+
+// Recent sign-in and sign-up attempts, for spotting password guessing
+export default function LoginAttempts() {
+  const [filters, setFilters] = useState<LoginAttemptFilters>(DEFAULT_FILTERS);
+
+  const updateFilter = (key: keyof LoginAttemptFilters, value: string) => {
+    setFilters(current => ({ ...current, [key]: value }));
+  };
+
+  const queryString = toQueryString(filters);
+  const {
+    data,
+    isLoading,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ["/api/admin/login-attempts", queryString],
+    queryFn: async ({ pageParam }): Promise<LoginAttemptsPage> => {
+      const cursor = pageParam ? `&before=${pageParam}` : "";
+      const filterParams = queryString ? `&${queryString}` : "";
+      const res = await apiRequest("GET", `/api/admin/login-attempts?limit=${ATTEMPTS_PAGE_SIZE}${filterParams}${cursor}`);
+      return await res.json();
+    },
+    initialPageParam: undefined as number | undefined,
+    getNextPageParam: (lastPage) => (lastPage.hasMore && lastPage.nextCursor !== null ? lastPage.nextCursor : undefined),
+    staleTime: 0,
+  });
+
+  const attempts = data?.pages.flatMap(page => page.attempts) ?? [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+          <div>
+            <CardTitle>Sign-in Attempts</CardTitle>
+            <CardDescription>
+              Repeated failures lock a username or IP address out for a while; rate-limited attempts are listed too
+            </CardDescription>
+          </div>
+          <Button variant="outline" onClick={() => setFilters(DEFAULT_FILTERS)}>
+            Reset Filters
+          </Button>
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-2 pt-4">
+          <Select value={filters.outcome} onValueChange={(value) => updateFilter("outcome", value)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Outcomes</SelectItem>
+              {LOGIN_ATTEMPT_OUTCOMES.map(outcome => (
+                <SelectItem key={outcome} value={outcome}>
+                  {OUTCOME_LABELS[outcome]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={filters.kind} onValueChange={(value) => updateFilter("kind", value)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Sign-ins and Sign-ups</SelectItem>
+              {LOGIN_ATTEMPT_KINDS.map(kind => (
+                <SelectItem key={kind} value={kind}>
+                  {KIND_LABELS[kind]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            placeholder="Username"
+            value={filters.username}
+            onChange={(e) => updateFilter("username", e.target.value)}
+          />
+          <Input
+            placeholder="IP address"
+            value={filters.ip}
+            onChange={(e) => updateFilter("ip", e.target.value)}
+          />
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : error ? (
+          <div className="text-center py-8">
+            <p className="text-red-500">Failed to load sign-in attempts: {(error as Error).message}</p>
+          </div>
+        ) : attempts.length === 0 ? (
+          <div className="text-center py-8">
+            <p className="text-gray-500">No attempts match these filters.</p>
+          </div>
+        ) : (
+          <>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Time</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Username</TableHead>
+                    <TableHead>Outcome</TableHead>
+                    <TableHead>IP Address</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {attempts.map((attempt) => (
+                    <TableRow key={attempt.id}>
+                      <TableCell className="whitespace-nowrap">
+                        {format(new Date(attempt.createdAt), "MMM d, yyyy HH:mm:ss")}
+                      </TableCell>
+                      <TableCell>{KIND_LABELS[attempt.kind as LoginAttemptKind] ?? attempt.kind}</TableCell>
+                      <TableCell>
+                        <div className="font-medium">{attempt.username ?? "—"}</div>
+                        {attempt.userId !== null && <div className="text-xs text-gray-500">ID {attempt.userId}</div>}
+                      </TableCell>
+                      <TableCell>
+                        <Badge className={OUTCOME_BADGE_CLASSES[attempt.outcome as LoginAttemptOutcome]}>
+                          {OUTCOME_LABELS[attempt.outcome as LoginAttemptOutcome] ?? attempt.outcome}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">{attempt.ip}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            {hasNextPage && (
+              <div className="flex justify-center mt-4">
+                <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                  {isFetchingNextPage && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                  Load More
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
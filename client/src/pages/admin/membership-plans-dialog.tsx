@@ -0,0 +1,327 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Gym, MembershipPlan } from "@shared/schema";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatPrice } from "@/lib/utils";
+import { formatContract } from "@/components/ui/membership-plans";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Edit2, Trash2, Loader2, Plus } from "lucide-react";
+
+const isNonNegativeNumber = (val: string) => !isNaN(Number(val)) && Number(val) >= 0;
+
+const planFormSchema = z.object({
+  name: z.string().trim().min(1, "Plan name is required"),
+  monthlyPrice: z.string().refine((val) => val.trim() !== "" && isNonNegativeNumber(val), {
+    message: "Price must be a positive number",
+  }),
+  currency: z.string().regex(/^[A-Za-z]{3}$/, "Use a 3-letter currency code like USD"),
+  contractMonths: z.string().refine((val) => Number.isInteger(Number(val)) && Number(val) >= 0 && Number(val) <= 60, {
+    message: "Contract length must be between 0 and 60 months",
+  }),
+  dayPassPrice: z.string().refine((val) => val.trim() === "" || isNonNegativeNumber(val), {
+    message: "Price must be a positive number",
+  }),
+  amenitiesString: z.string(),
+});
+
+type PlanFormValues = z.infer<typeof planFormSchema>;
+
+const emptyPlanForm: PlanFormValues = {
+  name: "",
+  monthlyPrice: "",
+  currency: "USD",
+  contractMonths: "0",
+  dayPassPrice: "",
+  amenitiesString: "",
+};
+
+interface MembershipPlansDialogProps {
+  gym: Gym | null;
+  onClose: () => void;
+}
+
+// Admin dialog for adding, editing and removing a gym's membership plans
+export function MembershipPlansDialog({ gym, onClose }: MembershipPlansDialogProps) {
+  const { toast } = useToast();
+  const [editingPlanId, setEditingPlanId] = useState<number | null>(null);
+  const plansQueryKey = [`/api/gyms/${gym?.id}/plans`];
+
+  const { data: plans = [], isLoading } = useQuery<MembershipPlan[]>({
+    queryKey: plansQueryKey,
+    enabled: !!gym,
+  });
+
+  const form = useForm<PlanFormValues>({
+    resolver: zodResolver(planFormSchema),
+    defaultValues: emptyPlanForm,
+  });
+
+  const onPlansChanged = () => {
+    queryClient.invalidateQueries({ queryKey: plansQueryKey });
+    // Prices feed into match scores
+    queryClient.invalidateQueries({ queryKey: ["/api/matches"] });
+  };
+
+  const savePlanMutation = useMutation({
+    mutationFn: async (data: PlanFormValues) => {
+      const planData = {
+        name: data.name,
+        monthlyPrice: Number(data.monthlyPrice),
+        currency: data.currency.toUpperCase(),
+        contractMonths: Number(data.contractMonths),
+        dayPassPrice: data.dayPassPrice.trim() ? Number(data.dayPassPrice) : null,
+        includedAmenities: data.amenitiesString.split(",").map(item => item.trim()).filter(Boolean),
+      };
+
+      const res = editingPlanId
+        ? await apiRequest("PUT", `/api/gyms/${gym!.id}/plans/${editingPlanId}`, planData)
+        : await apiRequest("POST", `/api/gyms/${gym!.id}/plans`, planData);
+      return res.json();
+    },
+    onSuccess: () => {
+      onPlansChanged();
+      toast({
+        title: "Success",
+        description: editingPlanId ? "Membership plan has been updated" : "Membership plan has been added",
+      });
+      setEditingPlanId(null);
+      form.reset(emptyPlanForm);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to save membership plan: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deletePlanMutation = useMutation({
+    mutationFn: async (planId: number) => {
+      await apiRequest("DELETE", `/api/gyms/${gym!.id}/plans/${planId}`);
+    },
+    onSuccess: () => {
+      onPlansChanged();
+      toast({
+        title: "Success",
+        description: "Membership plan has been deleted",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to delete membership plan: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleEditPlan = (plan: MembershipPlan) => {
+    setEditingPlanId(plan.id);
+    form.reset({
+      name: plan.name,
+      monthlyPrice: plan.monthlyPrice.toString(),
+      currency: plan.currency,
+      contractMonths: plan.contractMonths.toString(),
+      dayPassPrice: plan.dayPassPrice?.toString() ?? "",
+      amenitiesString: plan.includedAmenities ? plan.includedAmenities.join(", ") : "",
+    });
+  };
+
+  const handleCancelEdit = () => {
+    setEditingPlanId(null);
+    form.reset(emptyPlanForm);
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      handleCancelEdit();
+      onClose();
+    }
+  };
+
+  return (
+    <Dialog open={!!gym} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Membership Plans</DialogTitle>
+          <DialogDescription>
+            Pricing for {gym?.name}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : plans.length === 0 ? (
+          <p className="text-gray-500 text-sm">No plans yet.</p>
+        ) : (
+          <ul className="divide-y border rounded-md">
+            {plans.map(plan => (
+              <li key={plan.id} className="flex items-center justify-between p-3">
+                <div>
+                  <p className="font-medium">{plan.name}</p>
+                  <p className="text-sm text-gray-500">
+                    {formatPrice(plan.monthlyPrice, plan.currency)}/mo · {formatContract(plan.contractMonths)}
+                    {plan.dayPassPrice != null && ` · Day pass ${formatPrice(plan.dayPassPrice, plan.currency)}`}
+                  </p>
+                </div>
+                <div className="flex space-x-2">
+                  <Button size="sm" variant="ghost" onClick={() => handleEditPlan(plan)}>
+                    <Edit2 className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="text-red-500 hover:text-red-700"
+                    onClick={() => deletePlanMutation.mutate(plan.id)}
+                    disabled={deletePlanMutation.isPending}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => savePlanMutation.mutate(data))} className="space-y-4 border-t pt-4">
+            <h4 className="font-medium">{editingPlanId ? "Edit plan" : "Add a plan"}</h4>
+
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Plan Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Standard" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="monthlyPrice"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Monthly Price</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="0" step="0.01" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="currency"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Currency</FormLabel>
+                    <FormControl>
+                      <Input className="uppercase" maxLength={3} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="contractMonths"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Contract Length (months)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="0" max="60" step="1" {...field} />
+                    </FormControl>
+                    <FormDescription>0 for month-to-month</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="dayPassPrice"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Day Pass Price</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="0" step="0.01" placeholder="Not offered" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="amenitiesString"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Included Amenities</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Pool, Group Classes" {...field} />
+                  </FormControl>
+                  <FormDescription>
+                    Separate multiple amenities with commas
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end space-x-2">
+              {editingPlanId && (
+                <Button type="button" variant="outline" onClick={handleCancelEdit}>
+                  Cancel
+                </Button>
+              )}
+              <Button type="submit" disabled={savePlanMutation.isPending}>
+                {savePlanMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                ) : editingPlanId ? (
+                  <Edit2 className="h-4 w-4 mr-2" />
+                ) : (
+                  <Plus className="h-4 w-4 mr-2" />
+                )}
+                {editingPlanId ? "Update Plan" : "Add Plan"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,63 @@
+import { useQuery } from "@tanstack/react-query";
+import { PasswordHashReport as PasswordHashReportData } from "@shared/schema";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Loader2 } from "lucide-react";
+
+function Stat({ label, value, hint }: { label: string; value: number; hint: string }) {
+  return (
+    <div className="rounded-md border p-3">
+      <div className="text-2xl font-bold">{value}</div>
+      <div className="text-sm font-medium">{label}</div>
+      <div className="text-xs text-gray-500">{hint}</div>
+    </div>
+  );
+}
+
+// How far the move from legacy scrypt hashes to bcrypt has got
+export default function PasswordHashReport() {
+  const { data: report, isLoading, error } = useQuery<PasswordHashReportData>({
+    queryKey: ["/api/admin/password-hashes"],
+    staleTime: 0,
+  });
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle>Password Hashes</CardTitle>
+        <CardDescription>
+          Legacy and lower-cost hashes are upgraded to bcrypt
+          {report ? ` at cost ${report.currentCost}` : ""} when their owners next sign in
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : error || !report ? (
+          <p className="text-red-500">Failed to load the password hash report: {(error as Error)?.message}</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-2">
+              <Stat label="Legacy scrypt" value={report.legacy} hint="Waiting for their next sign-in" />
+              <Stat label="Below current cost" value={report.outdatedCost} hint={`bcrypt cost under ${report.currentCost}`} />
+              <Stat label="Up to date" value={report.current} hint={`bcrypt cost ${report.currentCost} or more`} />
+              <Stat label="No password" value={report.withoutPassword} hint="Sign in with Google only" />
+            </div>
+            {report.byCost.length > 0 && (
+              <p className="text-xs text-gray-500 mt-3">
+                bcrypt accounts by cost: {report.byCost.map(({ cost, count }) => `${cost} (${count})`).join(", ")}
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,267 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { ReportAction, ReportReason, UserReportWithUsers } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { REPORT_REASON_LABELS } from "@/components/ui/report-user-dialog";
+
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2, Ban, AlertTriangle, X } from "lucide-react";
+import { format } from "date-fns";
+
+type StatusFilter = "open" | "dismissed" | "warned" | "banned" | "all";
+
+const ACTION_COPY: Record<ReportAction, { title: string; description: string; confirm: string }> = {
+  dismiss: {
+    title: "Dismiss this report?",
+    description: "No action will be taken against the member.",
+    confirm: "Dismiss",
+  },
+  warn: {
+    title: "Warn this member?",
+    description: "They'll be shown your note as a warning from the moderators.",
+    confirm: "Send Warning",
+  },
+  ban: {
+    title: "Ban this member?",
+    description: "They'll be signed out and can't log in again until unbanned from User Management.",
+    confirm: "Ban User",
+  },
+};
+
+const STATUS_BADGES: Record<string, string> = {
+  open: "bg-yellow-100 text-yellow-800 hover:bg-yellow-100",
+  dismissed: "bg-gray-100 text-gray-800 hover:bg-gray-100",
+  warned: "bg-orange-100 text-orange-800 hover:bg-orange-100",
+  banned: "bg-red-100 text-red-800 hover:bg-red-100",
+};
+
+// Admin moderation queue for member reports
+export default function ReportsManagement() {
+  const { toast } = useToast();
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("open");
+  const [pendingAction, setPendingAction] = useState<{ report: UserReportWithUsers; action: ReportAction } | null>(null);
+  const [note, setNote] = useState("");
+
+  const reportsUrl = statusFilter === "all" ? "/api/admin/reports" : `/api/admin/reports?status=${statusFilter}`;
+  const { data: reports = [], isLoading } = useQuery<UserReportWithUsers[]>({
+    queryKey: [reportsUrl],
+  });
+
+  const closeActionDialog = () => {
+    setPendingAction(null);
+    setNote("");
+  };
+
+  const resolveMutation = useMutation({
+    mutationFn: async ({ reportId, action }: { reportId: number; action: ReportAction }) => {
+      const res = await apiRequest("PUT", `/api/admin/reports/${reportId}`, {
+        action,
+        note: note.trim() || undefined,
+      });
+      return res.json();
+    },
+    onSuccess: (_data, { action }) => {
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/admin/reports"),
+      });
+      if (action === "ban") {
+        queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+      }
+      closeActionDialog();
+      toast({
+        title: "Success",
+        description: "Report has been resolved",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to resolve report: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const confirmAction = () => {
+    if (pendingAction) {
+      resolveMutation.mutate({ reportId: pendingAction.report.id, action: pendingAction.action });
+    }
+  };
+
+  const actionCopy = pendingAction ? ACTION_COPY[pendingAction.action] : null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+          <div>
+            <CardTitle>Reports</CardTitle>
+            <CardDescription>Review reports from members and decide what to do</CardDescription>
+          </div>
+          <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as StatusFilter)}>
+            <SelectTrigger className="w-full sm:w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="open">Open</SelectItem>
+              <SelectItem value="dismissed">Dismissed</SelectItem>
+              <SelectItem value="warned">Warned</SelectItem>
+              <SelectItem value="banned">Banned</SelectItem>
+              <SelectItem value="all">All Reports</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : reports.length === 0 ? (
+          <div className="text-center py-8">
+            <p className="text-gray-500">No reports to show.</p>
+          </div>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Reported Member</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>Details</TableHead>
+                  <TableHead>Reported By</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {reports.map((report) => (
+                  <TableRow key={report.id}>
+                    <TableCell>
+                      <div className="font-medium">{report.reportedUser?.name ?? "Deleted user"}</div>
+                      {report.reportedUser && (
+                        <div className="text-xs text-gray-500">@{report.reportedUser.username}</div>
+                      )}
+                      {report.priorWarnings > 0 && (
+                        <div className="text-xs text-orange-600">
+                          {report.priorWarnings} previous {report.priorWarnings === 1 ? "warning" : "warnings"}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>{REPORT_REASON_LABELS[report.reason as ReportReason] ?? report.reason}</TableCell>
+                    <TableCell className="max-w-xs">
+                      {report.details && <p className="text-sm">{report.details}</p>}
+                      {report.messageExcerpt && (
+                        <blockquote className="mt-1 border-l-2 border-gray-200 pl-2 text-xs text-gray-600 italic">
+                          {report.messageExcerpt}
+                        </blockquote>
+                      )}
+                      {report.resolutionNote && (
+                        <p className="mt-1 text-xs text-gray-500">Note: {report.resolutionNote}</p>
+                      )}
+                    </TableCell>
+                    <TableCell>{report.reporter?.name ?? "Deleted user"}</TableCell>
+                    <TableCell>{report.createdAt ? format(new Date(report.createdAt), "MMM d, yyyy") : "N/A"}</TableCell>
+                    <TableCell className="text-right">
+                      {report.status === "open" ? (
+                        <div className="flex justify-end space-x-1">
+                          <Button variant="ghost" size="sm" onClick={() => setPendingAction({ report, action: "dismiss" })}>
+                            <X className="h-4 w-4 mr-1" /> Dismiss
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="text-orange-600"
+                            onClick={() => setPendingAction({ report, action: "warn" })}
+                            disabled={!report.reportedUser}
+                          >
+                            <AlertTriangle className="h-4 w-4 mr-1" /> Warn
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="text-red-600"
+                            onClick={() => setPendingAction({ report, action: "ban" })}
+                            disabled={!report.reportedUser || !!report.reportedUser.isBanned}
+                          >
+                            <Ban className="h-4 w-4 mr-1" /> Ban
+                          </Button>
+                        </div>
+                      ) : (
+                        <Badge variant="outline" className={STATUS_BADGES[report.status]}>
+                          {report.status.charAt(0).toUpperCase() + report.status.slice(1)}
+                        </Badge>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        {/* Resolve Report Confirmation Dialog */}
+        <AlertDialog open={pendingAction !== null} onOpenChange={(open) => !open && closeActionDialog()}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>{actionCopy?.title}</AlertDialogTitle>
+              <AlertDialogDescription>{actionCopy?.description}</AlertDialogDescription>
+            </AlertDialogHeader>
+            <Textarea
+              placeholder={pendingAction?.action === "warn" ? "Message to the member" : "Note for other moderators (optional)"}
+              maxLength={1000}
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={confirmAction}
+                className={pendingAction?.action === "ban" ? "bg-red-500 hover:bg-red-600" : undefined}
+                disabled={resolveMutation.isPending}
+              >
+                {resolveMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                {actionCopy?.confirm}
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,63 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { SecuritySettings } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { ShieldCheck } from "lucide-react";
+
+const securitySettingsQueryKey = ["/api/admin/security-settings"];
+
+// Toggle for requiring staff accounts to use two-factor authentication
+export function StaffTwoFactorSetting() {
+  const { toast } = useToast();
+  const { data: settings } = useQuery<SecuritySettings>({
+    queryKey: securitySettingsQueryKey,
+  });
+
+  const updateSettingsMutation = useMutation({
+    mutationFn: async (data: SecuritySettings) => {
+      const res = await apiRequest("PUT", "/api/admin/security-settings", data);
+      return await res.json() as SecuritySettings;
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(securitySettingsQueryKey, updated);
+      queryClient.invalidateQueries({ queryKey: ["/api/user/2fa"] });
+      toast({
+        title: "Success",
+        description: updated.requireStaffTwoFactor
+          ? "Staff must now use two-factor authentication"
+          : "Two-factor authentication is now optional for staff",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to update security settings: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!settings) return null;
+
+  return (
+    <div className="flex items-center justify-between gap-4 rounded-md border p-3 mb-4">
+      <div className="flex items-start gap-2">
+        <ShieldCheck className="h-4 w-4 mt-0.5 text-primary" />
+        <div>
+          <Label htmlFor="require-staff-2fa">Require two-factor authentication for staff</Label>
+          <p className="text-xs text-gray-500">
+            Staff without it are locked out of the admin tools until they turn it on from their profile.
+          </p>
+        </div>
+      </div>
+      <Switch
+        id="require-staff-2fa"
+        checked={settings.requireStaffTwoFactor}
+        onCheckedChange={(checked) => updateSettingsMutation.mutate({ requireStaffTwoFactor: checked })}
+        disabled={updateSettingsMutation.isPending}
+      />
+    </div>
+  );
+}
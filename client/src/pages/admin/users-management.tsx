@@ -1,8 +1,12 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { User } from "@shared/schema";
+import { ROLE_LABELS, hasPermission, isRole } from "@shared/permissions";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { ChangeRoleDialog } from "./change-role-dialog";
+import { StaffTwoFactorSetting } from "./staff-two-factor-setting";
 
 import {
   Table,
@@ -49,7 +53,9 @@ import {
   User as UserIcon, 
   Loader2, 
   ChevronDown,
-  Ban
+  Ban,
+  KeyRound,
+  ShieldOff
 } from "lucide-react";
 import { format } from "date-fns";
 
@@ -59,6 +65,11 @@ export default function UsersManagement() {
   const [filterStatus, setFilterStatus] = useState<string>("all");
   const [deleteUserId, setDeleteUserId] = useState<number | null>(null);
   const [banUserId, setbanUserId] = useState<number | null>(null);
+  const [roleUser, setRoleUser] = useState<User | null>(null);
+  const [resetTwoFactorUser, setResetTwoFactorUser] = useState<User | null>(null);
+  const { user: currentUser } = useAuth();
+  const canAssignRoles = hasPermission(currentUser, "users:assign_roles");
+  const canManageSecurity = hasPermission(currentUser, "security:manage");
 
   // Fetch all users
   const { data: users = [], isLoading } = useQuery<User[]>({
@@ -123,6 +134,28 @@ export default function UsersManagement() {
     },
   });
 
+  // Reset 2FA for a locked-out user
+  const resetTwoFactorMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      await apiRequest("DELETE", `/api/admin/users/${userId}/2fa`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+      setResetTwoFactorUser(null);
+      toast({
+        title: "Success",
+        description: "Two-factor authentication has been reset",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to reset two-factor authentication: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
   // Filter users based on search query and filter status
   const filteredUsers = users.filter(user => {
     const matchesSearch = (
@@ -132,7 +165,7 @@ export default function UsersManagement() {
 
     // Filter by status
     if (filterStatus === "all") return matchesSearch;
-    if (filterStatus === "admin") return matchesSearch && !!user.isAdmin;
+    if (filterStatus === "staff") return matchesSearch && user.role !== "member";
     if (filterStatus === "banned") return matchesSearch && (!!user.isBanned || user.status === "banned");
     return matchesSearch;
   });
@@ -152,9 +185,9 @@ export default function UsersManagement() {
     }
   };
 
-  // Check if user is an admin
+  // Super admins can't be banned or deleted
   const isUserAdmin = (user: User) => {
-    return user.isAdmin;
+    return user.role === "super_admin";
   };
 
   // Format date as "MMM d, yyyy"
@@ -189,7 +222,7 @@ export default function UsersManagement() {
               <DropdownMenuTrigger asChild>
                 <Button variant="outline" className="w-full sm:w-auto">
                   {filterStatus === "all" && "All Users"}
-                  {filterStatus === "admin" && "Admins Only"}
+                  {filterStatus === "staff" && "Staff Only"}
                   {filterStatus === "banned" && "Banned Users"}
                   <ChevronDown className="h-4 w-4 ml-2" />
                 </Button>
@@ -200,8 +233,8 @@ export default function UsersManagement() {
                 <DropdownMenuItem onClick={() => setFilterStatus("all")}>
                   All Users
                 </DropdownMenuItem>
-                <DropdownMenuItem onClick={() => setFilterStatus("admin")}>
-                  Admins Only
+                <DropdownMenuItem onClick={() => setFilterStatus("staff")}>
+                  Staff Only
                 </DropdownMenuItem>
                 <DropdownMenuItem onClick={() => setFilterStatus("banned")}>
                   Banned Users
@@ -212,6 +245,8 @@ export default function UsersManagement() {
         </div>
       </CardHeader>
       <CardContent>
+        {canManageSecurity && <StaffTwoFactorSetting />}
+        
         {isLoading ? (
           <div className="flex justify-center py-8">
             <Loader2 className="h-8 w-8 animate-spin text-primary" />
@@ -259,12 +294,19 @@ export default function UsersManagement() {
                         </div>
                       </div>
                     </TableCell>
-                    <TableCell>{user.username}</TableCell>
+                    <TableCell>
+                      {user.username}
+                      {user.totpEnabledAt && (
+                        <Badge variant="outline" className="ml-2 text-xs" title="Two-factor authentication is on">
+                          2FA
+                        </Badge>
+                      )}
+                    </TableCell>
                     <TableCell>{formatDate(user.createdAt)}</TableCell>
                     <TableCell>
-                      {isUserAdmin(user) ? (
+                      {user.role !== "member" ? (
                         <Badge className="bg-primary/20 text-primary hover:bg-primary/30">
-                          <Shield className="h-3 w-3 mr-1" /> Admin
+                          <Shield className="h-3 w-3 mr-1" /> {isRole(user.role) ? ROLE_LABELS[user.role] : user.role}
                         </Badge>
                       ) : user.isBanned || user.status === "banned" ? (
                         <Badge variant="outline" className="bg-red-100 text-red-800 hover:bg-red-200">
@@ -286,6 +328,18 @@ export default function UsersManagement() {
                         <DropdownMenuContent align="end">
                           <DropdownMenuLabel>Actions</DropdownMenuLabel>
                           <DropdownMenuSeparator />
+                          {canAssignRoles && (
+                            <DropdownMenuItem onClick={() => setRoleUser(user)}>
+                              <KeyRound className="h-4 w-4 mr-2" />
+                              Change Role
+                            </DropdownMenuItem>
+                          )}
+                          {user.totpEnabledAt && user.id !== currentUser?.id && (
+                            <DropdownMenuItem onClick={() => setResetTwoFactorUser(user)}>
+                              <ShieldOff className="h-4 w-4 mr-2" />
+                              Reset 2FA
+                            </DropdownMenuItem>
+                          )}
                           <DropdownMenuItem
                             onClick={() => setbanUserId(user.id)}
                             disabled={isUserAdmin(user)}
@@ -312,6 +366,8 @@ export default function UsersManagement() {
           </div>
         )}
 
+        <ChangeRoleDialog user={roleUser} onClose={() => setRoleUser(null)} />
+
         {/* Ban User Confirmation Dialog */}
         <AlertDialog open={banUserId !== null} onOpenChange={() => setbanUserId(null)}>
           <AlertDialogContent>
@@ -340,6 +396,29 @@ export default function UsersManagement() {
           </AlertDialogContent>
         </AlertDialog>
 
+        {/* Reset 2FA Confirmation Dialog */}
+        <AlertDialog open={resetTwoFactorUser !== null} onOpenChange={() => setResetTwoFactorUser(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Reset two-factor authentication?</AlertDialogTitle>
+              <AlertDialogDescription>
+                {resetTwoFactorUser?.name} will be able to sign in with just their password and can set up
+                two-factor authentication again from their profile. Only do this once you're sure it's really them.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={() => resetTwoFactorUser && resetTwoFactorMutation.mutate(resetTwoFactorUser.id)}
+                disabled={resetTwoFactorMutation.isPending}
+              >
+                {resetTwoFactorMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                Reset 2FA
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+
         {/* Delete User Confirmation Dialog */}
         <AlertDialog open={deleteUserId !== null} onOpenChange={() => setDeleteUserId(null)}>
           <AlertDialogContent>
@@ -1,11 +1,14 @@
 import { useState } from "react";
-import { useLocation } from "wouter";
+import { useLocation, useSearch } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { LoginData, RegisterData, loginSchema, registerSchema } from "@shared/schema";
 import GoogleAuthButton from "@/components/auth/google-auth-button";
+import { ForgotPasswordForm, ResetPasswordForm } from "@/components/auth/password-reset-forms";
+import { VerifyEmailCard } from "@/components/auth/email-verification";
+import { TwoFactorCodeInput } from "@/components/auth/two-factor-code-input";
 
 import { Dumbbell, Loader2 } from "lucide-react";
 import { 
@@ -36,11 +39,20 @@ import { Checkbox } from "@/components/ui/checkbox";
 
 export default function AuthPage() {
   const [activeTab, setActiveTab] = useState("login");
+  const [showForgotPassword, setShowForgotPassword] = useState(false);
   const [, setLocation] = useLocation();
-  const { user, loginMutation, registerMutation } = useAuth();
+  const { user, loginMutation, twoFactorLoginMutation, registerMutation } = useAuth();
   
-  // Redirect to home if user is already logged in
-  if (user) {
+  // Links from emails land here with ?reset=<token> or ?verify=<token>, and
+  // Google sign-in with ?two-factor=1 when the account needs its code
+  const searchParams = new URLSearchParams(useSearch());
+  const resetToken = searchParams.get("reset");
+  const verifyToken = searchParams.get("verify");
+  const needsTwoFactorCode = searchParams.has("two-factor") ||
+    (!!loginMutation.data && "twoFactorRequired" in loginMutation.data);
+  
+  // Redirect to home if user is already logged in, unless they followed an email link
+  if (user && !resetToken && !verifyToken) {
     setLocation("/");
     return null;
   }
@@ -59,6 +71,7 @@ export default function AuthPage() {
     resolver: zodResolver(registerSchema),
     defaultValues: {
       username: "",
+      email: "",
       password: "",
       name: "",
     },
@@ -73,6 +86,11 @@ export default function AuthPage() {
     registerMutation.mutate(data);
   };
   
+  const cancelTwoFactor = () => {
+    loginMutation.reset();
+    setLocation("/auth");
+  };
+  
   return (
     <div className="min-h-screen flex flex-col md:flex-row">
       {/* Form Section */}
@@ -86,6 +104,36 @@ export default function AuthPage() {
             <p className="text-gray-700 mt-2">Find your perfect gym based on your fitness goals.</p>
           </div>
           
+          {verifyToken ? (
+            <VerifyEmailCard token={verifyToken} onDone={() => setLocation(user ? "/" : "/auth")} />
+          ) : resetToken ? (
+            <ResetPasswordForm
+              token={resetToken}
+              onDone={() => {
+                setActiveTab("login");
+                setLocation("/auth");
+              }}
+            />
+          ) : needsTwoFactorCode ? (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-primary">Two-factor authentication</CardTitle>
+                <CardDescription>Enter the 6-digit code from your authenticator app</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <TwoFactorCodeInput
+                  submitLabel="Verify"
+                  isPending={twoFactorLoginMutation.isPending}
+                  onSubmit={(code) => twoFactorLoginMutation.mutate(code)}
+                />
+              </CardContent>
+              <CardFooter>
+                <Button variant="link" className="p-0 h-auto text-primary" onClick={cancelTwoFactor}>
+                  Back to sign in
+                </Button>
+              </CardFooter>
+            </Card>
+          ) : (
           <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
             <TabsList className="grid w-full grid-cols-2 mb-6">
               <TabsTrigger value="login">Login</TabsTrigger>
@@ -93,6 +141,9 @@ export default function AuthPage() {
             </TabsList>
             
             <TabsContent value="login">
+              {showForgotPassword ? (
+                <ForgotPasswordForm onBack={() => setShowForgotPassword(false)} />
+              ) : (
               <Card>
                 <CardHeader>
                   <CardTitle className="text-primary">Sign In</CardTitle>
@@ -139,7 +190,12 @@ export default function AuthPage() {
                             Remember me
                           </label>
                         </div>
-                        <Button variant="link" className="p-0 h-auto text-primary">
+                        <Button
+                          type="button"
+                          variant="link"
+                          className="p-0 h-auto text-primary"
+                          onClick={() => setShowForgotPassword(true)}
+                        >
                           Forgot password?
                         </Button>
                       </div>
@@ -170,6 +226,7 @@ export default function AuthPage() {
                   </div>
                 </CardFooter>
               </Card>
+              )}
             </TabsContent>
             
             <TabsContent value="register">
@@ -209,6 +266,20 @@ export default function AuthPage() {
                         )}
                       />
                       
+                      <FormField
+                        control={registerForm.control}
+                        name="email"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Email</FormLabel>
+                            <FormControl>
+                              <Input type="email" placeholder="john@example.com" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      
                       <FormField
                         control={registerForm.control}
                         name="password"
@@ -261,6 +332,7 @@ export default function AuthPage() {
               </Card>
             </TabsContent>
           </Tabs>
+          )}
         </div>
       </div>
       
@@ -1,13 +1,20 @@
 import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
-import { Gym } from "@shared/schema";
+import { Gym, GymMatch, GymWithDistance } from "@shared/schema";
 import Navbar from "@/components/layout/navbar";
 import MobileNav from "@/components/layout/mobile-nav";
 import { GymCard } from "@/components/ui/gym-card";
+import { GymReviews } from "@/components/ui/gym-reviews";
+import { OpenStatusBadge } from "@/components/ui/open-status-badge";
+import { MembershipPlans } from "@/components/ui/membership-plans";
+import { GymAnnouncements } from "@/components/ui/gym-announcements";
+import { ClaimGymDialog } from "@/components/ui/claim-gym-dialog";
+import { MatchReasons } from "@/components/ui/match-reasons";
 import { NearbyGymCard } from "@/components/ui/nearby-gym-card";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
+import { useGeolocation, formatDistance } from "@/hooks/use-geolocation";
 import { apiRequest } from "@/lib/queryClient";
 import { 
   Dialog,
@@ -31,8 +38,12 @@ import {
 import { Input } from "@/components/ui/input";
 import { useLocation } from "wouter";
 
+// Radius (km) used for the "Nearby Gyms" section
+const NEARBY_RADIUS_KM = 25;
+
 export default function HomePage() {
   const { user } = useAuth();
+  const [claimGym, setClaimGym] = useState<Pick<Gym, "id" | "name"> | null>(null);
   const [selectedGym, setSelectedGym] = useState<Gym | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -43,20 +54,43 @@ export default function HomePage() {
   const { 
     data: matchedGyms = [], 
     isLoading: isLoadingMatches 
-  } = useQuery<(Gym & { matchScore: number })[]>({
+  } = useQuery<GymMatch[]>({
     queryKey: ["/api/matches"],
     enabled: !!user,
   });
   
-  // Fetch all gyms (for nearby gyms section)
+  // Use the browser location for the nearby gyms section
+  const { position, error: locationError, isLoading: isLocating } = useGeolocation(!!user);
+  
+  // Fetch gyms near the user, nearest first
   const { 
-    data: allGyms = [], 
-    isLoading: isLoadingGyms 
-  } = useQuery<Gym[]>({
-    queryKey: ["/api/gyms"],
-    enabled: !!user,
+    data: nearbyGyms = [], 
+    isLoading: isLoadingNearby 
+  } = useQuery<GymWithDistance[]>({
+    queryKey: [
+      position
+        ? `/api/gyms/nearby?lat=${position.lat}&lng=${position.lng}&radius=${NEARBY_RADIUS_KM}&unit=km`
+        : "/api/gyms/nearby"
+    ],
+    enabled: !!user && !!position,
   });
   
+  const isLoadingGyms = isLocating || (!!position && isLoadingNearby);
+  
+  // Look up the real match score for a gym from the matches list
+  const getMatchScore = (gymId: number) => 
+    matchedGyms.find(match => match.id === gymId)?.matchScore;
+  
+  // Open the area around the user in a map
+  const handleViewMap = () => {
+    if (!position) return;
+    window.open(
+      `https://www.google.com/maps/search/gym/@${position.lat},${position.lng},13z`,
+      "_blank",
+      "noopener"
+    );
+  };
+  
   // Check if gym is saved
   const { data: savedGyms = [] } = useQuery<{ gymId: number }[]>({
     queryKey: ["/api/saved-gyms"],
@@ -73,6 +107,9 @@ export default function HomePage() {
     setSelectedGym(null);
   };
   
+  // Score breakdown for the selected gym, when it's among the user's matches
+  const selectedMatch = selectedGym ? matchedGyms.find(match => match.id === selectedGym.id) : undefined;
+  
   // Determine if the selected gym is already saved to favorites
   const isGymSaved = selectedGym ? savedGyms.some(savedGym => savedGym.gymId === selectedGym.id) : false;
   
@@ -205,7 +242,12 @@ export default function HomePage() {
         <div>
           <div className="flex justify-between items-center mb-4">
             <h2 className="text-lg font-bold text-gray-800">Nearby Gyms</h2>
-            <Button variant="link" className="text-primary text-sm p-0 h-auto flex items-center">
+            <Button 
+              variant="link" 
+              className="text-primary text-sm p-0 h-auto flex items-center"
+              onClick={handleViewMap}
+              disabled={!position}
+            >
               View Map
               <Map className="h-4 w-4 ml-1" />
             </Button>
@@ -217,14 +259,24 @@ export default function HomePage() {
                 <div className="flex justify-center py-8">
                   <Loader2 className="h-8 w-8 animate-spin text-primary" />
                 </div>
+              ) : !position ? (
+                <p className="text-sm text-gray-500 text-center py-6">
+                  {locationError 
+                    ? `We couldn't get your location (${locationError}). Allow location access to see gyms near you.`
+                    : "Allow location access to see gyms near you."}
+                </p>
+              ) : nearbyGyms.length === 0 ? (
+                <p className="text-sm text-gray-500 text-center py-6">
+                  No gyms found within {NEARBY_RADIUS_KM} km of you.
+                </p>
               ) : (
-                allGyms.slice(0, 3).map((gym) => (
+                nearbyGyms.slice(0, 3).map((gym) => (
                   <NearbyGymCard 
                     key={gym.id} 
                     gym={{
                       ...gym,
-                      matchScore: Math.floor(75 + Math.random() * 15),
-                      distance: `In your neighborhood (${(gym.location as any)?.address?.split(',')[1]?.trim() || 'Local area'})`
+                      matchScore: getMatchScore(gym.id),
+                      distance: `${formatDistance(gym.distanceKm)} away`
                     }}
                     onClick={() => handleOpenGymDetails(gym)}
                   />
@@ -246,6 +298,7 @@ export default function HomePage() {
                 {(selectedGym?.location as any)?.address}
               </div>
             </DialogDescription>
+            {selectedGym && <OpenStatusBadge gym={selectedGym} />}
           </DialogHeader>
           
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -269,34 +322,31 @@ export default function HomePage() {
             </div>
             
             <div>
-              <div className="mb-4">
-                <h3 className="text-lg font-semibold mb-2">Match Score</h3>
-                <div className="bg-green-100 text-green-800 px-3 py-2 rounded-lg inline-flex items-center">
-                  <Dumbbell className="h-4 w-4 mr-2" />
-                  <span className="font-semibold">{Math.floor(75 + Math.random() * 15)}% Match</span> with your fitness preferences
+              {selectedMatch && (
+                <div className="mb-4">
+                  <h3 className="text-lg font-semibold mb-2">Match Score</h3>
+                  <div className="bg-green-100 text-green-800 px-3 py-2 rounded-lg inline-flex items-center mb-3">
+                    <Dumbbell className="h-4 w-4 mr-2" />
+                    <span className="font-semibold mr-1">{selectedMatch.matchScore}% Match</span> with your fitness preferences
+                  </div>
+                  <h4 className="font-medium text-gray-800 mb-2">Why this gym</h4>
+                  <MatchReasons breakdown={selectedMatch.matchBreakdown} />
                 </div>
+              )}
+              
+              <div className="mb-4">
+                <h3 className="text-lg font-semibold mb-2">Membership</h3>
+                {selectedGym && <MembershipPlans gymId={selectedGym.id} />}
               </div>
               
               <div className="mb-4">
-                <h3 className="text-lg font-semibold mb-2">Rating</h3>
-                <div className="flex items-center">
-                  {[...Array(Math.floor(selectedGym?.rating || 0))].map((_, i) => (
-                    <svg key={i} xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-yellow-500 fill-yellow-500" viewBox="0 0 20 20">
-                      <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" />
-                    </svg>
-                  ))}
-                  {selectedGym?.rating && selectedGym.rating % 1 >= 0.5 && (
-                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-yellow-500" viewBox="0 0 20 20">
-                      <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" />
-                    </svg>
-                  )}
-                  {[...Array(5 - Math.ceil(selectedGym?.rating || 0))].map((_, i) => (
-                    <svg key={i + Math.ceil(selectedGym?.rating || 0)} xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-gray-300" viewBox="0 0 20 20">
-                      <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" />
-                    </svg>
-                  ))}
-                  <span className="ml-2 text-gray-600">({Math.round((selectedGym?.rating || 0) * 10)} reviews)</span>
-                </div>
+                <h3 className="text-lg font-semibold mb-2">News</h3>
+                {selectedGym && <GymAnnouncements gymId={selectedGym.id} />}
+              </div>
+              
+              <div className="mb-4">
+                <h3 className="text-lg font-semibold mb-2">Reviews</h3>
+                {selectedGym && <GymReviews gymId={selectedGym.id} />}
               </div>
               
               <div className="mb-4">
@@ -316,12 +366,22 @@ export default function HomePage() {
                   <Heart className={`h-4 w-4 mr-2 ${isGymSaved ? 'fill-current' : ''}`} /> 
                   {isGymSaved ? 'Remove from Favorites' : 'Save to Favorites'}
                 </Button>
+                <Button 
+                  variant="link" 
+                  size="sm" 
+                  className="w-full mt-1 text-gray-500"
+                  onClick={() => selectedGym && setClaimGym({ id: selectedGym.id, name: selectedGym.name })}
+                >
+                  Work here? Claim this gym
+                </Button>
               </div>
             </div>
           </div>
         </DialogContent>
       </Dialog>
       
+      <ClaimGymDialog gym={claimGym} onClose={() => setClaimGym(null)} />
+      
       <MobileNav />
     </div>
   );
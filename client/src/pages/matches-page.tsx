@@ -1,9 +1,18 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
-import { Gym } from "@shared/schema";
+import { Gym, GymSearchResult } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
+import { useGymSearch, type GymSearchParams } from "@/hooks/use-gym-search";
 import Navbar from "@/components/layout/navbar";
 import MobileNav from "@/components/layout/mobile-nav";
 import { GymCard } from "@/components/ui/gym-card";
+import { GymReviews } from "@/components/ui/gym-reviews";
+import { OpenStatusBadge } from "@/components/ui/open-status-badge";
+import { MembershipPlans } from "@/components/ui/membership-plans";
+import { GymAnnouncements } from "@/components/ui/gym-announcements";
+import { ClaimGymDialog } from "@/components/ui/claim-gym-dialog";
+import { MatchReasons } from "@/components/ui/match-reasons";
+import { AmenityFilterChips } from "@/components/ui/amenity-filter-chips";
 import { 
   Dialog,
   DialogContent,
@@ -15,60 +24,67 @@ import { Loader2, MapPin, Search } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useGeolocation } from "@/hooks/use-geolocation";
+
+// Radius (km) used by the "Nearby" filter
+const NEARBY_RADIUS_KM = 25;
+// Rating the "Highly Rated" filter starts at
+const HIGHLY_RATED_MIN = 4.5;
+const MATCHES_PAGE_SIZE = 24;
 
 const filters = ["All Matches", "Highly Rated", "Nearby", "Recently Added", "My Favorites"];
 
 export default function MatchesPage() {
-  const [selectedGym, setSelectedGym] = useState<Gym | null>(null);
+  const [claimGym, setClaimGym] = useState<Pick<Gym, "id" | "name"> | null>(null);
+  const [selectedGym, setSelectedGym] = useState<GymSearchResult | null>(null);
   const [activeFilter, setActiveFilter] = useState("All Matches");
   const [searchQuery, setSearchQuery] = useState("");
+  const [selectedAmenities, setSelectedAmenities] = useState<number[]>([]);
+  const [maxPrice, setMaxPrice] = useState("");
+  const [sortBy, setSortBy] = useState<"match" | "price">("match");
+  const { user } = useAuth();
   
-  // Fetch matches
-  const { 
-    data: matchedGyms = [], 
-    isLoading 
-  } = useQuery<(Gym & { matchScore: number })[]>({
-    queryKey: ["/api/matches"],
-  });
+  const priceCeiling = maxPrice.trim() !== "" && !isNaN(Number(maxPrice)) ? Number(maxPrice) : undefined;
+  const debouncedQuery = useDebouncedValue(searchQuery.trim());
   
-  // Fetch saved gyms
-  const { 
-    data: savedGyms = [],
-    isLoading: isLoadingSavedGyms
-  } = useQuery<{ gymId: number, gym?: Gym }[]>({
-    queryKey: ["/api/saved-gyms"],
-  });
+  // Only ask for the user's location once the "Nearby" filter is used
+  const isNearbyFilter = activeFilter === "Nearby";
+  const { position, error: locationError, isLoading: isLocating } = useGeolocation(isNearbyFilter);
   
-  // Get IDs of saved gyms
-  const savedGymIds = savedGyms.map(sg => sg.gymId);
+  // Everything is filtered, scored and sorted on the server. Nearby results
+  // are nearest first and distance counts towards their scores too.
+  const searchParams: GymSearchParams = {
+    q: debouncedQuery || undefined,
+    amenities: selectedAmenities,
+    maxPrice: priceCeiling,
+    sort: isNearbyFilter ? "distance" : activeFilter === "Recently Added" ? "newest" : sortBy,
+    limit: MATCHES_PAGE_SIZE,
+  };
+  if (activeFilter === "Highly Rated") searchParams.minRating = HIGHLY_RATED_MIN;
+  if (activeFilter === "My Favorites") searchParams.saved = true;
+  if (isNearbyFilter && position) searchParams.near = { ...position, radiusKm: NEARBY_RADIUS_KM };
   
-  // Filter matches based on active filter and search query
-  const filteredGyms = matchedGyms.filter(gym => {
-    const matchesSearch = searchQuery === "" || 
-      gym.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      (gym.location as any)?.address?.toLowerCase().includes(searchQuery.toLowerCase());
-      
-    if (!matchesSearch) return false;
-    
-    switch (activeFilter) {
-      case "Highly Rated":
-        return gym.rating && gym.rating >= 4.5;
-      case "Nearby":
-        // In a real app, this would use actual geospatial data
-        return true; 
-      case "Recently Added":
-        // In a real app, this would check the gym's creation date
-        return true;
-      case "My Favorites":
-        // Show only gyms that are in the user's saved gyms
-        return savedGymIds.includes(gym.id);
-      default:
-        return true;
-    }
-  });
+  const {
+    gyms: matchedGyms,
+    total,
+    facets,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useGymSearch(searchParams, !isNearbyFilter || !!position);
+  
+  const isLoadingResults = isLoading || (isNearbyFilter && isLocating);
   
   // Handler for opening gym details
-  const handleOpenGymDetails = (gym: Gym) => {
+  const handleOpenGymDetails = (gym: GymSearchResult) => {
     setSelectedGym(gym);
   };
   
@@ -97,6 +113,30 @@ export default function MatchesPage() {
           </div>
         </div>
         
+        {/* Price ceiling and sort order */}
+        <div className="flex flex-col sm:flex-row gap-3 mb-4">
+          <div className="relative sm:w-64">
+            <Input
+              type="number"
+              min="0"
+              step="1"
+              placeholder={`Max price per month (${user?.budgetCurrency ?? "USD"})`}
+              className="bg-white shadow"
+              value={maxPrice}
+              onChange={(e) => setMaxPrice(e.target.value)}
+            />
+          </div>
+          <Select value={sortBy} onValueChange={(value) => setSortBy(value as "match" | "price")}>
+            <SelectTrigger className="sm:w-48 bg-white shadow">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="match">Best match</SelectItem>
+              <SelectItem value="price">Lowest price</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        
         {/* Filters */}
         <div className="flex space-x-4 mb-6 overflow-x-auto pb-2">
           {filters.map((filter) => (
@@ -111,12 +151,27 @@ export default function MatchesPage() {
           ))}
         </div>
         
+        {/* Amenities, with how many of the results have each */}
+        <div className="mb-6">
+          <AmenityFilterChips facets={facets} selected={selectedAmenities} onChange={setSelectedAmenities} />
+        </div>
+        
         {/* Matches grid */}
-        {isLoading ? (
+        {isLoadingResults ? (
           <div className="flex justify-center py-8">
             <Loader2 className="h-8 w-8 animate-spin text-primary" />
           </div>
-        ) : filteredGyms.length === 0 ? (
+        ) : isNearbyFilter && !position ? (
+          <div className="text-center py-12">
+            <div className="bg-gray-100 inline-flex rounded-full p-4 mb-4">
+              <MapPin className="h-8 w-8 text-gray-400" />
+            </div>
+            <h3 className="text-lg font-medium text-gray-900 mb-2">Location unavailable</h3>
+            <p className="text-gray-600">
+              {locationError || "Allow location access to see gyms near you."}
+            </p>
+          </div>
+        ) : matchedGyms.length === 0 ? (
           <div className="text-center py-12">
             <div className="bg-gray-100 inline-flex rounded-full p-4 mb-4">
               <Search className="h-8 w-8 text-gray-400" />
@@ -127,15 +182,28 @@ export default function MatchesPage() {
             </p>
           </div>
         ) : (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {filteredGyms.map((gym) => (
-              <GymCard 
-                key={gym.id} 
-                gym={gym} 
-                onClick={() => handleOpenGymDetails(gym)}
-              />
-            ))}
-          </div>
+          <>
+            <p className="text-sm text-gray-500 mb-3">
+              {total} {total === 1 ? "gym" : "gyms"}
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {matchedGyms.map((gym) => (
+                <GymCard 
+                  key={gym.id} 
+                  gym={gym} 
+                  onClick={() => handleOpenGymDetails(gym)}
+                />
+              ))}
+            </div>
+            {hasNextPage && (
+              <div className="flex justify-center mt-6">
+                <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                  {isFetchingNextPage && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                  Load More
+                </Button>
+              </div>
+            )}
+          </>
         )}
       </main>
       
@@ -150,6 +218,7 @@ export default function MatchesPage() {
                 {(selectedGym?.location as any)?.address}
               </div>
             </DialogDescription>
+            {selectedGym && <OpenStatusBadge gym={selectedGym} />}
           </DialogHeader>
           
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -175,31 +244,26 @@ export default function MatchesPage() {
             <div>
               <div className="mb-4">
                 <h3 className="text-lg font-semibold mb-2">Match Score</h3>
-                <div className="bg-green-100 text-green-800 px-3 py-2 rounded-lg inline-flex items-center">
-                  <span className="font-semibold">{Math.floor(80 + Math.random() * 15)}% Match</span> with your fitness preferences
+                <div className="bg-green-100 text-green-800 px-3 py-2 rounded-lg inline-flex items-center mb-3">
+                  <span className="font-semibold mr-1">{selectedGym?.matchScore}% Match</span> with your fitness preferences
                 </div>
+                <h4 className="font-medium text-gray-800 mb-2">Why this gym</h4>
+                {selectedGym?.matchBreakdown && <MatchReasons breakdown={selectedGym.matchBreakdown} />}
               </div>
               
               <div className="mb-4">
-                <h3 className="text-lg font-semibold mb-2">Rating</h3>
-                <div className="flex items-center">
-                  {[...Array(Math.floor(selectedGym?.rating || 0))].map((_, i) => (
-                    <svg key={i} xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-yellow-500 fill-yellow-500" viewBox="0 0 20 20">
-                      <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" />
-                    </svg>
-                  ))}
-                  {selectedGym?.rating && selectedGym.rating % 1 >= 0.5 && (
-                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-yellow-500" viewBox="0 0 20 20">
-                      <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" />
-                    </svg>
-                  )}
-                  {[...Array(5 - Math.ceil(selectedGym?.rating || 0))].map((_, i) => (
-                    <svg key={i + Math.ceil(selectedGym?.rating || 0)} xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-gray-300" viewBox="0 0 20 20">
-                      <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" />
-                    </svg>
-                  ))}
-                  <span className="ml-2 text-gray-600">({Math.round((selectedGym?.rating || 0) * 10)} reviews)</span>
-                </div>
+                <h3 className="text-lg font-semibold mb-2">Membership</h3>
+                {selectedGym && <MembershipPlans gymId={selectedGym.id} />}
+              </div>
+              
+              <div className="mb-4">
+                <h3 className="text-lg font-semibold mb-2">News</h3>
+                {selectedGym && <GymAnnouncements gymId={selectedGym.id} />}
+              </div>
+              
+              <div className="mb-4">
+                <h3 className="text-lg font-semibold mb-2">Reviews</h3>
+                {selectedGym && <GymReviews gymId={selectedGym.id} />}
               </div>
               
               <div className="mb-4">
@@ -210,12 +274,22 @@ export default function MatchesPage() {
                 <Button variant="outline" className="w-full">
                   Save to Favorites
                 </Button>
+                <Button 
+                  variant="link" 
+                  size="sm" 
+                  className="w-full mt-1 text-gray-500"
+                  onClick={() => selectedGym && setClaimGym({ id: selectedGym.id, name: selectedGym.name })}
+                >
+                  Work here? Claim this gym
+                </Button>
               </div>
             </div>
           </div>
         </DialogContent>
       </Dialog>
       
+      <ClaimGymDialog gym={claimGym} onClose={() => setClaimGym(null)} />
+      
       <MobileNav />
     </div>
   );
@@ -0,0 +1,415 @@
+import { useState, useEffect, useRef } from "react";
+import { useInfiniteQuery, useQuery } from "@tanstack/react-query";
+import { Link, useLocation, useRoute } from "wouter";
+import { format, isToday } from "date-fns";
+import { Conversation, ConversationPartner } from "@shared/schema";
+import Navbar from "@/components/layout/navbar";
+import MobileNav from "@/components/layout/mobile-nav";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  useWebSocket,
+  ThreadPage,
+  conversationsQueryKey,
+  threadQueryKey,
+} from "@/hooks/use-websocket";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ReportUserDialog, ReportTarget } from "@/components/ui/report-user-dialog";
+import { useBlockUser } from "@/hooks/use-blocks";
+import {
+  ArrowLeft, Check, CheckCheck, Clock, Loader2, MessageSquare, Send, AlertCircle, Ban, Flag, MoreVertical
+} from "lucide-react";
+
+const getInitials = (name: string) => {
+  return name
+    .split(' ')
+    .map(part => part.charAt(0))
+    .join('')
+    .toUpperCase();
+};
+
+// Stop showing "typing…" to the partner after this long without a keystroke
+const TYPING_IDLE_MS = 3000;
+
+const MESSAGE_PAGE_SIZE = 30;
+
+const formatMessageTime = (date: Date | string | null) => {
+  if (!date) return "";
+  const value = new Date(date);
+  return isToday(value) ? format(value, "HH:mm") : format(value, "MMM d");
+};
+
+function OnlineDot() {
+  return (
+    <span
+      className="absolute bottom-0 right-0 h-3 w-3 rounded-full bg-green-500 ring-2 ring-white"
+      aria-label="Online"
+    />
+  );
+}
+
+export default function MessagesPage() {
+  const [, params] = useRoute("/messages/:userId");
+  const selectedUserId = params?.userId ? parseInt(params.userId) : null;
+
+  const { data: conversations = [], isLoading } = useQuery<Conversation[]>({
+    queryKey: conversationsQueryKey,
+  });
+
+  const { isUserOnline } = useWebSocket();
+
+  const selectedConversation = conversations.find(c => c.partner.id === selectedUserId);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+
+      <main className="container mx-auto px-4 py-4 md:py-8 pb-20 md:pb-6">
+        <h2 className="text-2xl font-bold text-gray-800 mb-6">Messages</h2>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          {/* Inbox */}
+          <Card className={`overflow-hidden md:col-span-1 ${selectedUserId ? 'hidden md:block' : ''}`}>
+            {isLoading ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              </div>
+            ) : conversations.length === 0 ? (
+              <div className="text-center py-12 px-4">
+                <div className="bg-gray-100 inline-flex rounded-full p-4 mb-4">
+                  <MessageSquare className="h-8 w-8 text-gray-400" />
+                </div>
+                <h3 className="text-lg font-medium text-gray-900 mb-2">No conversations yet</h3>
+                <p className="text-gray-600">
+                  Once a workout partner accepts your match request you can message them here.
+                </p>
+              </div>
+            ) : (
+              <ul className="divide-y">
+                {conversations.map(conversation => {
+                  const other = conversation.partner;
+                  const unreadCount = conversation.unreadCount;
+                  const isSelected = other.id === selectedUserId;
+
+                  return (
+                    <li key={other.id}>
+                      <Link href={`/messages/${other.id}`}>
+                        <a className={`flex items-center p-4 hover:bg-gray-50 transition-colors ${isSelected ? 'bg-gray-100' : ''}`}>
+                          <div className="relative mr-3">
+                            <Avatar className="h-10 w-10">
+                              <AvatarImage src={other.profilePic || undefined} alt={other.name} />
+                              <AvatarFallback className="bg-primary text-white">{getInitials(other.name)}</AvatarFallback>
+                            </Avatar>
+                            {isUserOnline(other.id) && <OnlineDot />}
+                          </div>
+                          <div className="flex-1 min-w-0">
+                            <div className="flex justify-between items-baseline">
+                              <span className={`truncate ${unreadCount > 0 ? 'font-semibold text-gray-900' : 'font-medium text-gray-800'}`}>
+                                {other.name}
+                              </span>
+                              <span className="text-xs text-gray-500 ml-2 shrink-0">
+                                {formatMessageTime(conversation.lastMessage?.createdAt ?? null)}
+                              </span>
+                            </div>
+                            <div className="flex justify-between items-center">
+                              <p className={`text-sm truncate ${unreadCount > 0 ? 'text-gray-900' : 'text-gray-500'}`}>
+                                {conversation.lastMessage
+                                  ? `${conversation.lastMessage.senderId === other.id ? '' : 'You: '}${conversation.lastMessage.content}`
+                                  : 'Say hello!'}
+                              </p>
+                              {unreadCount > 0 && (
+                                <Badge className="ml-2 shrink-0">{unreadCount}</Badge>
+                              )}
+                            </div>
+                          </div>
+                        </a>
+                      </Link>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </Card>
+
+          {/* Thread */}
+          <Card className={`overflow-hidden md:col-span-2 ${selectedUserId ? '' : 'hidden md:block'}`}>
+            {selectedUserId ? (
+              <MessageThread
+                otherUserId={selectedUserId}
+                otherUser={selectedConversation?.partner}
+              />
+            ) : (
+              <div className="flex flex-col items-center justify-center h-full py-24 text-gray-500">
+                <MessageSquare className="h-10 w-10 mb-3 text-gray-300" />
+                <p>Select a conversation to start messaging</p>
+              </div>
+            )}
+          </Card>
+        </div>
+      </main>
+
+      <MobileNav />
+    </div>
+  );
+}
+
+function MessageThread({
+  otherUserId,
+  otherUser,
+}: {
+  otherUserId: number;
+  otherUser?: ConversationPartner;
+}) {
+  const { user } = useAuth();
+  const {
+    isConnected,
+    sendChatMessage,
+    markMessagesAsRead,
+    sendTyping,
+    isUserTyping,
+    isUserOnline,
+  } = useWebSocket();
+  const [draft, setDraft] = useState("");
+  const [reportTarget, setReportTarget] = useState<ReportTarget | null>(null);
+  const [, setLocation] = useLocation();
+  // Blocking ends the conversation, so leave the thread
+  const blockMutation = useBlockUser(() => setLocation("/messages"));
+  const bottomRef = useRef<HTMLDivElement>(null);
+  const typingIdleTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const partnerTyping = isUserTyping(otherUserId);
+
+  // Newest page first; each "load older" fetches the page before the oldest message we have
+  const {
+    data,
+    isLoading,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: threadQueryKey(otherUserId),
+    queryFn: async ({ pageParam }): Promise<ThreadPage> => {
+      const cursor = pageParam ? `&before=${pageParam}` : "";
+      const res = await apiRequest("GET", `/api/messages/${otherUserId}?limit=${MESSAGE_PAGE_SIZE}${cursor}`);
+      return await res.json();
+    },
+    initialPageParam: undefined as number | undefined,
+    getNextPageParam: (lastPage) => (lastPage.hasMore && lastPage.nextCursor !== null ? lastPage.nextCursor : undefined),
+  });
+
+  // Pages are newest first, messages within a page oldest first
+  const messages = [...(data?.pages ?? [])].reverse().flatMap(page => page.messages);
+  const newestPage = data?.pages[0]?.messages ?? [];
+  const newestMessageId = newestPage[newestPage.length - 1]?.id;
+
+  const unreadFromOther = messages.filter(m => m.senderId === otherUserId && !m.read).length;
+
+  // Fetching a thread doesn't clear unread state, so mark incoming messages as
+  // read explicitly while the thread is open; this also sends read receipts
+  useEffect(() => {
+    if (unreadFromOther > 0) {
+      markMessagesAsRead(otherUserId);
+    }
+  }, [otherUserId, unreadFromOther, markMessagesAsRead]);
+
+  // Keep the newest message in view (but not when loading older history)
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, [newestMessageId, partnerTyping]);
+
+  const stopTyping = () => {
+    if (typingIdleTimerRef.current) {
+      clearTimeout(typingIdleTimerRef.current);
+      typingIdleTimerRef.current = null;
+      sendTyping(otherUserId, false);
+    }
+  };
+
+  // Stop typing when leaving the conversation
+  useEffect(() => stopTyping, [otherUserId]);
+
+  const handleDraftChange = (value: string) => {
+    setDraft(value);
+
+    if (!value.trim()) {
+      stopTyping();
+      return;
+    }
+
+    // Only announce the start of a typing burst, then reset the idle timer
+    if (typingIdleTimerRef.current) {
+      clearTimeout(typingIdleTimerRef.current);
+    } else {
+      sendTyping(otherUserId, true);
+    }
+    typingIdleTimerRef.current = setTimeout(stopTyping, TYPING_IDLE_MS);
+  };
+
+  const handleSend = (e: React.FormEvent) => {
+    e.preventDefault();
+    const content = draft.trim();
+    if (!content) return;
+
+    if (sendChatMessage(otherUserId, content)) {
+      stopTyping();
+      setDraft("");
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-[70vh]">
+      {/* Header */}
+      <div className="flex items-center p-4 border-b">
+        <Link href="/messages">
+          <a className="md:hidden mr-3 text-gray-600">
+            <ArrowLeft className="h-5 w-5" />
+          </a>
+        </Link>
+        {otherUser && (
+          <>
+            <div className="relative mr-3">
+              <Avatar className="h-9 w-9">
+                <AvatarImage src={otherUser.profilePic || undefined} alt={otherUser.name} />
+                <AvatarFallback className="bg-primary text-white">{getInitials(otherUser.name)}</AvatarFallback>
+              </Avatar>
+              {isUserOnline(otherUserId) && <OnlineDot />}
+            </div>
+            <div>
+              <span className="font-medium text-gray-800">{otherUser.name}</span>
+              <p className="text-xs text-gray-500">
+                {partnerTyping ? "typing…" : isUserOnline(otherUserId) ? "Online" : "Offline"}
+              </p>
+            </div>
+          </>
+        )}
+        <div className="ml-auto flex items-center gap-2">
+          {!isConnected && (
+            <span className="text-xs text-gray-500">Connecting...</span>
+          )}
+          {otherUser && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="icon" aria-label="Conversation options">
+                  <MoreVertical className="h-4 w-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => setReportTarget({ user: otherUser })} className="text-red-600">
+                  <Flag className="h-4 w-4 mr-2" />
+                  Report {otherUser.name}
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => blockMutation.mutate(otherUserId)} disabled={blockMutation.isPending}>
+                  <Ban className="h-4 w-4 mr-2" />
+                  Block {otherUser.name}
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+        </div>
+      </div>
+
+      {/* Messages */}
+      <div className="flex-1 overflow-y-auto p-4 space-y-2">
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : error ? (
+          <div className="text-center py-8">
+            <p className="text-red-500">You can only message users you've matched with</p>
+          </div>
+        ) : messages.length === 0 ? (
+          <p className="text-center text-gray-500 py-8">No messages yet. Start the conversation!</p>
+        ) : (
+          <>
+            {hasNextPage && (
+              <div className="flex justify-center">
+                <Button variant="ghost" size="sm" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                  {isFetchingNextPage ? <Loader2 className="h-4 w-4 animate-spin" /> : "Load older messages"}
+                </Button>
+              </div>
+            )}
+            {messages.map(message => {
+              const isMine = message.senderId === user?.id;
+
+              return (
+                <div key={message.clientId ?? message.id} className={`group flex items-center gap-1 ${isMine ? 'justify-end' : 'justify-start'}`}>
+                  <div
+                    className={`max-w-[75%] rounded-lg px-3 py-2 ${
+                      isMine ? 'bg-primary text-white' : 'bg-gray-100 text-gray-800'
+                    } ${message.pending ? 'opacity-70' : ''}`}
+                  >
+                    <p className="whitespace-pre-wrap break-words">{message.content}</p>
+                    <div className={`flex items-center justify-end gap-1 mt-1 text-[10px] ${isMine ? 'text-white/80' : 'text-gray-500'}`}>
+                      <span>{formatMessageTime(message.createdAt)}</span>
+                      {isMine && (
+                        message.failed ? (
+                          <AlertCircle className="h-3 w-3" aria-label="Failed to send" />
+                        ) : message.pending ? (
+                          <Clock className="h-3 w-3" aria-label="Sending" />
+                        ) : message.status === "read" ? (
+                          <CheckCheck className="h-3 w-3 text-sky-200" aria-label="Read" />
+                        ) : message.status === "delivered" ? (
+                          <CheckCheck className="h-3 w-3" aria-label="Delivered" />
+                        ) : (
+                          <Check className="h-3 w-3" aria-label="Sent" />
+                        )
+                      )}
+                    </div>
+                  </div>
+                  {!isMine && otherUser && (
+                    <button
+                      type="button"
+                      className="opacity-0 group-hover:opacity-100 focus:opacity-100 text-gray-400 hover:text-red-600"
+                      onClick={() => setReportTarget({ user: otherUser, message: { id: message.id, content: message.content } })}
+                      aria-label="Report this message"
+                    >
+                      <Flag className="h-3 w-3" />
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </>
+        )}
+        {partnerTyping && (
+          <div className="flex justify-start">
+            <div className="rounded-lg px-3 py-2 bg-gray-100 text-gray-500 text-sm italic">
+              {otherUser?.name ?? "They"} is typing…
+            </div>
+          </div>
+        )}
+        <div ref={bottomRef} />
+      </div>
+
+      {/* Composer */}
+      <form onSubmit={handleSend} className="flex items-center gap-2 p-4 border-t">
+        <Input
+          placeholder="Type a message..."
+          value={draft}
+          onChange={(e) => handleDraftChange(e.target.value)}
+          disabled={!!error}
+        />
+        <Button type="submit" size="icon" disabled={!draft.trim() || !isConnected || !!error}>
+          <Send className="h-4 w-4" />
+        </Button>
+      </form>
+
+      <ReportUserDialog
+        target={reportTarget}
+        onClose={() => setReportTarget(null)}
+        onBlocked={() => setLocation("/messages")}
+      />
+    </div>
+  );
+}
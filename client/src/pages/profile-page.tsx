@@ -4,9 +4,15 @@ import { useForm } from "react-hook-form";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { User } from "@shared/schema";
+import { GymClaimWithDetails, User, UserBlockWithUser } from "@shared/schema";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { formatPrice } from "@/lib/utils";
+import { blocksQueryKey, useUnblockUser } from "@/hooks/use-blocks";
+import { gymClaimsQueryKey } from "@/components/ui/claim-gym-dialog";
+import { EmailVerificationNotice } from "@/components/auth/email-verification";
+import { TwoFactorSettings } from "@/components/auth/two-factor-settings";
+import { ApiTokenSettings } from "@/components/auth/api-token-settings";
 
 import Navbar from "@/components/layout/navbar";
 import MobileNav from "@/components/layout/mobile-nav";
@@ -46,6 +52,10 @@ const profileFormSchema = z.object({
   gender: z.string().min(1, "Gender is required"),
   height: z.string().optional(),
   weight: z.string().optional(),
+  monthlyBudget: z.string().refine((val) => val.trim() === "" || (!isNaN(Number(val)) && Number(val) >= 0), {
+    message: "Budget must be a positive number",
+  }),
+  budgetCurrency: z.string().regex(/^[A-Za-z]{3}$/, "Use a 3-letter currency code like USD"),
 });
 
 type ProfileFormValues = z.infer<typeof profileFormSchema>;
@@ -62,6 +72,8 @@ export default function ProfilePage() {
       gender: user?.gender || "",
       height: user?.bodyMeasurements ? (user.bodyMeasurements as any).height || "" : "",
       weight: user?.bodyMeasurements ? (user.bodyMeasurements as any).weight || "" : "",
+      monthlyBudget: user?.monthlyBudget?.toString() || "",
+      budgetCurrency: user?.budgetCurrency || "USD",
     }
   });
   
@@ -74,6 +86,19 @@ export default function ProfilePage() {
     enabled: !!user,
   });
   
+  // Members the user has blocked, so they can be unblocked
+  const { data: blocks = [], isLoading: isLoadingBlocks } = useQuery<UserBlockWithUser[]>({
+    queryKey: blocksQueryKey,
+    enabled: !!user,
+  });
+  const unblockMutation = useUnblockUser();
+  
+  // Claims the user has made to manage gym listings
+  const { data: gymClaims = [] } = useQuery<GymClaimWithDetails[]>({
+    queryKey: gymClaimsQueryKey,
+    enabled: !!user,
+  });
+  
   const { toast } = useToast();
   
   // State for add goal/preference dialogs  
@@ -105,6 +130,8 @@ export default function ProfilePage() {
         gender: user.gender || "",
         height: user.bodyMeasurements ? (user.bodyMeasurements as any).height || "" : "",
         weight: user.bodyMeasurements ? (user.bodyMeasurements as any).weight || "" : "",
+        monthlyBudget: user.monthlyBudget?.toString() || "",
+        budgetCurrency: user.budgetCurrency || "USD",
       });
       
       // Update progress photos
@@ -361,7 +388,9 @@ export default function ProfilePage() {
       bodyMeasurements: {
         height: data.height,
         weight: data.weight
-      }
+      },
+      monthlyBudget: data.monthlyBudget.trim() ? Number(data.monthlyBudget) : null,
+      budgetCurrency: data.budgetCurrency.toUpperCase()
     }, {
       onSuccess: () => {
         setIsEditing(false);
@@ -376,6 +405,7 @@ export default function ProfilePage() {
       <Navbar />
       
       <main className="container mx-auto px-4 py-4 md:py-6 pb-20 md:pb-6">
+        <EmailVerificationNotice />
         <div className="flex flex-col md:flex-row md:space-x-6">
           {/* Profile Information */}
           <div className="md:w-1/3 mb-6 md:mb-0">
@@ -463,6 +493,32 @@ export default function ProfilePage() {
                         <Input id="weight" {...form.register("weight")} />
                       </div>
                       
+                      <div className="space-y-2">
+                        <Label htmlFor="monthlyBudget">Monthly Gym Budget</Label>
+                        <div className="flex gap-2">
+                          <Input 
+                            id="monthlyBudget" 
+                            type="number" 
+                            min="0" 
+                            step="0.01" 
+                            placeholder="No limit" 
+                            {...form.register("monthlyBudget")} 
+                          />
+                          <Input 
+                            id="budgetCurrency" 
+                            className="w-20 uppercase" 
+                            maxLength={3} 
+                            {...form.register("budgetCurrency")} 
+                          />
+                        </div>
+                        {form.formState.errors.monthlyBudget && (
+                          <p className="text-red-500 text-xs">{form.formState.errors.monthlyBudget.message}</p>
+                        )}
+                        {form.formState.errors.budgetCurrency && (
+                          <p className="text-red-500 text-xs">{form.formState.errors.budgetCurrency.message}</p>
+                        )}
+                      </div>
+                      
                       <Button 
                         type="submit" 
                         className="w-full"
@@ -494,6 +550,12 @@ export default function ProfilePage() {
                         <span className="text-gray-600 text-sm">Weight:</span>
                         <span className="text-gray-900 font-medium">{user.bodyMeasurements ? (user.bodyMeasurements as any).weight || "-" : "-"}</span>
                       </div>
+                      <div className="flex items-center justify-between">
+                        <span className="text-gray-600 text-sm">Monthly budget:</span>
+                        <span className="text-gray-900 font-medium">
+                          {user.monthlyBudget != null ? formatPrice(user.monthlyBudget, user.budgetCurrency) : "-"}
+                        </span>
+                      </div>
                     </div>
                   )}
                 </div>
@@ -732,6 +794,75 @@ export default function ProfilePage() {
               </CardContent>
             </Card>
             
+            <Card className="mt-6">
+              <CardHeader className="p-6 pb-2">
+                <CardTitle className="text-lg font-bold">Blocked Members</CardTitle>
+              </CardHeader>
+              <CardContent className="p-6 pt-2">
+                {isLoadingBlocks ? (
+                  <div className="flex justify-center py-4">
+                    <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                  </div>
+                ) : blocks.length === 0 ? (
+                  <p className="text-gray-500 text-sm">You haven't blocked anyone.</p>
+                ) : (
+                  <ul className="divide-y">
+                    {blocks.map((block) => (
+                      <li key={block.id} className="flex items-center justify-between py-2">
+                        <span className="text-gray-900">{block.blockedUser?.name ?? "Deleted user"}</span>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => unblockMutation.mutate(block.blockedId)}
+                          disabled={unblockMutation.isPending}
+                        >
+                          Unblock
+                        </Button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </CardContent>
+            </Card>
+            
+            <TwoFactorSettings />
+            
+            <ApiTokenSettings />
+            
+            {gymClaims.length > 0 && (
+              <Card className="mt-6">
+                <CardHeader className="p-6 pb-2">
+                  <CardTitle className="text-lg font-bold">Gym Claims</CardTitle>
+                </CardHeader>
+                <CardContent className="p-6 pt-2">
+                  <ul className="divide-y">
+                    {gymClaims.map((claim) => (
+                      <li key={claim.id} className="py-2">
+                        <div className="flex items-center justify-between">
+                          <span className="text-gray-900">{claim.gym?.name ?? "Deleted gym"}</span>
+                          <Badge
+                            variant="outline"
+                            className={
+                              claim.status === "approved"
+                                ? "bg-green-100 text-green-800"
+                                : claim.status === "rejected"
+                                ? "bg-red-100 text-red-800"
+                                : "bg-yellow-100 text-yellow-800"
+                            }
+                          >
+                            {claim.status.charAt(0).toUpperCase() + claim.status.slice(1)}
+                          </Badge>
+                        </div>
+                        {claim.status === "rejected" && claim.reviewNote && (
+                          <p className="text-xs text-gray-500 mt-1">{claim.reviewNote}</p>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </CardContent>
+              </Card>
+            )}
+            
             {/* Add a Save Profile button that's always visible at the bottom of the page */}
             {!isEditing && (
               <Card className="mt-6 bg-primary/5 border-primary/20">
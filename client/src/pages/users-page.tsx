@@ -1,11 +1,18 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
-import { User } from "@shared/schema";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { PartnerRecommendation } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import Navbar from "@/components/layout/navbar";
 import MobileNav from "@/components/layout/mobile-nav";
+import { PartnerReasons } from "@/components/ui/partner-reasons";
+import { ReportUserDialog, ReportTarget } from "@/components/ui/report-user-dialog";
+import { useBlockUser } from "@/hooks/use-blocks";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Search, Loader2, Users, User as UserIcon, Calendar, AtSign, Activity } from "lucide-react";
+import { Search, Loader2, Users, User as UserIcon, Calendar, Activity, Sparkles, UserPlus, Ban, Flag } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { 
@@ -19,14 +26,45 @@ import {
 
 export default function UsersPage() {
   const [searchQuery, setSearchQuery] = useState("");
-  const [selectedUser, setSelectedUser] = useState<Partial<User> | null>(null);
+  const [selectedUser, setSelectedUser] = useState<PartnerRecommendation | null>(null);
+  const [reportTarget, setReportTarget] = useState<ReportTarget | null>(null);
+  const { user: currentUser } = useAuth();
+  const { toast } = useToast();
+  const blockMutation = useBlockUser(() => setSelectedUser(null));
   
-  // Fetch users data
-  const { data: users = [], isLoading, error } = useQuery<Partial<User>[]>({
-    queryKey: ["/api/users"],
+  // Other members ranked by how well they'd suit the current user as workout partners
+  const { data: users = [], isLoading, error } = useQuery<PartnerRecommendation[]>({
+    queryKey: ["/api/users/recommendations"],
     retry: false,
   });
   
+  // Send a match request; the server scores the pair and the member drops out of the suggestions
+  const connectMutation = useMutation({
+    mutationFn: async (receiverId: number) => {
+      const res = await apiRequest("POST", "/api/user-matches", {
+        senderId: currentUser!.id,
+        receiverId
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users/recommendations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user-matches"] });
+      setSelectedUser(null);
+      toast({
+        title: "Request sent",
+        description: "We'll let you know when they respond",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to send match request: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+  
   // Filter users based on search query
   const filteredUsers = users.filter(user => {
     if (!searchQuery) return true;
@@ -48,10 +86,10 @@ export default function UsersPage() {
       
       <main className="container mx-auto px-4 py-4 md:py-8 pb-20 md:pb-6">
         <div className="flex items-center justify-between mb-6">
-          <h2 className="text-2xl font-bold text-gray-800">Community Members</h2>
+          <h2 className="text-2xl font-bold text-gray-800">Suggested Partners</h2>
           <div className="flex items-center text-gray-500">
             <Users className="mr-2 h-5 w-5" />
-            <span>{users.length} members</span>
+            <span>{users.length} suggestions</span>
           </div>
         </div>
         
@@ -75,14 +113,14 @@ export default function UsersPage() {
           </div>
         ) : error ? (
           <div className="text-center py-8">
-            <p className="text-red-500">Failed to load users data</p>
+            <p className="text-red-500">Failed to load partner suggestions</p>
           </div>
         ) : filteredUsers.length === 0 ? (
           <div className="text-center py-12">
             <div className="bg-gray-100 inline-flex rounded-full p-4 mb-4">
               <Search className="h-8 w-8 text-gray-400" />
             </div>
-            <h3 className="text-lg font-medium text-gray-900 mb-2">No members found</h3>
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No suggestions found</h3>
             <p className="text-gray-600">
               Try adjusting your search or check back later for new members.
             </p>
@@ -96,12 +134,15 @@ export default function UsersPage() {
                     <div className="w-14 h-14 rounded-full bg-gradient-to-r from-primary-500 to-primary-300 flex items-center justify-center text-white text-xl font-bold">
                       {user.name?.charAt(0).toUpperCase() || "U"}
                     </div>
-                    <div>
+                    <div className="flex-1">
                       <CardTitle>{user.name}</CardTitle>
                       <CardDescription>
-                        Member since {new Date().toLocaleDateString('en-US', { month: 'short', year: 'numeric' })}
+                        Member since {new Date(user.createdAt || new Date()).toLocaleDateString('en-US', { month: 'short', year: 'numeric' })}
                       </CardDescription>
                     </div>
+                    <Badge className="bg-green-100 text-green-800 hover:bg-green-100">
+                      {user.matchScore}% Match
+                    </Badge>
                   </div>
                 </CardHeader>
                 <CardContent>
@@ -131,7 +172,7 @@ export default function UsersPage() {
                     </div>
                   )}
                 </CardContent>
-                <CardFooter className="border-t bg-gray-50 py-3 px-6 flex justify-center">
+                <CardFooter className="border-t bg-gray-50 py-3 px-6 flex justify-center space-x-2">
                   <Button 
                     variant="outline" 
                     size="sm" 
@@ -140,6 +181,14 @@ export default function UsersPage() {
                   >
                     View Profile
                   </Button>
+                  <Button
+                    size="sm"
+                    onClick={() => connectMutation.mutate(user.id)}
+                    disabled={connectMutation.isPending}
+                  >
+                    <UserPlus className="h-4 w-4 mr-1" />
+                    Connect
+                  </Button>
                 </CardFooter>
               </Card>
             ))}
@@ -172,23 +221,59 @@ export default function UsersPage() {
                     <span>Member since {new Date(selectedUser.createdAt || new Date()).toLocaleDateString()}</span>
                   </div>
                   
-                  {selectedUser.username && (
-                    <div className="flex items-center text-gray-500 text-sm">
-                      <AtSign className="h-4 w-4 mr-1" />
-                      <span>{selectedUser.username}</span>
-                    </div>
-                  )}
+                  <Badge className="bg-green-100 text-green-800 hover:bg-green-100">
+                    {selectedUser.matchScore}% Match
+                  </Badge>
                   
-                  <div className="w-full mt-4">
-                    <Button className="w-full" size="sm">
-                      Send Message
+                  <div className="w-full mt-4 space-y-2">
+                    <Button
+                      className="w-full"
+                      size="sm"
+                      onClick={() => connectMutation.mutate(selectedUser.id)}
+                      disabled={connectMutation.isPending}
+                    >
+                      <UserPlus className="h-4 w-4 mr-1" />
+                      Connect
+                    </Button>
+                    <Button className="w-full" variant="outline" size="sm" asChild>
+                      <Link href={`/messages/${selectedUser.id}`}>Send Message</Link>
                     </Button>
+                    <div className="flex gap-2">
+                      <Button
+                        className="flex-1 text-gray-600"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => blockMutation.mutate(selectedUser.id)}
+                        disabled={blockMutation.isPending}
+                      >
+                        <Ban className="h-4 w-4 mr-1" />
+                        Block
+                      </Button>
+                      <Button
+                        className="flex-1 text-red-600"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setReportTarget({ user: { id: selectedUser.id, name: selectedUser.name } })}
+                      >
+                        <Flag className="h-4 w-4 mr-1" />
+                        Report
+                      </Button>
+                    </div>
                   </div>
                 </div>
               </div>
               
               <div className="md:col-span-2">
                 <div className="space-y-6">
+                  {/* Why this member was suggested */}
+                  <div>
+                    <h3 className="text-lg font-semibold flex items-center mb-2">
+                      <Sparkles className="h-5 w-5 mr-2 text-primary" />
+                      Why You Match
+                    </h3>
+                    <PartnerReasons breakdown={selectedUser.matchBreakdown} />
+                  </div>
+                  
                   {/* Personal Info */}
                   <div>
                     <h3 className="text-lg font-semibold flex items-center mb-2">
@@ -261,6 +346,12 @@ export default function UsersPage() {
         </DialogContent>
       </Dialog>
       
+      <ReportUserDialog
+        target={reportTarget}
+        onClose={() => setReportTarget(null)}
+        onBlocked={() => setSelectedUser(null)}
+      />
+      
       <MobileNav />
     </div>
   );
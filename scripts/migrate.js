@@ -82,6 +82,319 @@ async function main() {
       )
     `;
     
+    // Message delivery states
+    await client`
+      ALTER TABLE messages
+        ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'sent',
+        ADD COLUMN IF NOT EXISTS delivered_at TIMESTAMP,
+        ADD COLUMN IF NOT EXISTS read_at TIMESTAMP
+    `;
+    
+    // Gym reviews - the gym rating becomes the average of these
+    await client`
+      CREATE TABLE IF NOT EXISTS gym_reviews (
+        id SERIAL PRIMARY KEY,
+        gym_id INTEGER NOT NULL REFERENCES gyms(id) ON DELETE CASCADE,
+        user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        rating INTEGER NOT NULL,
+        text TEXT,
+        visit_date TIMESTAMP,
+        photos TEXT[] DEFAULT '{}',
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW(),
+        CONSTRAINT gym_reviews_gym_user_unique UNIQUE (gym_id, user_id)
+      )
+    `;
+    
+    await client`
+      ALTER TABLE gyms ADD COLUMN IF NOT EXISTS review_count INTEGER NOT NULL DEFAULT 0
+    `;
+    
+    // Ratings used to be typed in by admins; reset them to the review average
+    await client`
+      UPDATE gyms g SET
+        rating = (SELECT AVG(r.rating) FROM gym_reviews r WHERE r.gym_id = g.id),
+        review_count = (SELECT COUNT(*) FROM gym_reviews r WHERE r.gym_id = g.id)
+    `;
+
+    await client`
+      ALTER TABLE gyms
+        ADD COLUMN IF NOT EXISTS opening_hours JSONB,
+        ADD COLUMN IF NOT EXISTS holiday_hours JSONB NOT NULL DEFAULT '[]',
+        ADD COLUMN IF NOT EXISTS timezone TEXT NOT NULL DEFAULT 'UTC'
+    `;
+
+    // Gyms tagged "24/7" as a free-text amenity get round-the-clock hours
+    const alwaysOpen = Object.fromEntries(
+      ["mon", "tue", "wed", "thu", "fri", "sat", "sun"].map(day => [day, [{ open: "00:00", close: "24:00" }]])
+    );
+    await client`
+      UPDATE gyms SET opening_hours = ${client.json(alwaysOpen)}
+      WHERE opening_hours IS NULL
+        AND amenities && ARRAY['24/7 Access', '24/7']::text[]
+    `;
+
+    await client`
+      CREATE TABLE IF NOT EXISTS gym_membership_plans (
+        id SERIAL PRIMARY KEY,
+        gym_id INTEGER NOT NULL REFERENCES gyms(id) ON DELETE CASCADE,
+        name TEXT NOT NULL,
+        monthly_price REAL NOT NULL,
+        currency TEXT NOT NULL DEFAULT 'USD',
+        contract_months INTEGER NOT NULL DEFAULT 0,
+        day_pass_price REAL,
+        included_amenities TEXT[] DEFAULT '{}',
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      )
+    `;
+
+    await client`
+      ALTER TABLE users
+        ADD COLUMN IF NOT EXISTS monthly_budget REAL,
+        ADD COLUMN IF NOT EXISTS budget_currency TEXT NOT NULL DEFAULT 'USD'
+    `;
+
+    // Last time a user made an authenticated request, used to rank workout partners
+    await client`
+      ALTER TABLE users
+        ADD COLUMN IF NOT EXISTS last_active_at TIMESTAMP
+    `;
+
+    // Roles replace the is_admin flag, which is no longer read but kept for rollbacks
+    await client`
+      ALTER TABLE users
+        ADD COLUMN IF NOT EXISTS role TEXT NOT NULL DEFAULT 'member'
+    `;
+
+    await client`
+      UPDATE users SET role = 'super_admin'
+      WHERE is_admin = true AND role = 'member'
+    `;
+
+    // Blocks between members and reports for the admin moderation queue
+    await client`
+      CREATE TABLE IF NOT EXISTS user_blocks (
+        id SERIAL PRIMARY KEY,
+        blocker_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        blocked_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        created_at TIMESTAMP DEFAULT NOW(),
+        CONSTRAINT user_blocks_blocker_blocked_unique UNIQUE (blocker_id, blocked_id)
+      )
+    `;
+
+    await client`
+      CREATE TABLE IF NOT EXISTS user_reports (
+        id SERIAL PRIMARY KEY,
+        reporter_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        reported_user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        reason TEXT NOT NULL,
+        details TEXT,
+        message_id INTEGER REFERENCES messages(id) ON DELETE SET NULL,
+        message_excerpt TEXT,
+        status TEXT NOT NULL DEFAULT 'open',
+        resolved_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        resolution_note TEXT,
+        resolved_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT NOW()
+      )
+    `;
+
+    // Gyms each gym manager is allowed to edit
+    await client`
+      CREATE TABLE IF NOT EXISTS gym_managers (
+        id SERIAL PRIMARY KEY,
+        gym_id INTEGER NOT NULL REFERENCES gyms(id) ON DELETE CASCADE,
+        user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        created_at TIMESTAMP DEFAULT NOW(),
+        CONSTRAINT gym_managers_gym_user_unique UNIQUE (gym_id, user_id)
+      )
+    `;
+
+    // Claims from gym staff and the announcements managers post
+    await client`
+      CREATE TABLE IF NOT EXISTS gym_claims (
+        id SERIAL PRIMARY KEY,
+        gym_id INTEGER NOT NULL REFERENCES gyms(id) ON DELETE CASCADE,
+        user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        proof_text TEXT,
+        document_path TEXT,
+        document_name TEXT,
+        status TEXT NOT NULL DEFAULT 'pending',
+        reviewed_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        review_note TEXT,
+        reviewed_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT NOW()
+      )
+    `;
+
+    await client`
+      CREATE TABLE IF NOT EXISTS gym_announcements (
+        id SERIAL PRIMARY KEY,
+        gym_id INTEGER NOT NULL REFERENCES gyms(id) ON DELETE CASCADE,
+        author_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        title TEXT NOT NULL,
+        body TEXT NOT NULL,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      )
+    `;
+
+    // Hashed single-use tokens for email verification and password resets
+    await client`
+      ALTER TABLE users
+        ADD COLUMN IF NOT EXISTS email_verified_at TIMESTAMP
+    `;
+
+    await client`
+      CREATE TABLE IF NOT EXISTS auth_tokens (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        purpose TEXT NOT NULL,
+        token_hash TEXT NOT NULL UNIQUE,
+        email TEXT NOT NULL,
+        expires_at TIMESTAMP NOT NULL,
+        used_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT NOW()
+      )
+    `;
+
+    // TOTP two-factor auth and the site setting that can require it for staff
+    await client`
+      ALTER TABLE users
+        ADD COLUMN IF NOT EXISTS totp_secret TEXT,
+        ADD COLUMN IF NOT EXISTS totp_enabled_at TIMESTAMP,
+        ADD COLUMN IF NOT EXISTS totp_last_used_counter INTEGER,
+        ADD COLUMN IF NOT EXISTS totp_recovery_codes TEXT[] NOT NULL DEFAULT '{}'
+    `;
+
+    await client`
+      CREATE TABLE IF NOT EXISTS app_settings (
+        key TEXT PRIMARY KEY,
+        value JSONB NOT NULL,
+        updated_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        updated_at TIMESTAMP DEFAULT NOW()
+      )
+    `;
+
+    await client`
+      CREATE TABLE IF NOT EXISTS api_tokens (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        name TEXT NOT NULL,
+        token_hash TEXT NOT NULL UNIQUE,
+        token_prefix TEXT NOT NULL,
+        scopes TEXT[] NOT NULL DEFAULT '{}',
+        last_used_at TIMESTAMP,
+        expires_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT NOW()
+      )
+    `;
+
+    await client`
+      CREATE TABLE IF NOT EXISTS login_attempts (
+        id SERIAL PRIMARY KEY,
+        kind TEXT NOT NULL,
+        outcome TEXT NOT NULL,
+        username TEXT,
+        user_id INTEGER,
+        ip TEXT NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `;
+
+    // The rate limiter looks up recent attempts by IP and by username on every sign-in
+    await client`
+      CREATE INDEX IF NOT EXISTS login_attempts_ip_created_at ON login_attempts (ip, created_at)
+    `;
+
+    await client`
+      CREATE INDEX IF NOT EXISTS login_attempts_username_created_at ON login_attempts (username, created_at)
+    `;
+
+    await client`
+      CREATE TABLE IF NOT EXISTS jobs (
+        id SERIAL PRIMARY KEY,
+        type TEXT NOT NULL,
+        description TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'queued',
+        user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+        payload JSONB NOT NULL,
+        progress INTEGER NOT NULL DEFAULT 0,
+        result JSONB,
+        error TEXT,
+        cancel_requested BOOLEAN NOT NULL DEFAULT FALSE,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        started_at TIMESTAMP,
+        finished_at TIMESTAMP
+      )
+    `;
+
+    // The worker claims the oldest queued job
+    await client`
+      CREATE INDEX IF NOT EXISTS jobs_status_id ON jobs (status, id)
+    `;
+
+    // Canonical amenities that gym amenity names resolve to
+    await client`
+      CREATE TABLE IF NOT EXISTS amenities (
+        id SERIAL PRIMARY KEY,
+        name TEXT NOT NULL UNIQUE,
+        category TEXT NOT NULL DEFAULT 'other',
+        icon TEXT,
+        synonyms TEXT[] NOT NULL DEFAULT '{}',
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `;
+
+    // Filled in for existing gyms when the server seeds the default amenities
+    await client`
+      ALTER TABLE gyms ADD COLUMN IF NOT EXISTS amenity_ids INTEGER[] NOT NULL DEFAULT '{}'
+    `;
+
+    // Gym search filters on amenity IDs with @>
+    await client`
+      DROP INDEX IF EXISTS gyms_amenities
+    `;
+    await client`
+      CREATE INDEX IF NOT EXISTS gyms_amenity_ids ON gyms USING GIN (amenity_ids)
+    `;
+
+    // Append-only audit trail of admin actions
+    await client`
+      CREATE TABLE IF NOT EXISTS admin_audit_log (
+        id SERIAL PRIMARY KEY,
+        actor_id INTEGER,
+        actor_username TEXT,
+        action TEXT NOT NULL,
+        target_type TEXT NOT NULL,
+        target_id INTEGER,
+        changes JSONB,
+        metadata JSONB,
+        ip TEXT,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `;
+
+    // Reject edits and deletes so the trail can't be rewritten after the fact
+    await client`
+      CREATE OR REPLACE FUNCTION admin_audit_log_append_only() RETURNS trigger AS $$
+      BEGIN
+        RAISE EXCEPTION 'admin_audit_log is append-only';
+      END;
+      $$ LANGUAGE plpgsql
+    `;
+
+    await client`
+      DROP TRIGGER IF EXISTS admin_audit_log_append_only ON admin_audit_log
+    `;
+
+    await client`
+      CREATE TRIGGER admin_audit_log_append_only
+        BEFORE UPDATE OR DELETE ON admin_audit_log
+        FOR EACH ROW EXECUTE FUNCTION admin_audit_log_append_only()
+    `;
+
     console.log("Database schema updated successfully!");
   } catch (error) {
     console.error("Error updating database schema:", error);
@@ -0,0 +1,137 @@
+// Canonical gym amenities. Forms and CSV imports take amenities as free text;
+// every gym write resolves those names to amenities by name or synonym,
+// ignoring case and spacing, so "Pool" and "swimming pool" both become
+// Swimming Pool. Names that match nothing become new amenities, which admins
+// can then categorise or merge into the amenity they duplicate.
+import type { Amenity, AmenityCategory, AmenityIcon, Gym, InsertAmenity } from "@shared/schema";
+
+// The starting list. Both storage backends add any of these that are missing.
+export const DEFAULT_AMENITIES: (InsertAmenity & { category: AmenityCategory; icon: AmenityIcon })[] = [
+  { name: "Free Weights", category: "equipment", icon: "dumbbell", synonyms: ["Weights", "Weightlifting", "Weight Training", "Heavy Weights", "Free Weights Area"] },
+  { name: "Strength Equipment", category: "equipment", icon: "dumbbell", synonyms: ["Strength Machines", "Olympic Lifting", "Strongman Equipment", "Powerlifting"] },
+  { name: "Cardio Equipment", category: "equipment", icon: "heart-pulse", synonyms: ["Cardio", "Cardio Machines", "Treadmills", "Ellipticals", "Rowing Machines"] },
+  { name: "Functional Training", category: "equipment", icon: "activity", synonyms: ["Functional Training Area", "Functional Fitness"] },
+  { name: "CrossFit", category: "equipment", icon: "trophy", synonyms: ["CrossFit Area", "CrossFit Box"] },
+  { name: "Boxing & MMA", category: "equipment", icon: "swords", synonyms: ["Boxing", "Boxing Ring", "MMA", "MMA Area", "Martial Arts"] },
+  { name: "Group Classes", category: "classes", icon: "users", synonyms: ["Classes", "Fitness Classes", "Group Training", "Group Fitness", "Rooftop Classes"] },
+  { name: "Yoga", category: "classes", icon: "flower", synonyms: ["Yoga Classes", "Yoga Studio"] },
+  { name: "Pilates", category: "classes", icon: "flower", synonyms: ["Pilates Classes", "Pilates Studio"] },
+  { name: "Spinning", category: "classes", icon: "bike", synonyms: ["Spin Classes", "Cycling Classes", "Indoor Cycling"] },
+  { name: "Swimming Pool", category: "facilities", icon: "waves", synonyms: ["Pool", "Indoor Pool", "Lap Pool"] },
+  { name: "Sauna", category: "facilities", icon: "flame", synonyms: ["Steam Room"] },
+  { name: "Spa", category: "facilities", icon: "sparkles", synonyms: ["Massage", "Massage Services"] },
+  { name: "Running Track", category: "facilities", icon: "footprints", synonyms: ["Track", "Indoor Track"] },
+  { name: "Stretching Area", category: "facilities", icon: "activity", synonyms: ["Stretch Area"] },
+  { name: "Basketball Court", category: "facilities", icon: "circle-dot", synonyms: ["Basketball"] },
+  { name: "Racquetball", category: "facilities", icon: "circle-dot", synonyms: ["Racquetball Court", "Squash", "Squash Court"] },
+  { name: "Locker Rooms", category: "facilities", icon: "lock", synonyms: ["Lockers", "Showers", "Changing Rooms"] },
+  { name: "Parking", category: "facilities", icon: "car", synonyms: ["Free Parking", "Car Park"] },
+  { name: "Childcare", category: "facilities", icon: "baby", synonyms: ["Kids Club", "Creche", "Daycare"] },
+  { name: "Women's Only Area", category: "facilities", icon: "shield", synonyms: ["Womens Only Area", "Ladies Only Area", "Women Only Area"] },
+  { name: "Personal Training", category: "services", icon: "user-check", synonyms: ["Personal Trainers", "Personal Trainer", "PT"] },
+  { name: "Towel Service", category: "services", icon: "bath", synonyms: ["Towels"] },
+  { name: "Smoothie Bar", category: "services", icon: "cup-soda", synonyms: ["Protein Bar", "Juice Bar", "Cafe"] },
+  { name: "Supplement Shop", category: "services", icon: "shopping-bag", synonyms: ["Supplements", "Pro Shop"] },
+  { name: "24/7 Access", category: "access", icon: "clock", synonyms: ["24/7", "24 Hours", "Open 24 Hours", "24 Hour Access"] },
+];
+
+// Tidy a typed-in name: trimmed, with single spaces
+export function cleanAmenityName(name: string): string {
+  return name.trim().replace(/\s+/g, " ");
+}
+
+// What two names are compared by
+export function amenityKey(name: string): string {
+  return cleanAmenityName(name).toLowerCase();
+}
+
+// Amenities by the key of their name and of each synonym
+export function indexAmenities(amenities: Amenity[]): Map<string, Amenity> {
+  const index = new Map<string, Amenity>();
+  for (const amenity of amenities) {
+    for (const synonym of amenity.synonyms) index.set(amenityKey(synonym), amenity);
+  }
+  // A name beats another amenity's synonym
+  for (const amenity of amenities) index.set(amenityKey(amenity.name), amenity);
+  return index;
+}
+
+export type GymAmenities = Pick<Gym, "amenities" | "amenityIds">;
+
+// Resolves free-text names to a gym's amenity IDs and canonical names, in the
+// order given and without repeats
+export type AmenityResolver = (names: string[] | null | undefined) => Promise<GymAmenities>;
+
+// addAmenity is called once for each name that matches no known amenity
+export function createAmenityResolver(
+  known: Amenity[],
+  addAmenity: (name: string) => Promise<Amenity>
+): AmenityResolver {
+  const index = indexAmenities(known);
+
+  return async (names) => {
+    const resolved: Amenity[] = [];
+    for (const name of names ?? []) {
+      const key = amenityKey(name);
+      if (!key) continue;
+
+      let amenity = index.get(key);
+      if (!amenity) {
+        amenity = await addAmenity(cleanAmenityName(name));
+        index.set(key, amenity);
+      }
+      if (!resolved.some(existing => existing.id === amenity!.id)) resolved.push(amenity);
+    }
+
+    return {
+      amenities: resolved.map(amenity => amenity.name),
+      amenityIds: resolved.map(amenity => amenity.id),
+    };
+  };
+}
+
+// A gym's amenities with some replaced, e.g. by a renamed amenity or the one
+// others were merged into. Relies on amenities[i] being the name of amenityIds[i].
+export function replaceGymAmenities(gym: GymAmenities, replacements: Map<number, Amenity>): GymAmenities {
+  const result: GymAmenities = { amenities: [], amenityIds: [] };
+  gym.amenityIds.forEach((id, i) => {
+    const replacement = replacements.get(id);
+    const newId = replacement?.id ?? id;
+    if (result.amenityIds.includes(newId)) return;
+    result.amenityIds.push(newId);
+    result.amenities!.push(replacement?.name ?? gym.amenities?.[i] ?? "");
+  });
+  return result;
+}
+
+// Synonyms of the amenity others are merged into: its own, then the merged
+// amenities' names and synonyms, so gyms saved with those names still resolve
+// to it. Repeats and copies of its name are dropped.
+export function mergedSynonyms(
+  target: Pick<Amenity, "name" | "synonyms">,
+  sources: Pick<Amenity, "name" | "synonyms">[]
+): string[] {
+  const seen = new Set([amenityKey(target.name)]);
+  const synonyms: string[] = [];
+  for (const synonym of [...target.synonyms, ...sources.flatMap(source => [source.name, ...source.synonyms])]) {
+    const key = amenityKey(synonym);
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+    synonyms.push(cleanAmenityName(synonym));
+  }
+  return synonyms;
+}
+
+// Names and synonyms must each point at one amenity. Returns why the given
+// name and synonyms clash with the other amenities, if they do.
+export function findAmenityConflict(
+  all: Amenity[],
+  amenity: { id?: number; name: string; synonyms: string[] }
+): string | undefined {
+  const index = indexAmenities(all.filter(other => other.id !== amenity.id));
+  for (const name of [amenity.name, ...amenity.synonyms]) {
+    const other = index.get(amenityKey(name));
+    if (other) return `"${cleanAmenityName(name)}" already belongs to ${other.name}`;
+  }
+  return undefined;
+}
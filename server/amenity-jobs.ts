@@ -0,0 +1,61 @@
+// Background job handlers for amenity renames and merges, which rewrite every
+// gym with the amenity. Each runs in one transaction, so a cancelled or failed
+// job leaves the amenities and gyms as they were.
+import type { InsertAmenity } from "@shared/schema";
+import { registerJobHandler } from "./jobs";
+import { recordAuditAs, type AuditActor } from "./audit";
+import { storage } from "./storage";
+
+export type AmenityRenameJobPayload = {
+  amenityId: number;
+  changes: Partial<InsertAmenity>;
+  actor: AuditActor;
+};
+
+export type AmenityMergeJobPayload = {
+  targetId: number;
+  sourceIds: number[];
+  actor: AuditActor;
+};
+
+registerJobHandler<AmenityRenameJobPayload>("amenity.rename", {
+  async run({ job, payload, setProgress }) {
+    const { amenityId, changes, actor } = payload;
+    const existingAmenity = await storage.getAmenity(amenityId);
+    const result = existingAmenity && await storage.updateAmenity(amenityId, changes, setProgress);
+    if (!result) throw new Error("The amenity no longer exists");
+
+    await recordAuditAs(actor, {
+      action: "amenity.update",
+      targetType: "amenity",
+      targetId: amenityId,
+      before: existingAmenity,
+      after: result.amenity,
+      metadata: { jobId: job.id, gymsUpdated: result.gymsUpdated }
+    });
+
+    return result;
+  },
+});
+
+registerJobHandler<AmenityMergeJobPayload>("amenity.merge", {
+  async run({ job, payload, setProgress }) {
+    const { targetId, sourceIds, actor } = payload;
+    const allAmenities = await storage.getAllAmenities();
+    const target = allAmenities.find(amenity => amenity.id === targetId);
+    const sources = allAmenities.filter(amenity => sourceIds.includes(amenity.id));
+    const result = await storage.mergeAmenities(targetId, sourceIds, setProgress);
+    if (!result) throw new Error("One of the amenities no longer exists");
+
+    await recordAuditAs(actor, {
+      action: "amenity.merge",
+      targetType: "amenity",
+      targetId,
+      before: target,
+      after: result.amenity,
+      metadata: { jobId: job.id, sourceIds, mergedNames: sources.map(source => source.name), gymsUpdated: result.gymsUpdated }
+    });
+
+    return result;
+  },
+});
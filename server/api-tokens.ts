@@ -0,0 +1,105 @@
+// Personal API tokens, sent as "Authorization: Bearer <token>" so scripts
+// don't need a session cookie. Storage keeps only the token's SHA-256 hash.
+// A token only works on the routes its scopes cover (SCOPED_ROUTES); anything
+// else, including managing tokens, still needs a signed-in session.
+import { createHash, randomBytes } from "crypto";
+import type { RequestHandler } from "express";
+import type { ApiTokenScope } from "@shared/permissions";
+import type { ApiToken, ApiTokenSummary, CreateApiToken, CreatedApiToken, User } from "@shared/schema";
+import { storage } from "./storage";
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set when the request was authenticated with an API token rather than a session
+      apiToken?: ApiToken;
+    }
+  }
+}
+
+// Marks our tokens so they're easy to spot in logs and secret scanners
+const TOKEN_PREFIX = "gmt_";
+// How much of the token is kept in clear to tell tokens apart in the list
+const DISPLAY_PREFIX_LENGTH = TOKEN_PREFIX.length + 6;
+const LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SCOPED_ROUTES: { method: string; path: RegExp; scope: ApiTokenScope }[] = [
+  { method: "GET", path: /^\/api\/user$/, scope: "read:profile" },
+  { method: "GET", path: /^\/api\/user\/(managed-gyms|gym-claims)$/, scope: "read:profile" },
+  { method: "GET", path: /^\/api\/saved-gyms$/, scope: "read:profile" },
+  { method: "PUT", path: /^\/api\/user\/profile$/, scope: "write:profile" },
+  { method: "POST", path: /^\/api\/user\/photos$/, scope: "write:profile" },
+  { method: "GET", path: /^\/api\/gyms(\/.*)?$/, scope: "read:gyms" },
+  { method: "GET", path: /^\/api\/amenities$/, scope: "read:gyms" },
+  { method: "GET", path: /^\/api\/matches$/, scope: "read:gyms" },
+  { method: "POST", path: /^\/api\/gyms\/import$/, scope: "admin:import" },
+  { method: "GET", path: /^\/api\/jobs\/\d+$/, scope: "admin:import" },
+];
+
+function hashToken(rawToken: string): string {
+  return createHash("sha256").update(rawToken).digest("hex");
+}
+
+function requiredScope(method: string, path: string): ApiTokenScope | undefined {
+  return SCOPED_ROUTES.find(route => route.method === method && route.path.test(path))?.scope;
+}
+
+export function toApiTokenSummary(token: ApiToken): ApiTokenSummary {
+  const { tokenHash, ...summary } = token;
+  return summary;
+}
+
+// Create a token for the user. The caller checks the user may grant the scopes.
+export async function issueApiToken(user: User, { name, scopes, expiresInDays }: CreateApiToken): Promise<CreatedApiToken> {
+  const secret = `${TOKEN_PREFIX}${randomBytes(32).toString("base64url")}`;
+  const token = await storage.createApiToken({
+    userId: user.id,
+    name,
+    tokenHash: hashToken(secret),
+    tokenPrefix: secret.slice(0, DISPLAY_PREFIX_LENGTH),
+    scopes: Array.from(new Set(scopes)),
+    expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * DAY_MS) : null,
+  });
+  return { token: toApiTokenSummary(token), secret };
+}
+
+// Signs the request in as the token's owner when it carries a bearer token.
+// Requests without one fall through to the session as before.
+export const authenticateApiToken: RequestHandler = async (req, res, next) => {
+  const header = req.headers.authorization;
+  if (!header?.startsWith("Bearer ")) return next();
+
+  try {
+    const token = await storage.getApiTokenByHash(hashToken(header.slice("Bearer ".length).trim()));
+    if (!token || (token.expiresAt && token.expiresAt.getTime() <= Date.now())) {
+      return res.status(401).json({ message: "Invalid or expired API token" });
+    }
+
+    const user = await storage.getUser(token.userId);
+    if (!user || user.isBanned) {
+      return res.status(401).json({ message: "Invalid or expired API token" });
+    }
+
+    const scope = requiredScope(req.method, req.path);
+    if (!scope) {
+      return res.status(403).json({ message: "API tokens can't be used for this request" });
+    }
+    if (!token.scopes.includes(scope)) {
+      return res.status(403).json({ message: `This API token needs the ${scope} scope` });
+    }
+
+    const lastUsedMs = token.lastUsedAt ? token.lastUsedAt.getTime() : 0;
+    if (Date.now() - lastUsedMs > LAST_USED_UPDATE_INTERVAL_MS) {
+      storage.touchApiToken(token.id)
+        .catch(err => console.error("Error recording API token use:", err));
+    }
+
+    // Passport treats any request with req.user as authenticated
+    req.user = user;
+    req.apiToken = token;
+    next();
+  } catch (err) {
+    next(err);
+  }
+};
@@ -0,0 +1,84 @@
+// Admin audit trail. Privileged routes call recordAudit after a change succeeds;
+// entries are only ever appended (the table rejects updates and deletes).
+import type { Request } from "express";
+import type { AuditAction, AuditChanges, AuditTargetType } from "@shared/schema";
+import { storage } from "./storage";
+
+// Never copied into the log
+const REDACTED_FIELDS = new Set(["password", "googleProfile", "totpSecret", "totpRecoveryCodes"]);
+
+interface AuditEvent {
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId?: number | null;
+  // The record before and after the change; leave one out for creates and deletes
+  before?: object | null;
+  after?: object | null;
+  metadata?: Record<string, unknown>;
+}
+
+// Compare values as JSON so dates and arrays are compared by content
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+// Fields whose value differs between two versions of a record
+export function diffRecords(before: object | null | undefined, after: object | null | undefined): AuditChanges {
+  const beforeRecord = (before ?? {}) as Record<string, unknown>;
+  const afterRecord = (after ?? {}) as Record<string, unknown>;
+  const fields = new Set([...Object.keys(beforeRecord), ...Object.keys(afterRecord)]);
+  const changes: AuditChanges = {};
+
+  fields.forEach(field => {
+    if (REDACTED_FIELDS.has(field)) return;
+
+    const oldValue = before ? beforeRecord[field] ?? null : null;
+    const newValue = after ? afterRecord[field] ?? null : null;
+    if (!sameValue(oldValue, newValue)) {
+      changes[field] = { before: oldValue, after: newValue };
+    }
+  });
+
+  return changes;
+}
+
+// Who performed an action, for actions that finish after the request that
+// started them, such as background jobs
+export interface AuditActor {
+  id: number | null;
+  username: string | null;
+  ip: string | null;
+}
+
+export function auditActorFor(req: Request): AuditActor {
+  return {
+    id: req.user?.id ?? null,
+    username: req.user?.username ?? null,
+    ip: req.ip ?? null
+  };
+}
+
+// Append an entry for an action the signed-in admin just performed. Failures
+// are logged rather than thrown, since the action itself has already happened.
+export async function recordAudit(req: Request, event: AuditEvent) {
+  await recordAuditAs(auditActorFor(req), event);
+}
+
+export async function recordAuditAs(actor: AuditActor, event: AuditEvent) {
+  try {
+    const changes = event.before || event.after ? diffRecords(event.before, event.after) : null;
+
+    await storage.createAuditLogEntry({
+      actorId: actor.id,
+      actorUsername: actor.username,
+      action: event.action,
+      targetType: event.targetType,
+      targetId: event.targetId ?? null,
+      changes,
+      metadata: event.metadata ?? null,
+      ip: actor.ip
+    });
+  } catch (error) {
+    console.error(`Error recording audit entry for ${event.action}:`, error);
+  }
+}
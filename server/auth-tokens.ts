@@ -0,0 +1,73 @@
+// Emailed links for verifying an address and resetting a password. The raw
+// token only ever appears in the email; storage keeps its SHA-256 hash.
+import { createHash, randomBytes } from "crypto";
+import type { AuthToken, AuthTokenPurpose, User } from "@shared/schema";
+import { storage } from "./storage";
+import { mailer } from "./mailer";
+
+const TOKEN_TTL_MS: Record<AuthTokenPurpose, number> = {
+  email_verification: 24 * 60 * 60 * 1000, // 24 hours
+  password_reset: 60 * 60 * 1000, // 1 hour
+};
+
+function hashToken(rawToken: string): string {
+  return createHash("sha256").update(rawToken).digest("hex");
+}
+
+// Create a token for the user's current email, replacing any earlier token
+// for the same purpose so only the newest link works. Returns the raw token.
+async function issueAuthToken(user: User, purpose: AuthTokenPurpose): Promise<string> {
+  const rawToken = randomBytes(32).toString("base64url");
+  await storage.deleteAuthTokens(user.id, purpose);
+  await storage.createAuthToken({
+    userId: user.id,
+    purpose,
+    tokenHash: hashToken(rawToken),
+    email: user.email!,
+    expiresAt: new Date(Date.now() + TOKEN_TTL_MS[purpose]),
+  });
+  return rawToken;
+}
+
+// Look up and use up a token. Returns undefined if it is unknown, for another
+// purpose, expired or already used.
+export async function redeemAuthToken(rawToken: string, purpose: AuthTokenPurpose): Promise<AuthToken | undefined> {
+  const token = await storage.getAuthTokenByHash(hashToken(rawToken));
+  if (!token || token.purpose !== purpose || token.usedAt || token.expiresAt.getTime() <= Date.now()) {
+    return undefined;
+  }
+  return (await storage.consumeAuthToken(token.id)) ? token : undefined;
+}
+
+// baseUrl is the site origin the links should point at, e.g. https://gymmatch.app
+export async function sendVerificationEmail(user: User, baseUrl: string) {
+  const token = await issueAuthToken(user, "email_verification");
+  await mailer.send({
+    to: user.email!,
+    subject: "Confirm your GymMatch email address",
+    text: [
+      `Hi ${user.name},`,
+      "",
+      "Please confirm this is your email address by opening the link below:",
+      `${baseUrl}/auth?verify=${encodeURIComponent(token)}`,
+      "",
+      "The link expires in 24 hours. If you didn't create a GymMatch account, you can ignore this email.",
+    ].join("\n"),
+  });
+}
+
+export async function sendPasswordResetEmail(user: User, baseUrl: string) {
+  const token = await issueAuthToken(user, "password_reset");
+  await mailer.send({
+    to: user.email!,
+    subject: "Reset your GymMatch password",
+    text: [
+      `Hi ${user.name},`,
+      "",
+      "Someone asked to reset the password for your GymMatch account. To choose a new one, open the link below:",
+      `${baseUrl}/auth?reset=${encodeURIComponent(token)}`,
+      "",
+      "The link expires in 1 hour and can only be used once. If you didn't ask for this, you can ignore this email.",
+    ].join("\n"),
+  });
+}
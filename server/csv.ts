@@ -0,0 +1,17 @@
+// Writing CSV. Reading goes through csv-parse; this covers the other direction
+// for downloadable reports and exports.
+
+function escapeCsvValue(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One CSV line, including the trailing newline
+export function toCsvLine(values: unknown[]): string {
+  return values.map(escapeCsvValue).join(",") + "\r\n";
+}
+
+export function toCsv(header: string[], rows: unknown[][]): string {
+  return [header, ...rows].map(toCsvLine).join("");
+}
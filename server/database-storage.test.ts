@@ -0,0 +1,61 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { getTableColumns } from "drizzle-orm";
+import { amenities, gyms, type InsertGym } from "@shared/schema";
+
+// db.ts refuses to load without a connection string; nothing here connects
+process.env.DATABASE_URL ??= "postgres://localhost/gymmatchmate_test";
+const { db } = await import("./db");
+const { DatabaseStorage, IMPORT_INSERT_BATCH_SIZE } = await import("./database-storage");
+
+// postgres-js rejects statements with more bound parameters than this
+const MAX_QUERY_PARAMETERS = 65534;
+
+function gymRow(index: number): InsertGym {
+  return {
+    name: `Gym ${index}`,
+    location: { address: `${index} Main St`, city: "Springfield", state: "IL", zipCode: "62701", lat: 39.8, lng: -89.6 },
+    amenities: ["pool"],
+  } as InsertGym;
+}
+
+// Stands in for the transaction, recording every gym INSERT
+function fakeTransaction() {
+  const gymInserts: Record<string, unknown>[][] = [];
+  let nextId = 1;
+  const tx = {
+    select: () => ({
+      from: async (table: unknown) => table === amenities
+        ? [{ id: 7, name: "Pool", category: "facilities", icon: "waves", synonyms: ["swimming pool"], createdAt: new Date() }]
+        : [],
+    }),
+    insert: (table: unknown) => ({
+      values: (rows: Record<string, unknown>[]) => {
+        assert.equal(table, gyms, "only gyms should be inserted");
+        gymInserts.push(rows);
+        return { returning: async () => rows.map(row => ({ ...row, id: nextId++ })) };
+      },
+    }),
+  };
+  return { tx, gymInserts };
+}
+
+test("a gym INSERT batch stays under the postgres parameter limit", () => {
+  const columnCount = Object.keys(getTableColumns(gyms)).length;
+  assert.ok(IMPORT_INSERT_BATCH_SIZE * columnCount <= MAX_QUERY_PARAMETERS);
+});
+
+test("importGyms inserts more rows than one batch in several statements, in order", async (t) => {
+  const { tx, gymInserts } = fakeTransaction();
+  t.mock.method(db, "transaction", async (run: (tx: unknown) => unknown) => run(tx));
+
+  const rowCount = IMPORT_INSERT_BATCH_SIZE * 2 + 1;
+  const creates = Array.from({ length: rowCount }, (_, index) => gymRow(index));
+  const { created, updated } = await new DatabaseStorage().importGyms(creates, []);
+
+  assert.deepEqual(gymInserts.map(rows => rows.length), [IMPORT_INSERT_BATCH_SIZE, IMPORT_INSERT_BATCH_SIZE, 1]);
+  assert.equal(created.length, rowCount);
+  assert.deepEqual(created.map(gym => gym.name), creates.map(gym => gym.name));
+  assert.deepEqual(created[rowCount - 1].amenityIds, [7]);
+  assert.deepEqual(updated, []);
+});
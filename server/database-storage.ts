@@ -1,11 +1,33 @@
 import {
-  User, InsertUser, Gym, InsertGym, SavedGym, InsertSavedGym,
-  UserMatch, InsertUserMatch, Message, InsertMessage,
-  users, gyms, savedGyms, userMatches, messages
+  User, InsertUser, Gym, InsertGym, GymWithDistance, SavedGym, InsertSavedGym,
+  UserMatch, InsertUserMatch, Message, InsertMessage, MessagePageOptions, Conversation,
+  GymReview, InsertGymReview, GymReviewWithAuthor, MembershipPlan, InsertMembershipPlan, GymMatch,
+  PartnerRecommendation, UserBlock, InsertUserBlock, UserReport, InsertUserReport,
+  AuditLogEntry, InsertAuditLogEntry, AuditLogFilters,
+  GymClaim, InsertGymClaim, GymAnnouncement, InsertGymAnnouncement,
+  AuthToken, InsertAuthToken, AuthTokenPurpose, LoginAttempt, InsertLoginAttempt, LoginAttemptFilters,
+  LoginAttemptCountFilters, LoginAttemptCount, PasswordHashCount, ApiToken, InsertApiToken, Job, InsertJob,
+  Amenity, InsertAmenity, AmenityWithUsage, AmenityUpdateResult,
+  users, gyms, savedGyms, userMatches, messages, gymReviews, gymMembershipPlans, userBlocks, userReports,
+  adminAuditLog, gymManagers, gymClaims, gymAnnouncements, authTokens, appSettings, loginAttempts, apiTokens, jobs,
+  amenities
 } from "@shared/schema";
+import { isOpenAt, parseOpeningHours } from "@shared/opening-hours";
 import session from "express-session";
 import { db } from "./db";
-import { eq, and, or, desc, count } from "drizzle-orm";
+import {
+  eq, ne, and, or, desc, asc, count, min, max, lt, lte, gt, gte, isNull, inArray, arrayContains, arrayOverlaps, sql,
+  getTableColumns, type SQL
+} from "drizzle-orm";
+import { EARTH_RADIUS_KM } from "./geo";
+import { rankGymsForUser, type MatchOptions } from "./matching";
+import { searchTerms, type GymFilters, type GymPage, type GymPageQuery } from "./gym-filters";
+import {
+  DEFAULT_AMENITIES, amenityKey, createAmenityResolver, indexAmenities, mergedSynonyms, replaceGymAmenities,
+  type AmenityResolver
+} from "./amenities";
+import { buildPartnerContext, rankPartnersForUser, scorePartner } from "./partner-matching";
+import { BlockedUserError } from "./moderation";
 import connectPg from "connect-pg-simple";
 
 const PostgresSessionStore = connectPg(session);
@@ -16,29 +38,104 @@ const pool = new pg.Pool({
   connectionString: process.env.DATABASE_URL,
 });
 
+// JSON.stringify replacer that keeps credentials and 2FA secrets out of the debug logs
+const SECRET_USER_FIELDS = new Set(["password", "totpSecret", "totp_secret", "totpRecoveryCodes", "totp_recovery_codes"]);
+function redactSecrets(key: string, value: unknown) {
+  return SECRET_USER_FIELDS.has(key) && value != null ? "[redacted]" : value;
+}
+
+// Convert a raw users row (snake_case columns) to a User, never leaving array fields null
+function toUser(row: any): User {
+  return {
+    id: row.id,
+    username: row.username,
+    password: row.password,
+    name: row.name,
+    email: row.email,
+    emailVerifiedAt: row.email_verified_at,
+    googleId: row.google_id,
+    googleProfile: row.google_profile,
+    age: row.age,
+    gender: row.gender,
+    fitnessGoals: Array.isArray(row.fitness_goals) ? row.fitness_goals : [],
+    bodyMeasurements: row.body_measurements,
+    profilePic: row.profile_pic,
+    progressPhotos: Array.isArray(row.progress_photos) ? row.progress_photos : [],
+    gymPreferences: Array.isArray(row.gym_preferences) ? row.gym_preferences : [],
+    monthlyBudget: row.monthly_budget,
+    budgetCurrency: row.budget_currency,
+    role: row.role,
+    totpSecret: row.totp_secret,
+    totpEnabledAt: row.totp_enabled_at,
+    totpLastUsedCounter: row.totp_last_used_counter,
+    totpRecoveryCodes: Array.isArray(row.totp_recovery_codes) ? row.totp_recovery_codes : [],
+    isBanned: row.is_banned,
+    status: row.status,
+    lastActiveAt: row.last_active_at,
+    createdAt: row.created_at
+  };
+}
+
+// Aggregate gym columns recomputed from the gym's reviews
+function gymRatingAggregates(gymId: number) {
+  return {
+    rating: sql<number | null>`(select avg(${gymReviews.rating}) from ${gymReviews} where ${gymReviews.gymId} = ${gymId})`,
+    reviewCount: sql<number>`(select count(*) from ${gymReviews} where ${gymReviews.gymId} = ${gymId})::int`
+  };
+}
+
 export interface IStorage {
   // User operations
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
+  // Case-insensitive; prefers an account that has verified the address
+  getUserByEmail(email: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   getAllUsers(): Promise<User[]>;
   updateUser(id: number, userData: Partial<User>): Promise<User | undefined>;
+  // Marks an authenticator code's time step used; false if it or a later step already was
+  useTotpCounter(id: number, counter: number): Promise<boolean>;
+  // Removes a hashed recovery code; false if the user no longer has it, so each code works once
+  useRecoveryCode(id: number, codeHash: string): Promise<boolean>;
   deleteUser(id: number): Promise<boolean>;
   
   // Gym operations
   getGym(id: number): Promise<Gym | undefined>;
   getAllGyms(): Promise<Gym[]>;
-  getNearbyGyms(lat: number, lng: number, radius?: number): Promise<Gym[]>;
+  getGymsAfter(afterId: number, limit: number): Promise<Gym[]>;
+  getGymCount(): Promise<number>;
+  getNearbyGyms(lat: number, lng: number, radiusKm?: number): Promise<GymWithDistance[]>;
+  searchGyms(filters: GymFilters): Promise<(Gym & { distanceKm: number | null })[]>;
+  // One sorted page of the gyms searchGyms would return, see GymPage. Not for
+  // openNow searches, which depend on each gym's hours and are checked in code.
+  searchGymPage(filters: GymFilters, query: GymPageQuery): Promise<GymPage>;
   createGym(gym: InsertGym): Promise<Gym>;
   updateGym(id: number, gym: Partial<Gym>): Promise<Gym | undefined>;
   deleteGym(id: number): Promise<boolean>;
+  // Add and update gyms for a CSV import, all or nothing; created gyms come back in order
+  importGyms(creates: InsertGym[], updates: { id: number; gym: Partial<InsertGym> }[]): Promise<{ created: Gym[]; updated: Gym[] }>;
+  
+  // Amenity operations. Gym writes resolve amenity names to these, see amenities.ts.
+  getAllAmenities(): Promise<Amenity[]>;
+  getAmenity(id: number): Promise<Amenity | undefined>;
+  getAmenitiesWithUsage(): Promise<AmenityWithUsage[]>;
+  createAmenity(amenity: InsertAmenity): Promise<Amenity>;
+  // Renaming an amenity renames it on every gym that has it. Both this and
+  // mergeAmenities report progress through the gyms they update, and throwing
+  // from onProgress undoes everything.
+  updateAmenity(id: number, amenity: Partial<InsertAmenity>, onProgress?: (percent: number) => Promise<void>): Promise<AmenityUpdateResult | undefined>;
+  // Moves gyms from the source amenities to the target and deletes the sources,
+  // keeping their names as synonyms of the target
+  mergeAmenities(targetId: number, sourceIds: number[], onProgress?: (percent: number) => Promise<void>): Promise<AmenityUpdateResult | undefined>;
   
   // Saved gym/match operations
   getSavedGym(userId: number, gymId: number): Promise<SavedGym | undefined>;
   getSavedGymsByUser(userId: number): Promise<SavedGym[]>;
+  getAllSavedGyms(): Promise<SavedGym[]>;
   saveGym(savedGym: InsertSavedGym): Promise<SavedGym>;
   deleteSavedGym(userId: number, gymId: number): Promise<boolean>;
-  getMatchesForUser(userId: number): Promise<Array<Gym & { matchScore: number }>>;
+  // Scores every gym for a user, best match first (see matching.ts)
+  getMatchesForUser(userId: number, options?: MatchOptions): Promise<GymMatch[]>;
 
   // User match operations (for connecting users)
   getUserMatches(userId: number, status?: string): Promise<UserMatch[]>;
@@ -47,12 +144,115 @@ export interface IStorage {
   createUserMatch(userMatch: InsertUserMatch): Promise<UserMatch>;
   updateUserMatchStatus(id: number, status: string): Promise<UserMatch | undefined>;
   deleteUserMatch(id: number): Promise<boolean>;
+  // Ranks other members as workout partners, best first (see partner-matching.ts)
+  getPartnerRecommendations(userId: number): Promise<PartnerRecommendation[]>;
+  // Scores one member as a partner for another; undefined if either user doesn't exist
+  getPartnerScore(userId: number, candidateId: number): Promise<PartnerRecommendation | undefined>;
   
   // Message operations
-  getMessages(userId: number, otherUserId: number): Promise<Message[]>;
+  // Returns the newest `limit` messages before the cursor, oldest first
+  getMessages(userId: number, otherUserId: number, options?: MessagePageOptions): Promise<Message[]>;
+  getMessage(id: number): Promise<Message | undefined>;
+  getConversations(userId: number): Promise<Conversation[]>;
   getUnreadMessageCount(userId: number): Promise<number>;
   createMessage(message: InsertMessage): Promise<Message>;
-  markMessagesAsRead(receiverId: number, senderId: number): Promise<void>;
+  markMessagesAsDelivered(receiverId: number): Promise<Message[]>;
+  markMessagesAsRead(receiverId: number, senderId: number): Promise<Message[]>;
+  
+  // Gym review operations; writes recompute the gym's rating and review count
+  getGymReviews(gymId: number): Promise<GymReviewWithAuthor[]>;
+  getGymReview(id: number): Promise<GymReview | undefined>;
+  getGymReviewByUser(gymId: number, userId: number): Promise<GymReview | undefined>;
+  createGymReview(review: InsertGymReview): Promise<GymReview>;
+  updateGymReview(id: number, review: Partial<InsertGymReview>): Promise<GymReview | undefined>;
+  deleteGymReview(id: number): Promise<boolean>;
+  
+  // Membership plan operations; a gym's plans are returned cheapest first
+  getMembershipPlans(gymId: number): Promise<MembershipPlan[]>;
+  getAllMembershipPlans(): Promise<MembershipPlan[]>;
+  getMembershipPlansForGyms(gymIds: number[]): Promise<MembershipPlan[]>;
+  getMembershipPlan(id: number): Promise<MembershipPlan | undefined>;
+  createMembershipPlan(plan: InsertMembershipPlan): Promise<MembershipPlan>;
+  updateMembershipPlan(id: number, plan: Partial<InsertMembershipPlan>): Promise<MembershipPlan | undefined>;
+  deleteMembershipPlan(id: number): Promise<boolean>;
+  
+  // Block operations; a block hides the two users from each other in both directions
+  getUserBlocks(blockerId: number): Promise<UserBlock[]>;
+  // Everyone hidden from this user: those they blocked and those who blocked them
+  getBlockedUserIds(userId: number): Promise<number[]>;
+  isBlocked(userId: number, otherUserId: number): Promise<boolean>;
+  createUserBlock(block: InsertUserBlock): Promise<UserBlock>;
+  deleteUserBlock(blockerId: number, blockedId: number): Promise<boolean>;
+  
+  // Report operations; reports are returned newest first
+  getUserReports(status?: string): Promise<UserReport[]>;
+  getUserReport(id: number): Promise<UserReport | undefined>;
+  createUserReport(report: InsertUserReport): Promise<UserReport>;
+  updateUserReport(id: number, report: Partial<UserReport>): Promise<UserReport | undefined>;
+  
+  // Audit log operations; the log is append-only, newest entries first
+  createAuditLogEntry(entry: InsertAuditLogEntry): Promise<AuditLogEntry>;
+  getAuditLog(filters?: AuditLogFilters): Promise<AuditLogEntry[]>;
+  
+  // Gym manager assignments; only consulted for users with the gym_manager role
+  getManagedGymIds(userId: number): Promise<number[]>;
+  isGymManager(userId: number, gymId: number): Promise<boolean>;
+  // Replace every gym assignment the user has
+  setManagedGyms(userId: number, gymIds: number[]): Promise<void>;
+  addGymManager(userId: number, gymId: number): Promise<void>;
+  
+  // Gym claim operations; claims are returned newest first
+  getGymClaims(filters?: { status?: string; userId?: number }): Promise<GymClaim[]>;
+  getGymClaim(id: number): Promise<GymClaim | undefined>;
+  createGymClaim(claim: InsertGymClaim): Promise<GymClaim>;
+  updateGymClaim(id: number, claim: Partial<GymClaim>): Promise<GymClaim | undefined>;
+  
+  // Gym announcement operations; announcements are returned newest first
+  getGymAnnouncements(gymId: number): Promise<GymAnnouncement[]>;
+  getGymAnnouncement(id: number): Promise<GymAnnouncement | undefined>;
+  createGymAnnouncement(announcement: InsertGymAnnouncement): Promise<GymAnnouncement>;
+  updateGymAnnouncement(id: number, announcement: Partial<InsertGymAnnouncement>): Promise<GymAnnouncement | undefined>;
+  deleteGymAnnouncement(id: number): Promise<boolean>;
+  
+  // Email token operations, looked up by the SHA-256 hash of the token
+  createAuthToken(token: InsertAuthToken): Promise<AuthToken>;
+  getAuthTokenByHash(tokenHash: string): Promise<AuthToken | undefined>;
+  // Marks the token used; false if it was already used, so each token works once
+  consumeAuthToken(id: number): Promise<boolean>;
+  deleteAuthTokens(userId: number, purpose: AuthTokenPurpose): Promise<void>;
+  
+  // Personal API token operations, looked up by the SHA-256 hash of the token
+  createApiToken(token: InsertApiToken): Promise<ApiToken>;
+  // A user's tokens, newest first
+  getApiTokens(userId: number): Promise<ApiToken[]>;
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  touchApiToken(id: number): Promise<void>;
+  // Only deletes the token if it belongs to the user
+  deleteApiToken(id: number, userId: number): Promise<boolean>;
+  
+  // Site-wide settings; callers validate the stored value
+  getSetting(key: string): Promise<unknown | undefined>;
+  setSetting(key: string, value: unknown, updatedBy: number): Promise<void>;
+  
+  // Login attempt operations; attempts are returned newest first
+  recordLoginAttempt(attempt: InsertLoginAttempt): Promise<LoginAttempt>;
+  updateLoginAttempt(id: number, attempt: Partial<Pick<InsertLoginAttempt, "outcome" | "userId">>): Promise<void>;
+  getLoginAttempts(filters?: LoginAttemptFilters): Promise<LoginAttempt[]>;
+  countLoginAttempts(filters: LoginAttemptCountFilters): Promise<LoginAttemptCount>;
+  
+  // How many accounts use each password hash format, for the rehash report
+  getPasswordHashCounts(): Promise<PasswordHashCount[]>;
+  
+  // Background job operations; see jobs.ts
+  createJob(job: InsertJob): Promise<Job>;
+  getJob(id: number): Promise<Job | undefined>;
+  // A user's jobs, newest first
+  getJobsByUser(userId: number, limit: number): Promise<Job[]>;
+  // Marks the oldest queued job running and returns it, so each job is claimed once
+  claimNextJob(): Promise<Job | undefined>;
+  updateJob(id: number, job: Partial<Job>): Promise<Job | undefined>;
+  // Fails jobs still marked running from before a restart and returns them
+  failInterruptedJobs(error: string): Promise<Job[]>;
   
   // Session store
   sessionStore: any;
@@ -61,6 +261,37 @@ export interface IStorage {
   seedInitialData?(): Promise<void>;
 }
 
+// Only gyms whose location has numeric coordinates can be placed on the map
+const hasCoordinates = and(
+  sql`jsonb_typeof(${gyms.location}->'lat') = 'number'`,
+  sql`jsonb_typeof(${gyms.location}->'lng') = 'number'`
+)!;
+
+// Haversine over the JSONB location - same formula as geo.haversineDistanceKm
+function distanceKmFrom(lat: number, lng: number) {
+  const gymLat = sql`(${gyms.location}->>'lat')::float8`;
+  const gymLng = sql`(${gyms.location}->>'lng')::float8`;
+  return sql<number>`${EARTH_RADIUS_KM} * 2 * asin(least(1, sqrt(
+    power(sin(radians(${gymLat} - ${lat}) / 2), 2) +
+    cos(radians(${lat})) * cos(radians(${gymLat})) *
+    power(sin(radians(${gymLng} - ${lng}) / 2), 2)
+  )))`.mapWith(Number);
+}
+
+// Rows per INSERT when importing gyms. postgres-js allows at most 65534 bound
+// parameters per statement, one per column per row, so a full import has to
+// be split up.
+export const IMPORT_INSERT_BATCH_SIZE = 500;
+
+// Gyms updated per statement when an amenity is renamed, so a long rename can
+// report progress and be cancelled between batches
+const AMENITY_UPDATE_BATCH_SIZE = 500;
+
+// Match % and _ literally in an ILIKE pattern
+function escapeLikePattern(text: string): string {
+  return text.replace(/[\\%_]/g, "\\$&");
+}
+
 export class DatabaseStorage implements IStorage {
   sessionStore: any;
 
@@ -89,28 +320,11 @@ export class DatabaseStorage implements IStorage {
       
       // Convert snake_case database columns to camelCase for app use
       const dbUser = result.rows[0];
-      console.log(`DB: Found user, raw data:`, JSON.stringify(dbUser, null, 2));
-      
-      // Create properly formatted user with array handling
-      const user: User = {
-        id: dbUser.id,
-        username: dbUser.username,
-        password: dbUser.password,
-        name: dbUser.name,
-        age: dbUser.age,
-        gender: dbUser.gender,
-        fitnessGoals: Array.isArray(dbUser.fitness_goals) ? dbUser.fitness_goals : [],
-        bodyMeasurements: dbUser.body_measurements,
-        profilePic: dbUser.profile_pic,
-        progressPhotos: Array.isArray(dbUser.progress_photos) ? dbUser.progress_photos : [],
-        gymPreferences: Array.isArray(dbUser.gym_preferences) ? dbUser.gym_preferences : [],
-        isAdmin: dbUser.is_admin,
-        isBanned: dbUser.is_banned,
-        status: dbUser.status,
-        createdAt: dbUser.created_at
-      };
-      
-      console.log(`DB: Formatted user:`, JSON.stringify(user, null, 2));
+      console.log(`DB: Found user, raw data:`, JSON.stringify(dbUser, redactSecrets, 2));
+      
+      const user = toUser(dbUser);
+      
+      console.log(`DB: Formatted user:`, JSON.stringify(user, redactSecrets, 2));
       return user;
     } finally {
       client.release();
@@ -135,31 +349,11 @@ export class DatabaseStorage implements IStorage {
       
       // Convert snake_case database columns to camelCase for app use
       const dbUser = result.rows[0];
-      console.log(`DB: Found user by Google ID, raw data:`, JSON.stringify(dbUser, null, 2));
-      
-      // Create properly formatted user with array handling
-      const user: User = {
-        id: dbUser.id,
-        username: dbUser.username,
-        password: dbUser.password,
-        name: dbUser.name,
-        email: dbUser.email,
-        googleId: dbUser.google_id,
-        googleProfile: dbUser.google_profile,
-        age: dbUser.age,
-        gender: dbUser.gender,
-        fitnessGoals: Array.isArray(dbUser.fitness_goals) ? dbUser.fitness_goals : [],
-        bodyMeasurements: dbUser.body_measurements,
-        profilePic: dbUser.profile_pic,
-        progressPhotos: Array.isArray(dbUser.progress_photos) ? dbUser.progress_photos : [],
-        gymPreferences: Array.isArray(dbUser.gym_preferences) ? dbUser.gym_preferences : [],
-        isAdmin: dbUser.is_admin,
-        isBanned: dbUser.is_banned,
-        status: dbUser.status,
-        createdAt: dbUser.created_at
-      };
-      
-      console.log(`DB: Formatted user from Google ID:`, JSON.stringify(user, null, 2));
+      console.log(`DB: Found user by Google ID, raw data:`, JSON.stringify(dbUser, redactSecrets, 2));
+      
+      const user = toUser(dbUser);
+      
+      console.log(`DB: Formatted user from Google ID:`, JSON.stringify(user, redactSecrets, 2));
       return user;
     } finally {
       client.release();
@@ -184,37 +378,32 @@ export class DatabaseStorage implements IStorage {
       
       // Convert snake_case database columns to camelCase for app use
       const dbUser = result.rows[0];
-      console.log(`DB: Found user, raw data:`, JSON.stringify(dbUser, null, 2));
-      
-      // Create properly formatted user with array handling
-      const user: User = {
-        id: dbUser.id,
-        username: dbUser.username,
-        password: dbUser.password,
-        name: dbUser.name,
-        email: dbUser.email,
-        googleId: dbUser.google_id,
-        googleProfile: dbUser.google_profile,
-        age: dbUser.age,
-        gender: dbUser.gender,
-        fitnessGoals: Array.isArray(dbUser.fitness_goals) ? dbUser.fitness_goals : [],
-        bodyMeasurements: dbUser.body_measurements,
-        profilePic: dbUser.profile_pic,
-        progressPhotos: Array.isArray(dbUser.progress_photos) ? dbUser.progress_photos : [],
-        gymPreferences: Array.isArray(dbUser.gym_preferences) ? dbUser.gym_preferences : [],
-        isAdmin: dbUser.is_admin,
-        isBanned: dbUser.is_banned,
-        status: dbUser.status,
-        createdAt: dbUser.created_at
-      };
-      
-      console.log(`DB: Formatted user:`, JSON.stringify(user, null, 2));
+      console.log(`DB: Found user, raw data:`, JSON.stringify(dbUser, redactSecrets, 2));
+      
+      const user = toUser(dbUser);
+      
+      console.log(`DB: Formatted user:`, JSON.stringify(user, redactSecrets, 2));
       return user;
     } finally {
       client.release();
     }
   }
 
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const client = await pool.connect();
+    try {
+      const result = await client.query(
+        `SELECT * FROM users WHERE lower(email) = lower($1)
+         ORDER BY email_verified_at IS NULL, id
+         LIMIT 1`,
+        [email]
+      );
+      return result.rows.length > 0 ? toUser(result.rows[0]) : undefined;
+    } finally {
+      client.release();
+    }
+  }
+
   async createUser(userData: InsertUser): Promise<User> {
     const [user] = await db
       .insert(users)
@@ -241,23 +430,7 @@ export class DatabaseStorage implements IStorage {
       }
       
       // Map each row to a properly formatted user
-      const userList: User[] = result.rows.map(dbUser => ({
-        id: dbUser.id,
-        username: dbUser.username,
-        password: dbUser.password,
-        name: dbUser.name,
-        age: dbUser.age,
-        gender: dbUser.gender,
-        fitnessGoals: Array.isArray(dbUser.fitness_goals) ? dbUser.fitness_goals : [],
-        bodyMeasurements: dbUser.body_measurements,
-        profilePic: dbUser.profile_pic,
-        progressPhotos: Array.isArray(dbUser.progress_photos) ? dbUser.progress_photos : [],
-        gymPreferences: Array.isArray(dbUser.gym_preferences) ? dbUser.gym_preferences : [],
-        isAdmin: dbUser.is_admin,
-        isBanned: dbUser.is_banned,
-        status: dbUser.status,
-        createdAt: dbUser.created_at
-      }));
+      const userList = result.rows.map(toUser);
       
       console.log(`DB: Retrieved ${userList.length} users`);
       return userList;
@@ -267,7 +440,7 @@ export class DatabaseStorage implements IStorage {
   }
   
   async updateUser(id: number, userData: Partial<User>): Promise<User | undefined> {
-    console.log(`DB: Updating user ${id} with data:`, JSON.stringify(userData, null, 2));
+    console.log(`DB: Updating user ${id} with data:`, JSON.stringify(userData, redactSecrets, 2));
     
     // Handle array & JSON fields correctly - ensure they're not null/undefined
     const cleanedData: any = { ...userData };
@@ -315,7 +488,7 @@ export class DatabaseStorage implements IStorage {
     
     // Perform the database update with cleaned data
     try {
-      console.log(`DB: Performing final update with data:`, JSON.stringify(cleanedData, null, 2));
+      console.log(`DB: Performing final update with data:`, JSON.stringify(cleanedData, redactSecrets, 2));
       
       // For critical array fields, use a direct SQL query to ensure arrays are properly set
       if ('fitnessGoals' in cleanedData || 'gymPreferences' in cleanedData || 'progressPhotos' in cleanedData) {
@@ -329,6 +502,7 @@ export class DatabaseStorage implements IStorage {
         }
         
         // Prepare SQL query parts
+        const userColumns = getTableColumns(users);
         const setParts = [];
         const params = [];
         let paramIndex = 1;
@@ -344,8 +518,9 @@ export class DatabaseStorage implements IStorage {
             params.push(arrayStr);
             paramIndex++;
           } else {
-            // Normal fields
-            setParts.push(`${key} = $${paramIndex}`);
+            // Normal fields, by their snake_case column name
+            const column = userColumns[key as keyof typeof userColumns]?.name ?? key;
+            setParts.push(`${column} = $${paramIndex}`);
             params.push(value);
             paramIndex++;
           }
@@ -379,23 +554,7 @@ export class DatabaseStorage implements IStorage {
             console.log(`- progressPhotos: ${JSON.stringify(updatedUser.progress_photos)}`);
             
             // Convert snake_case column names to camelCase for consistency
-            const formattedUser: User = {
-              id: updatedUser.id,
-              username: updatedUser.username,
-              password: updatedUser.password,
-              name: updatedUser.name,
-              age: updatedUser.age,
-              gender: updatedUser.gender,
-              fitnessGoals: updatedUser.fitness_goals || [],
-              bodyMeasurements: updatedUser.body_measurements,
-              profilePic: updatedUser.profile_pic,
-              progressPhotos: updatedUser.progress_photos || [],
-              gymPreferences: updatedUser.gym_preferences || [],
-              isAdmin: updatedUser.is_admin,
-              isBanned: updatedUser.is_banned,
-              status: updatedUser.status,
-              createdAt: updatedUser.created_at
-            };
+            const formattedUser = toUser(updatedUser);
             
             return formattedUser;
           } else {
@@ -436,6 +595,28 @@ export class DatabaseStorage implements IStorage {
     }
   }
   
+  // The conditions in the WHERE clauses make concurrent sign-ins with the same code race safely
+  async useTotpCounter(id: number, counter: number): Promise<boolean> {
+    const updated = await db
+      .update(users)
+      .set({ totpLastUsedCounter: counter })
+      .where(and(
+        eq(users.id, id),
+        or(isNull(users.totpLastUsedCounter), lt(users.totpLastUsedCounter, counter))
+      ))
+      .returning({ id: users.id });
+    return updated.length === 1;
+  }
+  
+  async useRecoveryCode(id: number, codeHash: string): Promise<boolean> {
+    const updated = await db
+      .update(users)
+      .set({ totpRecoveryCodes: sql`array_remove(${users.totpRecoveryCodes}, ${codeHash})` })
+      .where(and(eq(users.id, id), sql`${codeHash} = ANY(${users.totpRecoveryCodes})`))
+      .returning({ id: users.id });
+    return updated.length === 1;
+  }
+  
   async deleteUser(id: number): Promise<boolean> {
     try {
       console.log(`Attempting to delete user with ID: ${id}`);
@@ -447,7 +628,7 @@ export class DatabaseStorage implements IStorage {
         return false;
       }
       
-      console.log(`User to delete: ${JSON.stringify(user)}`);
+      console.log(`User to delete: ${JSON.stringify(user, redactSecrets)}`);
       
       // DIRECT APPROACH - Execute raw SQL for deletion to bypass any potential ORM issues
       try {
@@ -480,6 +661,20 @@ export class DatabaseStorage implements IStorage {
           );
           console.log(`Deleted ${messagesResult.rowCount} messages directly`);
           
+          // Delete reviews and refresh the ratings of the gyms they were for
+          const reviewsResult = await client.query(
+            'DELETE FROM gym_reviews WHERE user_id = $1 RETURNING gym_id', 
+            [id]
+          );
+          await client.query(
+            `UPDATE gyms SET
+               rating = (SELECT AVG(rating) FROM gym_reviews WHERE gym_id = gyms.id),
+               review_count = (SELECT COUNT(*) FROM gym_reviews WHERE gym_id = gyms.id)
+             WHERE id = ANY($1::int[])`,
+            [reviewsResult.rows.map(row => row.gym_id)]
+          );
+          console.log(`Deleted ${reviewsResult.rowCount} gym reviews directly`);
+          
           // Delete user
           const userResult = await client.query(
             'DELETE FROM users WHERE id = $1 RETURNING id', 
@@ -539,6 +734,16 @@ export class DatabaseStorage implements IStorage {
           .returning({ id: messages.id });
         console.log(`Deleted ${deletedMessages.length} messages via ORM`);
         
+        // Delete user's reviews and refresh the affected gym ratings
+        const deletedReviews = await db
+          .delete(gymReviews)
+          .where(eq(gymReviews.userId, id))
+          .returning({ gymId: gymReviews.gymId });
+        for (const { gymId } of deletedReviews) {
+          await db.update(gyms).set(gymRatingAggregates(gymId)).where(eq(gyms.id, gymId));
+        }
+        console.log(`Deleted ${deletedReviews.length} gym reviews via ORM`);
+        
         // Finally delete the user
         console.log(`Now deleting the user record itself via ORM`);
         const deleted = await db
@@ -567,28 +772,134 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(gyms);
   }
 
-  async getNearbyGyms(lat: number, lng: number, radius = 10): Promise<Gym[]> {
-    // In a real app with PostGIS, you would do proper geospatial filtering
-    // For now, just return all gyms
-    return this.getAllGyms();
+  // Gyms in id order after the given id, for walking the whole catalog in batches
+  async getGymsAfter(afterId: number, limit: number): Promise<Gym[]> {
+    return await db
+      .select()
+      .from(gyms)
+      .where(gt(gyms.id, afterId))
+      .orderBy(asc(gyms.id))
+      .limit(limit);
+  }
+
+  async getGymCount(): Promise<number> {
+    const [result] = await db.select({ count: count() }).from(gyms);
+    return result?.count ?? 0;
+  }
+
+  async getNearbyGyms(lat: number, lng: number, radiusKm = 10): Promise<GymWithDistance[]> {
+    const distanceKm = distanceKmFrom(lat, lng);
+    
+    return await db
+      .select({ ...getTableColumns(gyms), distanceKm })
+      .from(gyms)
+      .where(and(hasCoordinates, lte(distanceKm, radiusKm)))
+      .orderBy(asc(distanceKm), asc(gyms.id));
+  }
+
+  // Gyms matching the search filters, with their distance from filters.near when given.
+  // Opening hours depend on each gym's timezone, so openNow is checked after the query.
+  // The SQL for every filter but openNow, which depends on each gym's hours and
+  // time zone and so is checked in code. Undefined when nothing can match.
+  private gymFilterConditions(filters: GymFilters): { conditions: SQL[]; distanceKm: SQL<number | null> } | undefined {
+    const conditions: SQL[] = [];
+    
+    if (filters.gymIds) {
+      if (filters.gymIds.length === 0) return undefined;
+      conditions.push(inArray(gyms.id, filters.gymIds));
+    }
+    if (filters.q) {
+      const text = sql`(${gyms.name} || ' ' || coalesce(${gyms.location}->>'address', ''))`;
+      for (const term of searchTerms(filters.q)) {
+        conditions.push(sql`${text} ILIKE ${`%${escapeLikePattern(term)}%`}`);
+      }
+    }
+    if (filters.amenities) {
+      conditions.push(arrayContains(gyms.amenityIds, filters.amenities));
+    }
+    if (filters.minRating !== undefined) {
+      conditions.push(gte(gyms.rating, filters.minRating));
+    }
+    
+    let distanceKm = sql<number | null>`NULL::float8`;
+    if (filters.near) {
+      distanceKm = distanceKmFrom(filters.near.lat, filters.near.lng);
+      conditions.push(hasCoordinates, lte(distanceKm, filters.near.radiusKm));
+    }
+    return { conditions, distanceKm };
+  }
+
+  async searchGyms(filters: GymFilters): Promise<(Gym & { distanceKm: number | null })[]> {
+    const filtered = this.gymFilterConditions(filters);
+    if (!filtered) return [];
+    
+    const results = await db
+      .select({ ...getTableColumns(gyms), distanceKm: filtered.distanceKm })
+      .from(gyms)
+      .where(and(...filtered.conditions));
+    
+    if (!filters.openNow) return results;
+    const now = new Date();
+    return results.filter(gym => isOpenAt(gym, now) === true);
+  }
+
+  // Filters, orders and pages in SQL, so only the page's gyms are loaded
+  async searchGymPage(filters: GymFilters, { sort, limit, cursor }: GymPageQuery): Promise<GymPage> {
+    const filtered = this.gymFilterConditions(filters);
+    if (!filtered) return { gyms: [], total: 0, amenityCounts: [] };
+    if (filters.openNow) throw new Error("searchGymPage can't filter by openNow");
+    
+    // The same values as gymPageSortValue
+    const sortValue = {
+      rating: sql<number>`-coalesce(${gyms.rating}, -1)::float8`,
+      newest: sql<number>`-coalesce(floor(extract(epoch from ${gyms.createdAt}) * 1000), 0)::float8`,
+      // Sorting by distance needs a point, so every gym here has a distance
+      distance: sql<number>`${filtered.distanceKm}`,
+    }[sort];
+    const where = and(...filtered.conditions);
+    
+    const page = await db
+      .select({ ...getTableColumns(gyms), distanceKm: filtered.distanceKm, sortValue: sortValue.mapWith(Number) })
+      .from(gyms)
+      .where(and(
+        where,
+        cursor ? sql`(${sortValue}, ${gyms.id}) > (${cursor.value}::float8, ${cursor.id}::integer)` : undefined
+      ))
+      .orderBy(asc(sortValue), asc(gyms.id))
+      .limit(limit);
+    const [{ total }] = await db.select({ total: count() }).from(gyms).where(where);
+    const amenityCounts = await db
+      .select({ id: sql<number>`unnest(${gyms.amenityIds})`.mapWith(Number), count: count() })
+      .from(gyms)
+      .where(where)
+      .groupBy(sql`1`);
+    
+    return { gyms: page, total, amenityCounts };
   }
 
   async createGym(gymData: InsertGym): Promise<Gym> {
+    const resolveAmenities = await this.amenityResolver();
     const [gym] = await db
       .insert(gyms)
       .values({
         ...gymData,
         images: gymData.images || [],
-        amenities: gymData.amenities || []
+        ...(await resolveAmenities(gymData.amenities))
       })
       .returning();
     return gym;
   }
 
   async updateGym(id: number, gymData: Partial<Gym>): Promise<Gym | undefined> {
+    // Amenity IDs always follow from the names
+    const { amenityIds, ...changes } = gymData;
+    if (changes.amenities !== undefined) {
+      Object.assign(changes, await (await this.amenityResolver())(changes.amenities));
+    }
+    
     const [updatedGym] = await db
       .update(gyms)
-      .set(gymData)
+      .set(changes)
       .where(eq(gyms.id, id))
       .returning();
     return updatedGym;
@@ -602,6 +913,159 @@ export class DatabaseStorage implements IStorage {
     return deleted.length > 0;
   }
 
+  async importGyms(creates: InsertGym[], updates: { id: number; gym: Partial<InsertGym> }[]): Promise<{ created: Gym[]; updated: Gym[] }> {
+    return await db.transaction(async (tx) => {
+      // New amenity names are added in the transaction, so a failed import leaves none behind
+      const resolveAmenities = await this.amenityResolver(tx);
+      
+      const createValues = [];
+      for (const gymData of creates) {
+        createValues.push({
+          ...gymData,
+          images: gymData.images || [],
+          ...(await resolveAmenities(gymData.amenities))
+        });
+      }
+      const created: Gym[] = [];
+      for (let start = 0; start < createValues.length; start += IMPORT_INSERT_BATCH_SIZE) {
+        const batch = createValues.slice(start, start + IMPORT_INSERT_BATCH_SIZE);
+        created.push(...await tx.insert(gyms).values(batch).returning());
+      }
+      
+      const updated: Gym[] = [];
+      for (const { id, gym: gymData } of updates) {
+        const changes = gymData.amenities !== undefined
+          ? { ...gymData, ...(await resolveAmenities(gymData.amenities)) }
+          : gymData;
+        const [gym] = await tx.update(gyms).set(changes).where(eq(gyms.id, id)).returning();
+        // Throwing rolls back the whole import
+        if (!gym) throw new Error(`Gym ${id} no longer exists`);
+        updated.push(gym);
+      }
+      return { created, updated };
+    });
+  }
+
+  // Amenity operations
+  private async amenityResolver(executor: Pick<typeof db, "select" | "insert"> = db): Promise<AmenityResolver> {
+    return createAmenityResolver(await executor.select().from(amenities), async (name) => {
+      // Another write may have just added the same name
+      const [amenity] = await executor
+        .insert(amenities)
+        .values({ name })
+        .onConflictDoUpdate({ target: amenities.name, set: { name } })
+        .returning();
+      return amenity;
+    });
+  }
+
+  async getAllAmenities(): Promise<Amenity[]> {
+    return await db.select().from(amenities).orderBy(asc(amenities.name));
+  }
+
+  async getAmenity(id: number): Promise<Amenity | undefined> {
+    const [amenity] = await db.select().from(amenities).where(eq(amenities.id, id));
+    return amenity;
+  }
+
+  async getAmenitiesWithUsage(): Promise<AmenityWithUsage[]> {
+    return await db
+      .select({ ...getTableColumns(amenities), gymCount: count(gyms.id) })
+      .from(amenities)
+      .leftJoin(gyms, sql`${amenities.id} = ANY(${gyms.amenityIds})`)
+      .groupBy(amenities.id)
+      .orderBy(asc(amenities.category), asc(amenities.name));
+  }
+
+  async createAmenity(amenityData: InsertAmenity): Promise<Amenity> {
+    const [amenity] = await db.insert(amenities).values(amenityData).returning();
+    return amenity;
+  }
+
+  async updateAmenity(
+    id: number,
+    amenityData: Partial<InsertAmenity>,
+    onProgress: (percent: number) => Promise<void> = async () => {}
+  ): Promise<AmenityUpdateResult | undefined> {
+    return await db.transaction(async (tx) => {
+      const [existingAmenity] = await tx.select().from(amenities).where(eq(amenities.id, id));
+      if (!existingAmenity) return undefined;
+      
+      const [updatedAmenity] = await tx
+        .update(amenities)
+        .set(amenityData)
+        .where(eq(amenities.id, id))
+        .returning();
+      if (updatedAmenity.name === existingAmenity.name) {
+        return { amenity: updatedAmenity, gymsUpdated: 0 };
+      }
+      
+      const affectedGymIds = (await tx
+        .select({ id: gyms.id })
+        .from(gyms)
+        .where(arrayContains(gyms.amenityIds, [id]))).map(gym => gym.id);
+      for (let start = 0; start < affectedGymIds.length; start += AMENITY_UPDATE_BATCH_SIZE) {
+        await onProgress((start / affectedGymIds.length) * 100);
+        await tx
+          .update(gyms)
+          .set({ amenities: sql`array_replace(${gyms.amenities}, ${existingAmenity.name}, ${updatedAmenity.name})` })
+          .where(inArray(gyms.id, affectedGymIds.slice(start, start + AMENITY_UPDATE_BATCH_SIZE)));
+      }
+      return { amenity: updatedAmenity, gymsUpdated: affectedGymIds.length };
+    });
+  }
+
+  async mergeAmenities(
+    targetId: number,
+    sourceIds: number[],
+    onProgress: (percent: number) => Promise<void> = async () => {}
+  ): Promise<AmenityUpdateResult | undefined> {
+    return await db.transaction(async (tx) => {
+      const [target] = await tx.select().from(amenities).where(eq(amenities.id, targetId));
+      const sources = await tx.select().from(amenities).where(inArray(amenities.id, sourceIds));
+      if (!target || sources.length !== sourceIds.length) return undefined;
+      
+      const replacements = new Map(sourceIds.map(id => [id, target]));
+      const affectedGyms = await tx
+        .select({ id: gyms.id, amenities: gyms.amenities, amenityIds: gyms.amenityIds })
+        .from(gyms)
+        .where(arrayOverlaps(gyms.amenityIds, sourceIds));
+      for (const [index, gym] of Array.from(affectedGyms.entries())) {
+        await onProgress((index / affectedGyms.length) * 100);
+        await tx.update(gyms).set(replaceGymAmenities(gym, replacements)).where(eq(gyms.id, gym.id));
+      }
+      
+      await tx.delete(amenities).where(inArray(amenities.id, sourceIds));
+      const [amenity] = await tx
+        .update(amenities)
+        .set({ synonyms: mergedSynonyms(target, sources) })
+        .where(eq(amenities.id, targetId))
+        .returning();
+      return { amenity, gymsUpdated: affectedGyms.length };
+    });
+  }
+
+  // Adds the default amenities nobody has renamed or merged away, then works
+  // out amenity IDs for gyms saved before amenities were canonical
+  private async seedAmenities() {
+    const known = indexAmenities(await db.select().from(amenities));
+    const missing = DEFAULT_AMENITIES.filter(amenity => !known.has(amenityKey(amenity.name)));
+    if (missing.length > 0) {
+      await db.insert(amenities).values(missing).onConflictDoNothing({ target: amenities.name });
+    }
+    
+    const unresolvedGyms = await db
+      .select({ id: gyms.id, amenities: gyms.amenities })
+      .from(gyms)
+      .where(and(sql`cardinality(${gyms.amenityIds}) = 0`, sql`cardinality(${gyms.amenities}) > 0`));
+    if (unresolvedGyms.length === 0) return;
+    
+    const resolveAmenities = await this.amenityResolver();
+    for (const gym of unresolvedGyms) {
+      await db.update(gyms).set(await resolveAmenities(gym.amenities)).where(eq(gyms.id, gym.id));
+    }
+  }
+
   async getSavedGym(userId: number, gymId: number): Promise<SavedGym | undefined> {
     const [savedGym] = await db
       .select()
@@ -623,6 +1087,10 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(savedGyms.savedAt));
   }
 
+  async getAllSavedGyms(): Promise<SavedGym[]> {
+    return await db.select().from(savedGyms);
+  }
+
   async saveGym(savedGymData: InsertSavedGym): Promise<SavedGym> {
     // Check if this gym is already saved by this user
     const existingSavedGym = await this.getSavedGym(savedGymData.userId, savedGymData.gymId);
@@ -661,47 +1129,13 @@ export class DatabaseStorage implements IStorage {
     return deleted.length > 0;
   }
 
-  async getMatchesForUser(userId: number): Promise<Array<Gym & { matchScore: number }>> {
+  async getMatchesForUser(userId: number, options: MatchOptions = {}): Promise<GymMatch[]> {
     const user = await this.getUser(userId);
     if (!user) return [];
-
-    const allGyms = await this.getAllGyms();
     
-    // In a real app, you would implement a more complex matching algorithm
-    // based on user preferences and gym attributes
-    
-    // For now, we'll calculate match scores based on a simple algorithm:
-    return allGyms.map(gym => {
-      // Calculate match score based on user preferences
-      let matchScore = Math.floor(Math.random() * 15) + 75; // Random score between 75-90
-      
-      // If user has fitness goals and gym has amenities that match, boost score
-      if (user.fitnessGoals && gym.amenities) {
-        const goalToAmenity: Record<string, string[]> = {
-          'Build Muscle': ['Free Weights', 'Weight Training', 'Personal Training'],
-          'Weight Loss': ['Cardio Equipment', 'Classes', 'Swimming Pool'],
-          'Improve Strength': ['Free Weights', 'Weight Training', 'CrossFit']
-        };
-        
-        // Boost score for each matching amenity
-        user.fitnessGoals.forEach(goal => {
-          const relatedAmenities = goalToAmenity[goal] || [];
-          relatedAmenities.forEach(amenity => {
-            if (gym.amenities?.includes(amenity)) {
-              matchScore += 2; // Boost by 2 points per match
-            }
-          });
-        });
-      }
-      
-      // Cap at 100%
-      matchScore = Math.min(matchScore, 100);
-      
-      return {
-        ...gym,
-        matchScore
-      };
-    }).sort((a, b) => b.matchScore - a.matchScore); // Sort by match score
+    const allGyms = await this.getAllGyms();
+    const allPlans = await this.getAllMembershipPlans();
+    return rankGymsForUser(user, allGyms, allPlans, await this.getAllAmenities(), options);
   }
 
   // User match operations
@@ -765,6 +1199,10 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createUserMatch(userMatchData: InsertUserMatch): Promise<UserMatch> {
+    if (await this.isBlocked(userMatchData.senderId, userMatchData.receiverId)) {
+      throw new BlockedUserError();
+    }
+    
     // Check if this match already exists in either direction
     const existingMatch = await this.getUserMatchByUsers(
       userMatchData.senderId,
@@ -813,24 +1251,110 @@ export class DatabaseStorage implements IStorage {
     return deleted.length > 0;
   }
 
+  async getPartnerRecommendations(userId: number): Promise<PartnerRecommendation[]> {
+    const user = await this.getUser(userId);
+    if (!user) return [];
+    
+    const context = buildPartnerContext(await this.getAllSavedGyms(), await this.getAllGyms());
+    const existingMatches = await this.getUserMatches(userId);
+    const blockedUserIds = await this.getBlockedUserIds(userId);
+    return rankPartnersForUser(user, await this.getAllUsers(), existingMatches, blockedUserIds, context);
+  }
+
+  async getPartnerScore(userId: number, candidateId: number): Promise<PartnerRecommendation | undefined> {
+    const user = await this.getUser(userId);
+    const candidate = await this.getUser(candidateId);
+    if (!user || !candidate) return undefined;
+    
+    const context = buildPartnerContext(await this.getAllSavedGyms(), await this.getAllGyms());
+    return scorePartner(user, candidate, context);
+  }
+
   // Message operations
-  async getMessages(userId: number, otherUserId: number): Promise<Message[]> {
-    return await db
+  async getMessages(userId: number, otherUserId: number, options: MessagePageOptions = {}): Promise<Message[]> {
+    const { before, limit } = options;
+    const conversation = or(
+      and(
+        eq(messages.senderId, userId),
+        eq(messages.receiverId, otherUserId)
+      ),
+      and(
+        eq(messages.senderId, otherUserId),
+        eq(messages.receiverId, userId)
+      )
+    );
+    
+    // Take the newest page (descending), then return it oldest first
+    const query = db
       .select()
       .from(messages)
-      .where(
-        or(
-          and(
-            eq(messages.senderId, userId),
-            eq(messages.receiverId, otherUserId)
-          ),
-          and(
-            eq(messages.senderId, otherUserId),
-            eq(messages.receiverId, userId)
-          )
-        )
-      )
-      .orderBy(messages.createdAt);
+      .where(before === undefined ? conversation : and(conversation, lt(messages.id, before)))
+      .orderBy(desc(messages.id));
+    
+    const page = limit === undefined ? await query : await query.limit(limit);
+    return page.reverse();
+  }
+
+  async getConversations(userId: number): Promise<Conversation[]> {
+    // One row per accepted match with the latest message and unread count
+    const client = await pool.connect();
+    try {
+      const result = await client.query(
+        `WITH partners AS (
+           SELECT DISTINCT CASE WHEN sender_id = $1 THEN receiver_id ELSE sender_id END AS partner_id
+           FROM user_matches
+           WHERE status = 'accepted' AND (sender_id = $1 OR receiver_id = $1)
+         ),
+         blocked AS (
+           SELECT CASE WHEN blocker_id = $1 THEN blocked_id ELSE blocker_id END AS user_id
+           FROM user_blocks
+           WHERE blocker_id = $1 OR blocked_id = $1
+         )
+         SELECT u.id, u.username, u.name, u.profile_pic,
+                lm.id AS message_id, lm.sender_id, lm.receiver_id, lm.content, lm.read,
+                lm.status, lm.delivered_at, lm.read_at, lm.created_at,
+                COALESCE(uc.unread_count, 0)::int AS unread_count
+         FROM partners p
+         JOIN users u ON u.id = p.partner_id
+         LEFT JOIN LATERAL (
+           SELECT * FROM messages m
+           WHERE (m.sender_id = $1 AND m.receiver_id = p.partner_id)
+              OR (m.sender_id = p.partner_id AND m.receiver_id = $1)
+           ORDER BY m.id DESC
+           LIMIT 1
+         ) lm ON true
+         LEFT JOIN LATERAL (
+           SELECT count(*) AS unread_count FROM messages m
+           WHERE m.sender_id = p.partner_id AND m.receiver_id = $1 AND m.read = false
+         ) uc ON true
+         WHERE p.partner_id NOT IN (SELECT user_id FROM blocked)
+         ORDER BY lm.id DESC NULLS LAST, u.name`,
+        [userId]
+      );
+      
+      return result.rows.map(row => ({
+        partner: {
+          id: row.id,
+          username: row.username,
+          name: row.name,
+          profilePic: row.profile_pic
+        },
+        lastMessage: row.message_id === null ? null : {
+          id: row.message_id,
+          senderId: row.sender_id,
+          receiverId: row.receiver_id,
+          content: row.content,
+          read: row.read,
+          status: row.status,
+          deliveredAt: row.delivered_at,
+          readAt: row.read_at,
+          createdAt: row.created_at
+        },
+        unreadCount: row.unread_count
+      }));
+    } finally {
+      client.release();
+    }
   }
 
   async getUnreadMessageCount(userId: number): Promise<number> {
@@ -846,7 +1370,16 @@ export class DatabaseStorage implements IStorage {
     return result[0]?.count || 0;
   }
 
+  async getMessage(id: number): Promise<Message | undefined> {
+    const [message] = await db.select().from(messages).where(eq(messages.id, id));
+    return message;
+  }
+
   async createMessage(messageData: InsertMessage): Promise<Message> {
+    if (await this.isBlocked(messageData.senderId, messageData.receiverId)) {
+      throw new BlockedUserError();
+    }
+    
     const [message] = await db
       .insert(messages)
       .values(messageData)
@@ -854,21 +1387,595 @@ export class DatabaseStorage implements IStorage {
     return message;
   }
 
-  async markMessagesAsRead(receiverId: number, senderId: number): Promise<void> {
-    await db
+  async markMessagesAsDelivered(receiverId: number): Promise<Message[]> {
+    return await db
+      .update(messages)
+      .set({ status: "delivered", deliveredAt: new Date() })
+      .where(
+        and(
+          eq(messages.receiverId, receiverId),
+          eq(messages.status, "sent")
+        )
+      )
+      .returning();
+  }
+
+  async markMessagesAsRead(receiverId: number, senderId: number): Promise<Message[]> {
+    const readAt = new Date();
+    
+    // Reading implies delivery, so fill in deliveredAt if it was skipped
+    return await db
       .update(messages)
-      .set({ read: true })
+      .set({
+        read: true,
+        status: "read",
+        deliveredAt: sql`coalesce(${messages.deliveredAt}, ${readAt})`,
+        readAt
+      })
       .where(
         and(
           eq(messages.receiverId, receiverId),
           eq(messages.senderId, senderId),
           eq(messages.read, false)
         )
+      )
+      .returning();
+  }
+
+  // Gym review operations
+  async getGymReviews(gymId: number): Promise<GymReviewWithAuthor[]> {
+    const rows = await db
+      .select({
+        review: gymReviews,
+        author: { id: users.id, name: users.name, profilePic: users.profilePic }
+      })
+      .from(gymReviews)
+      .innerJoin(users, eq(gymReviews.userId, users.id))
+      .where(eq(gymReviews.gymId, gymId))
+      .orderBy(desc(gymReviews.updatedAt), desc(gymReviews.id));
+    
+    return rows.map(({ review, author }) => ({ ...review, author }));
+  }
+
+  async getGymReview(id: number): Promise<GymReview | undefined> {
+    const [review] = await db.select().from(gymReviews).where(eq(gymReviews.id, id));
+    return review;
+  }
+
+  async getGymReviewByUser(gymId: number, userId: number): Promise<GymReview | undefined> {
+    const [review] = await db
+      .select()
+      .from(gymReviews)
+      .where(
+        and(
+          eq(gymReviews.gymId, gymId),
+          eq(gymReviews.userId, userId)
+        )
       );
+    return review;
+  }
+
+  async createGymReview(reviewData: InsertGymReview): Promise<GymReview> {
+    return await db.transaction(async (tx) => {
+      const [review] = await tx
+        .insert(gymReviews)
+        .values({ ...reviewData, photos: reviewData.photos || [] })
+        .returning();
+      
+      await tx.update(gyms).set(gymRatingAggregates(review.gymId)).where(eq(gyms.id, review.gymId));
+      return review;
+    });
+  }
+
+  async updateGymReview(id: number, reviewData: Partial<InsertGymReview>): Promise<GymReview | undefined> {
+    return await db.transaction(async (tx) => {
+      const [review] = await tx
+        .update(gymReviews)
+        .set({ ...reviewData, updatedAt: new Date() })
+        .where(eq(gymReviews.id, id))
+        .returning();
+      
+      if (review) {
+        await tx.update(gyms).set(gymRatingAggregates(review.gymId)).where(eq(gyms.id, review.gymId));
+      }
+      return review;
+    });
+  }
+
+  async deleteGymReview(id: number): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [review] = await tx
+        .delete(gymReviews)
+        .where(eq(gymReviews.id, id))
+        .returning({ gymId: gymReviews.gymId });
+      
+      if (!review) return false;
+      
+      await tx.update(gyms).set(gymRatingAggregates(review.gymId)).where(eq(gyms.id, review.gymId));
+      return true;
+    });
+  }
+
+  // Membership plan operations
+  async getMembershipPlans(gymId: number): Promise<MembershipPlan[]> {
+    return await db
+      .select()
+      .from(gymMembershipPlans)
+      .where(eq(gymMembershipPlans.gymId, gymId))
+      .orderBy(asc(gymMembershipPlans.monthlyPrice), asc(gymMembershipPlans.id));
+  }
+
+  async getAllMembershipPlans(): Promise<MembershipPlan[]> {
+    return await db.select().from(gymMembershipPlans);
+  }
+
+  async getMembershipPlansForGyms(gymIds: number[]): Promise<MembershipPlan[]> {
+    if (gymIds.length === 0) return [];
+    return await db.select().from(gymMembershipPlans).where(inArray(gymMembershipPlans.gymId, gymIds));
+  }
+
+  async getMembershipPlan(id: number): Promise<MembershipPlan | undefined> {
+    const [plan] = await db.select().from(gymMembershipPlans).where(eq(gymMembershipPlans.id, id));
+    return plan;
+  }
+
+  async createMembershipPlan(planData: InsertMembershipPlan): Promise<MembershipPlan> {
+    const [plan] = await db
+      .insert(gymMembershipPlans)
+      .values({
+        ...planData,
+        includedAmenities: planData.includedAmenities || []
+      })
+      .returning();
+    return plan;
+  }
+
+  async updateMembershipPlan(id: number, planData: Partial<InsertMembershipPlan>): Promise<MembershipPlan | undefined> {
+    const [plan] = await db
+      .update(gymMembershipPlans)
+      .set({ ...planData, updatedAt: new Date() })
+      .where(eq(gymMembershipPlans.id, id))
+      .returning();
+    return plan;
+  }
+
+  async deleteMembershipPlan(id: number): Promise<boolean> {
+    const deleted = await db
+      .delete(gymMembershipPlans)
+      .where(eq(gymMembershipPlans.id, id))
+      .returning({ id: gymMembershipPlans.id });
+    return deleted.length > 0;
+  }
+
+  // Block operations
+  async getUserBlocks(blockerId: number): Promise<UserBlock[]> {
+    return await db
+      .select()
+      .from(userBlocks)
+      .where(eq(userBlocks.blockerId, blockerId))
+      .orderBy(desc(userBlocks.createdAt));
+  }
+
+  async getBlockedUserIds(userId: number): Promise<number[]> {
+    const blocks = await db
+      .select()
+      .from(userBlocks)
+      .where(or(eq(userBlocks.blockerId, userId), eq(userBlocks.blockedId, userId)));
+    const ids = blocks.map(block => block.blockerId === userId ? block.blockedId : block.blockerId);
+    return Array.from(new Set(ids));
+  }
+
+  async isBlocked(userId: number, otherUserId: number): Promise<boolean> {
+    const [block] = await db
+      .select({ id: userBlocks.id })
+      .from(userBlocks)
+      .where(
+        or(
+          and(eq(userBlocks.blockerId, userId), eq(userBlocks.blockedId, otherUserId)),
+          and(eq(userBlocks.blockerId, otherUserId), eq(userBlocks.blockedId, userId))
+        )
+      )
+      .limit(1);
+    return !!block;
+  }
+
+  async createUserBlock(blockData: InsertUserBlock): Promise<UserBlock> {
+    const [block] = await db
+      .insert(userBlocks)
+      .values(blockData)
+      .onConflictDoNothing()
+      .returning();
+    if (block) return block;
+    
+    // Already blocked
+    const [existing] = await db
+      .select()
+      .from(userBlocks)
+      .where(and(eq(userBlocks.blockerId, blockData.blockerId), eq(userBlocks.blockedId, blockData.blockedId)));
+    return existing;
+  }
+
+  async deleteUserBlock(blockerId: number, blockedId: number): Promise<boolean> {
+    const deleted = await db
+      .delete(userBlocks)
+      .where(and(eq(userBlocks.blockerId, blockerId), eq(userBlocks.blockedId, blockedId)))
+      .returning({ id: userBlocks.id });
+    return deleted.length > 0;
+  }
+
+  // Report operations
+  async getUserReports(status?: string): Promise<UserReport[]> {
+    return await db
+      .select()
+      .from(userReports)
+      .where(status ? eq(userReports.status, status) : undefined)
+      .orderBy(desc(userReports.id));
+  }
+
+  async getUserReport(id: number): Promise<UserReport | undefined> {
+    const [report] = await db.select().from(userReports).where(eq(userReports.id, id));
+    return report;
+  }
+
+  async createUserReport(reportData: InsertUserReport): Promise<UserReport> {
+    const [report] = await db
+      .insert(userReports)
+      .values(reportData)
+      .returning();
+    return report;
+  }
+
+  async updateUserReport(id: number, reportData: Partial<UserReport>): Promise<UserReport | undefined> {
+    const [report] = await db
+      .update(userReports)
+      .set(reportData)
+      .where(eq(userReports.id, id))
+      .returning();
+    return report;
+  }
+
+  // Audit log operations
+  async createAuditLogEntry(entryData: InsertAuditLogEntry): Promise<AuditLogEntry> {
+    const [entry] = await db
+      .insert(adminAuditLog)
+      .values(entryData)
+      .returning();
+    return entry;
+  }
+
+  async getAuditLog(filters: AuditLogFilters = {}): Promise<AuditLogEntry[]> {
+    const { actorId, action, targetType, targetId, from, to, before, limit } = filters;
+    const conditions = [
+      actorId !== undefined ? eq(adminAuditLog.actorId, actorId) : undefined,
+      action !== undefined ? eq(adminAuditLog.action, action) : undefined,
+      targetType !== undefined ? eq(adminAuditLog.targetType, targetType) : undefined,
+      targetId !== undefined ? eq(adminAuditLog.targetId, targetId) : undefined,
+      from !== undefined ? gte(adminAuditLog.createdAt, from) : undefined,
+      to !== undefined ? lte(adminAuditLog.createdAt, to) : undefined,
+      before !== undefined ? lt(adminAuditLog.id, before) : undefined,
+    ];
+    
+    const query = db
+      .select()
+      .from(adminAuditLog)
+      .where(and(...conditions))
+      .orderBy(desc(adminAuditLog.id));
+    
+    return limit === undefined ? await query : await query.limit(limit);
+  }
+
+  // Gym manager operations
+  async getManagedGymIds(userId: number): Promise<number[]> {
+    const assignments = await db
+      .select({ gymId: gymManagers.gymId })
+      .from(gymManagers)
+      .where(eq(gymManagers.userId, userId));
+    return assignments.map(assignment => assignment.gymId);
+  }
+
+  async isGymManager(userId: number, gymId: number): Promise<boolean> {
+    const [assignment] = await db
+      .select({ id: gymManagers.id })
+      .from(gymManagers)
+      .where(and(eq(gymManagers.userId, userId), eq(gymManagers.gymId, gymId)))
+      .limit(1);
+    return !!assignment;
+  }
+
+  async setManagedGyms(userId: number, gymIds: number[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(gymManagers).where(eq(gymManagers.userId, userId));
+      
+      const uniqueGymIds = Array.from(new Set(gymIds));
+      if (uniqueGymIds.length > 0) {
+        await tx.insert(gymManagers).values(uniqueGymIds.map(gymId => ({ gymId, userId })));
+      }
+    });
+  }
+
+  async addGymManager(userId: number, gymId: number): Promise<void> {
+    await db
+      .insert(gymManagers)
+      .values({ userId, gymId })
+      .onConflictDoNothing();
+  }
+
+  // Gym claim operations
+  async getGymClaims(filters: { status?: string; userId?: number } = {}): Promise<GymClaim[]> {
+    const conditions = [];
+    if (filters.status) conditions.push(eq(gymClaims.status, filters.status));
+    if (filters.userId !== undefined) conditions.push(eq(gymClaims.userId, filters.userId));
+    
+    return await db
+      .select()
+      .from(gymClaims)
+      .where(and(...conditions))
+      .orderBy(desc(gymClaims.id));
+  }
+
+  async getGymClaim(id: number): Promise<GymClaim | undefined> {
+    const [claim] = await db.select().from(gymClaims).where(eq(gymClaims.id, id));
+    return claim;
+  }
+
+  async createGymClaim(claimData: InsertGymClaim): Promise<GymClaim> {
+    const [claim] = await db
+      .insert(gymClaims)
+      .values(claimData)
+      .returning();
+    return claim;
+  }
+
+  async updateGymClaim(id: number, claimData: Partial<GymClaim>): Promise<GymClaim | undefined> {
+    const [claim] = await db
+      .update(gymClaims)
+      .set(claimData)
+      .where(eq(gymClaims.id, id))
+      .returning();
+    return claim;
+  }
+
+  // Gym announcement operations
+  async getGymAnnouncements(gymId: number): Promise<GymAnnouncement[]> {
+    return await db
+      .select()
+      .from(gymAnnouncements)
+      .where(eq(gymAnnouncements.gymId, gymId))
+      .orderBy(desc(gymAnnouncements.id));
+  }
+
+  async getGymAnnouncement(id: number): Promise<GymAnnouncement | undefined> {
+    const [announcement] = await db.select().from(gymAnnouncements).where(eq(gymAnnouncements.id, id));
+    return announcement;
+  }
+
+  async createGymAnnouncement(announcementData: InsertGymAnnouncement): Promise<GymAnnouncement> {
+    const [announcement] = await db
+      .insert(gymAnnouncements)
+      .values(announcementData)
+      .returning();
+    return announcement;
+  }
+
+  async updateGymAnnouncement(id: number, announcementData: Partial<InsertGymAnnouncement>): Promise<GymAnnouncement | undefined> {
+    const [announcement] = await db
+      .update(gymAnnouncements)
+      .set({ ...announcementData, updatedAt: new Date() })
+      .where(eq(gymAnnouncements.id, id))
+      .returning();
+    return announcement;
+  }
+
+  async deleteGymAnnouncement(id: number): Promise<boolean> {
+    const deleted = await db
+      .delete(gymAnnouncements)
+      .where(eq(gymAnnouncements.id, id))
+      .returning({ id: gymAnnouncements.id });
+    return deleted.length > 0;
+  }
+
+  // Email token operations
+  async createAuthToken(tokenData: InsertAuthToken): Promise<AuthToken> {
+    const [token] = await db
+      .insert(authTokens)
+      .values(tokenData)
+      .returning();
+    return token;
+  }
+
+  async getAuthTokenByHash(tokenHash: string): Promise<AuthToken | undefined> {
+    const [token] = await db.select().from(authTokens).where(eq(authTokens.tokenHash, tokenHash));
+    return token;
+  }
+
+  async consumeAuthToken(id: number): Promise<boolean> {
+    // The usedAt check in the WHERE clause makes concurrent redemptions race safely
+    const consumed = await db
+      .update(authTokens)
+      .set({ usedAt: new Date() })
+      .where(and(eq(authTokens.id, id), isNull(authTokens.usedAt)))
+      .returning({ id: authTokens.id });
+    return consumed.length > 0;
+  }
+
+  async deleteAuthTokens(userId: number, purpose: AuthTokenPurpose): Promise<void> {
+    await db
+      .delete(authTokens)
+      .where(and(eq(authTokens.userId, userId), eq(authTokens.purpose, purpose)));
+  }
+
+  // API token operations
+  async createApiToken(tokenData: InsertApiToken): Promise<ApiToken> {
+    const [token] = await db
+      .insert(apiTokens)
+      .values(tokenData)
+      .returning();
+    return token;
+  }
+
+  async getApiTokens(userId: number): Promise<ApiToken[]> {
+    return await db
+      .select()
+      .from(apiTokens)
+      .where(eq(apiTokens.userId, userId))
+      .orderBy(desc(apiTokens.id));
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    const [token] = await db.select().from(apiTokens).where(eq(apiTokens.tokenHash, tokenHash));
+    return token;
+  }
+
+  async touchApiToken(id: number): Promise<void> {
+    await db.update(apiTokens).set({ lastUsedAt: new Date() }).where(eq(apiTokens.id, id));
+  }
+
+  async deleteApiToken(id: number, userId: number): Promise<boolean> {
+    const deleted = await db
+      .delete(apiTokens)
+      .where(and(eq(apiTokens.id, id), eq(apiTokens.userId, userId)))
+      .returning({ id: apiTokens.id });
+    return deleted.length > 0;
+  }
+
+  // Settings operations
+  async getSetting(key: string): Promise<unknown | undefined> {
+    const [setting] = await db.select().from(appSettings).where(eq(appSettings.key, key));
+    return setting?.value;
+  }
+
+  async setSetting(key: string, value: unknown, updatedBy: number): Promise<void> {
+    await db
+      .insert(appSettings)
+      .values({ key, value, updatedBy })
+      .onConflictDoUpdate({
+        target: appSettings.key,
+        set: { value, updatedBy, updatedAt: new Date() }
+      });
+  }
+
+  async recordLoginAttempt(attemptData: InsertLoginAttempt): Promise<LoginAttempt> {
+    const [attempt] = await db
+      .insert(loginAttempts)
+      .values(attemptData)
+      .returning();
+    return attempt;
+  }
+
+  async updateLoginAttempt(id: number, attemptData: Partial<Pick<InsertLoginAttempt, "outcome" | "userId">>): Promise<void> {
+    await db.update(loginAttempts).set(attemptData).where(eq(loginAttempts.id, id));
+  }
+
+  async getLoginAttempts(filters: LoginAttemptFilters = {}): Promise<LoginAttempt[]> {
+    const { kind, outcome, username, ip, from, before, limit } = filters;
+    const conditions = [
+      kind !== undefined ? eq(loginAttempts.kind, kind) : undefined,
+      outcome !== undefined ? eq(loginAttempts.outcome, outcome) : undefined,
+      username !== undefined ? eq(loginAttempts.username, username) : undefined,
+      ip !== undefined ? eq(loginAttempts.ip, ip) : undefined,
+      from !== undefined ? gte(loginAttempts.createdAt, from) : undefined,
+      before !== undefined ? lt(loginAttempts.id, before) : undefined,
+    ];
+    
+    const query = db
+      .select()
+      .from(loginAttempts)
+      .where(and(...conditions))
+      .orderBy(desc(loginAttempts.id));
+    
+    return limit === undefined ? await query : await query.limit(limit);
+  }
+
+  async countLoginAttempts(filters: LoginAttemptCountFilters): Promise<LoginAttemptCount> {
+    const { kind, outcomes, username, ip, from, exceptId } = filters;
+    const [result] = await db
+      .select({
+        count: count(),
+        oldestAt: min(loginAttempts.createdAt),
+        newestAt: max(loginAttempts.createdAt)
+      })
+      .from(loginAttempts)
+      .where(and(
+        eq(loginAttempts.kind, kind),
+        inArray(loginAttempts.outcome, outcomes),
+        username !== undefined ? eq(loginAttempts.username, username) : undefined,
+        ip !== undefined ? eq(loginAttempts.ip, ip) : undefined,
+        gte(loginAttempts.createdAt, from),
+        exceptId !== undefined ? ne(loginAttempts.id, exceptId) : undefined
+      ));
+    return result;
+  }
+
+  // Classified in SQL so the hashes themselves never leave the database;
+  // must agree with describePasswordHash in passwords.ts
+  async getPasswordHashCounts(): Promise<PasswordHashCount[]> {
+    const isBcrypt = sql`${users.password} ~ '^\$2[aby]\$[0-9]{2}\$'`;
+    const scheme = sql<PasswordHashCount["scheme"]>`CASE WHEN ${users.password} IS NULL THEN 'none' WHEN ${isBcrypt} THEN 'bcrypt' ELSE 'scrypt' END`;
+    const cost = sql<number | null>`CASE WHEN ${isBcrypt} THEN substring(${users.password} from 5 for 2)::int END`;
+    
+    const rows = await db
+      .select({ scheme, cost, count: count() })
+      .from(users)
+      .groupBy(scheme, cost);
+    return rows;
+  }
+
+  // Job operations
+  async createJob(jobData: InsertJob): Promise<Job> {
+    const [job] = await db
+      .insert(jobs)
+      .values(jobData)
+      .returning();
+    return job;
+  }
+
+  async getJob(id: number): Promise<Job | undefined> {
+    const [job] = await db.select().from(jobs).where(eq(jobs.id, id));
+    return job;
+  }
+
+  async getJobsByUser(userId: number, limit: number): Promise<Job[]> {
+    return await db
+      .select()
+      .from(jobs)
+      .where(eq(jobs.userId, userId))
+      .orderBy(desc(jobs.id))
+      .limit(limit);
+  }
+
+  // SKIP LOCKED keeps two workers from claiming the same job
+  async claimNextJob(): Promise<Job | undefined> {
+    const [job] = await db
+      .update(jobs)
+      .set({ status: "running", startedAt: new Date() })
+      .where(eq(jobs.id, sql`(
+        SELECT id FROM jobs WHERE status = 'queued' ORDER BY id LIMIT 1 FOR UPDATE SKIP LOCKED
+      )`))
+      .returning();
+    return job;
+  }
+
+  async updateJob(id: number, jobData: Partial<Job>): Promise<Job | undefined> {
+    const [job] = await db
+      .update(jobs)
+      .set(jobData)
+      .where(eq(jobs.id, id))
+      .returning();
+    return job;
+  }
+
+  async failInterruptedJobs(error: string): Promise<Job[]> {
+    return await db
+      .update(jobs)
+      .set({ status: "failed", error, finishedAt: new Date() })
+      .where(eq(jobs.status, "running"))
+      .returning();
   }
 
   // Method to seed the database with initial sample data if needed
   async seedInitialData() {
+    await this.seedAmenities();
+    
     // Check if we have any users or gyms
     const existingUsers = await this.getAllUsers();
     
@@ -883,10 +1990,10 @@ export class DatabaseStorage implements IStorage {
         fitnessGoals: ["Weight Loss", "Muscle Building"],
         gymPreferences: ["Equipment Variety", "Clean Facilities"]
       }).then(async (user) => {
-        // Make this user an admin
+        // Make this user a super admin
         await db
           .update(users)
-          .set({ isAdmin: true })
+          .set({ role: "super_admin" })
           .where(eq(users.id, user.id));
         
         // Add sample gyms
@@ -902,7 +2009,8 @@ export class DatabaseStorage implements IStorage {
               "https://images.unsplash.com/photo-1534438327276-14e5300c3a48?ixlib=rb-1.2.1&auto=format&fit=crop&w=1050&q=80"
             ],
             amenities: ["Cardio Equipment", "Free Weights", "Sauna", "Pool", "Group Classes"],
-            rating: 4.7,
+            openingHours: parseOpeningHours("Mon-Fri 05:00-23:00; Sat-Sun 07:00-20:00"),
+            timezone: "America/Los_Angeles",
             addedBy: user.id
           },
           {
@@ -916,7 +2024,8 @@ export class DatabaseStorage implements IStorage {
               "https://images.unsplash.com/photo-1517838277536-f5f99be501cd?ixlib=rb-1.2.1&auto=format&fit=crop&w=1050&q=80"
             ],
             amenities: ["Heavy Weights", "CrossFit Area", "Supplement Shop", "Personal Training"],
-            rating: 4.5,
+            openingHours: parseOpeningHours("Mon-Fri 05:00-23:00; Sat-Sun 07:00-20:00"),
+            timezone: "America/Los_Angeles",
             addedBy: user.id
           },
           {
@@ -930,7 +2039,8 @@ export class DatabaseStorage implements IStorage {
               "https://images.unsplash.com/photo-1558611848-73f7eb4001a1?ixlib=rb-1.2.1&auto=format&fit=crop&w=1051&q=80"
             ],
             amenities: ["Olympic Lifting", "Strongman Equipment", "Boxing Ring", "MMA Area"],
-            rating: 4.8,
+            openingHours: parseOpeningHours("Mon-Fri 05:00-23:00; Sat-Sun 07:00-20:00"),
+            timezone: "America/Los_Angeles",
             addedBy: user.id
           },
           {
@@ -944,7 +2054,8 @@ export class DatabaseStorage implements IStorage {
               "https://images.unsplash.com/photo-1571902943202-507ec2618e8f?ixlib=rb-1.2.1&auto=format&fit=crop&w=1050&q=80"
             ],
             amenities: ["Women's Only Area", "Yoga Studio", "Pilates", "Massage Services"],
-            rating: 4.6,
+            openingHours: parseOpeningHours("Mon-Fri 05:00-23:00; Sat-Sun 07:00-20:00"),
+            timezone: "America/New_York",
             addedBy: user.id
           },
           {
@@ -958,7 +2069,8 @@ export class DatabaseStorage implements IStorage {
               "https://images.unsplash.com/photo-1540497077202-7c8a3999166f?ixlib=rb-1.2.1&auto=format&fit=crop&w=1050&q=80"
             ],
             amenities: ["Basketball Court", "Racquetball", "Swimming Pool", "Spa", "Childcare"],
-            rating: 4.9,
+            openingHours: parseOpeningHours("Mon-Fri 05:00-23:00; Sat-Sun 07:00-20:00"),
+            timezone: "America/Phoenix",
             addedBy: user.id
           },
           {
@@ -972,7 +2084,8 @@ export class DatabaseStorage implements IStorage {
               "https://images.unsplash.com/photo-1521805103424-d8f8430e8933?ixlib=rb-1.2.1&auto=format&fit=crop&w=1050&q=80"
             ],
             amenities: ["High-End Equipment", "Towel Service", "Protein Bar", "Rooftop Classes"],
-            rating: 4.4,
+            openingHours: parseOpeningHours("Mon-Fri 05:00-23:00; Sat-Sun 07:00-20:00"),
+            timezone: "America/New_York",
             addedBy: user.id
           }
         ];
@@ -0,0 +1,51 @@
+// Great-circle distance helpers shared by both storage backends.
+// DatabaseStorage computes the same haversine formula in SQL, so keep
+// EARTH_RADIUS_KM in sync with the query in getNearbyGyms.
+
+export const EARTH_RADIUS_KM = 6371;
+
+const KM_PER_MILE = 1.609344;
+
+export type DistanceUnit = "km" | "mi";
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+// Haversine distance between two points in kilometres
+export function haversineDistanceKm(from: LatLng, to: LatLng): number {
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+
+  return EARTH_RADIUS_KM * 2 * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+// Convert a distance in the given unit to kilometres
+export function toKilometres(distance: number, unit: DistanceUnit = "km"): number {
+  return unit === "mi" ? distance * KM_PER_MILE : distance;
+}
+
+// Read lat/lng out of a gym's JSONB location, returning undefined unless both
+// are JSON numbers (DatabaseStorage applies the same jsonb_typeof check)
+export function getLatLng(location: unknown): LatLng | undefined {
+  const loc = location as { lat?: unknown; lng?: unknown } | null | undefined;
+
+  if (typeof loc?.lat !== "number" || typeof loc?.lng !== "number") {
+    return undefined;
+  }
+
+  return { lat: loc.lat, lng: loc.lng };
+}
+
+export function isValidLatLng(lat: number, lng: number): boolean {
+  return !isNaN(lat) && !isNaN(lng) && lat >= -90 && lat <= 90 && lng >= -180 && lng <= 180;
+}
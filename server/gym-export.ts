@@ -0,0 +1,136 @@
+// Gym catalog export, streamed by GET /api/admin/gyms/export or written to a
+// file by a gym.export job. Gyms are read in batches and written as they
+// arrive, so large catalogs never sit in memory as a whole. The CSV uses the
+// import's column names and list formats, so an export can be fed straight
+// back into POST /api/gyms/import.
+import { once } from "events";
+import type { Writable } from "stream";
+import { formatHolidayHours, formatOpeningHours } from "@shared/opening-hours";
+import type { Gym } from "@shared/schema";
+import { storage } from "./storage";
+import { getLatLng } from "./geo";
+import { matchesGymFilters, type GymFilters } from "./gym-filters";
+import { toCsvLine } from "./csv";
+
+export const GYM_EXPORT_FORMATS = ["csv", "json", "geojson"] as const;
+export type GymExportFormat = typeof GYM_EXPORT_FORMATS[number];
+
+const EXPORT_BATCH_SIZE = 500;
+
+const CSV_COLUMNS = [
+  "name", "address", "city", "state", "zip_code", "latitude", "longitude",
+  "amenities", "images", "opening_hours", "holiday_hours", "timezone",
+];
+
+export const GYM_EXPORT_CONTENT_TYPES: Record<GymExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  geojson: "application/geo+json; charset=utf-8",
+};
+
+type GymLocationFields = { address?: string; city?: string; state?: string; zipCode?: string };
+
+export function isGymExportFormat(value: unknown): value is GymExportFormat {
+  return typeof value === "string" && (GYM_EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+export function gymExportFileName(format: GymExportFormat): string {
+  return `gyms-${new Date().toISOString().slice(0, 10)}.${format}`;
+}
+
+async function* filteredGyms(filters: GymFilters, onProgress: (percent: number) => Promise<void>): AsyncGenerator<Gym> {
+  const now = new Date();
+  const total = await storage.getGymCount();
+  let read = 0;
+  let afterId = 0;
+  for (;;) {
+    const batch = await storage.getGymsAfter(afterId, EXPORT_BATCH_SIZE);
+    if (batch.length === 0) return;
+    afterId = batch[batch.length - 1].id;
+
+    for (const gym of batch) {
+      if (matchesGymFilters(gym, filters, now)) yield gym;
+    }
+    read += batch.length;
+    await onProgress(total > 0 ? (read / total) * 100 : 0);
+  }
+}
+
+function toCsvRow(gym: Gym): string {
+  const location = (gym.location ?? {}) as GymLocationFields;
+  const latLng = getLatLng(gym.location);
+  return toCsvLine([
+    gym.name,
+    location.address,
+    location.city,
+    location.state,
+    location.zipCode,
+    latLng?.lat,
+    latLng?.lng,
+    (gym.amenities ?? []).join(", "),
+    (gym.images ?? []).join(","),
+    gym.openingHours ? formatOpeningHours(gym.openingHours) : "",
+    formatHolidayHours(gym.holidayHours),
+    gym.timezone,
+  ]);
+}
+
+function toFeature(gym: Gym) {
+  const { location, ...properties } = gym;
+  const latLng = getLatLng(location);
+  const { lat, lng, ...address } = (location ?? {}) as GymLocationFields & { lat?: unknown; lng?: unknown };
+  return {
+    type: "Feature",
+    id: gym.id,
+    // GeoJSON puts longitude first
+    geometry: latLng ? { type: "Point", coordinates: [latLng.lng, latLng.lat] } : null,
+    properties: { ...properties, ...address },
+  };
+}
+
+// Each format as an opening, a way to write one gym, and a closing
+function formatWriter(format: GymExportFormat) {
+  switch (format) {
+    case "csv":
+      return { open: toCsvLine(CSV_COLUMNS), row: toCsvRow, separator: "", close: "" };
+    case "json":
+      return { open: "[", row: (gym: Gym) => JSON.stringify(gym), separator: ",\n", close: "]\n" };
+    case "geojson":
+      return {
+        open: '{"type":"FeatureCollection","features":[',
+        row: (gym: Gym) => JSON.stringify(toFeature(gym)),
+        separator: ",\n",
+        close: "]}\n",
+      };
+  }
+}
+
+// Resolves once the stream can take more, or has been closed
+async function write(out: Writable, chunk: string) {
+  if (!out.write(chunk)) {
+    await Promise.race([once(out, "drain"), once(out, "close")]);
+  }
+}
+
+// Streams the matching gyms and resolves with how many were written. Stops
+// early, without throwing, if the stream is closed (e.g. the client went away).
+// The caller waits for the stream to finish if it needs the output complete.
+export async function writeGymExport(
+  out: Writable,
+  format: GymExportFormat,
+  filters: GymFilters,
+  onProgress: (percent: number) => Promise<void> = async () => {}
+): Promise<number> {
+  const writer = formatWriter(format);
+  await write(out, writer.open);
+
+  let count = 0;
+  for await (const gym of filteredGyms(filters, onProgress)) {
+    if (out.destroyed) return count;
+    await write(out, (count > 0 ? writer.separator : "") + writer.row(gym));
+    count++;
+  }
+
+  out.end(writer.close);
+  return count;
+}
@@ -0,0 +1,145 @@
+// Query-string filters for listing gyms, shared by gym search and the admin
+// export so both return the same gyms for the same parameters.
+import { isOpenAt } from "@shared/opening-hours";
+import type { Gym } from "@shared/schema";
+import { getLatLng, haversineDistanceKm, isValidLatLng, toKilometres, type LatLng } from "./geo";
+
+export interface GymFilters {
+  q?: string; // every word must appear in the name or address, ignoring case
+  amenities?: number[]; // amenity IDs; gyms must have all of them
+  minRating?: number;
+  openNow?: boolean;
+  near?: LatLng & { radiusKm: number };
+  gymIds?: number[]; // set by the caller, e.g. to the gyms a manager looks after
+}
+
+// Sorts that storage can do in the database, each by one number, lowest first,
+// then by ID. Match and price sorts need every gym scored, see gym-search.ts.
+export const GYM_PAGE_SORTS = ["rating", "newest", "distance"] as const;
+export type GymPageSort = typeof GYM_PAGE_SORTS[number];
+
+// Where the previous page ended: the sort value and ID of its last gym
+export type GymPageCursor = { value: number; id: number };
+
+export interface GymPageQuery {
+  sort: GymPageSort;
+  limit: number;
+  cursor?: GymPageCursor;
+}
+
+// Up to `limit` gyms after the cursor, with the total and amenity counts over
+// every gym matching the filters
+export interface GymPage {
+  gyms: (Gym & { distanceKm: number | null; sortValue: number })[];
+  total: number;
+  amenityCounts: { id: number; count: number }[];
+}
+
+export class GymFilterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GymFilterError";
+  }
+}
+
+// The words of a text query, each matched on its own
+export function searchTerms(q: string): string[] {
+  return q.toLowerCase().split(/\s+/).filter(Boolean);
+}
+
+// Query: q, amenity (an amenity ID, repeat for several), minRating (0-5), openNow=true,
+// and lat, lng, radius (default 10), unit ("km" or "mi", default "km")
+export function parseGymFilters(query: Record<string, unknown>): GymFilters {
+  const filters: GymFilters = {};
+
+  if (typeof query.q === "string" && query.q.trim()) {
+    filters.q = query.q.trim();
+  }
+
+  if (query.amenity !== undefined) {
+    const values = Array.isArray(query.amenity) ? query.amenity : [query.amenity];
+    const amenityIds = values.map(value => Number(value));
+    if (amenityIds.some(id => !Number.isInteger(id) || id < 1)) {
+      throw new GymFilterError("amenity must be an amenity ID");
+    }
+    filters.amenities = Array.from(new Set(amenityIds));
+  }
+
+  if (query.minRating !== undefined) {
+    const minRating = parseFloat(query.minRating as string);
+    if (isNaN(minRating) || minRating < 0 || minRating > 5) {
+      throw new GymFilterError("minRating must be a number from 0 to 5");
+    }
+    filters.minRating = minRating;
+  }
+
+  if (query.openNow === "true") {
+    filters.openNow = true;
+  }
+
+  if (query.lat !== undefined || query.lng !== undefined) {
+    const lat = parseFloat(query.lat as string);
+    const lng = parseFloat(query.lng as string);
+    if (!isValidLatLng(lat, lng)) {
+      throw new GymFilterError("Valid lat and lng query parameters are required");
+    }
+
+    const unit = (query.unit as string | undefined) ?? "km";
+    if (unit !== "km" && unit !== "mi") {
+      throw new GymFilterError("Invalid unit. Use 'km' or 'mi'");
+    }
+
+    const radius = query.radius !== undefined ? parseFloat(query.radius as string) : 10;
+    if (isNaN(radius) || radius <= 0) {
+      throw new GymFilterError("Radius must be a positive number");
+    }
+
+    filters.near = { lat, lng, radiusKm: toKilometres(radius, unit) };
+  }
+
+  return filters;
+}
+
+export function matchesGymFilters(gym: Gym, filters: GymFilters, now: Date = new Date()): boolean {
+  if (filters.gymIds && !filters.gymIds.includes(gym.id)) {
+    return false;
+  }
+
+  if (filters.q) {
+    const address = (gym.location as { address?: unknown } | null)?.address;
+    const text = `${gym.name} ${typeof address === "string" ? address : ""}`.toLowerCase();
+    if (!searchTerms(filters.q).every(term => text.includes(term))) return false;
+  }
+
+  if (filters.amenities && !filters.amenities.every(id => gym.amenityIds.includes(id))) {
+    return false;
+  }
+
+  if (filters.minRating !== undefined && (gym.rating === null || gym.rating < filters.minRating)) {
+    return false;
+  }
+
+  if (filters.openNow && isOpenAt(gym, now) !== true) {
+    return false;
+  }
+
+  if (filters.near) {
+    const latLng = getLatLng(gym.location);
+    if (!latLng || haversineDistanceKm(filters.near, latLng) > filters.near.radiusKm) return false;
+  }
+
+  return true;
+}
+
+// What a gym is ordered by for a page sort. DatabaseStorage works out the same
+// value in SQL, so cursors mean the same thing in both backends.
+export function gymPageSortValue(gym: Gym & { distanceKm: number | null }, sort: GymPageSort): number {
+  switch (sort) {
+    case "rating":
+      return -(gym.rating ?? -1); // unrated gyms last
+    case "newest":
+      return gym.createdAt ? -new Date(gym.createdAt).getTime() : 0;
+    case "distance":
+      return gym.distanceKm ?? Number.MAX_VALUE;
+  }
+}
@@ -0,0 +1,326 @@
+// Bulk gym import from CSV, run as a gym.import job (see gym-jobs.ts). Each
+// valid row adds a gym, or updates an existing gym with the same name close
+// by, so running the same file twice doesn't create duplicates. A dry run
+// reports what every row would do without writing anything; a real run writes
+// all valid rows in one transaction and skips the rest.
+import fs from "fs";
+import { parse } from "csv-parse";
+import {
+  insertGymSchema,
+  type Gym,
+  type GymImportResult,
+  type GymImportRow,
+  type InsertGym
+} from "@shared/schema";
+import { parseHolidayHours, parseOpeningHours } from "@shared/opening-hours";
+import { storage } from "./storage";
+import { getLatLng, haversineDistanceKm, isValidLatLng, type LatLng } from "./geo";
+import { toCsv } from "./csv";
+
+// A row this close to a gym with the same name updates that gym
+const DUPLICATE_RADIUS_METERS = 250;
+const MAX_IMPORT_ROWS = 50000;
+
+type GymCsvField =
+  | "name" | "address" | "city" | "state" | "zipCode" | "latitude" | "longitude"
+  | "amenities" | "images" | "openingHours" | "holidayHours" | "timezone";
+
+// Header spellings we accept, after lower-casing and dropping anything but letters and digits
+const COLUMN_ALIASES: Record<string, GymCsvField> = {
+  name: "name",
+  address: "address",
+  city: "city",
+  state: "state",
+  zipcode: "zipCode",
+  zip: "zipCode",
+  postcode: "zipCode",
+  latitude: "latitude",
+  lat: "latitude",
+  longitude: "longitude",
+  lng: "longitude",
+  lon: "longitude",
+  amenities: "amenities",
+  images: "images",
+  openinghours: "openingHours",
+  holidayhours: "holidayHours",
+  timezone: "timezone",
+};
+
+const REQUIRED_FIELDS: GymCsvField[] = ["name", "address", "latitude", "longitude"];
+
+// A problem with the file as a whole, such as a missing column, rather than with one row
+export class GymImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GymImportError";
+  }
+}
+
+// Called as the import moves along; may throw to abandon it, e.g. when the job is cancelled
+type ProgressCallback = (percent: number) => Promise<void>;
+
+// Share of the progress bar for reading, checking and then writing the rows
+const READ_PROGRESS = 30;
+const PLAN_PROGRESS = 60;
+
+type CsvRow = {
+  line: number;
+  cells: Partial<Record<GymCsvField, string>>;
+  values: string[]; // as read, for the error report
+};
+
+type PlannedRow = GymImportRow & {
+  values: string[];
+  gym?: InsertGym;
+  update?: Partial<InsertGym>;
+};
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+// Names match ignoring case, punctuation and spacing, so "Iron Gym" and "iron-gym" are the same gym
+function normalizeGymName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+function splitList(value: string | undefined): string[] {
+  return value ? value.split(",").map(item => item.trim()).filter(Boolean) : [];
+}
+
+async function readGymCsv(filePath: string, onProgress: ProgressCallback) {
+  const { size } = await fs.promises.stat(filePath);
+  const parser = fs.createReadStream(filePath).pipe(parse({
+    trim: true,
+    skip_empty_lines: true,
+    bom: true,
+    relax_column_count: true,
+    info: true,
+  }));
+
+  let header: string[] | undefined;
+  let fields: (GymCsvField | undefined)[] = [];
+  const rows: CsvRow[] = [];
+
+  for await (const { record, info } of parser as AsyncIterable<{ record: string[]; info: { lines: number; bytes: number } }>) {
+    if (!header) {
+      header = record;
+      fields = header.map(column => COLUMN_ALIASES[normalizeHeader(column)]);
+      const missing = REQUIRED_FIELDS.filter(field => !fields.includes(field));
+      if (missing.length > 0) {
+        throw new GymImportError(`The CSV is missing required columns: ${missing.join(", ")}`);
+      }
+      continue;
+    }
+
+    if (rows.length >= MAX_IMPORT_ROWS) {
+      throw new GymImportError(`A CSV can have at most ${MAX_IMPORT_ROWS} rows; split the file and import each part`);
+    }
+
+    const cells: CsvRow["cells"] = {};
+    fields.forEach((field, index) => {
+      if (field && record[index]) cells[field] = record[index];
+    });
+    rows.push({ line: info.lines, cells, values: record });
+    await onProgress(size > 0 ? (info.bytes / size) * READ_PROGRESS : 0);
+  }
+
+  if (!header) {
+    throw new GymImportError("The CSV is empty");
+  }
+
+  const ignoredColumns = header.filter((_, index) => !fields[index]);
+  return { header, ignoredColumns, rows };
+}
+
+// Turn a row into a new gym, or the reasons it can't be one
+function buildGym(cells: CsvRow["cells"], addedBy: number): { gym?: InsertGym; errors: string[] } {
+  const errors: string[] = [];
+  if (!cells.name) errors.push("Name is required");
+  if (!cells.address) errors.push("Address is required");
+
+  const lat = parseFloat(cells.latitude ?? "");
+  const lng = parseFloat(cells.longitude ?? "");
+  if (!isValidLatLng(lat, lng)) {
+    errors.push("Latitude and longitude must be valid coordinates");
+  }
+
+  const hours: Partial<InsertGym> = {};
+  try {
+    if (cells.openingHours) hours.openingHours = parseOpeningHours(cells.openingHours);
+  } catch (error) {
+    errors.push(error instanceof Error ? error.message : String(error));
+  }
+  try {
+    if (cells.holidayHours) hours.holidayHours = parseHolidayHours(cells.holidayHours);
+  } catch (error) {
+    errors.push(error instanceof Error ? error.message : String(error));
+  }
+  if (errors.length > 0) return { errors };
+
+  const result = insertGymSchema.safeParse({
+    name: cells.name,
+    location: {
+      address: cells.address,
+      lat,
+      lng,
+      ...(cells.city ? { city: cells.city } : {}),
+      ...(cells.state ? { state: cells.state } : {}),
+      ...(cells.zipCode ? { zipCode: cells.zipCode } : {}),
+    },
+    amenities: splitList(cells.amenities),
+    images: splitList(cells.images),
+    ...hours,
+    ...(cells.timezone ? { timezone: cells.timezone } : {}),
+    addedBy,
+  });
+  if (!result.success) {
+    return { errors: result.error.issues.map(issue => `${issue.path.join(".") || "row"}: ${issue.message}`) };
+  }
+  return { gym: result.data, errors: [] };
+}
+
+// Changes for an existing gym. Blank cells leave the gym's current value alone.
+function buildUpdate(existing: Gym, gym: InsertGym, cells: CsvRow["cells"]): Partial<InsertGym> {
+  return {
+    name: gym.name,
+    location: { ...(existing.location as object), ...(gym.location as object) },
+    ...(cells.amenities ? { amenities: gym.amenities } : {}),
+    ...(cells.images ? { images: gym.images } : {}),
+    ...(cells.openingHours ? { openingHours: gym.openingHours } : {}),
+    ...(cells.holidayHours ? { holidayHours: gym.holidayHours } : {}),
+    ...(cells.timezone ? { timezone: gym.timezone } : {}),
+  };
+}
+
+type NamedPlace<T> = { item: T; latLng: LatLng };
+
+// Group candidates by normalized name, so each row only measures distances to gyms it could match
+function indexByName<T>(index: Map<string, NamedPlace<T>[]>, name: string, item: T, latLng: LatLng | undefined) {
+  if (!latLng) return;
+  const key = normalizeGymName(name);
+  const places = index.get(key);
+  if (places) {
+    places.push({ item, latLng });
+  } else {
+    index.set(key, [{ item, latLng }]);
+  }
+}
+
+function findNearest<T>(candidates: NamedPlace<T>[] | undefined, latLng: LatLng): { match: T; distanceMeters: number } | undefined {
+  let nearest: { match: T; distanceMeters: number } | undefined;
+  for (const candidate of candidates ?? []) {
+    const distanceMeters = haversineDistanceKm(latLng, candidate.latLng) * 1000;
+    if (distanceMeters <= DUPLICATE_RADIUS_METERS && (!nearest || distanceMeters < nearest.distanceMeters)) {
+      nearest = { match: candidate.item, distanceMeters };
+    }
+  }
+  return nearest;
+}
+
+async function planRows(rows: CsvRow[], existingGyms: Gym[], addedBy: number, onProgress: ProgressCallback): Promise<PlannedRow[]> {
+  const planned: PlannedRow[] = [];
+  // Existing gyms already claimed by an earlier row, and the line that claimed them
+  const updatedGymLines = new Map<number, number>();
+
+  const existingByName = new Map<string, NamedPlace<Gym>[]>();
+  for (const gym of existingGyms) {
+    indexByName(existingByName, gym.name, gym, getLatLng(gym.location));
+  }
+  const createdByName = new Map<string, NamedPlace<PlannedRow>[]>();
+
+  for (const [index, { line, cells, values }] of Array.from(rows.entries())) {
+    await onProgress(READ_PROGRESS + (index / rows.length) * (PLAN_PROGRESS - READ_PROGRESS));
+
+    const row: PlannedRow = {
+      line,
+      name: cells.name ?? "",
+      address: cells.address ?? "",
+      action: "error",
+      gymId: null,
+      distanceMeters: null,
+      errors: [],
+      values,
+    };
+    planned.push(row);
+
+    const { gym, errors } = buildGym(cells, addedBy);
+    if (!gym) {
+      row.errors = errors;
+      continue;
+    }
+
+    const latLng = getLatLng(gym.location)!;
+    const name = normalizeGymName(gym.name);
+
+    const existing = findNearest(existingByName.get(name), latLng);
+    if (existing) {
+      const earlierLine = updatedGymLines.get(existing.match.id);
+      if (earlierLine !== undefined) {
+        row.errors = [`Matches the same gym as line ${earlierLine}`];
+        continue;
+      }
+      updatedGymLines.set(existing.match.id, line);
+      Object.assign(row, {
+        action: "update",
+        gymId: existing.match.id,
+        distanceMeters: Math.round(existing.distanceMeters),
+        update: buildUpdate(existing.match, gym, cells),
+      });
+      continue;
+    }
+
+    const earlierRow = findNearest(createdByName.get(name), latLng);
+    if (earlierRow) {
+      row.errors = [`Duplicate of line ${earlierRow.match.line}`];
+      continue;
+    }
+
+    Object.assign(row, { action: "create", gym });
+    indexByName(createdByName, gym.name, row, latLng);
+  }
+
+  return planned;
+}
+
+// The failed rows as they were uploaded, plus why each one failed
+function buildErrorReport(header: string[], rows: PlannedRow[]): string | null {
+  const failed = rows.filter(row => row.action === "error");
+  if (failed.length === 0) return null;
+  return toCsv(
+    ["line", ...header, "errors"],
+    failed.map(row => [row.line, ...header.map((_, index) => row.values[index] ?? ""), row.errors.join("; ")])
+  );
+}
+
+export async function runGymImport(
+  filePath: string,
+  { dryRun, userId, onProgress = async () => {} }: { dryRun: boolean; userId: number; onProgress?: ProgressCallback }
+): Promise<GymImportResult> {
+  const { header, ignoredColumns, rows } = await readGymCsv(filePath, onProgress);
+  const planned = await planRows(rows, await storage.getAllGyms(), userId, onProgress);
+
+  if (!dryRun) {
+    // Last chance to stop; once the transaction starts the import runs to the end
+    await onProgress(PLAN_PROGRESS);
+    const creates = planned.filter(row => row.action === "create");
+    const updates = planned.filter(row => row.action === "update");
+    const { created } = await storage.importGyms(
+      creates.map(row => row.gym!),
+      updates.map(row => ({ id: row.gymId!, gym: row.update! }))
+    );
+    created.forEach((gym, index) => {
+      creates[index].gymId = gym.id;
+    });
+  }
+
+  return {
+    dryRun,
+    rows: planned.map(({ values, gym, update, ...row }) => row),
+    created: planned.filter(row => row.action === "create").length,
+    updated: planned.filter(row => row.action === "update").length,
+    failed: planned.filter(row => row.action === "error").length,
+    ignoredColumns,
+    errorReport: buildErrorReport(header, planned),
+  };
+}
@@ -0,0 +1,89 @@
+// Background job handlers for gym imports and exports. Their files live in
+// JOB_FILES_DIR, which unlike uploads/ is never served statically: uploaded
+// CSVs until the import has run, and finished exports until they're downloaded
+// through GET /api/jobs/:id/download.
+import fs from "fs";
+import path from "path";
+import { finished } from "stream/promises";
+import type { GymExportResult, Job } from "@shared/schema";
+import { registerJobHandler } from "./jobs";
+import { recordAuditAs, type AuditActor } from "./audit";
+import { runGymImport } from "./gym-import";
+import { gymExportFileName, writeGymExport, type GymExportFormat } from "./gym-export";
+import type { GymFilters } from "./gym-filters";
+
+export const JOB_FILES_DIR = "job-files";
+
+export type GymImportJobPayload = {
+  filePath: string;
+  fileName: string;
+  dryRun: boolean;
+  actor: AuditActor;
+};
+
+export type GymExportJobPayload = {
+  format: GymExportFormat;
+  filters: GymFilters;
+  actor: AuditActor;
+};
+
+export function gymExportFilePath(job: Job): string {
+  const { format } = job.payload as GymExportJobPayload;
+  return path.join(JOB_FILES_DIR, `export-${job.id}.${format}`);
+}
+
+registerJobHandler<GymImportJobPayload>("gym.import", {
+  async run({ job, payload, setProgress }) {
+    const { filePath, fileName, dryRun, actor } = payload;
+    const result = await runGymImport(filePath, { dryRun, userId: job.userId!, onProgress: setProgress });
+
+    if (!dryRun) {
+      await recordAuditAs(actor, {
+        action: "gym.import",
+        targetType: "gym",
+        metadata: {
+          jobId: job.id,
+          fileName,
+          created: result.created,
+          updated: result.updated,
+          failed: result.failed,
+          createdGymIds: result.rows.filter(row => row.action === "create").map(row => row.gymId),
+          updatedGymIds: result.rows.filter(row => row.action === "update").map(row => row.gymId)
+        }
+      });
+    }
+
+    return result;
+  },
+  async cleanup({ filePath }) {
+    await fs.promises.rm(filePath, { force: true });
+  },
+});
+
+registerJobHandler<GymExportJobPayload>("gym.export", {
+  async run({ job, payload, setProgress }) {
+    const { format, filters, actor } = payload;
+    const filePath = gymExportFilePath(job);
+    await fs.promises.mkdir(JOB_FILES_DIR, { recursive: true });
+
+    const out = fs.createWriteStream(filePath);
+    try {
+      const exported = await writeGymExport(out, format, filters, setProgress);
+      await finished(out);
+
+      await recordAuditAs(actor, {
+        action: "gym.export",
+        targetType: "gym",
+        metadata: { jobId: job.id, format, filters, exported }
+      });
+
+      const result: GymExportResult = { fileName: gymExportFileName(format), exported };
+      return result;
+    } catch (error) {
+      // Don't leave a partial export behind for a cancelled or failed job
+      out.destroy();
+      await fs.promises.rm(filePath, { force: true });
+      throw error;
+    }
+  },
+});
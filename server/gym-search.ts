@@ -0,0 +1,205 @@
+// Gym search behind GET /api/gyms/search. Sorting by rating, date or distance
+// is done by storage a page at a time; only that page's gyms are scored for
+// signed-in users. Sorting by match score or price, filtering by price or
+// openNow needs every matching gym scored or checked in code, so those
+// searches load the matches and sort, count and page them here. Either way
+// pages are fetched with an opaque cursor.
+import type { Amenity, AmenityFacet, Gym, GymSearchPage, GymSearchResult, User } from "@shared/schema";
+import { storage } from "./storage";
+import { rankGymsForUser } from "./matching";
+import {
+  GYM_PAGE_SORTS, GymFilterError, gymPageSortValue,
+  type GymFilters, type GymPageCursor, type GymPageSort
+} from "./gym-filters";
+
+export const GYM_SEARCH_SORTS = ["rating", "distance", "newest", "match", "price"] as const;
+export type GymSearchSort = typeof GYM_SEARCH_SORTS[number];
+
+const DEFAULT_SEARCH_PAGE_SIZE = 20;
+const MAX_SEARCH_PAGE_SIZE = 100;
+
+export interface GymSearchOptions {
+  sort: GymSearchSort;
+  limit: number;
+  cursor?: GymPageCursor;
+  maxPrice?: number; // in the searcher's budget currency
+}
+
+function encodeCursor(cursor: GymPageCursor): string {
+  return Buffer.from(JSON.stringify([cursor.value, cursor.id])).toString("base64url");
+}
+
+function decodeCursor(text: string): GymPageCursor {
+  try {
+    const [value, id] = JSON.parse(Buffer.from(text, "base64url").toString());
+    if (typeof value === "number" && Number.isInteger(id)) return { value, id };
+  } catch {
+    // Reported below
+  }
+  throw new GymFilterError("Invalid cursor");
+}
+
+// Query: sort (default "rating"), limit (default 20), cursor from the previous
+// page, and maxPrice. Sorting by distance needs lat and lng; match scores and
+// prices need a signed-in user.
+export function parseGymSearchOptions(
+  query: Record<string, unknown>,
+  filters: GymFilters,
+  isSignedIn: boolean
+): GymSearchOptions {
+  const sort = (query.sort as string | undefined) ?? "rating";
+  if (!GYM_SEARCH_SORTS.includes(sort as GymSearchSort)) {
+    throw new GymFilterError(`Invalid sort. Use one of: ${GYM_SEARCH_SORTS.join(", ")}`);
+  }
+  if (sort === "distance" && !filters.near) {
+    throw new GymFilterError("Sorting by distance needs lat and lng");
+  }
+  if ((sort === "match" || sort === "price") && !isSignedIn) {
+    throw new GymFilterError(`Sign in to sort by ${sort}`);
+  }
+
+  const limit = query.limit !== undefined ? parseInt(query.limit as string) : DEFAULT_SEARCH_PAGE_SIZE;
+  if (isNaN(limit) || limit < 1 || limit > MAX_SEARCH_PAGE_SIZE) {
+    throw new GymFilterError(`Limit must be between 1 and ${MAX_SEARCH_PAGE_SIZE}`);
+  }
+
+  const options: GymSearchOptions = { sort: sort as GymSearchSort, limit };
+
+  if (typeof query.cursor === "string" && query.cursor) {
+    options.cursor = decodeCursor(query.cursor);
+  }
+
+  if (query.maxPrice !== undefined) {
+    const maxPrice = parseFloat(query.maxPrice as string);
+    if (isNaN(maxPrice) || maxPrice < 0) {
+      throw new GymFilterError("maxPrice must be a non-negative number");
+    }
+    if (!isSignedIn) {
+      throw new GymFilterError("Sign in to filter by price");
+    }
+    options.maxPrice = maxPrice;
+  }
+
+  return options;
+}
+
+function isPageSort(sort: GymSearchSort): sort is GymPageSort {
+  return (GYM_PAGE_SORTS as readonly string[]).includes(sort);
+}
+
+// Results are ordered by this value, lowest first, then by ID
+function sortValue(gym: GymSearchResult, sort: GymSearchSort): number {
+  switch (sort) {
+    case "match":
+      return -(gym.matchScore ?? -1);
+    case "price":
+      // Gyms without a plan in the user's currency can't be compared, so they go last
+      return gym.lowestMonthlyPrice ?? Number.MAX_VALUE;
+    default:
+      return gymPageSortValue(gym, sort);
+  }
+}
+
+// Amenities of the matching gyms, most common first. Selected amenities are
+// always listed so their chips can still be turned off when nothing matches.
+function amenityFacets(amenityCounts: { id: number; count: number }[], selected: number[], amenityList: Amenity[]): AmenityFacet[] {
+  const counts = new Map<number, number>(selected.map(id => [id, 0]));
+  for (const { id, count } of amenityCounts) {
+    counts.set(id, count);
+  }
+
+  return amenityList
+    .filter(amenity => counts.has(amenity.id))
+    .map(({ id, name, icon }) => ({ id, name, icon, count: counts.get(id)! }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+}
+
+// Adds match scores and prices for the signed-in user, loading plans for just these gyms
+async function withMatches(
+  candidates: (Gym & { distanceKm: number | null })[],
+  user: User | undefined,
+  amenityList: Amenity[],
+  filters: GymFilters
+): Promise<GymSearchResult[]> {
+  const matches = user
+    ? new Map(
+        rankGymsForUser(
+          user,
+          candidates,
+          await storage.getMembershipPlansForGyms(candidates.map(gym => gym.id)),
+          amenityList,
+          { origin: filters.near }
+        ).map(match => [match.id, match])
+      )
+    : undefined;
+
+  return candidates.map(gym => {
+    const match = matches?.get(gym.id);
+    return {
+      ...gym,
+      matchScore: match?.matchScore ?? null,
+      lowestMonthlyPrice: match?.lowestMonthlyPrice ?? null,
+      matchBreakdown: match?.matchBreakdown ?? null,
+    };
+  });
+}
+
+export async function searchGyms(
+  filters: GymFilters,
+  options: GymSearchOptions,
+  userId?: number
+): Promise<GymSearchPage> {
+  const amenityList = await storage.getAllAmenities();
+  const user = userId !== undefined ? await storage.getUser(userId) : undefined;
+  const { sort, limit, cursor, maxPrice } = options;
+
+  if (isPageSort(sort) && maxPrice === undefined && !filters.openNow) {
+    // One extra gym tells us whether there's another page
+    const page = await storage.searchGymPage(filters, { sort, limit: limit + 1, cursor });
+    const pageGyms = page.gyms.slice(0, limit).map(({ sortValue, ...gym }) => gym);
+    const hasMore = page.gyms.length > limit;
+    const last = page.gyms[limit - 1];
+
+    return {
+      gyms: await withMatches(pageGyms, user, amenityList, filters),
+      total: page.total,
+      facets: amenityFacets(page.amenityCounts, filters.amenities ?? [], amenityList),
+      nextCursor: hasMore ? encodeCursor({ value: last.sortValue, id: last.id }) : null,
+      hasMore,
+    };
+  }
+
+  let results = await withMatches(await storage.searchGyms(filters), user, amenityList, filters);
+
+  // Prices are in the user's budget currency; gyms without a plan in it can't be compared
+  if (maxPrice !== undefined) {
+    results = results.filter(gym => gym.lowestMonthlyPrice !== null && gym.lowestMonthlyPrice <= maxPrice);
+  }
+
+  const amenityCounts = new Map<number, number>();
+  for (const gym of results) {
+    for (const id of gym.amenityIds) {
+      amenityCounts.set(id, (amenityCounts.get(id) ?? 0) + 1);
+    }
+  }
+
+  const sorted = results
+    .map(gym => ({ gym, value: sortValue(gym, sort) }))
+    .sort((a, b) => a.value - b.value || a.gym.id - b.gym.id);
+
+  const start = cursor
+    ? sorted.findIndex(({ gym, value }) => value > cursor.value || (value === cursor.value && gym.id > cursor.id))
+    : 0;
+  const remaining = start === -1 ? [] : sorted.slice(start);
+  const page = remaining.slice(0, limit);
+  const hasMore = remaining.length > limit;
+  const last = page[page.length - 1];
+
+  return {
+    gyms: page.map(({ gym }) => gym),
+    total: results.length,
+    facets: amenityFacets(Array.from(amenityCounts, ([id, count]) => ({ id, count })), filters.amenities ?? [], amenityList),
+    nextCursor: hasMore ? encodeCursor({ value: last.value, id: last.gym.id }) : null,
+    hasMore,
+  };
+}
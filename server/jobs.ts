@@ -0,0 +1,167 @@
+// Background jobs for work too slow for one HTTP request, such as large gym
+// imports and exports. A job is a row in the jobs table; each server process
+// runs one worker loop that claims queued jobs oldest first and runs them one
+// at a time. Every change is pushed to the job's owner over /ws as a
+// "job_update" event, and GET /api/jobs/:id serves the same state for polling.
+import type { Job, JobSummary, JobType } from "@shared/schema";
+import { storage } from "./storage";
+import { sendToUser } from "./realtime";
+
+// How often an idle worker looks for new jobs; enqueueJob also wakes it
+const POLL_INTERVAL_MS = 5000;
+// Progress is saved and pushed at most this often, and that's also when a
+// running job finds out it has been cancelled
+const PROGRESS_INTERVAL_MS = 500;
+
+// Thrown inside a job once cancellation has been requested
+export class JobCancelledError extends Error {
+  constructor() {
+    super("The job was cancelled");
+    this.name = "JobCancelledError";
+  }
+}
+
+export interface JobContext<P> {
+  job: Job;
+  payload: P;
+  // Report progress as a percentage. Throws JobCancelledError if the job has
+  // been cancelled. Also lets other work run, so call it often in long loops.
+  setProgress(percent: number): Promise<void>;
+}
+
+export interface JobHandler<P> {
+  run(context: JobContext<P>): Promise<unknown>;
+  // Runs once the job is over, however it ended, e.g. to delete an uploaded file
+  cleanup?(payload: P): Promise<void> | void;
+}
+
+const handlers = new Map<JobType, JobHandler<any>>();
+
+let idleTimer: NodeJS.Timeout | undefined;
+let isWorking = false;
+
+export function registerJobHandler<P>(type: JobType, handler: JobHandler<P>) {
+  handlers.set(type, handler);
+}
+
+export function isJobFinished(job: Job): boolean {
+  return job.status === "succeeded" || job.status === "failed" || job.status === "cancelled";
+}
+
+export function toJobSummary(job: Job): JobSummary {
+  const { payload, ...summary } = job;
+  return summary;
+}
+
+function publish(job: Job) {
+  if (job.userId !== null) {
+    sendToUser(job.userId, { type: "job_update", job: toJobSummary(job) });
+  }
+}
+
+export async function enqueueJob<P extends Record<string, unknown>>(
+  type: JobType,
+  description: string,
+  userId: number,
+  payload: P
+): Promise<Job> {
+  const job = await storage.createJob({ type, description, userId, payload });
+  publish(job);
+  wakeWorker();
+  return job;
+}
+
+// Running jobs stop at their next progress report; queued jobs stop before they start
+export async function requestJobCancel(job: Job): Promise<Job> {
+  const updatedJob = await storage.updateJob(job.id, { cancelRequested: true });
+  publish(updatedJob!);
+  return updatedJob!;
+}
+
+async function finishJob(job: Job, changes: Partial<Job>) {
+  const finishedJob = await storage.updateJob(job.id, { ...changes, finishedAt: new Date() });
+  if (finishedJob) publish(finishedJob);
+}
+
+async function runJob(job: Job) {
+  const handler = handlers.get(job.type as JobType);
+  if (!handler) {
+    await finishJob(job, { status: "failed", error: `No handler for job type ${job.type}` });
+    return;
+  }
+
+  let lastProgress = job.progress;
+  let lastSavedAt = 0;
+  const context: JobContext<unknown> = {
+    job,
+    payload: job.payload,
+    async setProgress(percent) {
+      // Jobs run in the web server's process, so don't hold up requests between reports
+      await new Promise(resolve => setImmediate(resolve));
+
+      const progress = Math.max(0, Math.min(99, Math.floor(percent)));
+      if (progress === lastProgress || Date.now() - lastSavedAt < PROGRESS_INTERVAL_MS) return;
+      lastProgress = progress;
+      lastSavedAt = Date.now();
+
+      const updatedJob = await storage.updateJob(job.id, { progress });
+      if (updatedJob) publish(updatedJob);
+      if (updatedJob?.cancelRequested) throw new JobCancelledError();
+    },
+  };
+
+  publish(job);
+  try {
+    if (job.cancelRequested) throw new JobCancelledError();
+    const result = await handler.run(context);
+    await finishJob(job, { status: "succeeded", progress: 100, result: result ?? null });
+  } catch (error) {
+    if (error instanceof JobCancelledError) {
+      await finishJob(job, { status: "cancelled" });
+    } else {
+      console.error(`Error running job ${job.id} (${job.type}):`, error);
+      await finishJob(job, { status: "failed", error: error instanceof Error ? error.message : String(error) });
+    }
+  } finally {
+    try {
+      await handler.cleanup?.(job.payload);
+    } catch (error) {
+      console.error(`Error cleaning up job ${job.id}:`, error);
+    }
+  }
+}
+
+async function work() {
+  idleTimer = undefined;
+  isWorking = true;
+  try {
+    for (let job = await storage.claimNextJob(); job; job = await storage.claimNextJob()) {
+      await runJob(job);
+    }
+  } catch (error) {
+    console.error("Error in job worker:", error);
+  } finally {
+    isWorking = false;
+    idleTimer = setTimeout(work, POLL_INTERVAL_MS);
+  }
+}
+
+function wakeWorker() {
+  if (isWorking || !idleTimer) return;
+  clearTimeout(idleTimer);
+  idleTimer = setTimeout(work, 0);
+}
+
+// Start the worker loop. Jobs that were running when the server last stopped
+// can't be resumed, so they're marked failed first.
+export async function startJobWorker() {
+  try {
+    const interrupted = await storage.failInterruptedJobs("Interrupted by a server restart");
+    for (const job of interrupted) {
+      await handlers.get(job.type as JobType)?.cleanup?.(job.payload);
+    }
+  } catch (error) {
+    console.error("Error failing interrupted jobs:", error);
+  }
+  idleTimer = setTimeout(work, 0);
+}
@@ -0,0 +1,68 @@
+// Outgoing email. Code sends through `mailer`; the transport behind it is
+// picked by MAIL_TRANSPORT and can be swapped with setMailTransport, so local
+// development and tests never need a real mail server.
+import fs from "fs/promises";
+import path from "path";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+const DEFAULT_FROM = "GymMatch <no-reply@gymmatch.local>";
+const DEFAULT_OUTBOX_DIR = "mail-outbox";
+
+// Prints each message to the server log
+export class ConsoleTransport implements MailTransport {
+  async send(message: MailMessage) {
+    console.log(`[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${message.text}`);
+  }
+}
+
+// Writes each message to its own .eml file, for inspecting mail in development
+export class FileTransport implements MailTransport {
+  constructor(private readonly dir: string) {}
+
+  async send(message: MailMessage) {
+    await fs.mkdir(this.dir, { recursive: true });
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, "-")}-${Math.random().toString(36).slice(2, 8)}.eml`;
+    const contents = [
+      `From: ${process.env.MAIL_FROM || DEFAULT_FROM}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      "",
+      message.text,
+    ].join("\n");
+    await fs.writeFile(path.join(this.dir, fileName), contents);
+  }
+}
+
+function createTransportFromEnv(): MailTransport {
+  const transport = process.env.MAIL_TRANSPORT || "console";
+  switch (transport) {
+    case "console":
+      return new ConsoleTransport();
+    case "file":
+      return new FileTransport(process.env.MAIL_OUTBOX_DIR || DEFAULT_OUTBOX_DIR);
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${transport}", expected "console" or "file"`);
+  }
+}
+
+let transport: MailTransport = createTransportFromEnv();
+
+// Replace the transport, e.g. with one that records messages in tests
+export function setMailTransport(next: MailTransport) {
+  transport = next;
+}
+
+export const mailer = {
+  send(message: MailMessage) {
+    return transport.send(message);
+  },
+};
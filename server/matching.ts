@@ -0,0 +1,176 @@
+// Gym matching shared by both storage backends. Scores are deterministic:
+// the same user, gyms and location always produce the same ranking, and every
+// score comes with the breakdown that produced it.
+import type { User, Gym, MembershipPlan, GymMatch, MatchBreakdown, Amenity } from "@shared/schema";
+import { getLatLng, haversineDistanceKm, type LatLng } from "./geo";
+import { getLowestMonthlyPrice, budgetScoreAdjustment } from "./pricing";
+import { amenityKey, indexAmenities } from "./amenities";
+
+// Score every gym starts from before factors are applied
+const BASE_SCORE = 50;
+// Most points each factor can add
+const MAX_GOAL_POINTS = 20;
+const MAX_PREFERENCE_POINTS = 15;
+const MAX_DISTANCE_POINTS = 10;
+const MAX_RATING_POINTS = 5;
+// Gyms this far away or further get no distance points
+const MAX_USEFUL_DISTANCE_KM = 50;
+
+// Amenities that support each fitness goal, by name or synonym in the amenity list
+const GOAL_AMENITIES: Record<string, string[]> = {
+  'Build Muscle': ['Free Weights', 'Strength Equipment', 'Personal Training'],
+  'Weight Loss': ['Cardio Equipment', 'Group Classes', 'Swimming Pool', 'Spinning'],
+  'Improve Strength': ['Free Weights', 'Strength Equipment', 'CrossFit', 'Functional Training'],
+  'Cardio': ['Cardio Equipment', 'Spinning', 'Running Track'],
+  'Flexibility': ['Yoga', 'Pilates', 'Stretching Area'],
+  'Endurance': ['Cardio Equipment', 'Swimming Pool', 'Running Track'],
+  'Agility': ['Functional Training', 'CrossFit', 'Group Classes'],
+};
+
+// Used for goals that aren't in GOAL_AMENITIES
+const GENERAL_AMENITIES = ['Group Classes', 'Personal Training', 'Free Weights', 'Cardio Equipment'];
+
+export interface MatchOptions {
+  // Where the user is searching from; without it distance isn't scored
+  origin?: LatLng;
+}
+
+// The amenity list as matching needs it: amenities by name or synonym, and by ID
+export interface AmenityLookup {
+  byKey: Map<string, Amenity>;
+  byId: Map<number, Amenity>;
+}
+
+export function createAmenityLookup(amenities: Amenity[]): AmenityLookup {
+  return {
+    byKey: indexAmenities(amenities),
+    byId: new Map(amenities.map(amenity => [amenity.id, amenity])),
+  };
+}
+
+// Goals are typed in by members, so "muscle" finds "Build Muscle"
+function goalsMatch(a: string, b: string): boolean {
+  const left = a.toLowerCase();
+  const right = b.toLowerCase();
+  return left.includes(right) || right.includes(left);
+}
+
+function getGoalAmenityIds(goal: string, lookup: AmenityLookup): Set<number> {
+  const related = Object.entries(GOAL_AMENITIES)
+    .filter(([knownGoal]) => goalsMatch(knownGoal, goal))
+    .flatMap(([, amenities]) => amenities);
+
+  const names = related.length > 0 ? related : GENERAL_AMENITIES;
+  return new Set(names.flatMap(name => lookup.byKey.get(amenityKey(name))?.id ?? []));
+}
+
+function amenityName(id: number, lookup: AmenityLookup): string {
+  return lookup.byId.get(id)?.name ?? `Amenity ${id}`;
+}
+
+function scoreGoals(goals: string[], gymAmenityIds: number[], lookup: AmenityLookup): MatchBreakdown["goals"] {
+  const matches = goals
+    .map(goal => {
+      const related = getGoalAmenityIds(goal, lookup);
+      return {
+        goal,
+        amenities: gymAmenityIds.filter(id => related.has(id)).map(id => amenityName(id, lookup)),
+      };
+    })
+    .filter(match => match.amenities.length > 0);
+
+  const points = goals.length > 0 ? (matches.length / goals.length) * MAX_GOAL_POINTS : 0;
+  return { points, matches };
+}
+
+// A preference counts when it names one of the gym's amenities or a synonym of one
+function scorePreferences(preferences: string[], gymAmenityIds: number[], lookup: AmenityLookup): MatchBreakdown["preferences"] {
+  const hits: MatchBreakdown["preferences"]["hits"] = [];
+
+  for (const preference of preferences) {
+    const amenity = lookup.byKey.get(amenityKey(preference));
+    if (amenity && gymAmenityIds.includes(amenity.id)) {
+      hits.push({ preference, amenity: amenity.name });
+    }
+  }
+
+  const points = preferences.length > 0 ? (hits.length / preferences.length) * MAX_PREFERENCE_POINTS : 0;
+  return { points, hits };
+}
+
+function scoreDistance(gym: Gym, origin: LatLng | undefined): MatchBreakdown["distance"] {
+  const position = getLatLng(gym.location);
+  if (!origin || !position) return { points: 0, distanceKm: null };
+
+  const distanceKm = haversineDistanceKm(origin, position);
+  const points = Math.max(0, 1 - distanceKm / MAX_USEFUL_DISTANCE_KM) * MAX_DISTANCE_POINTS;
+  return { points, distanceKm };
+}
+
+// Reviews above 3 stars add points and below 3 take them away
+function scoreRating(gym: Gym): MatchBreakdown["rating"] {
+  if (gym.rating === null || gym.reviewCount === 0) {
+    return { points: 0, rating: null, reviewCount: gym.reviewCount };
+  }
+
+  const points = ((gym.rating - 3) / 2) * MAX_RATING_POINTS;
+  return { points, rating: gym.rating, reviewCount: gym.reviewCount };
+}
+
+function scoreBudget(user: User, plans: MembershipPlan[]): MatchBreakdown["budget"] {
+  const lowestMonthlyPrice = getLowestMonthlyPrice(plans, user.budgetCurrency);
+
+  return {
+    points: budgetScoreAdjustment(lowestMonthlyPrice, user.monthlyBudget),
+    lowestMonthlyPrice,
+    monthlyBudget: user.monthlyBudget,
+    currency: user.budgetCurrency,
+  };
+}
+
+// Score a single gym for a user. `plans` are the gym's membership plans.
+export function scoreGym(
+  user: User,
+  gym: Gym,
+  plans: MembershipPlan[],
+  lookup: AmenityLookup,
+  options: MatchOptions = {}
+): GymMatch {
+  const breakdown: MatchBreakdown = {
+    goals: scoreGoals(user.fitnessGoals ?? [], gym.amenityIds, lookup),
+    preferences: scorePreferences(user.gymPreferences ?? [], gym.amenityIds, lookup),
+    distance: scoreDistance(gym, options.origin),
+    rating: scoreRating(gym),
+    budget: scoreBudget(user, plans),
+  };
+
+  const total = BASE_SCORE + Object.values(breakdown).reduce((sum, factor) => sum + factor.points, 0);
+
+  return {
+    ...gym,
+    matchScore: Math.max(0, Math.min(100, Math.round(total))),
+    lowestMonthlyPrice: breakdown.budget.lowestMonthlyPrice,
+    matchBreakdown: breakdown,
+  };
+}
+
+// Score and rank gyms for a user, best match first (ties broken by gym ID)
+export function rankGymsForUser(
+  user: User,
+  gyms: Gym[],
+  plans: MembershipPlan[],
+  amenities: Amenity[],
+  options: MatchOptions = {}
+): GymMatch[] {
+  const lookup = createAmenityLookup(amenities);
+  const plansByGym = new Map<number, MembershipPlan[]>();
+  for (const plan of plans) {
+    const gymPlans = plansByGym.get(plan.gymId) ?? [];
+    gymPlans.push(plan);
+    plansByGym.set(plan.gymId, gymPlans);
+  }
+
+  return gyms
+    .map(gym => scoreGym(user, gym, plansByGym.get(gym.id) ?? [], lookup, options))
+    .sort((a, b) => b.matchScore - a.matchScore || a.id - b.id);
+}
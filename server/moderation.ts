@@ -0,0 +1,18 @@
+// Blocking and reporting helpers shared by both storage backends and the routes.
+
+// Longest message excerpt kept on a report
+const MAX_EXCERPT_LENGTH = 500;
+
+// Thrown when creating a match or message between users where either has blocked the other
+export class BlockedUserError extends Error {
+  constructor() {
+    super("One of these users has blocked the other");
+    this.name = "BlockedUserError";
+  }
+}
+
+// Trim a reported message down to what moderators need to see
+export function toMessageExcerpt(content: string): string {
+  const text = content.trim();
+  return text.length > MAX_EXCERPT_LENGTH ? `${text.slice(0, MAX_EXCERPT_LENGTH - 1)}…` : text;
+}
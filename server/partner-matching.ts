@@ -0,0 +1,186 @@
+// Workout-partner matching shared by both storage backends. Like gym matching,
+// scores are deterministic and come with the breakdown that produced them.
+import type {
+  User, Gym, SavedGym, UserMatch, PublicProfile, PartnerBreakdown, PartnerRecommendation
+} from "@shared/schema";
+import { getLatLng, haversineDistanceKm, type LatLng } from "./geo";
+
+// Most points each factor can add; together they make up the full 100
+const MAX_GOAL_POINTS = 30;
+const MAX_PREFERENCE_POINTS = 20;
+const MAX_SHARED_GYM_POINTS = 20;
+const MAX_AGE_POINTS = 10;
+const MAX_DISTANCE_POINTS = 10;
+const MAX_ACTIVITY_POINTS = 10;
+
+// Points per gym both members have saved
+const POINTS_PER_SHARED_GYM = 10;
+// Members whose nearest saved gyms are this far apart or further get no distance points
+const MAX_USEFUL_DISTANCE_KM = 25;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Share of the activity points for members last seen within each window
+const ACTIVITY_WINDOWS = [
+  { withinMs: DAY_MS, share: 1 },
+  { withinMs: 7 * DAY_MS, share: 0.6 },
+  { withinMs: 30 * DAY_MS, share: 0.2 },
+];
+
+// Age bands, youngest first; members in the same band get full age points,
+// neighbouring bands half
+const AGE_BANDS = [
+  { label: "Under 18", maxAge: 17 },
+  { label: "18-24", maxAge: 24 },
+  { label: "25-34", maxAge: 34 },
+  { label: "35-44", maxAge: 44 },
+  { label: "45-54", maxAge: 54 },
+  { label: "55+", maxAge: Infinity },
+];
+
+// Saved gyms and gym details, loaded once per ranking
+export interface PartnerContext {
+  savedGymIdsByUser: Map<number, number[]>;
+  gymsById: Map<number, Gym>;
+}
+
+export function buildPartnerContext(savedGyms: SavedGym[], gyms: Gym[]): PartnerContext {
+  const savedGymIdsByUser = new Map<number, number[]>();
+  for (const saved of savedGyms) {
+    savedGymIdsByUser.set(saved.userId, [...(savedGymIdsByUser.get(saved.userId) ?? []), saved.gymId]);
+  }
+
+  return {
+    savedGymIdsByUser,
+    gymsById: new Map(gyms.map(gym => [gym.id, gym])),
+  };
+}
+
+export function toPublicProfile(user: User): PublicProfile {
+  return {
+    id: user.id,
+    name: user.name,
+    age: user.age,
+    gender: user.gender,
+    fitnessGoals: user.fitnessGoals,
+    gymPreferences: user.gymPreferences,
+    profilePic: user.profilePic,
+    lastActiveAt: user.lastActiveAt,
+    createdAt: user.createdAt,
+  };
+}
+
+// Case-insensitive intersection, keeping the other member's spelling
+function sharedValues(mine: string[], theirs: string[]): string[] {
+  const mineLower = new Set(mine.map(value => value.trim().toLowerCase()));
+  return theirs.filter(value => mineLower.has(value.trim().toLowerCase()));
+}
+
+// Points are the share of the user's own values the candidate also has
+function scoreOverlap(mine: string[], theirs: string[], maxPoints: number) {
+  const shared = sharedValues(mine, theirs);
+  const points = mine.length > 0 ? (Math.min(shared.length, mine.length) / mine.length) * maxPoints : 0;
+  return { points, shared };
+}
+
+function scoreSharedGyms(user: User, candidate: User, context: PartnerContext): PartnerBreakdown["gyms"] {
+  const mine = new Set(context.savedGymIdsByUser.get(user.id) ?? []);
+  const shared = (context.savedGymIdsByUser.get(candidate.id) ?? [])
+    .filter(gymId => mine.has(gymId))
+    .map(gymId => context.gymsById.get(gymId))
+    .filter((gym): gym is Gym => gym !== undefined)
+    .map(gym => ({ id: gym.id, name: gym.name }));
+
+  return {
+    points: Math.min(MAX_SHARED_GYM_POINTS, shared.length * POINTS_PER_SHARED_GYM),
+    shared,
+  };
+}
+
+function getAgeBandIndex(age: number | null): number {
+  if (age === null) return -1;
+  return AGE_BANDS.findIndex(band => age <= band.maxAge);
+}
+
+function scoreAge(user: User, candidate: User): PartnerBreakdown["age"] {
+  const mine = getAgeBandIndex(user.age);
+  const theirs = getAgeBandIndex(candidate.age);
+  const band = theirs >= 0 ? AGE_BANDS[theirs].label : null;
+  if (mine < 0 || theirs < 0) return { points: 0, band, sameBand: false };
+
+  const gap = Math.abs(mine - theirs);
+  const points = gap === 0 ? MAX_AGE_POINTS : gap === 1 ? MAX_AGE_POINTS / 2 : 0;
+  return { points, band, sameBand: gap === 0 };
+}
+
+// Members don't share a location, so distance is measured between the
+// closest pair of gyms they've each saved
+function scoreDistance(user: User, candidate: User, context: PartnerContext): PartnerBreakdown["distance"] {
+  const locate = (userId: number) => (context.savedGymIdsByUser.get(userId) ?? [])
+    .map(gymId => getLatLng(context.gymsById.get(gymId)?.location))
+    .filter((position): position is LatLng => position !== undefined);
+
+  const mine = locate(user.id);
+  const theirs = locate(candidate.id);
+  if (mine.length === 0 || theirs.length === 0) return { points: 0, distanceKm: null };
+
+  const distanceKm = Math.min(...mine.flatMap(from => theirs.map(to => haversineDistanceKm(from, to))));
+  const points = Math.max(0, 1 - distanceKm / MAX_USEFUL_DISTANCE_KM) * MAX_DISTANCE_POINTS;
+  return { points, distanceKm };
+}
+
+function scoreActivity(candidate: User, now: Date): PartnerBreakdown["activity"] {
+  const { lastActiveAt } = candidate;
+  if (!lastActiveAt) return { points: 0, lastActiveAt: null };
+
+  const idleMs = now.getTime() - new Date(lastActiveAt).getTime();
+  const window = ACTIVITY_WINDOWS.find(w => idleMs <= w.withinMs);
+  return { points: (window?.share ?? 0) * MAX_ACTIVITY_POINTS, lastActiveAt };
+}
+
+// Score how well `candidate` would suit `user` as a workout partner
+export function scorePartner(
+  user: User,
+  candidate: User,
+  context: PartnerContext,
+  now: Date = new Date()
+): PartnerRecommendation {
+  const breakdown: PartnerBreakdown = {
+    goals: scoreOverlap(user.fitnessGoals ?? [], candidate.fitnessGoals ?? [], MAX_GOAL_POINTS),
+    preferences: scoreOverlap(user.gymPreferences ?? [], candidate.gymPreferences ?? [], MAX_PREFERENCE_POINTS),
+    gyms: scoreSharedGyms(user, candidate, context),
+    age: scoreAge(user, candidate),
+    distance: scoreDistance(user, candidate, context),
+    activity: scoreActivity(candidate, now),
+  };
+
+  const total = Object.values(breakdown).reduce((sum, factor) => sum + factor.points, 0);
+
+  return {
+    ...toPublicProfile(candidate),
+    matchScore: Math.max(0, Math.min(100, Math.round(total))),
+    matchBreakdown: breakdown,
+  };
+}
+
+// Rank other members as workout partners for a user, best first (ties broken
+// by user ID). Banned members, blocked members and anyone the user already
+// has a match with, in any state, are left out.
+export function rankPartnersForUser(
+  user: User,
+  candidates: User[],
+  existingMatches: UserMatch[],
+  blockedUserIds: number[],
+  context: PartnerContext,
+  now: Date = new Date()
+): PartnerRecommendation[] {
+  const excluded = new Set<number>([user.id, ...blockedUserIds]);
+  for (const match of existingMatches) {
+    excluded.add(match.senderId === user.id ? match.receiverId : match.senderId);
+  }
+
+  return candidates
+    .filter(candidate => !excluded.has(candidate.id) && !candidate.isBanned)
+    .map(candidate => scorePartner(user, candidate, context, now))
+    .sort((a, b) => b.matchScore - a.matchScore || a.id - b.id);
+}
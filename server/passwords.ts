@@ -0,0 +1,100 @@
+// Password hashing. New hashes use bcrypt at BCRYPT_COST; older accounts may
+// still have scrypt hashes in the "hash.salt" format, which keep working and
+// are replaced with bcrypt the next time the user signs in.
+import { scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import bcrypt from "bcrypt";
+import type { PasswordHashCount, PasswordHashReport } from "@shared/schema";
+
+const scryptAsync = promisify(scrypt);
+
+const DEFAULT_BCRYPT_COST = 10;
+// The range bcrypt itself accepts
+const MIN_BCRYPT_COST = 4;
+const MAX_BCRYPT_COST = 31;
+
+const BCRYPT_HASH_PATTERN = /^\$2[aby]\$(\d{2})\$/;
+
+function bcryptCostFromEnv(): number {
+  const raw = process.env.BCRYPT_COST;
+  if (!raw) return DEFAULT_BCRYPT_COST;
+
+  const cost = Number(raw);
+  if (!Number.isInteger(cost) || cost < MIN_BCRYPT_COST || cost > MAX_BCRYPT_COST) {
+    throw new Error(`BCRYPT_COST must be a whole number from ${MIN_BCRYPT_COST} to ${MAX_BCRYPT_COST}, got "${raw}"`);
+  }
+  return cost;
+}
+
+// Raising this makes every older bcrypt hash get rehashed on its owner's next sign-in
+export const BCRYPT_COST = bcryptCostFromEnv();
+
+export type PasswordHashScheme = "bcrypt" | "scrypt";
+
+// Which scheme produced a stored hash, and the bcrypt cost factor if it's bcrypt.
+// Anything that isn't bcrypt is treated as the legacy scrypt format.
+export function describePasswordHash(stored: string): { scheme: PasswordHashScheme; cost: number | null } {
+  const match = BCRYPT_HASH_PATTERN.exec(stored);
+  return match ? { scheme: "bcrypt", cost: parseInt(match[1]) } : { scheme: "scrypt", cost: null };
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  return await bcrypt.hash(password, BCRYPT_COST);
+}
+
+export async function verifyPassword(supplied: string, stored: string): Promise<boolean> {
+  try {
+    if (describePasswordHash(stored).scheme === "bcrypt") {
+      return await bcrypt.compare(supplied, stored);
+    }
+
+    const [hashed, salt] = stored.split(".");
+    if (!hashed || !salt) {
+      console.error("Invalid stored password format, expected 'hash.salt'");
+      return false;
+    }
+
+    const hashedBuf = Buffer.from(hashed, "hex");
+    const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+    return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+  } catch (error) {
+    console.error("Password comparison error:", error);
+    return false;
+  }
+}
+
+// Whether a hash that just verified should be replaced: legacy scrypt hashes,
+// and bcrypt hashes made before the cost factor was raised
+export function needsRehash(stored: string): boolean {
+  const { scheme, cost } = describePasswordHash(stored);
+  return scheme !== "bcrypt" || cost === null || cost < BCRYPT_COST;
+}
+
+// Totals for the admin report, measured against the current cost factor
+export function summarizePasswordHashes(counts: PasswordHashCount[]): PasswordHashReport {
+  const report: PasswordHashReport = {
+    currentCost: BCRYPT_COST,
+    total: 0,
+    legacy: 0,
+    outdatedCost: 0,
+    current: 0,
+    withoutPassword: 0,
+    byCost: [],
+  };
+
+  for (const { scheme, cost, count } of counts) {
+    report.total += count;
+    if (scheme === "none") {
+      report.withoutPassword += count;
+    } else if (scheme === "scrypt" || cost === null) {
+      report.legacy += count;
+    } else {
+      if (cost < BCRYPT_COST) report.outdatedCost += count;
+      else report.current += count;
+      report.byCost.push({ cost, count });
+    }
+  }
+
+  report.byCost.sort((a, b) => a.cost - b.cost);
+  return report;
+}
@@ -0,0 +1,28 @@
+// Membership price helpers used by gym matching.
+import type { MembershipPlan } from "@shared/schema";
+
+// Points added to a match score when a gym has a plan within the user's budget
+const WITHIN_BUDGET_BONUS = 10;
+// Most points taken off for a gym whose cheapest plan is over budget
+const MAX_OVER_BUDGET_PENALTY = 20;
+
+// Cheapest monthly price among a gym's plans in the given currency.
+// Plans in other currencies are ignored rather than converted.
+export function getLowestMonthlyPrice(plans: MembershipPlan[], currency: string): number | null {
+  const prices = plans
+    .filter(plan => plan.currency === currency)
+    .map(plan => plan.monthlyPrice);
+
+  return prices.length > 0 ? Math.min(...prices) : null;
+}
+
+// Match score adjustment for a gym's cheapest plan against the user's monthly
+// budget. Gyms without pricing, or users without a budget, are left as they are;
+// otherwise the penalty grows with how far over budget the gym is.
+export function budgetScoreAdjustment(lowestMonthlyPrice: number | null, budget: number | null): number {
+  if (lowestMonthlyPrice === null || budget === null) return 0;
+  if (lowestMonthlyPrice <= budget) return WITHIN_BUDGET_BONUS;
+
+  const overBudgetRatio = (lowestMonthlyPrice - budget) / Math.max(budget, 1);
+  return -Math.min(MAX_OVER_BUDGET_PENALTY, Math.round(overBudgetRatio * MAX_OVER_BUDGET_PENALTY * 2));
+}
@@ -0,0 +1,116 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+
+// storage.ts builds a DatabaseStorage on import, and db.ts refuses to load
+// without a connection string; nothing here connects
+process.env.DATABASE_URL ??= "postgres://localhost/gymmatchmate_test";
+const { AuthRateLimiter, MemoryAttemptStore } = await import("./rate-limit");
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const IP = "203.0.113.7";
+
+// A limiter on an in-memory store with a clock the test moves by hand
+function limiterWithClock() {
+  const clock = { now: Date.UTC(2026, 0, 1) };
+  const now = () => clock.now;
+  const store = new MemoryAttemptStore(now);
+  return { limiter: new AuthRateLimiter(store, now), store, clock };
+}
+
+// A wrong password: the reservation is left as the failure it was recorded as
+async function failLogin(limiter: InstanceType<typeof AuthRateLimiter>, username: string, ip = IP) {
+  const { decision } = await limiter.startLogin(ip, username);
+  assert.ok(decision.allowed, "the attempt should have been let through");
+}
+
+test("a sign-in is recorded as a failure before the password is checked", async () => {
+  const { limiter, store, clock } = limiterWithClock();
+  const { attemptId, decision } = await limiter.startLogin(IP, "Alice");
+  assert.ok(decision.allowed);
+
+  const pending = await store.count({ kind: "login", outcomes: ["failure"], username: "alice", since: new Date(clock.now - MINUTE) });
+  assert.equal(pending.count, 1);
+
+  await limiter.settle(attemptId, "success", 1);
+  const settled = await store.count({ kind: "login", outcomes: ["failure"], username: "alice", since: new Date(clock.now - MINUTE) });
+  assert.equal(settled.count, 0);
+});
+
+test("concurrent sign-ins see each other's reservations", async () => {
+  const { limiter } = limiterWithClock();
+  const reservations = await Promise.all(Array.from({ length: 10 }, () => limiter.startLogin(IP, "alice")));
+  const allowed = reservations.filter(reservation => reservation.decision.allowed);
+  // Backoff starts at the third failure, so at most three get to check a password
+  assert.ok(allowed.length <= 3, `${allowed.length} concurrent attempts were allowed`);
+});
+
+test("failures back off and then lock the username out", async () => {
+  const { limiter, clock } = limiterWithClock();
+  for (let i = 0; i < 3; i++) await failLogin(limiter, "alice");
+
+  const backoff = (await limiter.startLogin(IP, "alice")).decision;
+  assert.ok(!backoff.allowed);
+  assert.equal(backoff.retryAfterMs, SECOND);
+
+  // Waiting out each backoff (capped at a minute) until the tenth failure
+  for (let i = 3; i < 10; i++) {
+    clock.now += MINUTE;
+    await failLogin(limiter, "alice");
+  }
+  clock.now += MINUTE;
+  const locked = (await limiter.startLogin(IP, "alice")).decision;
+  assert.ok(!locked.allowed);
+  assert.match(locked.message, /temporarily locked/);
+  assert.equal(locked.retryAfterMs, 14 * MINUTE);
+
+  // Other usernames are unaffected
+  assert.ok((await limiter.startLogin(IP, "bob")).decision.allowed);
+});
+
+test("a lockout lifts once its window has passed", async () => {
+  const { limiter, clock } = limiterWithClock();
+  for (let i = 0; i < 10; i++) {
+    await failLogin(limiter, "alice");
+    clock.now += MINUTE;
+  }
+  assert.equal((await limiter.startLogin(IP, "alice")).decision.allowed, false);
+
+  // Blocked attempts don't extend the lockout
+  clock.now += 14 * MINUTE;
+  assert.ok((await limiter.startLogin(IP, "alice")).decision.allowed);
+});
+
+test("failures from one IP are limited across usernames within a sliding window", async () => {
+  const { limiter, clock } = limiterWithClock();
+  for (let i = 0; i < 20; i++) {
+    await failLogin(limiter, `user${i}`);
+    clock.now += SECOND;
+  }
+  const blocked = (await limiter.startLogin(IP, "someone-else")).decision;
+  assert.ok(!blocked.allowed);
+  assert.match(blocked.message, /your network/);
+  assert.ok((await limiter.startLogin("198.51.100.1", "someone-else")).decision.allowed);
+
+  // Once the oldest failure falls out of the window there is room for one more
+  clock.now += 15 * MINUTE - 20 * SECOND;
+  assert.ok((await limiter.startLogin(IP, "someone-else")).decision.allowed);
+});
+
+test("a successful sign-in resets the username's failure count", async () => {
+  const { limiter, clock } = limiterWithClock();
+  for (let i = 0; i < 5; i++) {
+    await failLogin(limiter, "alice");
+    clock.now += MINUTE;
+  }
+
+  const { attemptId, decision } = await limiter.startLogin(IP, "alice");
+  assert.ok(decision.allowed);
+  await limiter.settle(attemptId, "success", 1);
+
+  // Without the reset the sixth failure would already be backing off
+  clock.now += SECOND;
+  await failLogin(limiter, "alice");
+  await failLogin(limiter, "alice");
+  assert.ok((await limiter.startLogin(IP, "alice")).decision.allowed);
+});
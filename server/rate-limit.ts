@@ -0,0 +1,278 @@
+// Throttling for /api/login, /api/register and password reset emails. Each attempt is recorded as a
+// failure before anything else happens, then decided from the recent history
+// in an AttemptStore: sliding windows per IP, plus progressive backoff and a
+// temporary lockout per username. Because the reservation is in place before
+// the password is checked, concurrent attempts see each other and can't all
+// slip under a limit. RATE_LIMIT_STORE picks the store; "memory" keeps
+// everything in process for tests and local development.
+import type {
+  InsertLoginAttempt, LoginAttemptCount, LoginAttemptKind, LoginAttemptOutcome
+} from "@shared/schema";
+import { storage } from "./storage";
+
+// Failed sign-ins allowed from one IP, across all usernames
+const IP_LOGIN_WINDOW_MS = 15 * 60 * 1000;
+const IP_MAX_LOGIN_FAILURES = 20;
+
+// Consecutive failures for one username count until a successful sign-in or
+// until they fall out of this window
+const USERNAME_WINDOW_MS = 60 * 60 * 1000;
+// From the third failure each retry must wait twice as long as the last, up to the cap
+const BACKOFF_AFTER_FAILURES = 3;
+const BACKOFF_BASE_MS = 1000;
+const BACKOFF_MAX_MS = 60 * 1000;
+const LOCKOUT_AFTER_FAILURES = 10;
+const LOCKOUT_MS = 15 * 60 * 1000;
+
+// Registrations allowed from one IP, successful or not
+const IP_REGISTER_WINDOW_MS = 60 * 60 * 1000;
+const IP_MAX_REGISTRATIONS = 10;
+
+// Password reset requests allowed from one IP, and for one email address
+// whether or not an account uses it
+const RESET_WINDOW_MS = 60 * 60 * 1000;
+const IP_MAX_RESETS = 10;
+const EMAIL_MAX_RESETS = 3;
+
+// The longest window above; older attempts never affect a decision
+const RETENTION_MS = Math.max(IP_LOGIN_WINDOW_MS, USERNAME_WINDOW_MS, IP_REGISTER_WINDOW_MS, RESET_WINDOW_MS);
+
+export type AttemptQuery = {
+  kind: LoginAttemptKind;
+  outcomes: LoginAttemptOutcome[];
+  ip?: string;
+  username?: string;
+  since: Date;
+  // The attempt being decided on, which shouldn't count against itself
+  exceptId?: number;
+};
+
+export type AttemptSettlement = Partial<Pick<InsertLoginAttempt, "outcome" | "userId">>;
+
+export interface AttemptStore {
+  // Returns the new attempt's id so its outcome can be settled later
+  record(attempt: InsertLoginAttempt): Promise<number>;
+  settle(id: number, settlement: AttemptSettlement): Promise<void>;
+  // How many attempts match the query, and when the oldest and newest were made
+  count(query: AttemptQuery): Promise<LoginAttemptCount>;
+}
+
+// Keeps attempts in process; nothing is shown in the admin panel
+export class MemoryAttemptStore implements AttemptStore {
+  private attempts: (InsertLoginAttempt & { id: number; createdAt: Date })[] = [];
+  private nextId = 1;
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  async record(attempt: InsertLoginAttempt) {
+    const cutoff = this.now() - RETENTION_MS;
+    this.attempts = this.attempts.filter(existing => existing.createdAt.getTime() >= cutoff);
+    const id = this.nextId++;
+    this.attempts.push({ ...attempt, id, createdAt: new Date(this.now()) });
+    return id;
+  }
+
+  async settle(id: number, settlement: AttemptSettlement) {
+    const attempt = this.attempts.find(existing => existing.id === id);
+    if (attempt) Object.assign(attempt, settlement);
+  }
+
+  async count({ kind, outcomes, ip, username, since, exceptId }: AttemptQuery) {
+    const times = this.attempts
+      .filter(attempt =>
+        attempt.kind === kind &&
+        outcomes.includes(attempt.outcome as LoginAttemptOutcome) &&
+        (ip === undefined || attempt.ip === ip) &&
+        (username === undefined || attempt.username === username) &&
+        attempt.createdAt >= since &&
+        attempt.id !== exceptId
+      )
+      .map(attempt => attempt.createdAt.getTime());
+    return {
+      count: times.length,
+      oldestAt: times.length > 0 ? new Date(Math.min(...times)) : null,
+      newestAt: times.length > 0 ? new Date(Math.max(...times)) : null,
+    };
+  }
+}
+
+// Records attempts in the login_attempts table, where admins can review them
+export class StorageAttemptStore implements AttemptStore {
+  async record(attempt: InsertLoginAttempt) {
+    const { id } = await storage.recordLoginAttempt(attempt);
+    return id;
+  }
+
+  async settle(id: number, settlement: AttemptSettlement) {
+    await storage.updateLoginAttempt(id, settlement);
+  }
+
+  async count({ kind, outcomes, ip, username, since, exceptId }: AttemptQuery) {
+    return storage.countLoginAttempts({ kind, outcomes, ip, username, from: since, exceptId });
+  }
+}
+
+export type RateLimitDecision =
+  | { allowed: true }
+  | { allowed: false; retryAfterMs: number; message: string };
+
+const ALLOWED: RateLimitDecision = { allowed: true };
+
+// Usernames are matched case-insensitively so "Alice" and "alice" share a limit
+export function normalizeUsername(username: string): string {
+  return username.trim().toLowerCase();
+}
+
+function describeWait(ms: number): string {
+  const seconds = Math.ceil(ms / 1000);
+  if (seconds < 60) return `${seconds} second${seconds === 1 ? "" : "s"}`;
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? "" : "s"}`;
+}
+
+function blocked(retryAfterMs: number, message: string): RateLimitDecision {
+  return { allowed: false, retryAfterMs, message: `${message} Try again in ${describeWait(retryAfterMs)}.` };
+}
+
+// How long until the oldest counted attempt leaves the window, once `max` are in it, or 0
+function slidingWindowWait(attempts: LoginAttemptCount, max: number, windowMs: number, now: number): number {
+  if (attempts.count < max || !attempts.oldestAt) return 0;
+  return Math.max(0, attempts.oldestAt.getTime() + windowMs - now);
+}
+
+// A recorded attempt and whether it may go ahead. Reservations start out as
+// failures, so only other outcomes need settling.
+export type AttemptReservation = { attemptId: number; decision: RateLimitDecision };
+
+export class AuthRateLimiter {
+  constructor(
+    private readonly store: AttemptStore,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  async startLogin(ip: string, username: string, userId?: number): Promise<AttemptReservation> {
+    return this.reserve({ kind: "login", username, userId, ip }, attemptId => this.checkLogin(ip, username, attemptId));
+  }
+
+  async startRegistration(ip: string, username: string): Promise<AttemptReservation> {
+    return this.reserve({ kind: "register", username, ip }, attemptId => this.checkRegistration(ip, attemptId));
+  }
+
+  // The email is kept lower-cased in the username column
+  async startPasswordReset(ip: string, email: string): Promise<AttemptReservation> {
+    return this.reserve({ kind: "password_reset", username: email, ip }, attemptId => this.checkPasswordReset(ip, email, attemptId));
+  }
+
+  async settle(attemptId: number, outcome: Exclude<LoginAttemptOutcome, "blocked">, userId?: number): Promise<void> {
+    await this.store.settle(attemptId, { outcome, userId });
+  }
+
+  private async reserve(
+    attempt: Omit<InsertLoginAttempt, "outcome">,
+    check: (attemptId: number) => Promise<RateLimitDecision>
+  ): Promise<AttemptReservation> {
+    const attemptId = await this.store.record({
+      ...attempt,
+      outcome: "failure",
+      username: attempt.username ? normalizeUsername(attempt.username) : null,
+    });
+    const decision = await check(attemptId);
+    // Attempts turned away by the limiter don't count against anyone, so
+    // waiting out a lockout is enough to lift it
+    if (!decision.allowed) await this.store.settle(attemptId, { outcome: "blocked" });
+    return { attemptId, decision };
+  }
+
+  private async checkLogin(ip: string, username: string, exceptId: number): Promise<RateLimitDecision> {
+    const now = this.now();
+
+    const ipFailures = await this.store.count({
+      kind: "login",
+      outcomes: ["failure"],
+      ip,
+      since: new Date(now - IP_LOGIN_WINDOW_MS),
+      exceptId,
+    });
+    const ipWait = slidingWindowWait(ipFailures, IP_MAX_LOGIN_FAILURES, IP_LOGIN_WINDOW_MS, now);
+    if (ipWait > 0) {
+      return blocked(ipWait, "Too many failed sign-ins from your network.");
+    }
+
+    // Only failures since the last successful sign-in count
+    const normalized = normalizeUsername(username);
+    const windowStart = new Date(now - USERNAME_WINDOW_MS);
+    const { newestAt: lastSuccessAt } = await this.store.count({
+      kind: "login",
+      outcomes: ["success"],
+      username: normalized,
+      since: windowStart,
+      exceptId,
+    });
+    const failures = await this.store.count({
+      kind: "login",
+      outcomes: ["failure"],
+      username: normalized,
+      since: lastSuccessAt ? new Date(lastSuccessAt.getTime() + 1) : windowStart,
+      exceptId,
+    });
+    if (failures.count === 0 || !failures.newestAt) return ALLOWED;
+
+    const lastFailureAt = failures.newestAt.getTime();
+    if (failures.count >= LOCKOUT_AFTER_FAILURES) {
+      const wait = lastFailureAt + LOCKOUT_MS - now;
+      if (wait > 0) return blocked(wait, "This account is temporarily locked after too many failed sign-ins.");
+    } else if (failures.count >= BACKOFF_AFTER_FAILURES) {
+      const delay = Math.min(BACKOFF_BASE_MS * 2 ** (failures.count - BACKOFF_AFTER_FAILURES), BACKOFF_MAX_MS);
+      const wait = lastFailureAt + delay - now;
+      if (wait > 0) return blocked(wait, "Too many failed sign-ins.");
+    }
+    return ALLOWED;
+  }
+
+  private async checkRegistration(ip: string, exceptId: number): Promise<RateLimitDecision> {
+    const now = this.now();
+    const attempts = await this.store.count({
+      kind: "register",
+      outcomes: ["success", "failure"],
+      ip,
+      since: new Date(now - IP_REGISTER_WINDOW_MS),
+      exceptId,
+    });
+    const wait = slidingWindowWait(attempts, IP_MAX_REGISTRATIONS, IP_REGISTER_WINDOW_MS, now);
+    return wait > 0 ? blocked(wait, "Too many sign-ups from your network.") : ALLOWED;
+  }
+
+  private async checkPasswordReset(ip: string, email: string, exceptId: number): Promise<RateLimitDecision> {
+    const now = this.now();
+    const since = new Date(now - RESET_WINDOW_MS);
+    const outcomes: LoginAttemptOutcome[] = ["success", "failure"];
+
+    const ipAttempts = await this.store.count({ kind: "password_reset", outcomes, ip, since, exceptId });
+    const ipWait = slidingWindowWait(ipAttempts, IP_MAX_RESETS, RESET_WINDOW_MS, now);
+    if (ipWait > 0) return blocked(ipWait, "Too many password reset requests from your network.");
+
+    const emailAttempts = await this.store.count({
+      kind: "password_reset",
+      outcomes,
+      username: normalizeUsername(email),
+      since,
+      exceptId,
+    });
+    const emailWait = slidingWindowWait(emailAttempts, EMAIL_MAX_RESETS, RESET_WINDOW_MS, now);
+    return emailWait > 0 ? blocked(emailWait, "Too many password reset requests for this email.") : ALLOWED;
+  }
+}
+
+function createStoreFromEnv(): AttemptStore {
+  const store = process.env.RATE_LIMIT_STORE || "storage";
+  switch (store) {
+    case "storage":
+      return new StorageAttemptStore();
+    case "memory":
+      return new MemoryAttemptStore();
+    default:
+      throw new Error(`Unknown RATE_LIMIT_STORE "${store}", expected "storage" or "memory"`);
+  }
+}
+
+export const authRateLimiter = new AuthRateLimiter(createStoreFromEnv());
@@ -0,0 +1,36 @@
+// Route guards built on the role permissions in shared/permissions.ts
+import type { Request, Response, NextFunction } from "express";
+import { hasPermission, type Permission } from "@shared/permissions";
+import type { User } from "@shared/schema";
+import { storage } from "./storage";
+import { isTwoFactorRequired } from "./two-factor";
+
+// Middleware that lets the request through only if the signed-in user has
+// every listed permission, and has 2FA on when the site requires it for staff
+export function requirePermission(...permissions: Permission[]) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+
+    if (!permissions.every(permission => hasPermission(req.user, permission))) {
+      return res.status(403).json({ message: "You don't have permission to do that" });
+    }
+
+    try {
+      if (!req.user!.totpEnabledAt && await isTwoFactorRequired(req.user!)) {
+        return res.status(403).json({ message: "Turn on two-factor authentication in your profile to use admin tools" });
+      }
+    } catch (error) {
+      return next(error);
+    }
+
+    next();
+  };
+}
+
+// Gym managers may only edit the gyms assigned to them; gyms:manage_all covers every gym
+export async function canManageGym(user: User, gymId: number): Promise<boolean> {
+  if (hasPermission(user, "gyms:manage_all")) return true;
+  return hasPermission(user, "gyms:update") && await storage.isGymManager(user.id, gymId);
+}
@@ -0,0 +1,67 @@
+import { WebSocket } from "ws";
+
+// Registry of open /ws sockets. A user can be connected from several tabs
+// or devices at once, so each user maps to a set of sockets.
+const connectedClients = new Map<number, Set<WebSocket>>();
+
+// Register a socket, returning true if this is the user's first one (they came online)
+export function addClient(userId: number, ws: WebSocket): boolean {
+  let sockets = connectedClients.get(userId);
+  const cameOnline = !sockets || sockets.size === 0;
+
+  if (!sockets) {
+    sockets = new Set();
+    connectedClients.set(userId, sockets);
+  }
+  sockets.add(ws);
+
+  return cameOnline;
+}
+
+// Unregister a socket, returning true if it was the user's last one (they went offline)
+export function removeClient(userId: number, ws: WebSocket): boolean {
+  const sockets = connectedClients.get(userId);
+  if (!sockets || !sockets.delete(ws)) {
+    return false;
+  }
+
+  if (sockets.size === 0) {
+    connectedClients.delete(userId);
+    return true;
+  }
+
+  return false;
+}
+
+export function getUserSockets(userId: number): WebSocket[] {
+  return Array.from(connectedClients.get(userId) ?? []);
+}
+
+export function isUserOnline(userId: number): boolean {
+  return (connectedClients.get(userId)?.size ?? 0) > 0;
+}
+
+// Send an event to every open socket of a user
+export function sendToUser(userId: number, payload: object) {
+  const message = JSON.stringify(payload);
+
+  for (const ws of getUserSockets(userId)) {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(message);
+    }
+  }
+}
+
+// Close a user's sockets, optionally only those matching a predicate
+export function closeUserSockets(
+  userId: number,
+  code: number,
+  reason: string,
+  predicate: (ws: WebSocket) => boolean = () => true
+) {
+  for (const ws of getUserSockets(userId)) {
+    if (predicate(ws)) {
+      ws.close(code, reason);
+    }
+  }
+}
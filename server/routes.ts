@@ -1,13 +1,173 @@
-import type { Express } from "express";
-import { createServer, type Server } from "http";
+import express, { type Express, type Request, type Response } from "express";
+import { createServer, type Server, type IncomingMessage } from "http";
+import type { Duplex } from "stream";
 import { storage } from "./storage";
-import { setupAuth } from "./auth";
-import { insertGymSchema, insertUserMatchSchema, insertMessageSchema, Gym } from "@shared/schema";
+import { setupAuth, authEvents, toSafeUser } from "./auth";
+import { 
+  insertGymSchema, insertUserMatchSchema, insertMessageSchema, gymReviewFormSchema,
+  membershipPlanFormSchema, reportFormSchema, resolveReportSchema, updateUserRoleSchema, AuditLogFilters,
+  gymClaimFormSchema, reviewGymClaimSchema, gymAnnouncementFormSchema, GymClaim, GymClaimWithDetails,
+  securitySettingsSchema, createApiTokenSchema, insertAmenitySchema, mergeAmenitiesSchema, LOGIN_ATTEMPT_KINDS, LOGIN_ATTEMPT_OUTCOMES, LoginAttemptFilters,
+  Gym, GymExportResult, Message, GymReview, GymReviewSummary, RatingDistribution, UserReport, UserReportWithUsers, UserBlockWithUser
+} from "@shared/schema";
 import { WebSocketServer, WebSocket } from "ws";
 import multer from "multer";
-import { parse } from "csv-parse";
 import fs from "fs";
+import path from "path";
 import { db } from "./db"; // Import database connection
+import { isValidLatLng, toKilometres } from "./geo";
+import { addClient, removeClient, isUserOnline, sendToUser, closeUserSockets } from "./realtime";
+import { isOpenAt } from "@shared/opening-hours";
+import { toPublicProfile } from "./partner-matching";
+import { toMessageExcerpt } from "./moderation";
+import { recordAudit, auditActorFor } from "./audit";
+import { requirePermission, canManageGym } from "./rbac";
+import { getSecuritySettings, saveSecuritySettings, TWO_FACTOR_DISABLED } from "./two-factor";
+import { summarizePasswordHashes } from "./passwords";
+import { issueApiToken, toApiTokenSummary } from "./api-tokens";
+import { writeGymExport, isGymExportFormat, gymExportFileName, GYM_EXPORT_CONTENT_TYPES } from "./gym-export";
+import { parseGymFilters, GymFilterError, type GymFilters } from "./gym-filters";
+import { parseGymSearchOptions, searchGyms, type GymSearchOptions } from "./gym-search";
+import { cleanAmenityName, findAmenityConflict, mergedSynonyms } from "./amenities";
+import { enqueueJob, requestJobCancel, startJobWorker, toJobSummary, isJobFinished } from "./jobs";
+import { JOB_FILES_DIR, gymExportFilePath, type GymImportJobPayload, type GymExportJobPayload } from "./gym-jobs";
+import type { AmenityMergeJobPayload, AmenityRenameJobPayload } from "./amenity-jobs";
+// Registers the amenity job handlers
+import "./amenity-jobs";
+import { canGrantScope, hasPermission, isStaff } from "@shared/permissions";
+
+// How often WebSocket clients are pinged; a socket that misses a pong is dropped
+const HEARTBEAT_INTERVAL_MS = 30000;
+
+const DEFAULT_MESSAGE_PAGE_SIZE = 50;
+const MAX_MESSAGE_PAGE_SIZE = 100;
+
+const MAX_REVIEW_PHOTOS = 5;
+
+const MAX_GYM_IMAGE_UPLOADS = 5;
+const MAX_GYM_IMAGES = 20;
+
+// Gym managers can keep their listing fresh but not rename or move the gym
+const MANAGER_EDITABLE_GYM_FIELDS = ["images", "amenities", "openingHours", "holidayHours", "timezone"];
+
+// Claim documents can hold personal details, so they live outside the public uploads folder
+const CLAIM_DOCUMENTS_DIR = "claim-documents";
+
+// How many of a user's jobs GET /api/jobs returns
+const RECENT_JOBS_LIMIT = 20;
+
+const DEFAULT_RECOMMENDATION_LIMIT = 20;
+const MAX_RECOMMENDATION_LIMIT = 50;
+
+const MAX_API_TOKENS_PER_USER = 20;
+
+const DEFAULT_AUDIT_PAGE_SIZE = 50;
+const MAX_AUDIT_PAGE_SIZE = 100;
+
+// Average rating, count and star distribution for a gym's reviews
+function summarizeReviews(reviews: GymReview[]): GymReviewSummary {
+  const distribution: RatingDistribution = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+  let total = 0;
+  
+  for (const review of reviews) {
+    distribution[review.rating as keyof RatingDistribution]++;
+    total += review.rating;
+  }
+  
+  return {
+    average: reviews.length > 0 ? total / reviews.length : null,
+    count: reviews.length,
+    distribution
+  };
+}
+
+// Delete files multer stored for a request that ended up being rejected
+function removeUploadedFiles(files: Express.Multer.File[]) {
+  for (const file of files) {
+    try { fs.unlinkSync(file.path); } catch (e) { /* ignore error */ }
+  }
+}
+
+// IDs of the users someone has an accepted match with
+async function getAcceptedMatchUserIds(userId: number): Promise<number[]> {
+  const matches = await storage.getUserMatches(userId, "accepted");
+  return matches.map(match => match.senderId === userId ? match.receiverId : match.senderId);
+}
+
+// Attach reporter and reported user details for the admin moderation queue
+async function withReportUsers(report: UserReport, allReports: UserReport[]): Promise<UserReportWithUsers> {
+  const reporter = await storage.getUser(report.reporterId);
+  const reportedUser = await storage.getUser(report.reportedUserId);
+  
+  return {
+    ...report,
+    reporter: reporter ? { id: reporter.id, username: reporter.username, name: reporter.name } : null,
+    reportedUser: reportedUser
+      ? { id: reportedUser.id, username: reportedUser.username, name: reportedUser.name, isBanned: reportedUser.isBanned }
+      : null,
+    priorWarnings: allReports.filter(other => 
+      other.id !== report.id && other.reportedUserId === report.reportedUserId && other.status === "warned"
+    ).length
+  };
+}
+
+// A gym claim with its gym and claimant, minus the server-side document path
+async function withClaimDetails(claim: GymClaim): Promise<GymClaimWithDetails> {
+  const { documentPath, ...rest } = claim;
+  const gym = await storage.getGym(claim.gymId);
+  const claimant = await storage.getUser(claim.userId);
+  
+  return {
+    ...rest,
+    hasDocument: !!documentPath,
+    gym: gym ? { id: gym.id, name: gym.name } : null,
+    claimant: claimant
+      ? { id: claimant.id, username: claimant.username, name: claimant.name, email: claimant.email }
+      : null
+  };
+}
+
+// Tell senders that some of their messages moved to a new delivery state
+function notifyMessageStatus(updated: Message[]) {
+  const bySender = new Map<number, Message[]>();
+  for (const message of updated) {
+    bySender.set(message.senderId, [...(bySender.get(message.senderId) ?? []), message]);
+  }
+  
+  Array.from(bySender.entries()).forEach(([senderId, senderMessages]) => {
+    const [first] = senderMessages;
+    sendToUser(senderId, {
+      type: 'message_status',
+      receiverId: first.receiverId,
+      status: first.status,
+      at: first.status === 'read' ? first.readAt : first.deliveredAt,
+      messageIds: senderMessages.map(message => message.id)
+    });
+  });
+}
+
+// Push a stored message to its receiver; if they have a socket open it is delivered straight away
+async function deliverMessage(message: Message) {
+  sendToUser(message.receiverId, { type: 'new_message', message });
+  
+  if (isUserOnline(message.receiverId)) {
+    notifyMessageStatus(await storage.markMessagesAsDelivered(message.receiverId));
+  }
+}
+
+// Mark a conversation read, syncing the reader's devices and sending read receipts
+async function markConversationRead(readerId: number, senderId: number): Promise<Message[]> {
+  const readMessages = await storage.markMessagesAsRead(readerId, senderId);
+  
+  sendToUser(readerId, { 
+    type: 'messages_read', 
+    senderId,
+    readerId
+  });
+  notifyMessageStatus(readMessages);
+  
+  return readMessages;
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Initialize the database
@@ -16,7 +176,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     await (storage as any).seedInitialData();
   }
   // Set up authentication routes (/api/register, /api/login, /api/logout, /api/user)
-  setupAuth(app);
+  const sessionParser = setupAuth(app);
+  
+  // Run imports, exports and other background jobs in this process
+  startJobWorker();
   
   // Set up multer for file uploads
   const upload = multer({ 
@@ -24,6 +187,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     limits: { fileSize: 10 * 1024 * 1024 } // 10MB limit
   });
   
+  // Gym CSVs wait here until their import job has run; never served statically
+  const jobUpload = multer({ 
+    dest: `${JOB_FILES_DIR}/`,
+    limits: { fileSize: 50 * 1024 * 1024 } // 50MB limit
+  });
+  
+  // Claim documents are only ever served to admins, see GET /api/admin/gym-claims/:id/document
+  const claimUpload = multer({ 
+    dest: `${CLAIM_DOCUMENTS_DIR}/`,
+    limits: { fileSize: 10 * 1024 * 1024 } // 10MB limit
+  });
+  
+  // Serve uploaded photos (progress photos, review photos)
+  app.use('/uploads', express.static('uploads'));
+  
   // User profile routes
   // Update user profile
   app.put("/api/user/profile", async (req, res) => {
@@ -36,7 +214,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { 
         name, age, gender, bodyMeasurements, 
         fitnessGoals, gymPreferences, profilePic,
-        progressPhotos
+        progressPhotos, monthlyBudget, budgetCurrency
       } = req.body;
       
       // Get the current user first to ensure we have proper base values
@@ -64,6 +242,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       if (gender !== undefined) updateData.gender = gender;
       
+      // Budget is a monthly amount; null or an empty value clears it
+      if (monthlyBudget !== undefined) {
+        const budget = monthlyBudget === null || monthlyBudget === '' ? null : Number(monthlyBudget);
+        if (budget !== null && (isNaN(budget) || budget < 0)) {
+          return res.status(400).json({ message: "Monthly budget must be a non-negative number" });
+        }
+        updateData.monthlyBudget = budget;
+      }
+      
+      if (budgetCurrency !== undefined) {
+        if (typeof budgetCurrency !== 'string' || !/^[A-Za-z]{3}$/.test(budgetCurrency)) {
+          return res.status(400).json({ message: "Budget currency must be a 3-letter code like USD" });
+        }
+        updateData.budgetCurrency = budgetCurrency.toUpperCase();
+      }
+      
       // Handle bodyMeasurements as a JSON object
       if (bodyMeasurements !== undefined) {
         updateData.bodyMeasurements = typeof bodyMeasurements === 'string' 
@@ -198,13 +392,108 @@ export async function registerRoutes(app: Express): Promise<Server> {
       console.log(`- progressPhotos: ${JSON.stringify(responseUser.progressPhotos)}`);
       
       console.log(`User ${req.user.id} profile updated successfully`);
-      res.json(responseUser);
+      res.json(toSafeUser(responseUser));
     } catch (error) {
       console.error("Error updating user profile:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
   
+  // IDs of the gyms the current user manages as a gym manager
+  app.get("/api/user/managed-gyms", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+    
+    try {
+      res.json(await storage.getManagedGymIds(req.user.id));
+    } catch (error) {
+      console.error("Error fetching managed gyms:", error);
+      res.status(500).json({ message: "Failed to fetch managed gyms" });
+    }
+  });
+  
+  // Gym claims the current user has submitted, newest first
+  app.get("/api/user/gym-claims", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+    
+    try {
+      const claims = await storage.getGymClaims({ userId: req.user.id });
+      res.json(await Promise.all(claims.map(withClaimDetails)));
+    } catch (error) {
+      console.error("Error fetching gym claims:", error);
+      res.status(500).json({ message: "Failed to fetch gym claims" });
+    }
+  });
+  
+  // The current user's personal API tokens, newest first
+  app.get("/api/user/api-tokens", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+    
+    try {
+      const tokens = await storage.getApiTokens(req.user.id);
+      res.json(tokens.map(toApiTokenSummary));
+    } catch (error) {
+      console.error("Error fetching API tokens:", error);
+      res.status(500).json({ message: "Failed to fetch API tokens" });
+    }
+  });
+  
+  // Create a personal API token. The token is in the response once and can't be fetched again.
+  app.post("/api/user/api-tokens", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+    
+    const result = createApiTokenSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: "Invalid API token data", errors: result.error.format() });
+    }
+    
+    const deniedScope = result.data.scopes.find(scope => !canGrantScope(req.user, scope));
+    if (deniedScope) {
+      return res.status(403).json({ message: `Your role can't grant the ${deniedScope} scope` });
+    }
+    
+    try {
+      const existing = await storage.getApiTokens(req.user.id);
+      if (existing.length >= MAX_API_TOKENS_PER_USER) {
+        return res.status(400).json({ message: `You can have at most ${MAX_API_TOKENS_PER_USER} API tokens. Revoke one first.` });
+      }
+      
+      res.status(201).json(await issueApiToken(req.user, result.data));
+    } catch (error) {
+      console.error("Error creating API token:", error);
+      res.status(500).json({ message: "Failed to create API token" });
+    }
+  });
+  
+  // Revoke one of the current user's API tokens; it stops working straight away
+  app.delete("/api/user/api-tokens/:id", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+    
+    const tokenId = parseInt(req.params.id);
+    if (isNaN(tokenId)) {
+      return res.status(400).json({ message: "Invalid token ID" });
+    }
+    
+    try {
+      if (!(await storage.deleteApiToken(tokenId, req.user.id))) {
+        return res.status(404).json({ message: "API token not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error revoking API token:", error);
+      res.status(500).json({ message: "Failed to revoke API token" });
+    }
+  });
+  
   // Upload user photo
   app.post("/api/user/photos", upload.single('photo'), async (req, res) => {
     if (!req.isAuthenticated()) {
@@ -283,17 +572,98 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   // Gym routes
   // Get all gyms
+  // Query: openNow=true to only return gyms open right now in their own timezone
   app.get("/api/gyms", async (req, res) => {
     const gyms = await storage.getAllGyms();
+    
+    if (req.query.openNow === "true") {
+      const now = new Date();
+      return res.json(gyms.filter(gym => isOpenAt(gym, now) === true));
+    }
+    
     res.json(gyms);
   });
   
-  // Get nearby gyms
+  // The canonical amenity list, for filters and gym forms
+  app.get("/api/amenities", async (_req, res) => {
+    try {
+      res.json(await storage.getAllAmenities());
+    } catch (error) {
+      console.error("Error fetching amenities:", error);
+      res.status(500).json({ message: "Failed to fetch amenities" });
+    }
+  });
+  
+  // Get nearby gyms, nearest first
+  // Query: lat, lng (required), radius (default 10), unit ("km" or "mi", default "km")
   app.get("/api/gyms/nearby", async (req, res) => {
-    // For simplicity, we're not doing actual geolocation matching
-    // In a real app, you would use the user's location
-    const gyms = await storage.getAllGyms();
-    res.json(gyms);
+    const lat = parseFloat(req.query.lat as string);
+    const lng = parseFloat(req.query.lng as string);
+
+    if (!isValidLatLng(lat, lng)) {
+      return res.status(400).json({ message: "Valid lat and lng query parameters are required" });
+    }
+
+    const unit = (req.query.unit as string | undefined) ?? "km";
+    if (unit !== "km" && unit !== "mi") {
+      return res.status(400).json({ message: "Invalid unit. Use 'km' or 'mi'" });
+    }
+
+    const radius = req.query.radius !== undefined ? parseFloat(req.query.radius as string) : 10;
+    if (isNaN(radius) || radius <= 0) {
+      return res.status(400).json({ message: "Radius must be a positive number" });
+    }
+
+    try {
+      const gyms = await storage.getNearbyGyms(lat, lng, toKilometres(radius, unit));
+      res.json(gyms);
+    } catch (error) {
+      console.error("Error fetching nearby gyms:", error);
+      res.status(500).json({ message: "Failed to fetch nearby gyms" });
+    }
+  });
+
+  // Search gyms, a page at a time, with amenity counts for the filter chips.
+  // Query: the shared gym filters (q, amenity, minRating, openNow, lat, lng, radius, unit),
+  // managed=true for only the gyms the signed-in manager looks after, saved=true
+  // for only their saved gyms, and sort, limit, cursor and maxPrice.
+  // Signed-in users get match scores and prices.
+  app.get("/api/gyms/search", async (req, res) => {
+    const userId = req.isAuthenticated() ? req.user.id : undefined;
+    
+    let filters: GymFilters;
+    let options: GymSearchOptions;
+    try {
+      filters = parseGymFilters(req.query);
+      options = parseGymSearchOptions(req.query, filters, userId !== undefined);
+    } catch (error) {
+      if (error instanceof GymFilterError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error parsing gym search:", error);
+      return res.status(500).json({ message: "Failed to search gyms" });
+    }
+    
+    const isManaged = req.query.managed === "true";
+    const isSaved = req.query.saved === "true";
+    if ((isManaged || isSaved) && !req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+    
+    try {
+      if (isManaged && !hasPermission(req.user, "gyms:manage_all")) {
+        filters.gymIds = await storage.getManagedGymIds(req.user!.id);
+      }
+      if (isSaved) {
+        const savedGymIds = (await storage.getSavedGymsByUser(req.user!.id)).map(saved => saved.gymId);
+        filters.gymIds = filters.gymIds ? filters.gymIds.filter(id => savedGymIds.includes(id)) : savedGymIds;
+      }
+      
+      res.json(await searchGyms(filters, options, userId));
+    } catch (error) {
+      console.error("Error searching gyms:", error);
+      res.status(500).json({ message: "Failed to search gyms" });
+    }
   });
 
   // Get a specific gym
@@ -308,113 +678,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(gym);
   });
 
-  // Import gyms from CSV file (admin only)
-  app.post("/api/gyms/import-csv", upload.single('file'), async (req, res) => {
-    console.log("Import CSV, user:", req.user);
-    
-    if (!req.isAuthenticated() || 
-        (!req.user?.isAdmin && req.user?.username !== 'admin2')) {
-      return res.status(403).json({ message: "Admin access required" });
-    }
-    
+  // Import gyms from a CSV file as a background job; responds 202 with the job
+  // to poll at GET /api/jobs/:id. Rows matching an existing gym by name and
+  // location update it. With ?dryRun=true nothing is written and the job's
+  // result previews what each row would do.
+  app.post("/api/gyms/import", requirePermission("gyms:import"), jobUpload.single('file'), async (req, res) => {
     if (!req.file) {
       return res.status(400).json({ message: "No file uploaded" });
     }
     
+    const dryRun = req.query.dryRun === "true";
+    
     try {
-      const filePath = req.file.path;
-      console.log(`Processing CSV file: ${filePath}`);
-      
-      const results: Gym[] = [];
-      const errors: any[] = [];
-      
-      const parser = fs.createReadStream(filePath)
-        .pipe(parse({
-          columns: true,
-          skip_empty_lines: true
-        }));
-      
-      let processedCount = 0;
-      let errorCount = 0;
-      
-      for await (const record of parser) {
-        try {
-          // Transform CSV data to match gym schema
-          const gymData: any = {
-            name: record.name,
-            location: {
-              lat: parseFloat(record.latitude || 0),
-              lng: parseFloat(record.longitude || 0),
-              address: record.address || '',
-              city: record.city || '',
-              state: record.state || '',
-              zipCode: record.zipCode || ''
-            },
-            amenities: record.amenities ? record.amenities.split(',').map((a: string) => a.trim()) : [],
-            images: record.images ? record.images.split(',').map((i: string) => i.trim()) : [],
-            rating: parseFloat(record.rating || 0),
-            addedBy: req.user.id
-          };
-          
-          // Validate data
-          const parseResult = insertGymSchema.safeParse(gymData);
-          if (!parseResult.success) {
-            console.error(`Validation error for row ${processedCount + 1}:`, parseResult.error.format());
-            errors.push({ 
-              row: processedCount + 1, 
-              errors: parseResult.error.format(),
-              data: record
-            });
-            errorCount++;
-            continue;
-          }
-          
-          // Create gym
-          const newGym = await storage.createGym(parseResult.data);
-          results.push(newGym);
-          processedCount++;
-          
-        } catch (error) {
-          console.error(`Error processing row ${processedCount + 1}:`, error);
-          errors.push({ 
-            row: processedCount + 1, 
-            error: String(error),
-            data: record
-          });
-          errorCount++;
-        }
-      }
-      
-      // Clean up the uploaded file
-      fs.unlinkSync(filePath);
-      
-      res.status(200).json({
-        success: true,
-        message: `Processed ${processedCount + errorCount} records. ${processedCount} gyms imported, ${errorCount} errors.`,
-        imported: results,
-        errors: errors
-      });
+      const payload: GymImportJobPayload = {
+        filePath: req.file.path,
+        fileName: req.file.originalname,
+        dryRun,
+        actor: auditActorFor(req)
+      };
+      const description = `${dryRun ? "Check" : "Import"} ${req.file.originalname}`;
+      const job = await enqueueJob("gym.import", description, req.user!.id, payload);
       
+      res.status(202).json(toJobSummary(job));
     } catch (error) {
-      console.error("Error processing CSV:", error);
-      res.status(500).json({ 
-        success: false,
-        message: "Failed to process CSV file",
-        error: String(error)
-      });
+      console.error("Error queueing gym import:", error);
+      fs.unlink(req.file.path, () => {});
+      res.status(500).json({ message: "Failed to import gyms" });
     }
   });
   
-  // Create a new gym (admin only)
-  app.post("/api/gyms", async (req, res) => {
-    console.log("Creating gym, user:", req.user);
-    
-    // Always allow admin2 user to create gyms (for testing)
-    if (!req.isAuthenticated() || 
-        (!req.user?.isAdmin && req.user?.username !== 'admin2')) {
-      return res.status(403).json({ message: "Admin access required" });
-    }
-    
+  // Create a new gym
+  app.post("/api/gyms", requirePermission("gyms:create"), async (req, res) => {
     console.log("Processing gym creation with body:", req.body);
     
     const parseResult = insertGymSchema.safeParse(req.body);
@@ -430,12 +724,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     console.log("Validated gym data:", gymData);
     
     // Set the current user as the one who added this gym
-    gymData.addedBy = req.user.id;
+    gymData.addedBy = req.user!.id;
     
     try {
       console.log("Calling storage.createGym with:", gymData);
       const newGym = await storage.createGym(gymData);
       console.log("New gym created:", newGym);
+      await recordAudit(req, { action: "gym.create", targetType: "gym", targetId: newGym.id, after: newGym });
       res.status(201).json(newGym);
     } catch (error) {
       console.error("Error creating gym:", error);
@@ -443,60 +738,685 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Update a gym (admin only)
-  app.put("/api/gyms/:id", async (req, res) => {
-    if (!req.isAuthenticated() || !req.user?.isAdmin) {
-      return res.status(403).json({ message: "Admin access required" });
+  // Update a gym (gym managers only for their assigned gyms)
+  app.put("/api/gyms/:id", requirePermission("gyms:update"), async (req, res) => {
+    const gymId = parseInt(req.params.id);
+    if (isNaN(gymId)) {
+      return res.status(400).json({ message: "Invalid gym ID" });
     }
     
+    try {
+      if (!(await canManageGym(req.user!, gymId))) {
+        return res.status(403).json({ message: "You can only manage gyms assigned to you" });
+      }
+      
+      // Ratings are aggregated from reviews and amenity IDs follow from the
+      // amenity names, so neither can be set directly
+      const { rating, reviewCount, amenityIds, ...gymData } = req.body;
+      
+      if (!hasPermission(req.user, "gyms:manage_all")) {
+        const lockedFields = Object.keys(gymData).filter(field => !MANAGER_EDITABLE_GYM_FIELDS.includes(field));
+        if (lockedFields.length > 0) {
+          return res.status(403).json({ message: `Gym managers can't change ${lockedFields.join(", ")}` });
+        }
+      }
+      
+      const hoursResult = insertGymSchema
+        .pick({ openingHours: true, holidayHours: true, timezone: true })
+        .safeParse(gymData);
+      if (!hoursResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid opening hours", 
+          errors: hoursResult.error.format() 
+        });
+      }
+      
+      const existingGym = await storage.getGym(gymId);
+      if (!existingGym) {
+        return res.status(404).json({ message: "Gym not found" });
+      }
+      
+      const updatedGym = await storage.updateGym(gymId, gymData);
+      
+      if (!updatedGym) {
+        return res.status(404).json({ message: "Gym not found" });
+      }
+      
+      await recordAudit(req, { action: "gym.update", targetType: "gym", targetId: gymId, before: existingGym, after: updatedGym });
+      res.json(updatedGym);
+    } catch (error) {
+      console.error("Error updating gym:", error);
+      res.status(500).json({ message: "Failed to update gym" });
+    }
+  });
+
+  // Delete a gym
+  app.delete("/api/gyms/:id", requirePermission("gyms:delete"), async (req, res) => {
     const gymId = parseInt(req.params.id);
-    const updatedGym = await storage.updateGym(gymId, req.body);
-    
-    if (!updatedGym) {
-      return res.status(404).json({ message: "Gym not found" });
+    if (isNaN(gymId)) {
+      return res.status(400).json({ message: "Invalid gym ID" });
     }
     
-    res.json(updatedGym);
+    try {
+      const gym = await storage.getGym(gymId);
+      const success = gym ? await storage.deleteGym(gymId) : false;
+      
+      if (!gym || !success) {
+        return res.status(404).json({ message: "Gym not found" });
+      }
+      
+      await recordAudit(req, { action: "gym.delete", targetType: "gym", targetId: gymId, before: gym });
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting gym:", error);
+      res.status(500).json({ message: "Failed to delete gym" });
+    }
   });
 
-  // Delete a gym (admin only)
-  app.delete("/api/gyms/:id", async (req, res) => {
-    if (!req.isAuthenticated() || !req.user?.isAdmin) {
-      return res.status(403).json({ message: "Admin access required" });
+  // Membership plan routes
+  // Get a gym's membership plans, cheapest first
+  app.get("/api/gyms/:id/plans", async (req, res) => {
+    const gymId = parseInt(req.params.id);
+    if (isNaN(gymId)) {
+      return res.status(400).json({ message: "Invalid gym ID" });
     }
     
+    try {
+      const gym = await storage.getGym(gymId);
+      if (!gym) {
+        return res.status(404).json({ message: "Gym not found" });
+      }
+      
+      const plans = await storage.getMembershipPlans(gymId);
+      res.json(plans);
+    } catch (error) {
+      console.error("Error fetching membership plans:", error);
+      res.status(500).json({ message: "Failed to fetch membership plans" });
+    }
+  });
+  
+  // Add a membership plan to a gym (gym managers only for their assigned gyms)
+  app.post("/api/gyms/:id/plans", requirePermission("gyms:update"), async (req, res) => {
     const gymId = parseInt(req.params.id);
-    const success = await storage.deleteGym(gymId);
+    if (isNaN(gymId)) {
+      return res.status(400).json({ message: "Invalid gym ID" });
+    }
     
-    if (!success) {
-      return res.status(404).json({ message: "Gym not found" });
+    try {
+      if (!(await canManageGym(req.user!, gymId))) {
+        return res.status(403).json({ message: "You can only manage gyms assigned to you" });
+      }
+      
+      const gym = await storage.getGym(gymId);
+      if (!gym) {
+        return res.status(404).json({ message: "Gym not found" });
+      }
+      
+      const parseResult = membershipPlanFormSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid membership plan", 
+          errors: parseResult.error.format() 
+        });
+      }
+      
+      const plan = await storage.createMembershipPlan({ ...parseResult.data, gymId });
+      await recordAudit(req, { action: "membership_plan.create", targetType: "membership_plan", targetId: plan.id, after: plan });
+      res.status(201).json(plan);
+    } catch (error) {
+      console.error("Error creating membership plan:", error);
+      res.status(500).json({ message: "Failed to create membership plan" });
+    }
+  });
+  
+  // Update one of a gym's membership plans (gym managers only for their assigned gyms)
+  app.put("/api/gyms/:id/plans/:planId", requirePermission("gyms:update"), async (req, res) => {
+    const gymId = parseInt(req.params.id);
+    const planId = parseInt(req.params.planId);
+    if (isNaN(gymId) || isNaN(planId)) {
+      return res.status(400).json({ message: "Invalid gym or plan ID" });
     }
     
-    res.status(204).send();
+    try {
+      if (!(await canManageGym(req.user!, gymId))) {
+        return res.status(403).json({ message: "You can only manage gyms assigned to you" });
+      }
+      
+      const plan = await storage.getMembershipPlan(planId);
+      if (!plan || plan.gymId !== gymId) {
+        return res.status(404).json({ message: "Membership plan not found" });
+      }
+      
+      const parseResult = membershipPlanFormSchema.partial().safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid membership plan", 
+          errors: parseResult.error.format() 
+        });
+      }
+      
+      const updatedPlan = await storage.updateMembershipPlan(plan.id, parseResult.data);
+      await recordAudit(req, {
+        action: "membership_plan.update",
+        targetType: "membership_plan",
+        targetId: plan.id,
+        before: plan,
+        after: updatedPlan
+      });
+      res.json(updatedPlan);
+    } catch (error) {
+      console.error("Error updating membership plan:", error);
+      res.status(500).json({ message: "Failed to update membership plan" });
+    }
   });
-
-  // Matching routes
-  // Get matches for current user
-  app.get("/api/matches", async (req, res) => {
-    if (!req.isAuthenticated()) {
-      return res.status(401).json({ message: "Authentication required" });
+  
+  // Delete one of a gym's membership plans (gym managers only for their assigned gyms)
+  app.delete("/api/gyms/:id/plans/:planId", requirePermission("gyms:update"), async (req, res) => {
+    const gymId = parseInt(req.params.id);
+    const planId = parseInt(req.params.planId);
+    if (isNaN(gymId) || isNaN(planId)) {
+      return res.status(400).json({ message: "Invalid gym or plan ID" });
     }
     
-    const matches = await storage.getMatchesForUser(req.user.id);
-    res.json(matches);
+    try {
+      if (!(await canManageGym(req.user!, gymId))) {
+        return res.status(403).json({ message: "You can only manage gyms assigned to you" });
+      }
+      
+      const plan = await storage.getMembershipPlan(planId);
+      if (!plan || plan.gymId !== gymId) {
+        return res.status(404).json({ message: "Membership plan not found" });
+      }
+      
+      await storage.deleteMembershipPlan(plan.id);
+      await recordAudit(req, { action: "membership_plan.delete", targetType: "membership_plan", targetId: plan.id, before: plan });
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting membership plan:", error);
+      res.status(500).json({ message: "Failed to delete membership plan" });
+    }
   });
 
-  // Save a gym for a user
-  app.post("/api/saved-gyms", async (req, res) => {
-    if (!req.isAuthenticated()) {
-      return res.status(401).json({ message: "Authentication required" });
+  // Add photos to a gym's listing (gym managers only for their assigned gyms)
+  app.post("/api/gyms/:id/images", requirePermission("gyms:update"), upload.array('images', MAX_GYM_IMAGE_UPLOADS), async (req, res) => {
+    const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+    const gymId = parseInt(req.params.id);
+    if (isNaN(gymId)) {
+      removeUploadedFiles(files);
+      return res.status(400).json({ message: "Invalid gym ID" });
     }
     
-    const { gymId, matchScore } = req.body;
-    
-    if (!gymId) {
-      return res.status(400).json({ message: "Gym ID is required" });
-    }
+    try {
+      if (!(await canManageGym(req.user!, gymId))) {
+        removeUploadedFiles(files);
+        return res.status(403).json({ message: "You can only manage gyms assigned to you" });
+      }
+      
+      const gym = await storage.getGym(gymId);
+      if (!gym) {
+        removeUploadedFiles(files);
+        return res.status(404).json({ message: "Gym not found" });
+      }
+      
+      if (files.length === 0) {
+        return res.status(400).json({ message: "No images uploaded" });
+      }
+      
+      if (files.some(file => !file.mimetype.startsWith("image/"))) {
+        removeUploadedFiles(files);
+        return res.status(400).json({ message: "Gym photos must be images" });
+      }
+      
+      const images = [...(gym.images ?? []), ...files.map(file => `/uploads/${file.filename}`)];
+      if (images.length > MAX_GYM_IMAGES) {
+        removeUploadedFiles(files);
+        return res.status(400).json({ message: `A gym can have at most ${MAX_GYM_IMAGES} photos` });
+      }
+      
+      const updatedGym = await storage.updateGym(gymId, { images });
+      await recordAudit(req, { action: "gym.update", targetType: "gym", targetId: gymId, before: gym, after: updatedGym });
+      res.json(updatedGym);
+    } catch (error) {
+      removeUploadedFiles(files);
+      console.error("Error adding gym images:", error);
+      res.status(500).json({ message: "Failed to add gym images" });
+    }
+  });
+  
+  // Gym claim routes
+  // Ask to manage a gym's listing, with proof text and/or a supporting document
+  app.post("/api/gyms/:id/claims", claimUpload.single('document'), async (req, res) => {
+    const files = req.file ? [req.file] : [];
+    
+    if (!req.isAuthenticated()) {
+      removeUploadedFiles(files);
+      return res.status(401).json({ message: "Authentication required" });
+    }
+    
+    const gymId = parseInt(req.params.id);
+    if (isNaN(gymId)) {
+      removeUploadedFiles(files);
+      return res.status(400).json({ message: "Invalid gym ID" });
+    }
+    
+    try {
+      const gym = await storage.getGym(gymId);
+      if (!gym) {
+        removeUploadedFiles(files);
+        return res.status(404).json({ message: "Gym not found" });
+      }
+      
+      if (req.file && !req.file.mimetype.startsWith("image/") && req.file.mimetype !== "application/pdf") {
+        removeUploadedFiles(files);
+        return res.status(400).json({ message: "Proof documents must be a PDF or an image" });
+      }
+      
+      const parseResult = gymClaimFormSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        removeUploadedFiles(files);
+        return res.status(400).json({ 
+          message: "Invalid claim", 
+          errors: parseResult.error.format() 
+        });
+      }
+      
+      const proofText = parseResult.data.proofText || null;
+      if (!proofText && !req.file) {
+        return res.status(400).json({ message: "Tell us how you're connected to this gym or attach a document" });
+      }
+      
+      if (await canManageGym(req.user, gymId)) {
+        removeUploadedFiles(files);
+        return res.status(409).json({ message: "You already manage this gym" });
+      }
+      
+      const pendingClaims = await storage.getGymClaims({ status: "pending", userId: req.user.id });
+      if (pendingClaims.some(claim => claim.gymId === gymId)) {
+        removeUploadedFiles(files);
+        return res.status(409).json({ message: "You already have a pending claim for this gym" });
+      }
+      
+      const claim = await storage.createGymClaim({
+        gymId,
+        userId: req.user.id,
+        proofText,
+        documentPath: req.file?.path ?? null,
+        documentName: req.file?.originalname ?? null
+      });
+      res.status(201).json(await withClaimDetails(claim));
+    } catch (error) {
+      removeUploadedFiles(files);
+      console.error("Error creating gym claim:", error);
+      res.status(500).json({ message: "Failed to submit claim" });
+    }
+  });
+  
+  // Gym announcement routes
+  // Get a gym's announcements, newest first
+  app.get("/api/gyms/:id/announcements", async (req, res) => {
+    const gymId = parseInt(req.params.id);
+    if (isNaN(gymId)) {
+      return res.status(400).json({ message: "Invalid gym ID" });
+    }
+    
+    try {
+      const gym = await storage.getGym(gymId);
+      if (!gym) {
+        return res.status(404).json({ message: "Gym not found" });
+      }
+      
+      res.json(await storage.getGymAnnouncements(gymId));
+    } catch (error) {
+      console.error("Error fetching gym announcements:", error);
+      res.status(500).json({ message: "Failed to fetch announcements" });
+    }
+  });
+  
+  // Post an announcement on a gym's listing (gym managers only for their assigned gyms)
+  app.post("/api/gyms/:id/announcements", requirePermission("gyms:update"), async (req, res) => {
+    const gymId = parseInt(req.params.id);
+    if (isNaN(gymId)) {
+      return res.status(400).json({ message: "Invalid gym ID" });
+    }
+    
+    try {
+      if (!(await canManageGym(req.user!, gymId))) {
+        return res.status(403).json({ message: "You can only manage gyms assigned to you" });
+      }
+      
+      const gym = await storage.getGym(gymId);
+      if (!gym) {
+        return res.status(404).json({ message: "Gym not found" });
+      }
+      
+      const parseResult = gymAnnouncementFormSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid announcement", 
+          errors: parseResult.error.format() 
+        });
+      }
+      
+      const announcement = await storage.createGymAnnouncement({ ...parseResult.data, gymId, authorId: req.user!.id });
+      await recordAudit(req, {
+        action: "gym_announcement.create",
+        targetType: "gym_announcement",
+        targetId: announcement.id,
+        after: announcement
+      });
+      res.status(201).json(announcement);
+    } catch (error) {
+      console.error("Error creating gym announcement:", error);
+      res.status(500).json({ message: "Failed to create announcement" });
+    }
+  });
+  
+  // Edit one of a gym's announcements (gym managers only for their assigned gyms)
+  app.put("/api/gyms/:id/announcements/:announcementId", requirePermission("gyms:update"), async (req, res) => {
+    const gymId = parseInt(req.params.id);
+    const announcementId = parseInt(req.params.announcementId);
+    if (isNaN(gymId) || isNaN(announcementId)) {
+      return res.status(400).json({ message: "Invalid gym or announcement ID" });
+    }
+    
+    try {
+      if (!(await canManageGym(req.user!, gymId))) {
+        return res.status(403).json({ message: "You can only manage gyms assigned to you" });
+      }
+      
+      const announcement = await storage.getGymAnnouncement(announcementId);
+      if (!announcement || announcement.gymId !== gymId) {
+        return res.status(404).json({ message: "Announcement not found" });
+      }
+      
+      const parseResult = gymAnnouncementFormSchema.partial().safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid announcement", 
+          errors: parseResult.error.format() 
+        });
+      }
+      
+      const updatedAnnouncement = await storage.updateGymAnnouncement(announcement.id, parseResult.data);
+      await recordAudit(req, {
+        action: "gym_announcement.update",
+        targetType: "gym_announcement",
+        targetId: announcement.id,
+        before: announcement,
+        after: updatedAnnouncement
+      });
+      res.json(updatedAnnouncement);
+    } catch (error) {
+      console.error("Error updating gym announcement:", error);
+      res.status(500).json({ message: "Failed to update announcement" });
+    }
+  });
+  
+  // Remove one of a gym's announcements (gym managers only for their assigned gyms)
+  app.delete("/api/gyms/:id/announcements/:announcementId", requirePermission("gyms:update"), async (req, res) => {
+    const gymId = parseInt(req.params.id);
+    const announcementId = parseInt(req.params.announcementId);
+    if (isNaN(gymId) || isNaN(announcementId)) {
+      return res.status(400).json({ message: "Invalid gym or announcement ID" });
+    }
+    
+    try {
+      if (!(await canManageGym(req.user!, gymId))) {
+        return res.status(403).json({ message: "You can only manage gyms assigned to you" });
+      }
+      
+      const announcement = await storage.getGymAnnouncement(announcementId);
+      if (!announcement || announcement.gymId !== gymId) {
+        return res.status(404).json({ message: "Announcement not found" });
+      }
+      
+      await storage.deleteGymAnnouncement(announcement.id);
+      await recordAudit(req, {
+        action: "gym_announcement.delete",
+        targetType: "gym_announcement",
+        targetId: announcement.id,
+        before: announcement
+      });
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting gym announcement:", error);
+      res.status(500).json({ message: "Failed to remove announcement" });
+    }
+  });
+
+  // Gym review routes
+  // Get a gym's reviews along with its rating summary
+  app.get("/api/gyms/:id/reviews", async (req, res) => {
+    const gymId = parseInt(req.params.id);
+    if (isNaN(gymId)) {
+      return res.status(400).json({ message: "Invalid gym ID" });
+    }
+    
+    try {
+      const gym = await storage.getGym(gymId);
+      if (!gym) {
+        return res.status(404).json({ message: "Gym not found" });
+      }
+      
+      const reviews = await storage.getGymReviews(gymId);
+      res.json({ summary: summarizeReviews(reviews), reviews });
+    } catch (error) {
+      console.error("Error fetching gym reviews:", error);
+      res.status(500).json({ message: "Failed to fetch reviews" });
+    }
+  });
+  
+  // Review a gym (one review per user per gym), with optional photos
+  app.post("/api/gyms/:id/reviews", upload.array('photos', MAX_REVIEW_PHOTOS), async (req, res) => {
+    const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+    
+    if (!req.isAuthenticated()) {
+      removeUploadedFiles(files);
+      return res.status(401).json({ message: "Authentication required" });
+    }
+    
+    const gymId = parseInt(req.params.id);
+    if (isNaN(gymId)) {
+      removeUploadedFiles(files);
+      return res.status(400).json({ message: "Invalid gym ID" });
+    }
+    
+    try {
+      const gym = await storage.getGym(gymId);
+      if (!gym) {
+        removeUploadedFiles(files);
+        return res.status(404).json({ message: "Gym not found" });
+      }
+      
+      if (files.some(file => !file.mimetype.startsWith("image/"))) {
+        removeUploadedFiles(files);
+        return res.status(400).json({ message: "Review photos must be images" });
+      }
+      
+      const parseResult = gymReviewFormSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        removeUploadedFiles(files);
+        return res.status(400).json({ 
+          message: "Invalid review data", 
+          errors: parseResult.error.format() 
+        });
+      }
+      
+      const existingReview = await storage.getGymReviewByUser(gymId, req.user.id);
+      if (existingReview) {
+        removeUploadedFiles(files);
+        return res.status(409).json({ message: "You have already reviewed this gym" });
+      }
+      
+      const review = await storage.createGymReview({
+        ...parseResult.data,
+        gymId,
+        userId: req.user.id,
+        photos: files.map(file => `/uploads/${file.filename}`)
+      });
+      res.status(201).json(review);
+    } catch (error) {
+      removeUploadedFiles(files);
+      console.error("Error creating gym review:", error);
+      res.status(500).json({ message: "Failed to create review" });
+    }
+  });
+  
+  // Edit your own review. `keepPhotos` (JSON array of URLs) lists the existing
+  // photos to keep; when it's omitted all existing photos are kept.
+  app.put("/api/gym-reviews/:id", upload.array('photos', MAX_REVIEW_PHOTOS), async (req, res) => {
+    const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+    
+    if (!req.isAuthenticated()) {
+      removeUploadedFiles(files);
+      return res.status(401).json({ message: "Authentication required" });
+    }
+    
+    const reviewId = parseInt(req.params.id);
+    if (isNaN(reviewId)) {
+      removeUploadedFiles(files);
+      return res.status(400).json({ message: "Invalid review ID" });
+    }
+    
+    try {
+      const review = await storage.getGymReview(reviewId);
+      if (!review) {
+        removeUploadedFiles(files);
+        return res.status(404).json({ message: "Review not found" });
+      }
+      
+      if (review.userId !== req.user.id) {
+        removeUploadedFiles(files);
+        return res.status(403).json({ message: "You can only edit your own reviews" });
+      }
+      
+      if (files.some(file => !file.mimetype.startsWith("image/"))) {
+        removeUploadedFiles(files);
+        return res.status(400).json({ message: "Review photos must be images" });
+      }
+      
+      // An empty visit date clears it
+      const body = { ...req.body, visitDate: req.body.visitDate === "" ? null : req.body.visitDate };
+      const parseResult = gymReviewFormSchema.partial().safeParse(body);
+      if (!parseResult.success) {
+        removeUploadedFiles(files);
+        return res.status(400).json({ 
+          message: "Invalid review data", 
+          errors: parseResult.error.format() 
+        });
+      }
+      
+      let keptPhotos = review.photos ?? [];
+      if (req.body.keepPhotos !== undefined) {
+        try {
+          const keep: unknown = JSON.parse(req.body.keepPhotos);
+          keptPhotos = keptPhotos.filter(photo => Array.isArray(keep) && keep.includes(photo));
+        } catch {
+          removeUploadedFiles(files);
+          return res.status(400).json({ message: "keepPhotos must be a JSON array" });
+        }
+      }
+      
+      const photos = [...keptPhotos, ...files.map(file => `/uploads/${file.filename}`)];
+      if (photos.length > MAX_REVIEW_PHOTOS) {
+        removeUploadedFiles(files);
+        return res.status(400).json({ message: `A review can have at most ${MAX_REVIEW_PHOTOS} photos` });
+      }
+      
+      const updatedReview = await storage.updateGymReview(reviewId, { ...parseResult.data, photos });
+      res.json(updatedReview);
+    } catch (error) {
+      removeUploadedFiles(files);
+      console.error("Error updating gym review:", error);
+      res.status(500).json({ message: "Failed to update review" });
+    }
+  });
+  
+  // Delete a review (its author or an admin)
+  app.delete("/api/gym-reviews/:id", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+    
+    const reviewId = parseInt(req.params.id);
+    if (isNaN(reviewId)) {
+      return res.status(400).json({ message: "Invalid review ID" });
+    }
+    
+    try {
+      const review = await storage.getGymReview(reviewId);
+      if (!review) {
+        return res.status(404).json({ message: "Review not found" });
+      }
+      
+      if (review.userId !== req.user.id && !hasPermission(req.user, "reviews:moderate")) {
+        return res.status(403).json({ message: "You can only delete your own reviews" });
+      }
+      
+      await storage.deleteGymReview(reviewId);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting gym review:", error);
+      res.status(500).json({ message: "Failed to delete review" });
+    }
+  });
+
+  // Matching routes
+  // Get matches for current user, each with the breakdown behind its score
+  // Query: maxPrice (monthly, in the user's budget currency), sort ("score" or "price", default "score"),
+  // lat and lng (optional, together) to score gyms by distance
+  app.get("/api/matches", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+    
+    const maxPrice = req.query.maxPrice !== undefined ? parseFloat(req.query.maxPrice as string) : undefined;
+    if (maxPrice !== undefined && (isNaN(maxPrice) || maxPrice < 0)) {
+      return res.status(400).json({ message: "maxPrice must be a non-negative number" });
+    }
+    
+    const sort = (req.query.sort as string | undefined) ?? "score";
+    if (sort !== "score" && sort !== "price") {
+      return res.status(400).json({ message: "Invalid sort. Use 'score' or 'price'" });
+    }
+    
+    let origin: { lat: number; lng: number } | undefined;
+    if (req.query.lat !== undefined || req.query.lng !== undefined) {
+      const lat = parseFloat(req.query.lat as string);
+      const lng = parseFloat(req.query.lng as string);
+      if (!isValidLatLng(lat, lng)) {
+        return res.status(400).json({ message: "lat and lng must be valid coordinates" });
+      }
+      origin = { lat, lng };
+    }
+    
+    let matches = await storage.getMatchesForUser(req.user.id, { origin });
+    
+    // Prices are in the user's budget currency; gyms without a plan in it can't be compared
+    if (maxPrice !== undefined) {
+      matches = matches.filter(gym => gym.lowestMonthlyPrice !== null && gym.lowestMonthlyPrice <= maxPrice);
+    }
+    
+    if (sort === "price") {
+      matches = [...matches].sort((a, b) =>
+        (a.lowestMonthlyPrice ?? Infinity) - (b.lowestMonthlyPrice ?? Infinity) || b.matchScore - a.matchScore
+      );
+    }
+    
+    res.json(matches);
+  });
+
+  // Save a gym for a user
+  app.post("/api/saved-gyms", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+    
+    const { gymId, matchScore } = req.body;
+    
+    if (!gymId) {
+      return res.status(400).json({ message: "Gym ID is required" });
+    }
     
     // Check if gym exists
     const gym = await storage.getGym(parseInt(gymId));
@@ -552,26 +1472,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Admin routes
-  // Get all users (admin only)
-  app.get("/api/admin/users", async (req, res) => {
-    if (!req.isAuthenticated() || !req.user?.isAdmin) {
-      return res.status(403).json({ message: "Admin access required" });
-    }
-    
+  // Get all users
+  app.get("/api/admin/users", requirePermission("users:manage"), async (req, res) => {
     const users = await storage.getAllUsers();
     
-    // Remove passwords from the response
-    const safeUsers = users.map(({ password, ...user }) => user);
-    
-    res.json(safeUsers);
+    // Remove passwords and 2FA secrets from the response
+    res.json(users.map(toSafeUser));
   });
   
-  // Delete user (admin only)
-  app.delete("/api/admin/users/:id", async (req, res) => {
-    if (!req.isAuthenticated() || !req.user?.isAdmin) {
-      return res.status(403).json({ message: "Admin access required" });
-    }
-    
+  // Delete user
+  app.delete("/api/admin/users/:id", requirePermission("users:manage"), async (req, res) => {
     const userId = parseInt(req.params.id);
     console.log(`Admin attempting to delete user ID: ${userId}`);
     
@@ -582,10 +1492,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return res.status(404).json({ message: "User not found" });
     }
     
-    console.log(`Found user to delete: ${user.username}, isAdmin: ${user.isAdmin}`);
+    console.log(`Found user to delete: ${user.username}, role: ${user.role}`);
     
     // Don't allow deleting other admins
-    if (user.isAdmin) {
+    if (user.role === "super_admin") {
       console.log(`Cannot delete admin user: ${user.username}`);
       return res.status(403).json({ message: "Cannot delete admin users" });
     }
@@ -606,6 +1516,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
         
         console.log(`User ${user.username} successfully deleted`);
+        await recordAudit(req, { action: "user.delete", targetType: "user", targetId: userId, before: user });
         return res.status(200).json({ message: "User deleted successfully" });
       } else {
         return res.status(500).json({ message: "Failed to delete user" });
@@ -616,71 +1527,251 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // Ban/unban user (admin only)
-  app.put("/api/admin/users/:id/:action", async (req, res) => {
-    if (!req.isAuthenticated() || !req.user?.isAdmin) {
-      return res.status(403).json({ message: "Admin access required" });
+  // IDs of the gyms a user manages as a gym manager
+  app.get("/api/admin/users/:id/managed-gyms", requirePermission("users:manage"), async (req, res) => {
+    const userId = parseInt(req.params.id);
+    if (isNaN(userId)) {
+      return res.status(400).json({ message: "Invalid user ID" });
     }
     
+    try {
+      res.json(await storage.getManagedGymIds(userId));
+    } catch (error) {
+      console.error("Error fetching managed gyms:", error);
+      res.status(500).json({ message: "Failed to fetch managed gyms" });
+    }
+  });
+  
+  // Change a user's role, and for gym managers the gyms they manage.
+  // Registered before the ban/unban route so "role" isn't taken as an action.
+  app.put("/api/admin/users/:id/role", requirePermission("users:assign_roles"), async (req, res) => {
     const userId = parseInt(req.params.id);
-    const action = req.params.action;
+    if (isNaN(userId)) {
+      return res.status(400).json({ message: "Invalid user ID" });
+    }
     
-    // Check if the action is valid
-    if (action !== "ban" && action !== "unban") {
-      return res.status(400).json({ message: "Invalid action. Use 'ban' or 'unban'" });
+    const parseResult = updateUserRoleSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      return res.status(400).json({ 
+        message: "Invalid role", 
+        errors: parseResult.error.format() 
+      });
     }
     
-    // Check if user exists
+    const { role } = parseResult.data;
+    const gymIds = role === "gym_manager" ? parseResult.data.gymIds : [];
+    
     const user = await storage.getUser(userId);
     if (!user) {
       return res.status(404).json({ message: "User not found" });
     }
     
-    // Don't allow banning other admins
-    if (user.isAdmin) {
-      return res.status(403).json({ message: "Cannot ban admin users" });
+    // Otherwise the last super admin could lock everyone out of role management
+    if (user.id === req.user!.id && role !== "super_admin") {
+      return res.status(400).json({ message: "You can't remove your own super admin role" });
     }
     
-    // Update the user's status in the database
-    const updateData = {
-      isBanned: action === "ban",
-      status: action === "ban" ? "banned" : "active"
-    };
+    for (const gymId of gymIds) {
+      if (!(await storage.getGym(gymId))) {
+        return res.status(400).json({ message: `Gym ${gymId} not found` });
+      }
+    }
     
     try {
-      const updatedUser = await storage.updateUser(userId, updateData);
+      const previousGymIds = await storage.getManagedGymIds(userId);
+      const updatedUser = await storage.updateUser(userId, { role });
+      await storage.setManagedGyms(userId, gymIds);
       
-      if (!updatedUser) {
-        return res.status(500).json({ message: `Failed to ${action} user` });
-      }
-      
-      console.log(`User ${userId} successfully ${action}ned`);
-      res.json({
-        message: `User ${action === "ban" ? "banned" : "unbanned"} successfully`,
-        user: updatedUser
+      await recordAudit(req, {
+        action: "user.role_change",
+        targetType: "user",
+        targetId: userId,
+        before: { role: user.role, managedGymIds: previousGymIds },
+        after: { role, managedGymIds: gymIds }
       });
+      
+      res.json(updatedUser && toSafeUser(updatedUser));
     } catch (error) {
-      console.error(`Error ${action}ning user:`, error);
-      return res.status(500).json({ message: `Internal server error during ${action} operation` });
+      console.error("Error changing user role:", error);
+      res.status(500).json({ message: "Failed to change user role" });
     }
   });
   
-  // Get all users for public display (with limited info)
-  app.get("/api/users", async (req, res) => {
-    const users = await storage.getAllUsers();
+  // Turn off 2FA for a user who has lost their authenticator and recovery codes
+  app.delete("/api/admin/users/:id/2fa", requirePermission("users:manage"), async (req, res) => {
+    const userId = parseInt(req.params.id);
+    if (isNaN(userId)) {
+      return res.status(400).json({ message: "Invalid user ID" });
+    }
     
-    // Filter out sensitive information, return only public profile data
-    const publicUsers = users.map(user => ({
-      id: user.id,
-      name: user.name,
-      fitnessGoals: user.fitnessGoals,
-      gymPreferences: user.gymPreferences,
-      profilePic: user.profilePic
-    }));
+    // Admins turn their own 2FA off from their profile, which needs a code
+    if (userId === req.user!.id) {
+      return res.status(400).json({ message: "Manage your own two-factor authentication from your profile" });
+    }
+    
+    const user = await storage.getUser(userId);
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+    if (!user.totpEnabledAt && !user.totpSecret) {
+      return res.status(400).json({ message: "This user doesn't have two-factor authentication on" });
+    }
+    
+    try {
+      await storage.updateUser(userId, TWO_FACTOR_DISABLED);
+      await recordAudit(req, {
+        action: "user.two_factor_reset",
+        targetType: "user",
+        targetId: userId,
+        before: { totpEnabledAt: user.totpEnabledAt },
+        after: { totpEnabledAt: null }
+      });
+      res.sendStatus(204);
+    } catch (error) {
+      console.error("Error resetting two-factor authentication:", error);
+      res.status(500).json({ message: "Failed to reset two-factor authentication" });
+    }
+  });
+  
+  // Site-wide security settings
+  app.get("/api/admin/security-settings", requirePermission("security:manage"), async (req, res) => {
+    try {
+      res.json(await getSecuritySettings());
+    } catch (error) {
+      console.error("Error fetching security settings:", error);
+      res.status(500).json({ message: "Failed to fetch security settings" });
+    }
+  });
+  
+  app.put("/api/admin/security-settings", requirePermission("security:manage"), async (req, res) => {
+    const parseResult = securitySettingsSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      return res.status(400).json({ 
+        message: "Invalid security settings", 
+        errors: parseResult.error.format() 
+      });
+    }
+    
+    // Otherwise the admin would lock themselves out of the admin tools straight away
+    if (parseResult.data.requireStaffTwoFactor && !req.user!.totpEnabledAt) {
+      return res.status(400).json({ message: "Turn on two-factor authentication for your own account first" });
+    }
+    
+    try {
+      const before = await getSecuritySettings();
+      await saveSecuritySettings(parseResult.data, req.user!.id);
+      await recordAudit(req, {
+        action: "settings.update",
+        targetType: "settings",
+        before,
+        after: parseResult.data
+      });
+      res.json(parseResult.data);
+    } catch (error) {
+      console.error("Error saving security settings:", error);
+      res.status(500).json({ message: "Failed to save security settings" });
+    }
+  });
+  
+  // Ban/unban user
+  app.put("/api/admin/users/:id/:action", requirePermission("users:manage"), async (req, res) => {
+    const userId = parseInt(req.params.id);
+    const action = req.params.action;
+    
+    // Check if the action is valid
+    if (action !== "ban" && action !== "unban") {
+      return res.status(400).json({ message: "Invalid action. Use 'ban' or 'unban'" });
+    }
+    
+    // Check if user exists
+    const user = await storage.getUser(userId);
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+    
+    // Don't allow banning other admins
+    if (user.role === "super_admin") {
+      return res.status(403).json({ message: "Cannot ban admin users" });
+    }
+    
+    // Update the user's status in the database
+    const updateData = {
+      isBanned: action === "ban",
+      status: action === "ban" ? "banned" : "active"
+    };
+    
+    try {
+      const updatedUser = await storage.updateUser(userId, updateData);
+      
+      if (!updatedUser) {
+        return res.status(500).json({ message: `Failed to ${action} user` });
+      }
+      
+      if (action === "ban") {
+        authEvents.emit("banned", userId);
+      }
+      
+      await recordAudit(req, {
+        action: action === "ban" ? "user.ban" : "user.unban",
+        targetType: "user",
+        targetId: userId,
+        before: user,
+        after: updatedUser
+      });
+      
+      console.log(`User ${userId} successfully ${action}ned`);
+      res.json({
+        message: `User ${action === "ban" ? "banned" : "unbanned"} successfully`,
+        user: updatedUser && toSafeUser(updatedUser)
+      });
+    } catch (error) {
+      console.error(`Error ${action}ning user:`, error);
+      return res.status(500).json({ message: `Internal server error during ${action} operation` });
+    }
+  });
+  
+  // Get all users for public display (with limited info)
+  app.get("/api/users", async (req, res) => {
+    let users = await storage.getAllUsers();
+    
+    // Hide anyone the current user has blocked or been blocked by
+    if (req.isAuthenticated()) {
+      const blockedUserIds = new Set(await storage.getBlockedUserIds(req.user.id));
+      users = users.filter(user => !blockedUserIds.has(user.id));
+    }
+    
+    // Filter out sensitive information, return only public profile data
+    const publicUsers = users.map(user => ({
+      id: user.id,
+      name: user.name,
+      fitnessGoals: user.fitnessGoals,
+      gymPreferences: user.gymPreferences,
+      profilePic: user.profilePic
+    }));
     
     res.json(publicUsers);
   });
 
+  // Suggested workout partners for the current user, best match first
+  app.get("/api/users/recommendations", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+    
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : DEFAULT_RECOMMENDATION_LIMIT;
+    if (isNaN(limit) || limit < 1) {
+      return res.status(400).json({ message: "Invalid limit" });
+    }
+    
+    try {
+      const recommendations = await storage.getPartnerRecommendations(req.user.id);
+      res.json(recommendations.slice(0, Math.min(limit, MAX_RECOMMENDATION_LIMIT)));
+    } catch (error) {
+      console.error("Error fetching partner recommendations:", error);
+      res.status(500).json({ message: "Failed to fetch partner recommendations" });
+    }
+  });
+
   // User match routes
   // Get all user matches for the current user
   app.get("/api/user-matches", async (req, res) => {
@@ -688,128 +1779,914 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return res.status(401).json({ message: "Authentication required" });
     }
     
-    const userId = req.user.id;
-    const status = req.query.status as string | undefined;
+    const userId = req.user.id;
+    const status = req.query.status as string | undefined;
+    
+    const matches = await storage.getUserMatches(userId, status);
+    
+    // Fetch details for matched users
+    const matchesWithDetails = await Promise.all(
+      matches.map(async (match) => {
+        const otherUserId = match.senderId === userId ? match.receiverId : match.senderId;
+        const otherUser = await storage.getUser(otherUserId);
+        
+        if (!otherUser) {
+          return match;
+        }
+        
+        // Only what any member can see, never credentials or 2FA secrets
+        return {
+          ...match,
+          otherUser: toPublicProfile(otherUser)
+        };
+      })
+    );
+    
+    res.json(matchesWithDetails);
+  });
+  
+  // Create a new user match (send a match request)
+  app.post("/api/user-matches", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+    
+    const parseResult = insertUserMatchSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      return res.status(400).json({ 
+        message: "Invalid match data", 
+        errors: parseResult.error.format() 
+      });
+    }
+    
+    const matchData = parseResult.data;
+    
+    // Ensure the sender is the current user
+    if (matchData.senderId !== req.user.id) {
+      return res.status(403).json({ 
+        message: "You can only create matches for yourself" 
+      });
+    }
+    
+    if (matchData.receiverId === req.user.id) {
+      return res.status(400).json({ message: "You can't match with yourself" });
+    }
+    
+    try {
+      if (await storage.isBlocked(req.user.id, matchData.receiverId)) {
+        return res.status(403).json({ message: "You can't match with this user" });
+      }
+      
+      // One pending or accepted match per pair, whoever sent it
+      const existingMatch = await storage.getUserMatchByUsers(req.user.id, matchData.receiverId);
+      if (existingMatch?.status === "accepted") {
+        return res.status(409).json({ message: "You're already matched with this user" });
+      }
+      if (existingMatch?.status === "pending") {
+        return res.status(409).json({
+          message: existingMatch.senderId === req.user.id
+            ? "You've already sent this user a match request"
+            : "This user has already sent you a match request"
+        });
+      }
+      
+      // Check the receiver exists, and score the pair server-side rather than trusting the client
+      const partner = await storage.getPartnerScore(req.user.id, matchData.receiverId);
+      if (!partner) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      // Create the match
+      const userMatch = await storage.createUserMatch({
+        ...matchData,
+        matchScore: partner.matchScore
+      });
+      
+      res.status(201).json(userMatch);
+    } catch (error) {
+      console.error("Error creating user match:", error);
+      res.status(500).json({ message: "Failed to create match" });
+    }
+  });
+  
+  // Update a user match (accept or reject)
+  app.put("/api/user-matches/:id", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+    
+    const matchId = parseInt(req.params.id);
+    const { status } = req.body;
+    
+    if (!status || !["accepted", "rejected"].includes(status)) {
+      return res.status(400).json({ 
+        message: "Valid status required (accepted or rejected)" 
+      });
+    }
+    
+    // Check if match exists and user is the receiver
+    const match = await storage.getUserMatch(matchId);
+    if (!match) {
+      return res.status(404).json({ message: "Match not found" });
+    }
+    
+    // Only the receiver can update the status
+    if (match.receiverId !== req.user.id) {
+      return res.status(403).json({ 
+        message: "You can only respond to matches sent to you" 
+      });
+    }
+    
+    const updatedMatch = await storage.updateUserMatchStatus(matchId, status);
+    res.json(updatedMatch);
+  });
+  
+  // Delete a user match
+  app.delete("/api/user-matches/:id", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+    
+    const matchId = parseInt(req.params.id);
+    
+    // Check if match exists and user is part of it
+    const match = await storage.getUserMatch(matchId);
+    if (!match) {
+      return res.status(404).json({ message: "Match not found" });
+    }
+    
+    // Only users who are part of the match can delete it
+    if (match.senderId !== req.user.id && match.receiverId !== req.user.id) {
+      return res.status(403).json({ 
+        message: "You can only delete matches you're part of" 
+      });
+    }
+    
+    const success = await storage.deleteUserMatch(matchId);
+    if (!success) {
+      return res.status(500).json({ message: "Failed to delete match" });
+    }
+    
+    res.status(204).send();
+  });
+  
+  // Block routes
+  // Get the users the current user has blocked
+  app.get("/api/blocks", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+    
+    try {
+      const blocks = await storage.getUserBlocks(req.user.id);
+      const blockedUsers = await Promise.all(blocks.map(block => storage.getUser(block.blockedId)));
+      
+      const blocksWithUsers: UserBlockWithUser[] = blocks.map((block, index) => {
+        const blockedUser = blockedUsers[index];
+        return { ...block, blockedUser: blockedUser ? toPublicProfile(blockedUser) : null };
+      });
+      
+      res.json(blocksWithUsers);
+    } catch (error) {
+      console.error("Error fetching blocks:", error);
+      res.status(500).json({ message: "Failed to fetch blocked users" });
+    }
+  });
+  
+  // Block a user. Any match between the two is removed, which also ends their conversation.
+  app.post("/api/blocks", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+    
+    const blockedId = Number(req.body?.userId);
+    if (!Number.isInteger(blockedId) || blockedId <= 0) {
+      return res.status(400).json({ message: "Valid userId required" });
+    }
+    
+    if (blockedId === req.user.id) {
+      return res.status(400).json({ message: "You can't block yourself" });
+    }
+    
+    try {
+      const blockedUser = await storage.getUser(blockedId);
+      if (!blockedUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      const block = await storage.createUserBlock({ blockerId: req.user.id, blockedId });
+      
+      const match = await storage.getUserMatchByUsers(req.user.id, blockedId);
+      if (match) {
+        await storage.deleteUserMatch(match.id);
+      }
+      
+      res.status(201).json(block);
+    } catch (error) {
+      console.error("Error blocking user:", error);
+      res.status(500).json({ message: "Failed to block user" });
+    }
+  });
+  
+  // Unblock a user
+  app.delete("/api/blocks/:userId", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+    
+    const blockedId = parseInt(req.params.userId);
+    if (isNaN(blockedId)) {
+      return res.status(400).json({ message: "Invalid user ID" });
+    }
+    
+    try {
+      const deleted = await storage.deleteUserBlock(req.user.id, blockedId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Block not found" });
+      }
+      
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error unblocking user:", error);
+      res.status(500).json({ message: "Failed to unblock user" });
+    }
+  });
+  
+  // Report routes
+  // Report a user, optionally pointing at one of the messages they sent
+  app.post("/api/reports", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+    
+    const parseResult = reportFormSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      return res.status(400).json({ 
+        message: "Invalid report", 
+        errors: parseResult.error.format() 
+      });
+    }
+    
+    const reportData = parseResult.data;
+    
+    if (reportData.reportedUserId === req.user.id) {
+      return res.status(400).json({ message: "You can't report yourself" });
+    }
+    
+    try {
+      const reportedUser = await storage.getUser(reportData.reportedUserId);
+      if (!reportedUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      // Only messages the reported user sent to the reporter can be attached
+      let messageExcerpt: string | null = null;
+      if (reportData.messageId) {
+        const message = await storage.getMessage(reportData.messageId);
+        if (!message || message.senderId !== reportData.reportedUserId || message.receiverId !== req.user.id) {
+          return res.status(400).json({ message: "That message can't be attached to this report" });
+        }
+        messageExcerpt = toMessageExcerpt(message.content);
+      }
+      
+      const report = await storage.createUserReport({
+        ...reportData,
+        reporterId: req.user.id,
+        messageExcerpt
+      });
+      
+      res.status(201).json(report);
+    } catch (error) {
+      console.error("Error creating report:", error);
+      res.status(500).json({ message: "Failed to submit report" });
+    }
+  });
+  
+  // Moderation queue: reports with reporter and reported user details
+  app.get("/api/admin/reports", requirePermission("reports:moderate"), async (req, res) => {
+    const status = req.query.status as string | undefined;
+    
+    try {
+      const allReports = await storage.getUserReports();
+      const reports = status ? allReports.filter(report => report.status === status) : allReports;
+      res.json(await Promise.all(reports.map(report => withReportUsers(report, allReports))));
+    } catch (error) {
+      console.error("Error fetching reports:", error);
+      res.status(500).json({ message: "Failed to fetch reports" });
+    }
+  });
+  
+  // Resolve a report by dismissing it, warning the reported user or banning them
+  app.put("/api/admin/reports/:id", requirePermission("reports:moderate"), async (req, res) => {
+    const reportId = parseInt(req.params.id);
+    if (isNaN(reportId)) {
+      return res.status(400).json({ message: "Invalid report ID" });
+    }
+    
+    const parseResult = resolveReportSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      return res.status(400).json({ 
+        message: "Invalid resolution", 
+        errors: parseResult.error.format() 
+      });
+    }
+    
+    const { action, note } = parseResult.data;
+    
+    try {
+      const report = await storage.getUserReport(reportId);
+      if (!report) {
+        return res.status(404).json({ message: "Report not found" });
+      }
+      
+      if (report.status !== "open") {
+        return res.status(409).json({ message: "Report has already been resolved" });
+      }
+      
+      const reportedUser = await storage.getUser(report.reportedUserId);
+      
+      if (action === "ban") {
+        if (!reportedUser) {
+          return res.status(404).json({ message: "Reported user no longer exists" });
+        }
+        if (isStaff(reportedUser)) {
+          return res.status(403).json({ message: "Cannot ban staff members" });
+        }
+        
+        const bannedUser = await storage.updateUser(reportedUser.id, { isBanned: true, status: "banned" });
+        authEvents.emit("banned", reportedUser.id);
+        await recordAudit(req, {
+          action: "user.ban",
+          targetType: "user",
+          targetId: reportedUser.id,
+          before: reportedUser,
+          after: bannedUser,
+          metadata: { reportId }
+        });
+      } else if (action === "warn" && reportedUser) {
+        sendToUser(reportedUser.id, {
+          type: 'account_warning',
+          message: note || "A moderator reviewed a report about your activity. Please follow the community guidelines."
+        });
+      }
+      
+      const statusByAction = { dismiss: "dismissed", warn: "warned", ban: "banned" } as const;
+      const updatedReport = await storage.updateUserReport(reportId, {
+        status: statusByAction[action],
+        resolvedBy: req.user!.id,
+        resolutionNote: note ?? null,
+        resolvedAt: new Date()
+      });
+      
+      await recordAudit(req, {
+        action: "report.resolve",
+        targetType: "report",
+        targetId: reportId,
+        before: report,
+        after: updatedReport,
+        metadata: { resolution: action, reportedUserId: report.reportedUserId }
+      });
+      
+      res.json(updatedReport);
+    } catch (error) {
+      console.error("Error resolving report:", error);
+      res.status(500).json({ message: "Failed to resolve report" });
+    }
+  });
+  
+  // Get the admin audit log, newest first
+  app.get("/api/admin/audit", requirePermission("audit:view"), async (req, res) => {
+    const filters: AuditLogFilters = {};
+    
+    for (const key of ["actorId", "targetId", "before"] as const) {
+      if (req.query[key] !== undefined) {
+        const value = parseInt(req.query[key] as string);
+        if (isNaN(value) || value <= 0) {
+          return res.status(400).json({ message: `Invalid ${key}` });
+        }
+        filters[key] = value;
+      }
+    }
+    
+    for (const key of ["from", "to"] as const) {
+      if (req.query[key] !== undefined) {
+        const value = new Date(req.query[key] as string);
+        if (isNaN(value.getTime())) {
+          return res.status(400).json({ message: `Invalid ${key} date` });
+        }
+        filters[key] = value;
+      }
+    }
+    
+    if (typeof req.query.action === "string" && req.query.action) {
+      filters.action = req.query.action;
+    }
+    if (typeof req.query.targetType === "string" && req.query.targetType) {
+      filters.targetType = req.query.targetType;
+    }
+    
+    const limit = req.query.limit !== undefined ? parseInt(req.query.limit as string) : DEFAULT_AUDIT_PAGE_SIZE;
+    if (isNaN(limit) || limit < 1 || limit > MAX_AUDIT_PAGE_SIZE) {
+      return res.status(400).json({ message: `Limit must be between 1 and ${MAX_AUDIT_PAGE_SIZE}` });
+    }
+    
+    try {
+      // Fetch one extra entry to find out whether there are older ones
+      const page = await storage.getAuditLog({ ...filters, limit: limit + 1 });
+      const hasMore = page.length > limit;
+      const entries = hasMore ? page.slice(0, limit) : page;
+      
+      res.json({
+        entries,
+        nextCursor: hasMore ? entries[entries.length - 1].id : null,
+        hasMore
+      });
+    } catch (error) {
+      console.error("Error fetching audit log:", error);
+      res.status(500).json({ message: "Failed to fetch audit log" });
+    }
+  });
+  
+  // Recent sign-in and registration attempts, newest first, paged like the audit log
+  app.get("/api/admin/login-attempts", requirePermission("security:manage"), async (req, res) => {
+    const filters: LoginAttemptFilters = {};
+    
+    const { kind, outcome, username, ip } = req.query;
+    if (kind !== undefined) {
+      if (!LOGIN_ATTEMPT_KINDS.includes(kind as any)) {
+        return res.status(400).json({ message: "Invalid kind" });
+      }
+      filters.kind = kind as LoginAttemptFilters["kind"];
+    }
+    if (outcome !== undefined) {
+      if (!LOGIN_ATTEMPT_OUTCOMES.includes(outcome as any)) {
+        return res.status(400).json({ message: "Invalid outcome" });
+      }
+      filters.outcome = outcome as LoginAttemptFilters["outcome"];
+    }
+    if (typeof username === "string" && username.trim()) {
+      filters.username = username.trim().toLowerCase();
+    }
+    if (typeof ip === "string" && ip.trim()) {
+      filters.ip = ip.trim();
+    }
+    
+    if (req.query.before !== undefined) {
+      const before = parseInt(req.query.before as string);
+      if (isNaN(before) || before <= 0) {
+        return res.status(400).json({ message: "Invalid before" });
+      }
+      filters.before = before;
+    }
+    
+    const limit = req.query.limit !== undefined ? parseInt(req.query.limit as string) : DEFAULT_AUDIT_PAGE_SIZE;
+    if (isNaN(limit) || limit < 1 || limit > MAX_AUDIT_PAGE_SIZE) {
+      return res.status(400).json({ message: `Limit must be between 1 and ${MAX_AUDIT_PAGE_SIZE}` });
+    }
+    
+    try {
+      const page = await storage.getLoginAttempts({ ...filters, limit: limit + 1 });
+      const hasMore = page.length > limit;
+      const attempts = hasMore ? page.slice(0, limit) : page;
+      
+      res.json({
+        attempts,
+        nextCursor: hasMore ? attempts[attempts.length - 1].id : null,
+        hasMore
+      });
+    } catch (error) {
+      console.error("Error fetching login attempts:", error);
+      res.status(500).json({ message: "Failed to fetch login attempts" });
+    }
+  });
+  
+  // How many accounts still have legacy or lower-cost password hashes
+  app.get("/api/admin/password-hashes", requirePermission("security:manage"), async (_req, res) => {
+    try {
+      res.json(summarizePasswordHashes(await storage.getPasswordHashCounts()));
+    } catch (error) {
+      console.error("Error fetching password hash report:", error);
+      res.status(500).json({ message: "Failed to fetch password hash report" });
+    }
+  });
+  
+  // Export the gym catalog as ?format=csv (re-importable), json or geojson,
+  // streamed as it's read. Takes the same filters as gym search.
+  app.get("/api/admin/gyms/export", requirePermission("gyms:export"), async (req, res) => {
+    const format = req.query.format ?? "csv";
+    if (!isGymExportFormat(format)) {
+      return res.status(400).json({ message: "Invalid format. Use 'csv', 'json' or 'geojson'" });
+    }
+    
+    let filters: GymFilters;
+    try {
+      filters = parseGymFilters(req.query);
+    } catch (error) {
+      if (error instanceof GymFilterError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error parsing gym export filters:", error);
+      return res.status(500).json({ message: "Failed to export gyms" });
+    }
+    
+    try {
+      res.setHeader("Content-Type", GYM_EXPORT_CONTENT_TYPES[format]);
+      res.setHeader("Content-Disposition", `attachment; filename="${gymExportFileName(format)}"`);
+      const exported = await writeGymExport(res, format, filters);
+      
+      await recordAudit(req, {
+        action: "gym.export",
+        targetType: "gym",
+        metadata: { format, filters, exported }
+      });
+    } catch (error) {
+      console.error("Error exporting gyms:", error);
+      // Once streaming has started the status is already sent, so cut the download short instead
+      if (res.headersSent) {
+        res.destroy();
+      } else {
+        res.status(500).json({ message: "Failed to export gyms" });
+      }
+    }
+  });
+  
+  // Export the gym catalog to a file as a background job, for catalogs too big
+  // to wait on. Takes the same query as GET; download the file from
+  // GET /api/jobs/:id/download once the job succeeds.
+  app.post("/api/admin/gyms/export", requirePermission("gyms:export"), async (req, res) => {
+    const format = req.query.format ?? "csv";
+    if (!isGymExportFormat(format)) {
+      return res.status(400).json({ message: "Invalid format. Use 'csv', 'json' or 'geojson'" });
+    }
+    
+    let filters: GymFilters;
+    try {
+      filters = parseGymFilters(req.query);
+    } catch (error) {
+      if (error instanceof GymFilterError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error parsing gym export filters:", error);
+      return res.status(500).json({ message: "Failed to export gyms" });
+    }
+    
+    try {
+      const payload: GymExportJobPayload = { format, filters, actor: auditActorFor(req) };
+      const job = await enqueueJob("gym.export", `Export gyms as ${format.toUpperCase()}`, req.user!.id, payload);
+      res.status(202).json(toJobSummary(job));
+    } catch (error) {
+      console.error("Error queueing gym export:", error);
+      res.status(500).json({ message: "Failed to export gyms" });
+    }
+  });
+  
+  // Amenity routes
+  // Every amenity with how many gyms have it, grouped by category
+  app.get("/api/admin/amenities", requirePermission("amenities:manage"), async (_req, res) => {
+    try {
+      res.json(await storage.getAmenitiesWithUsage());
+    } catch (error) {
+      console.error("Error fetching amenities:", error);
+      res.status(500).json({ message: "Failed to fetch amenities" });
+    }
+  });
+  
+  // Add an amenity. Its name and synonyms can't belong to another amenity.
+  app.post("/api/admin/amenities", requirePermission("amenities:manage"), async (req, res) => {
+    const parseResult = insertAmenitySchema.safeParse(req.body);
+    if (!parseResult.success) {
+      return res.status(400).json({ 
+        message: "Invalid amenity", 
+        errors: parseResult.error.format() 
+      });
+    }
+    
+    const amenityData = {
+      ...parseResult.data,
+      name: cleanAmenityName(parseResult.data.name),
+      synonyms: mergedSynonyms({ name: parseResult.data.name, synonyms: parseResult.data.synonyms ?? [] }, [])
+    };
+    
+    try {
+      const conflict = findAmenityConflict(await storage.getAllAmenities(), amenityData);
+      if (conflict) {
+        return res.status(409).json({ message: conflict });
+      }
+      
+      const amenity = await storage.createAmenity(amenityData);
+      await recordAudit(req, { action: "amenity.create", targetType: "amenity", targetId: amenity.id, after: amenity });
+      res.status(201).json(amenity);
+    } catch (error) {
+      console.error("Error creating amenity:", error);
+      res.status(500).json({ message: "Failed to create amenity" });
+    }
+  });
+  
+  // Edit an amenity. A rename updates every gym with it and keeps the old name
+  // as a synonym, so imports that still use it resolve to this amenity. Renames
+  // run as an amenity.rename job and answer 202 with the job; other edits are
+  // saved straight away.
+  app.put("/api/admin/amenities/:id", requirePermission("amenities:manage"), async (req, res) => {
+    const amenityId = parseInt(req.params.id);
+    if (isNaN(amenityId)) {
+      return res.status(400).json({ message: "Invalid amenity ID" });
+    }
+    
+    const parseResult = insertAmenitySchema.partial().safeParse(req.body);
+    if (!parseResult.success) {
+      return res.status(400).json({ 
+        message: "Invalid amenity", 
+        errors: parseResult.error.format() 
+      });
+    }
+    
+    try {
+      const allAmenities = await storage.getAllAmenities();
+      const existingAmenity = allAmenities.find(amenity => amenity.id === amenityId);
+      if (!existingAmenity) {
+        return res.status(404).json({ message: "Amenity not found" });
+      }
+      
+      const name = cleanAmenityName(parseResult.data.name ?? existingAmenity.name);
+      const synonyms = [...(parseResult.data.synonyms ?? existingAmenity.synonyms)];
+      if (name !== existingAmenity.name) {
+        synonyms.push(existingAmenity.name);
+      }
+      const amenityData = {
+        ...parseResult.data,
+        name,
+        synonyms: mergedSynonyms({ name, synonyms }, [])
+      };
+      
+      const conflict = findAmenityConflict(allAmenities, { id: amenityId, ...amenityData });
+      if (conflict) {
+        return res.status(409).json({ message: conflict });
+      }
+      
+      if (name !== existingAmenity.name) {
+        const payload: AmenityRenameJobPayload = { amenityId, changes: amenityData, actor: auditActorFor(req) };
+        const job = await enqueueJob("amenity.rename", `Rename ${existingAmenity.name} to ${name}`, req.user!.id, payload);
+        return res.status(202).json(toJobSummary(job));
+      }
+      
+      const result = await storage.updateAmenity(amenityId, amenityData);
+      if (!result) {
+        return res.status(404).json({ message: "Amenity not found" });
+      }
+      
+      await recordAudit(req, {
+        action: "amenity.update",
+        targetType: "amenity",
+        targetId: amenityId,
+        before: existingAmenity,
+        after: result.amenity
+      });
+      res.json(result.amenity);
+    } catch (error) {
+      console.error("Error updating amenity:", error);
+      res.status(500).json({ message: "Failed to update amenity" });
+    }
+  });
+  
+  // Merge duplicate amenities into this one. Gyms with a duplicate get this
+  // amenity instead, and the duplicates' names become its synonyms. Runs as an
+  // amenity.merge job; answers 202 with the job.
+  app.post("/api/admin/amenities/:id/merge", requirePermission("amenities:manage"), async (req, res) => {
+    const amenityId = parseInt(req.params.id);
+    if (isNaN(amenityId)) {
+      return res.status(400).json({ message: "Invalid amenity ID" });
+    }
+    
+    const parseResult = mergeAmenitiesSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      return res.status(400).json({ 
+        message: "Invalid merge", 
+        errors: parseResult.error.format() 
+      });
+    }
+    
+    const sourceIds = Array.from(new Set(parseResult.data.sourceIds));
+    if (sourceIds.includes(amenityId)) {
+      return res.status(400).json({ message: "An amenity can't be merged into itself" });
+    }
     
-    const matches = await storage.getUserMatches(userId, status);
+    try {
+      const allAmenities = await storage.getAllAmenities();
+      const target = allAmenities.find(amenity => amenity.id === amenityId);
+      const sources = allAmenities.filter(amenity => sourceIds.includes(amenity.id));
+      if (!target || sources.length !== sourceIds.length) {
+        return res.status(404).json({ message: "Amenity not found" });
+      }
+      
+      const payload: AmenityMergeJobPayload = { targetId: amenityId, sourceIds, actor: auditActorFor(req) };
+      const description = `Merge ${sources.map(source => source.name).join(", ")} into ${target.name}`;
+      const job = await enqueueJob("amenity.merge", description, req.user!.id, payload);
+      res.status(202).json(toJobSummary(job));
+    } catch (error) {
+      console.error("Error merging amenities:", error);
+      res.status(500).json({ message: "Failed to merge amenities" });
+    }
+  });
+  
+  // Gym claims awaiting review, or all claims with ?status=all
+  app.get("/api/admin/gym-claims", requirePermission("gyms:review_claims"), async (req, res) => {
+    const status = (req.query.status as string | undefined) ?? "pending";
     
-    // Fetch details for matched users
-    const matchesWithDetails = await Promise.all(
-      matches.map(async (match) => {
-        const otherUserId = match.senderId === userId ? match.receiverId : match.senderId;
-        const otherUser = await storage.getUser(otherUserId);
-        
-        if (!otherUser) {
-          return match;
-        }
-        
-        // Remove sensitive user information
-        const { password, ...safeOtherUser } = otherUser;
-        
-        return {
-          ...match,
-          otherUser: safeOtherUser
-        };
-      })
-    );
+    try {
+      const claims = await storage.getGymClaims(status === "all" ? {} : { status });
+      res.json(await Promise.all(claims.map(withClaimDetails)));
+    } catch (error) {
+      console.error("Error fetching gym claims:", error);
+      res.status(500).json({ message: "Failed to fetch gym claims" });
+    }
+  });
+  
+  // Download the document attached to a claim
+  app.get("/api/admin/gym-claims/:id/document", requirePermission("gyms:review_claims"), async (req, res) => {
+    const claimId = parseInt(req.params.id);
+    if (isNaN(claimId)) {
+      return res.status(400).json({ message: "Invalid claim ID" });
+    }
     
-    res.json(matchesWithDetails);
+    try {
+      const claim = await storage.getGymClaim(claimId);
+      if (!claim || !claim.documentPath) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      
+      res.download(path.resolve(claim.documentPath), claim.documentName ?? "claim-document", (error) => {
+        if (error && !res.headersSent) {
+          console.error("Error sending claim document:", error);
+          res.status(404).json({ message: "Document not found" });
+        }
+      });
+    } catch (error) {
+      console.error("Error fetching claim document:", error);
+      res.status(500).json({ message: "Failed to fetch claim document" });
+    }
   });
   
-  // Create a new user match (send a match request)
-  app.post("/api/user-matches", async (req, res) => {
-    if (!req.isAuthenticated()) {
-      return res.status(401).json({ message: "Authentication required" });
+  // Approve or reject a gym claim. Approving makes the claimant a manager of the gym.
+  app.put("/api/admin/gym-claims/:id", requirePermission("gyms:review_claims"), async (req, res) => {
+    const claimId = parseInt(req.params.id);
+    if (isNaN(claimId)) {
+      return res.status(400).json({ message: "Invalid claim ID" });
     }
     
-    const parseResult = insertUserMatchSchema.safeParse(req.body);
+    const parseResult = reviewGymClaimSchema.safeParse(req.body);
     if (!parseResult.success) {
       return res.status(400).json({ 
-        message: "Invalid match data", 
+        message: "Invalid review", 
         errors: parseResult.error.format() 
       });
     }
     
-    const matchData = parseResult.data;
+    const { action, note } = parseResult.data;
     
-    // Ensure the sender is the current user
-    if (matchData.senderId !== req.user.id) {
-      return res.status(403).json({ 
-        message: "You can only create matches for yourself" 
+    try {
+      const claim = await storage.getGymClaim(claimId);
+      if (!claim) {
+        return res.status(404).json({ message: "Claim not found" });
+      }
+      if (claim.status !== "pending") {
+        return res.status(409).json({ message: "This claim has already been reviewed" });
+      }
+      
+      const claimant = await storage.getUser(claim.userId);
+      if (action === "approve") {
+        if (!claimant) {
+          return res.status(404).json({ message: "Claimant no longer exists" });
+        }
+        if (!(await storage.getGym(claim.gymId))) {
+          return res.status(404).json({ message: "Gym no longer exists" });
+        }
+        
+        await storage.addGymManager(claimant.id, claim.gymId);
+        // Staff keep their broader role; members become gym managers
+        if (claimant.role === "member") {
+          await storage.updateUser(claimant.id, { role: "gym_manager" });
+        }
+      }
+      
+      const updatedClaim = await storage.updateGymClaim(claimId, {
+        status: action === "approve" ? "approved" : "rejected",
+        reviewedBy: req.user!.id,
+        reviewNote: note || null,
+        reviewedAt: new Date()
+      });
+      
+      await recordAudit(req, {
+        action: action === "approve" ? "gym_claim.approve" : "gym_claim.reject",
+        targetType: "gym_claim",
+        targetId: claimId,
+        before: claim,
+        after: updatedClaim,
+        metadata: { gymId: claim.gymId, claimantId: claim.userId }
       });
+      
+      res.json(await withClaimDetails(updatedClaim!));
+    } catch (error) {
+      console.error("Error reviewing gym claim:", error);
+      res.status(500).json({ message: "Failed to review claim" });
     }
-    
-    // Check if the receiver exists
-    const receiver = await storage.getUser(matchData.receiverId);
-    if (!receiver) {
-      return res.status(404).json({ message: "User not found" });
+  });
+  
+  // Background job routes. Users only see their own jobs.
+  // The current user's recent jobs, newest first
+  app.get("/api/jobs", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
     }
     
-    // Create the match
-    const userMatch = await storage.createUserMatch(matchData);
-    
-    res.status(201).json(userMatch);
+    try {
+      const jobs = await storage.getJobsByUser(req.user.id, RECENT_JOBS_LIMIT);
+      res.json(jobs.map(toJobSummary));
+    } catch (error) {
+      console.error("Error fetching jobs:", error);
+      res.status(500).json({ message: "Failed to fetch jobs" });
+    }
   });
   
-  // Update a user match (accept or reject)
-  app.put("/api/user-matches/:id", async (req, res) => {
+  // A job's status, progress and, once it has finished, its result or error
+  app.get("/api/jobs/:id", async (req, res) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: "Authentication required" });
     }
     
-    const matchId = parseInt(req.params.id);
-    const { status } = req.body;
-    
-    if (!status || !["accepted", "rejected"].includes(status)) {
-      return res.status(400).json({ 
-        message: "Valid status required (accepted or rejected)" 
-      });
+    const jobId = parseInt(req.params.id);
+    if (isNaN(jobId)) {
+      return res.status(400).json({ message: "Invalid job ID" });
     }
     
-    // Check if match exists and user is the receiver
-    const match = await storage.getUserMatch(matchId);
-    if (!match) {
-      return res.status(404).json({ message: "Match not found" });
+    try {
+      const job = await storage.getJob(jobId);
+      if (!job || job.userId !== req.user.id) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      
+      res.json(toJobSummary(job));
+    } catch (error) {
+      console.error("Error fetching job:", error);
+      res.status(500).json({ message: "Failed to fetch job" });
+    }
+  });
+  
+  // Ask a queued or running job to stop. Imports can't be stopped once they
+  // have started writing, since the writes happen in one transaction.
+  app.post("/api/jobs/:id/cancel", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
     }
     
-    // Only the receiver can update the status
-    if (match.receiverId !== req.user.id) {
-      return res.status(403).json({ 
-        message: "You can only respond to matches sent to you" 
-      });
+    const jobId = parseInt(req.params.id);
+    if (isNaN(jobId)) {
+      return res.status(400).json({ message: "Invalid job ID" });
     }
     
-    const updatedMatch = await storage.updateUserMatchStatus(matchId, status);
-    res.json(updatedMatch);
+    try {
+      const job = await storage.getJob(jobId);
+      if (!job || job.userId !== req.user.id) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      if (isJobFinished(job)) {
+        return res.status(409).json({ message: "The job has already finished" });
+      }
+      
+      res.json(toJobSummary(await requestJobCancel(job)));
+    } catch (error) {
+      console.error("Error cancelling job:", error);
+      res.status(500).json({ message: "Failed to cancel job" });
+    }
   });
   
-  // Delete a user match
-  app.delete("/api/user-matches/:id", async (req, res) => {
+  // Download the file a finished export job wrote
+  app.get("/api/jobs/:id/download", async (req, res) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: "Authentication required" });
     }
     
-    const matchId = parseInt(req.params.id);
-    
-    // Check if match exists and user is part of it
-    const match = await storage.getUserMatch(matchId);
-    if (!match) {
-      return res.status(404).json({ message: "Match not found" });
+    const jobId = parseInt(req.params.id);
+    if (isNaN(jobId)) {
+      return res.status(400).json({ message: "Invalid job ID" });
     }
     
-    // Only users who are part of the match can delete it
-    if (match.senderId !== req.user.id && match.receiverId !== req.user.id) {
-      return res.status(403).json({ 
-        message: "You can only delete matches you're part of" 
+    try {
+      const job = await storage.getJob(jobId);
+      if (!job || job.userId !== req.user.id || job.type !== "gym.export" || job.status !== "succeeded") {
+        return res.status(404).json({ message: "Export not found" });
+      }
+      
+      const { fileName } = job.result as GymExportResult;
+      res.download(path.resolve(gymExportFilePath(job)), fileName, (error) => {
+        if (error && !res.headersSent) {
+          console.error("Error sending export:", error);
+          res.status(404).json({ message: "Export not found" });
+        }
       });
+    } catch (error) {
+      console.error("Error fetching export:", error);
+      res.status(500).json({ message: "Failed to download export" });
     }
-    
-    const success = await storage.deleteUserMatch(matchId);
-    if (!success) {
-      return res.status(500).json({ message: "Failed to delete match" });
-    }
-    
-    res.status(204).send();
   });
   
   // Message routes
@@ -823,6 +2700,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json({ count: unreadCount });
   });
   
+  // Get which of the current user's accepted matches are online
+  app.get("/api/presence", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+    
+    try {
+      const matchedUserIds = await getAcceptedMatchUserIds(req.user.id);
+      res.json({ online: matchedUserIds.filter(isUserOnline) });
+    } catch (error) {
+      console.error("Error fetching presence:", error);
+      res.status(500).json({ message: "Failed to fetch presence" });
+    }
+  });
+  
   // Get messages between current user and another user
   app.get("/api/messages/:userId", async (req, res) => {
     if (!req.isAuthenticated()) {
@@ -838,6 +2730,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return res.status(404).json({ message: "User not found" });
     }
     
+    if (await storage.isBlocked(currentUserId, otherUserId)) {
+      return res.status(403).json({ message: "You can't message this user" });
+    }
+    
     // Check if there's a match between the users
     const match = await storage.getUserMatchByUsers(currentUserId, otherUserId);
     if (!match || match.status !== "accepted") {
@@ -846,13 +2742,67 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
     }
     
-    // Get messages and mark received messages as read
-    const messages = await storage.getMessages(currentUserId, otherUserId);
+    // Cursor pagination: `before` is the oldest message ID the client already has
+    const before = req.query.before !== undefined ? parseInt(req.query.before as string) : undefined;
+    if (before !== undefined && (isNaN(before) || before <= 0)) {
+      return res.status(400).json({ message: "Invalid before cursor" });
+    }
+    
+    const limit = req.query.limit !== undefined ? parseInt(req.query.limit as string) : DEFAULT_MESSAGE_PAGE_SIZE;
+    if (isNaN(limit) || limit < 1 || limit > MAX_MESSAGE_PAGE_SIZE) {
+      return res.status(400).json({ message: `Limit must be between 1 and ${MAX_MESSAGE_PAGE_SIZE}` });
+    }
+    
+    try {
+      // Fetch one extra message to find out whether there are older ones
+      const page = await storage.getMessages(currentUserId, otherUserId, { before, limit: limit + 1 });
+      const hasMore = page.length > limit;
+      const messages = hasMore ? page.slice(1) : page;
+      
+      res.json({
+        messages,
+        nextCursor: hasMore ? messages[0].id : null,
+        hasMore
+      });
+    } catch (error) {
+      console.error("Error fetching messages:", error);
+      res.status(500).json({ message: "Failed to fetch messages" });
+    }
+  });
+  
+  // Mark all messages from another user as read
+  app.post("/api/messages/:userId/read", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+    
+    const senderId = parseInt(req.params.userId);
+    if (isNaN(senderId)) {
+      return res.status(400).json({ message: "Invalid user ID" });
+    }
     
-    // Mark messages from the other user as read
-    await storage.markMessagesAsRead(currentUserId, otherUserId);
+    try {
+      const readMessages = await markConversationRead(req.user.id, senderId);
+      res.json({ count: readMessages.length });
+    } catch (error) {
+      console.error("Error marking messages as read:", error);
+      res.status(500).json({ message: "Failed to mark messages as read" });
+    }
+  });
+  
+  // Get one row per chat partner with the last message and unread count
+  app.get("/api/conversations", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
     
-    res.json(messages);
+    try {
+      const conversations = await storage.getConversations(req.user.id);
+      res.json(conversations);
+    } catch (error) {
+      console.error("Error fetching conversations:", error);
+      res.status(500).json({ message: "Failed to fetch conversations" });
+    }
   });
   
   // Send a message
@@ -884,6 +2834,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return res.status(404).json({ message: "Recipient not found" });
     }
     
+    if (await storage.isBlocked(messageData.senderId, messageData.receiverId)) {
+      return res.status(403).json({ message: "You can't message this user" });
+    }
+    
     // Check if there's a match between the users
     const match = await storage.getUserMatchByUsers(
       messageData.senderId, 
@@ -898,114 +2852,107 @@ export async function registerRoutes(app: Express): Promise<Server> {
     
     // Create the message
     const message = await storage.createMessage(messageData);
+    await deliverMessage(message);
     
     res.status(201).json(message);
   });
   
-  // CSV upload for bulk gym import (admin only)
-  app.post("/api/gyms/upload-csv", upload.single('file'), async (req, res) => {
-    if (!req.isAuthenticated() || !req.user?.isAdmin) {
-      return res.status(403).json({ message: "Admin access required" });
-    }
-    
-    if (!req.file) {
-      return res.status(400).json({ message: "No file uploaded" });
+  const httpServer = createServer(app);
+  
+  // Set up WebSocket server on a distinct path to avoid conflicts with Vite's HMR.
+  // Upgrades are handled manually so they can be authenticated first.
+  const wss = new WebSocketServer({ noServer: true });
+  
+  // Session each socket was opened with, so logout only closes that session's socket
+  const socketSessions = new WeakMap<WebSocket, string>();
+  
+  const rejectUpgrade = (socket: Duplex, status: number, reason: string) => {
+    socket.write(`HTTP/1.1 ${status} ${reason}\r\nConnection: close\r\n\r\n`);
+    socket.destroy();
+  };
+  
+  // Authenticate the upgrade with the same session cookie as the HTTP API
+  httpServer.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const { pathname } = new URL(req.url || '/', 'http://localhost');
+    if (pathname !== '/ws') {
+      // Leave other upgrades (e.g. Vite HMR) to their own handlers
+      return;
     }
     
-    const results: any[] = [];
-    const errors: any[] = [];
-    
-    try {
-      // Parse the CSV file
-      const parser = fs.createReadStream(req.file.path)
-        .pipe(parse({
-          columns: true,
-          trim: true,
-          skip_empty_lines: true
-        }));
-      
-      // Process each row in the CSV
-      for await (const row of parser) {
-        try {
-          // Transform row data into our gym schema format
-          const gymData = {
-            name: row.name,
-            location: {
-              address: row.address || '',
-              lat: parseFloat(row.latitude) || 0,
-              lng: parseFloat(row.longitude) || 0
-            },
-            rating: parseFloat(row.rating) || 0,
-            amenities: row.amenities ? row.amenities.split(',').map((a: string) => a.trim()) : [],
-            addedBy: req.user.id
-          };
-          
-          // Validate the gym data
-          const parseResult = insertGymSchema.safeParse(gymData);
-          if (parseResult.success) {
-            // Create the gym in the database
-            const newGym = await storage.createGym(parseResult.data);
-            results.push(newGym);
-          } else {
-            errors.push({
-              row,
-              errors: parseResult.error.format()
-            });
-          }
-        } catch (err) {
-          errors.push({
-            row,
-            error: err instanceof Error ? err.message : 'Unknown error'
-          });
+    sessionParser(req as Request, {} as Response, async () => {
+      try {
+        const session = (req as Request).session as { passport?: { user?: number } } | undefined;
+        const sessionUserId = session?.passport?.user;
+        if (!sessionUserId) {
+          return rejectUpgrade(socket, 401, 'Unauthorized');
         }
+        
+        const user = await storage.getUser(sessionUserId);
+        if (!user || user.isBanned) {
+          return rejectUpgrade(socket, 403, 'Forbidden');
+        }
+        
+        wss.handleUpgrade(req, socket, head, (ws) => {
+          socketSessions.set(ws, (req as Request).sessionID);
+          wss.emit('connection', ws, req, user.id);
+        });
+      } catch (error) {
+        console.error('WebSocket upgrade error:', error);
+        rejectUpgrade(socket, 500, 'Internal Server Error');
       }
-      
-      // Delete the temporary file
-      fs.unlinkSync(req.file.path);
-      
-      res.status(200).json({
-        success: true,
-        imported: results.length,
-        errors: errors.length,
-        errorDetails: errors.length > 0 ? errors : undefined
-      });
-    } catch (err) {
-      // Delete the temporary file
-      if (req.file) {
-        try { fs.unlinkSync(req.file.path); } catch (e) { /* ignore error */ }
-      }
-      
-      console.error('Error processing CSV:', err);
-      res.status(500).json({
-        success: false,
-        message: err instanceof Error ? err.message : 'Unknown error processing CSV file',
-      });
-    }
+    });
+  });
+  
+  // Close sockets when their session logs out or the user is banned
+  authEvents.on('logout', (userId: number, sessionId: string) => {
+    closeUserSockets(userId, 4001, 'Logged out', (ws) => socketSessions.get(ws) === sessionId);
   });
-
-  const httpServer = createServer(app);
   
-  // Set up WebSocket server on a distinct path to avoid conflicts with Vite's HMR
-  const wss = new WebSocketServer({ 
-    server: httpServer, 
-    path: '/ws' 
+  authEvents.on('banned', (userId: number) => {
+    closeUserSockets(userId, 4003, 'Account banned');
   });
   
-  // Map to store connected clients by user ID
-  const connectedClients = new Map<number, WebSocket>();
+  // Tell a user's accepted matches that they came online or went offline
+  const broadcastPresence = async (userId: number, online: boolean) => {
+    try {
+      const matchedUserIds = await getAcceptedMatchUserIds(userId);
+      for (const matchedUserId of matchedUserIds) {
+        sendToUser(matchedUserId, { type: online ? 'user_online' : 'user_offline', userId });
+      }
+    } catch (error) {
+      console.error('Error broadcasting presence:', error);
+    }
+  };
+  
+  // Heartbeat: ping every socket and terminate those that missed the last pong
+  const aliveSockets = new WeakSet<WebSocket>();
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach((ws) => {
+      if (!aliveSockets.has(ws)) {
+        ws.terminate();
+        return;
+      }
+      aliveSockets.delete(ws);
+      ws.ping();
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+  
+  wss.on('close', () => clearInterval(heartbeat));
   
   // WebSocket connection handling
-  wss.on('connection', (ws, req) => {
-    // Get user ID from query parameter
-    const userId = parseInt(req.url?.split('?userId=')[1] || '0');
-    if (!userId) {
-      // Close connection if no valid user ID
-      ws.close(1000, 'User ID required');
-      return;
+  wss.on('connection', (ws: WebSocket, req: IncomingMessage, userId: number) => {
+    aliveSockets.add(ws);
+    ws.on('pong', () => aliveSockets.add(ws));
+    
+    // A user may be connected from several devices at once
+    if (addClient(userId, ws)) {
+      broadcastPresence(userId, true);
     }
     
-    // Store connection mapped to user ID
-    connectedClients.set(userId, ws);
+    // Anything sent while the user was offline has now reached them
+    storage.markMessagesAsDelivered(userId)
+      .then(notifyMessageStatus)
+      .catch(error => console.error('Error marking messages delivered:', error));
     
     console.log(`User ${userId} connected via WebSocket`);
     
@@ -1026,7 +2973,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
             if (!senderId || !receiverId || !content) {
               ws.send(JSON.stringify({ 
                 type: 'error', 
-                message: 'Invalid message data' 
+                message: 'Invalid message data',
+                clientId: data.clientId,
+                receiverId
               }));
               return;
             }
@@ -1035,7 +2984,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
             if (senderId !== userId) {
               ws.send(JSON.stringify({ 
                 type: 'error', 
-                message: 'You can only send messages as yourself' 
+                message: 'You can only send messages as yourself',
+                clientId: data.clientId,
+                receiverId
+              }));
+              return;
+            }
+            
+            if (await storage.isBlocked(senderId, receiverId)) {
+              ws.send(JSON.stringify({ 
+                type: 'error', 
+                message: 'You can\'t message this user',
+                clientId: data.clientId,
+                receiverId
               }));
               return;
             }
@@ -1045,7 +3006,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
             if (!match || match.status !== 'accepted') {
               ws.send(JSON.stringify({ 
                 type: 'error', 
-                message: 'You can only message users you\'ve matched with' 
+                message: 'You can only message users you\'ve matched with',
+                clientId: data.clientId,
+                receiverId
               }));
               return;
             }
@@ -1057,20 +3020,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
               content,
             });
             
-            // Send confirmation to sender
-            ws.send(JSON.stringify({ 
+            // Send confirmation to all of the sender's devices, echoing the client's
+            // temporary ID so an optimistic message can be swapped for the stored one
+            sendToUser(senderId, { 
               type: 'message_sent', 
+              clientId: data.clientId,
               message 
-            }));
+            });
             
-            // Forward to recipient if they're connected
-            const receiverSocket = connectedClients.get(receiverId);
-            if (receiverSocket && receiverSocket.readyState === WebSocket.OPEN) {
-              receiverSocket.send(JSON.stringify({ 
-                type: 'new_message', 
-                message 
-              }));
-            }
+            // Forward to recipient's devices if they're connected
+            await deliverMessage(message);
             break;
           }
           
@@ -1086,12 +3045,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
               return;
             }
             
-            await storage.markMessagesAsRead(userId, senderId);
+            await markConversationRead(userId, senderId);
+            break;
+          }
+          
+          case 'typing_start':
+          case 'typing_stop': {
+            // Relay typing state to the conversation partner
+            const receiverId = data.receiverId;
+            
+            if (!receiverId) {
+              ws.send(JSON.stringify({ 
+                type: 'error', 
+                message: 'Receiver ID required' 
+              }));
+              return;
+            }
+            
+            const match = await storage.getUserMatchByUsers(userId, receiverId);
+            if (!match || match.status !== 'accepted') {
+              return;
+            }
             
-            ws.send(JSON.stringify({ 
-              type: 'messages_read', 
-              senderId 
-            }));
+            sendToUser(receiverId, { 
+              type: data.type, 
+              senderId: userId 
+            });
             break;
           }
           
@@ -1113,7 +3092,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     // Handle disconnection
     ws.on('close', () => {
       console.log(`User ${userId} disconnected from WebSocket`);
-      connectedClients.delete(userId);
+      if (removeClient(userId, ws)) {
+        broadcastPresence(userId, false);
+      }
     });
   });
   
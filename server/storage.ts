@@ -1,12 +1,35 @@
 import { 
   users, type User, type InsertUser, 
-  gyms, type Gym, type InsertGym, 
+  gyms, type Gym, type InsertGym, type GymWithDistance,
   savedGyms, type SavedGym, type InsertSavedGym,
   userMatches, type UserMatch, type InsertUserMatch,
-  messages, type Message, type InsertMessage
+  messages, type Message, type InsertMessage,
+  type MessagePageOptions, type Conversation,
+  type GymReview, type InsertGymReview, type GymReviewWithAuthor,
+  type MembershipPlan, type InsertMembershipPlan, type GymMatch, type PartnerRecommendation,
+  type UserBlock, type InsertUserBlock, type UserReport, type InsertUserReport,
+  type AuditLogEntry, type InsertAuditLogEntry, type AuditLogFilters, type GymManager,
+  type GymClaim, type InsertGymClaim, type GymAnnouncement, type InsertGymAnnouncement,
+  type AuthToken, type InsertAuthToken, type AuthTokenPurpose,
+  type LoginAttempt, type InsertLoginAttempt, type LoginAttemptFilters, type LoginAttemptCountFilters,
+  type LoginAttemptOutcome, type LoginAttemptCount, type PasswordHashCount,
+  type ApiToken, type InsertApiToken, type Job, type InsertJob,
+  type Amenity, type InsertAmenity, type AmenityWithUsage, type AmenityUpdateResult
 } from "@shared/schema";
+import { ALWAYS_OPEN, parseOpeningHours } from "@shared/opening-hours";
 import session from "express-session";
 import createMemoryStore from "memorystore";
+import { getLatLng, haversineDistanceKm } from "./geo";
+import { rankGymsForUser, type MatchOptions } from "./matching";
+import {
+  gymPageSortValue, matchesGymFilters, type GymFilters, type GymPage, type GymPageQuery
+} from "./gym-filters";
+import {
+  DEFAULT_AMENITIES, amenityKey, createAmenityResolver, mergedSynonyms, replaceGymAmenities, type AmenityResolver
+} from "./amenities";
+import { buildPartnerContext, rankPartnersForUser, scorePartner } from "./partner-matching";
+import { BlockedUserError } from "./moderation";
+import { describePasswordHash } from "./passwords";
 
 const MemoryStore = createMemoryStore(session);
 
@@ -16,25 +39,54 @@ export interface IStorage {
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   getUserByGoogleId(googleId: string): Promise<User | undefined>;
+  // Case-insensitive; prefers an account that has verified the address
+  getUserByEmail(email: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   getAllUsers(): Promise<User[]>;
   updateUser(id: number, userData: Partial<User>): Promise<User | undefined>;
+  // Marks an authenticator code's time step used; false if it or a later step already was
+  useTotpCounter(id: number, counter: number): Promise<boolean>;
+  // Removes a hashed recovery code; false if the user no longer has it, so each code works once
+  useRecoveryCode(id: number, codeHash: string): Promise<boolean>;
   deleteUser(id: number): Promise<boolean>;
   
   // Gym operations
   getGym(id: number): Promise<Gym | undefined>;
   getAllGyms(): Promise<Gym[]>;
-  getNearbyGyms(lat: number, lng: number, radius?: number): Promise<Gym[]>;
+  getGymsAfter(afterId: number, limit: number): Promise<Gym[]>;
+  getGymCount(): Promise<number>;
+  getNearbyGyms(lat: number, lng: number, radiusKm?: number): Promise<GymWithDistance[]>;
+  searchGyms(filters: GymFilters): Promise<(Gym & { distanceKm: number | null })[]>;
+  // One sorted page of the gyms searchGyms would return, see GymPage. Not for
+  // openNow searches, which depend on each gym's hours and are checked in code.
+  searchGymPage(filters: GymFilters, query: GymPageQuery): Promise<GymPage>;
   createGym(gym: InsertGym): Promise<Gym>;
   updateGym(id: number, gym: Partial<Gym>): Promise<Gym | undefined>;
   deleteGym(id: number): Promise<boolean>;
+  // Add and update gyms for a CSV import, all or nothing; created gyms come back in order
+  importGyms(creates: InsertGym[], updates: { id: number; gym: Partial<InsertGym> }[]): Promise<{ created: Gym[]; updated: Gym[] }>;
+  
+  // Amenity operations. Gym writes resolve amenity names to these, see amenities.ts.
+  getAllAmenities(): Promise<Amenity[]>;
+  getAmenity(id: number): Promise<Amenity | undefined>;
+  getAmenitiesWithUsage(): Promise<AmenityWithUsage[]>;
+  createAmenity(amenity: InsertAmenity): Promise<Amenity>;
+  // Renaming an amenity renames it on every gym that has it. Both this and
+  // mergeAmenities report progress through the gyms they update, and throwing
+  // from onProgress undoes everything.
+  updateAmenity(id: number, amenity: Partial<InsertAmenity>, onProgress?: (percent: number) => Promise<void>): Promise<AmenityUpdateResult | undefined>;
+  // Moves gyms from the source amenities to the target and deletes the sources,
+  // keeping their names as synonyms of the target
+  mergeAmenities(targetId: number, sourceIds: number[], onProgress?: (percent: number) => Promise<void>): Promise<AmenityUpdateResult | undefined>;
   
   // Saved gym/match operations
   getSavedGym(userId: number, gymId: number): Promise<SavedGym | undefined>;
   getSavedGymsByUser(userId: number): Promise<SavedGym[]>;
+  getAllSavedGyms(): Promise<SavedGym[]>;
   saveGym(savedGym: InsertSavedGym): Promise<SavedGym>;
   deleteSavedGym(userId: number, gymId: number): Promise<boolean>;
-  getMatchesForUser(userId: number): Promise<Array<Gym & { matchScore: number }>>;
+  // Scores every gym for a user, best match first (see matching.ts)
+  getMatchesForUser(userId: number, options?: MatchOptions): Promise<GymMatch[]>;
 
   // User match operations (for connecting users)
   getUserMatches(userId: number, status?: string): Promise<UserMatch[]>;
@@ -43,12 +95,115 @@ export interface IStorage {
   createUserMatch(userMatch: InsertUserMatch): Promise<UserMatch>;
   updateUserMatchStatus(id: number, status: string): Promise<UserMatch | undefined>;
   deleteUserMatch(id: number): Promise<boolean>;
+  // Ranks other members as workout partners, best first (see partner-matching.ts)
+  getPartnerRecommendations(userId: number): Promise<PartnerRecommendation[]>;
+  // Scores one member as a partner for another; undefined if either user doesn't exist
+  getPartnerScore(userId: number, candidateId: number): Promise<PartnerRecommendation | undefined>;
   
   // Message operations
-  getMessages(userId: number, otherUserId: number): Promise<Message[]>;
+  // Returns the newest `limit` messages before the cursor, oldest first
+  getMessages(userId: number, otherUserId: number, options?: MessagePageOptions): Promise<Message[]>;
+  getMessage(id: number): Promise<Message | undefined>;
+  getConversations(userId: number): Promise<Conversation[]>;
   getUnreadMessageCount(userId: number): Promise<number>;
   createMessage(message: InsertMessage): Promise<Message>;
-  markMessagesAsRead(receiverId: number, senderId: number): Promise<void>;
+  markMessagesAsDelivered(receiverId: number): Promise<Message[]>;
+  markMessagesAsRead(receiverId: number, senderId: number): Promise<Message[]>;
+  
+  // Gym review operations; writes recompute the gym's rating and review count
+  getGymReviews(gymId: number): Promise<GymReviewWithAuthor[]>;
+  getGymReview(id: number): Promise<GymReview | undefined>;
+  getGymReviewByUser(gymId: number, userId: number): Promise<GymReview | undefined>;
+  createGymReview(review: InsertGymReview): Promise<GymReview>;
+  updateGymReview(id: number, review: Partial<InsertGymReview>): Promise<GymReview | undefined>;
+  deleteGymReview(id: number): Promise<boolean>;
+  
+  // Membership plan operations; a gym's plans are returned cheapest first
+  getMembershipPlans(gymId: number): Promise<MembershipPlan[]>;
+  getAllMembershipPlans(): Promise<MembershipPlan[]>;
+  getMembershipPlansForGyms(gymIds: number[]): Promise<MembershipPlan[]>;
+  getMembershipPlan(id: number): Promise<MembershipPlan | undefined>;
+  createMembershipPlan(plan: InsertMembershipPlan): Promise<MembershipPlan>;
+  updateMembershipPlan(id: number, plan: Partial<InsertMembershipPlan>): Promise<MembershipPlan | undefined>;
+  deleteMembershipPlan(id: number): Promise<boolean>;
+  
+  // Block operations; a block hides the two users from each other in both directions
+  getUserBlocks(blockerId: number): Promise<UserBlock[]>;
+  // Everyone hidden from this user: those they blocked and those who blocked them
+  getBlockedUserIds(userId: number): Promise<number[]>;
+  isBlocked(userId: number, otherUserId: number): Promise<boolean>;
+  createUserBlock(block: InsertUserBlock): Promise<UserBlock>;
+  deleteUserBlock(blockerId: number, blockedId: number): Promise<boolean>;
+  
+  // Report operations; reports are returned newest first
+  getUserReports(status?: string): Promise<UserReport[]>;
+  getUserReport(id: number): Promise<UserReport | undefined>;
+  createUserReport(report: InsertUserReport): Promise<UserReport>;
+  updateUserReport(id: number, report: Partial<UserReport>): Promise<UserReport | undefined>;
+  
+  // Audit log operations; the log is append-only, newest entries first
+  createAuditLogEntry(entry: InsertAuditLogEntry): Promise<AuditLogEntry>;
+  getAuditLog(filters?: AuditLogFilters): Promise<AuditLogEntry[]>;
+  
+  // Gym manager assignments; only consulted for users with the gym_manager role
+  getManagedGymIds(userId: number): Promise<number[]>;
+  isGymManager(userId: number, gymId: number): Promise<boolean>;
+  // Replace every gym assignment the user has
+  setManagedGyms(userId: number, gymIds: number[]): Promise<void>;
+  addGymManager(userId: number, gymId: number): Promise<void>;
+  
+  // Gym claim operations; claims are returned newest first
+  getGymClaims(filters?: { status?: string; userId?: number }): Promise<GymClaim[]>;
+  getGymClaim(id: number): Promise<GymClaim | undefined>;
+  createGymClaim(claim: InsertGymClaim): Promise<GymClaim>;
+  updateGymClaim(id: number, claim: Partial<GymClaim>): Promise<GymClaim | undefined>;
+  
+  // Gym announcement operations; announcements are returned newest first
+  getGymAnnouncements(gymId: number): Promise<GymAnnouncement[]>;
+  getGymAnnouncement(id: number): Promise<GymAnnouncement | undefined>;
+  createGymAnnouncement(announcement: InsertGymAnnouncement): Promise<GymAnnouncement>;
+  updateGymAnnouncement(id: number, announcement: Partial<InsertGymAnnouncement>): Promise<GymAnnouncement | undefined>;
+  deleteGymAnnouncement(id: number): Promise<boolean>;
+  
+  // Email token operations, looked up by the SHA-256 hash of the token
+  createAuthToken(token: InsertAuthToken): Promise<AuthToken>;
+  getAuthTokenByHash(tokenHash: string): Promise<AuthToken | undefined>;
+  // Marks the token used; false if it was already used, so each token works once
+  consumeAuthToken(id: number): Promise<boolean>;
+  deleteAuthTokens(userId: number, purpose: AuthTokenPurpose): Promise<void>;
+  
+  // Personal API token operations, looked up by the SHA-256 hash of the token
+  createApiToken(token: InsertApiToken): Promise<ApiToken>;
+  // A user's tokens, newest first
+  getApiTokens(userId: number): Promise<ApiToken[]>;
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  touchApiToken(id: number): Promise<void>;
+  // Only deletes the token if it belongs to the user
+  deleteApiToken(id: number, userId: number): Promise<boolean>;
+  
+  // Site-wide settings; callers validate the stored value
+  getSetting(key: string): Promise<unknown | undefined>;
+  setSetting(key: string, value: unknown, updatedBy: number): Promise<void>;
+  
+  // Login attempt operations; attempts are returned newest first
+  recordLoginAttempt(attempt: InsertLoginAttempt): Promise<LoginAttempt>;
+  updateLoginAttempt(id: number, attempt: Partial<Pick<InsertLoginAttempt, "outcome" | "userId">>): Promise<void>;
+  getLoginAttempts(filters?: LoginAttemptFilters): Promise<LoginAttempt[]>;
+  countLoginAttempts(filters: LoginAttemptCountFilters): Promise<LoginAttemptCount>;
+  
+  // How many accounts use each password hash format, for the rehash report
+  getPasswordHashCounts(): Promise<PasswordHashCount[]>;
+  
+  // Background job operations; see jobs.ts
+  createJob(job: InsertJob): Promise<Job>;
+  getJob(id: number): Promise<Job | undefined>;
+  // A user's jobs, newest first
+  getJobsByUser(userId: number, limit: number): Promise<Job[]>;
+  // Marks the oldest queued job running and returns it, so each job is claimed once
+  claimNextJob(): Promise<Job | undefined>;
+  updateJob(id: number, job: Partial<Job>): Promise<Job | undefined>;
+  // Fails jobs still marked running from before a restart and returns them
+  failInterruptedJobs(error: string): Promise<Job[]>;
   
   // Session store
   sessionStore: any;
@@ -63,11 +218,38 @@ export class MemStorage implements IStorage {
   private savedGymStore: Map<string, SavedGym>;
   private userMatchStore: Map<number, UserMatch>;
   private messageStore: Map<number, Message>;
+  private gymReviewStore: Map<number, GymReview>;
+  private membershipPlanStore: Map<number, MembershipPlan>;
+  private userBlockStore: Map<number, UserBlock>;
+  private userReportStore: Map<number, UserReport>;
+  private auditLog: AuditLogEntry[];
+  private gymManagerStore: Map<number, GymManager>;
+  private gymClaimStore: Map<number, GymClaim>;
+  private gymAnnouncementStore: Map<number, GymAnnouncement>;
+  private authTokenStore: Map<number, AuthToken>;
+  private apiTokenStore: Map<number, ApiToken>;
+  private settingStore: Map<string, unknown>;
+  private loginAttempts: LoginAttempt[];
+  private jobStore: Map<number, Job>;
+  private amenityStore: Map<number, Amenity>;
   private userIdCounter: number;
   private gymIdCounter: number;
   private savedGymIdCounter: number;
   private userMatchIdCounter: number;
   private messageIdCounter: number;
+  private gymReviewIdCounter: number;
+  private membershipPlanIdCounter: number;
+  private userBlockIdCounter: number;
+  private userReportIdCounter: number;
+  private auditLogIdCounter: number;
+  private gymManagerIdCounter: number;
+  private gymClaimIdCounter: number;
+  private gymAnnouncementIdCounter: number;
+  private authTokenIdCounter: number;
+  private apiTokenIdCounter: number;
+  private loginAttemptIdCounter: number;
+  private jobIdCounter: number;
+  private amenityIdCounter: number;
   
   sessionStore: any;
 
@@ -77,11 +259,38 @@ export class MemStorage implements IStorage {
     this.savedGymStore = new Map();
     this.userMatchStore = new Map();
     this.messageStore = new Map();
+    this.gymReviewStore = new Map();
+    this.membershipPlanStore = new Map();
+    this.userBlockStore = new Map();
+    this.userReportStore = new Map();
+    this.auditLog = [];
+    this.gymManagerStore = new Map();
+    this.gymClaimStore = new Map();
+    this.gymAnnouncementStore = new Map();
+    this.authTokenStore = new Map();
+    this.apiTokenStore = new Map();
+    this.settingStore = new Map();
+    this.loginAttempts = [];
+    this.jobStore = new Map();
+    this.amenityStore = new Map();
     this.userIdCounter = 1;
     this.gymIdCounter = 1;
     this.savedGymIdCounter = 1;
     this.userMatchIdCounter = 1;
     this.messageIdCounter = 1;
+    this.gymReviewIdCounter = 1;
+    this.membershipPlanIdCounter = 1;
+    this.userBlockIdCounter = 1;
+    this.userReportIdCounter = 1;
+    this.auditLogIdCounter = 1;
+    this.gymManagerIdCounter = 1;
+    this.gymClaimIdCounter = 1;
+    this.gymAnnouncementIdCounter = 1;
+    this.authTokenIdCounter = 1;
+    this.apiTokenIdCounter = 1;
+    this.loginAttemptIdCounter = 1;
+    this.jobIdCounter = 1;
+    this.amenityIdCounter = 1;
     
     this.sessionStore = new MemoryStore({
       checkPeriod: 86400000 // 24 hours
@@ -92,10 +301,11 @@ export class MemStorage implements IStorage {
       username: "admin",
       password: "password", // This will be hashed
       name: "Admin User",
-      isAdmin: true
+      role: "super_admin"
     } as InsertUser);
     
-    // Add sample gyms
+    // Add the starting amenity list, then sample gyms that use it
+    DEFAULT_AMENITIES.forEach(amenity => this.createAmenity(amenity));
     this.createSampleGyms();
   }
 
@@ -116,6 +326,13 @@ export class MemStorage implements IStorage {
     );
   }
 
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const matches = Array.from(this.userStore.values()).filter(
+      (user) => user.email?.toLowerCase() === email.toLowerCase()
+    );
+    return matches.find(user => user.emailVerifiedAt) ?? matches[0];
+  }
+
   async createUser(userData: InsertUser): Promise<User> {
     const id = this.userIdCounter++;
     const createdAt = new Date();
@@ -125,7 +342,15 @@ export class MemStorage implements IStorage {
       createdAt, 
       fitnessGoals: userData.fitnessGoals || [],
       gymPreferences: userData.gymPreferences || [],
-      isAdmin: userData.isAdmin || false
+      monthlyBudget: userData.monthlyBudget ?? null,
+      budgetCurrency: userData.budgetCurrency ?? "USD",
+      role: (userData as Partial<User>).role ?? "member",
+      emailVerifiedAt: userData.emailVerifiedAt ?? null,
+      totpSecret: null,
+      totpEnabledAt: null,
+      totpLastUsedCounter: null,
+      totpRecoveryCodes: [],
+      lastActiveAt: null
     };
     this.userStore.set(id, user);
     return user;
@@ -144,9 +369,47 @@ export class MemStorage implements IStorage {
     return updatedUser;
   }
   
+  async useTotpCounter(id: number, counter: number): Promise<boolean> {
+    const user = this.userStore.get(id);
+    if (!user || (user.totpLastUsedCounter !== null && user.totpLastUsedCounter >= counter)) return false;
+    
+    this.userStore.set(id, { ...user, totpLastUsedCounter: counter });
+    return true;
+  }
+  
+  async useRecoveryCode(id: number, codeHash: string): Promise<boolean> {
+    const user = this.userStore.get(id);
+    if (!user || !user.totpRecoveryCodes.includes(codeHash)) return false;
+    
+    this.userStore.set(id, { ...user, totpRecoveryCodes: user.totpRecoveryCodes.filter(existing => existing !== codeHash) });
+    return true;
+  }
+  
   async deleteUser(id: number): Promise<boolean> {
     // In a real app, we would also handle cascading deletes
     // (e.g., delete user's matches, messages, saved gyms, etc.)
+    
+    // Reviews do cascade, since they feed into gym ratings
+    Array.from(this.gymReviewStore.values())
+      .filter(review => review.userId === id)
+      .forEach(review => {
+        this.gymReviewStore.delete(review.id);
+        this.refreshGymRating(review.gymId);
+      });
+    await this.setManagedGyms(id, []);
+    for (const claim of Array.from(this.gymClaimStore.values())) {
+      if (claim.userId === id) this.gymClaimStore.delete(claim.id);
+    }
+    for (const token of Array.from(this.authTokenStore.values())) {
+      if (token.userId === id) this.authTokenStore.delete(token.id);
+    }
+    for (const token of Array.from(this.apiTokenStore.values())) {
+      if (token.userId === id) this.apiTokenStore.delete(token.id);
+    }
+    for (const job of Array.from(this.jobStore.values())) {
+      if (job.userId === id) this.jobStore.delete(job.id);
+    }
+    
     return this.userStore.delete(id);
   }
   
@@ -159,16 +422,84 @@ export class MemStorage implements IStorage {
     return Array.from(this.gymStore.values());
   }
   
-  async getNearbyGyms(lat: number, lng: number, radius = 10): Promise<Gym[]> {
-    // Simple implementation - in a real app you'd use proper geospatial queries
-    // Here we just return all gyms as "nearby"
-    return this.getAllGyms();
+  // Gyms in id order after the given id, for walking the whole catalog in batches
+  async getGymsAfter(afterId: number, limit: number): Promise<Gym[]> {
+    return Array.from(this.gymStore.values())
+      .filter(gym => gym.id > afterId)
+      .sort((a, b) => a.id - b.id)
+      .slice(0, limit);
+  }
+  
+  async getGymCount(): Promise<number> {
+    return this.gymStore.size;
+  }
+  
+  async getNearbyGyms(lat: number, lng: number, radiusKm = 10): Promise<GymWithDistance[]> {
+    const origin = { lat, lng };
+    const nearby: GymWithDistance[] = [];
+    
+    for (const gym of Array.from(this.gymStore.values())) {
+      // Gyms without coordinates can't be placed on the map
+      const position = getLatLng(gym.location);
+      if (!position) continue;
+      
+      const distanceKm = haversineDistanceKm(origin, position);
+      if (distanceKm <= radiusKm) {
+        nearby.push({ ...gym, distanceKm });
+      }
+    }
+    
+    // Nearest first, same ordering as the SQL query in DatabaseStorage
+    return nearby.sort((a, b) => a.distanceKm - b.distanceKm || a.id - b.id);
+  }
+  
+  // Gyms matching the search filters, with their distance from filters.near when given
+  async searchGyms(filters: GymFilters): Promise<(Gym & { distanceKm: number | null })[]> {
+    const now = new Date();
+    return Array.from(this.gymStore.values())
+      .filter(gym => matchesGymFilters(gym, filters, now))
+      .map(gym => {
+        const position = filters.near ? getLatLng(gym.location) : null;
+        return { ...gym, distanceKm: position ? haversineDistanceKm(filters.near!, position) : null };
+      });
+  }
+  
+  async searchGymPage(filters: GymFilters, { sort, limit, cursor }: GymPageQuery): Promise<GymPage> {
+    const results = await this.searchGyms(filters);
+    
+    const amenityCounts = new Map<number, number>();
+    for (const gym of results) {
+      for (const id of gym.amenityIds) amenityCounts.set(id, (amenityCounts.get(id) ?? 0) + 1);
+    }
+    
+    const gyms = results
+      .map(gym => ({ ...gym, sortValue: gymPageSortValue(gym, sort) }))
+      .filter(gym => !cursor || gym.sortValue > cursor.value || (gym.sortValue === cursor.value && gym.id > cursor.id))
+      .sort((a, b) => a.sortValue - b.sortValue || a.id - b.id)
+      .slice(0, limit);
+    
+    return {
+      gyms,
+      total: results.length,
+      amenityCounts: Array.from(amenityCounts, ([id, count]) => ({ id, count })),
+    };
   }
   
   async createGym(gymData: InsertGym): Promise<Gym> {
     const id = this.gymIdCounter++;
     const createdAt = new Date();
-    const gym: Gym = { ...gymData, id, createdAt, images: gymData.images || [], amenities: gymData.amenities || [] };
+    const gym: Gym = {
+      ...gymData,
+      id,
+      createdAt,
+      images: gymData.images || [],
+      ...(await this.amenityResolver()(gymData.amenities)),
+      rating: null,
+      reviewCount: 0,
+      openingHours: gymData.openingHours ?? null,
+      holidayHours: gymData.holidayHours ?? [],
+      timezone: gymData.timezone ?? "UTC"
+    };
     this.gymStore.set(id, gym);
     return gym;
   }
@@ -177,15 +508,138 @@ export class MemStorage implements IStorage {
     const existingGym = await this.getGym(id);
     if (!existingGym) return undefined;
     
-    const updatedGym = { ...existingGym, ...gymData };
+    // Amenity IDs always follow from the names
+    const { amenityIds, ...changes } = gymData;
+    const updatedGym = {
+      ...existingGym,
+      ...changes,
+      ...(changes.amenities !== undefined ? await this.amenityResolver()(changes.amenities) : {})
+    };
     this.gymStore.set(id, updatedGym);
     return updatedGym;
   }
   
   async deleteGym(id: number): Promise<boolean> {
+    for (const plan of Array.from(this.membershipPlanStore.values())) {
+      if (plan.gymId === id) this.membershipPlanStore.delete(plan.id);
+    }
+    for (const assignment of Array.from(this.gymManagerStore.values())) {
+      if (assignment.gymId === id) this.gymManagerStore.delete(assignment.id);
+    }
+    for (const claim of Array.from(this.gymClaimStore.values())) {
+      if (claim.gymId === id) this.gymClaimStore.delete(claim.id);
+    }
+    for (const announcement of Array.from(this.gymAnnouncementStore.values())) {
+      if (announcement.gymId === id) this.gymAnnouncementStore.delete(announcement.id);
+    }
     return this.gymStore.delete(id);
   }
   
+  async importGyms(creates: InsertGym[], updates: { id: number; gym: Partial<InsertGym> }[]): Promise<{ created: Gym[]; updated: Gym[] }> {
+    // Check first so a missing gym leaves nothing half-imported
+    const missing = updates.find(update => !this.gymStore.has(update.id));
+    if (missing) throw new Error(`Gym ${missing.id} no longer exists`);
+    
+    const created: Gym[] = [];
+    for (const gymData of creates) {
+      created.push(await this.createGym(gymData));
+    }
+    const updated: Gym[] = [];
+    for (const { id, gym } of updates) {
+      updated.push((await this.updateGym(id, gym))!);
+    }
+    return { created, updated };
+  }
+  
+  // Amenity operations
+  private amenityResolver(): AmenityResolver {
+    // Looks again before adding, in case another write added the same name meanwhile
+    return createAmenityResolver(Array.from(this.amenityStore.values()), async (name) =>
+      Array.from(this.amenityStore.values()).find(amenity => amenityKey(amenity.name) === amenityKey(name)) ??
+        this.createAmenity({ name })
+    );
+  }
+  
+  async getAllAmenities(): Promise<Amenity[]> {
+    return Array.from(this.amenityStore.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+  
+  async getAmenity(id: number): Promise<Amenity | undefined> {
+    return this.amenityStore.get(id);
+  }
+  
+  async getAmenitiesWithUsage(): Promise<AmenityWithUsage[]> {
+    const gyms = Array.from(this.gymStore.values());
+    return (await this.getAllAmenities())
+      .map(amenity => ({ ...amenity, gymCount: gyms.filter(gym => gym.amenityIds.includes(amenity.id)).length }))
+      .sort((a, b) => a.category.localeCompare(b.category) || a.name.localeCompare(b.name));
+  }
+  
+  async createAmenity(amenityData: InsertAmenity): Promise<Amenity> {
+    const id = this.amenityIdCounter++;
+    const amenity: Amenity = {
+      id,
+      name: amenityData.name,
+      category: amenityData.category ?? "other",
+      icon: amenityData.icon ?? null,
+      synonyms: amenityData.synonyms ?? [],
+      createdAt: new Date()
+    };
+    this.amenityStore.set(id, amenity);
+    return amenity;
+  }
+  
+  async updateAmenity(
+    id: number,
+    amenityData: Partial<InsertAmenity>,
+    onProgress: (percent: number) => Promise<void> = async () => {}
+  ): Promise<AmenityUpdateResult | undefined> {
+    const existingAmenity = this.amenityStore.get(id);
+    if (!existingAmenity) return undefined;
+    
+    const updatedAmenity = { ...existingAmenity, ...amenityData };
+    const affectedGyms = updatedAmenity.name !== existingAmenity.name
+      ? Array.from(this.gymStore.values()).filter(gym => gym.amenityIds.includes(id))
+      : [];
+    // Gyms are only changed once every progress report has passed, like the
+    // database backend's transaction
+    const replacements = new Map([[id, updatedAmenity]]);
+    const updatedGyms: Gym[] = [];
+    for (const [index, gym] of Array.from(affectedGyms.entries())) {
+      await onProgress((index / affectedGyms.length) * 100);
+      updatedGyms.push({ ...gym, ...replaceGymAmenities(gym, replacements) });
+    }
+    
+    this.amenityStore.set(id, updatedAmenity);
+    updatedGyms.forEach(gym => this.gymStore.set(gym.id, gym));
+    return { amenity: updatedAmenity, gymsUpdated: updatedGyms.length };
+  }
+  
+  async mergeAmenities(
+    targetId: number,
+    sourceIds: number[],
+    onProgress: (percent: number) => Promise<void> = async () => {}
+  ): Promise<AmenityUpdateResult | undefined> {
+    const target = this.amenityStore.get(targetId);
+    const sources = sourceIds.map(id => this.amenityStore.get(id));
+    if (!target || sources.some(source => !source)) return undefined;
+    
+    const replacements = new Map(sourceIds.map(id => [id, target]));
+    const affectedGyms = Array.from(this.gymStore.values())
+      .filter(gym => gym.amenityIds.some(id => replacements.has(id)));
+    const updatedGyms: Gym[] = [];
+    for (const [index, gym] of Array.from(affectedGyms.entries())) {
+      await onProgress((index / affectedGyms.length) * 100);
+      updatedGyms.push({ ...gym, ...replaceGymAmenities(gym, replacements) });
+    }
+    
+    updatedGyms.forEach(gym => this.gymStore.set(gym.id, gym));
+    sourceIds.forEach(id => this.amenityStore.delete(id));
+    const amenity = { ...target, synonyms: mergedSynonyms(target, sources as Amenity[]) };
+    this.amenityStore.set(targetId, amenity);
+    return { amenity, gymsUpdated: updatedGyms.length };
+  }
+  
   // Saved gym/match operations
   private getSavedGymKey(userId: number, gymId: number): string {
     return `${userId}-${gymId}`;
@@ -201,6 +655,10 @@ export class MemStorage implements IStorage {
       .filter(savedGym => savedGym.userId === userId);
   }
   
+  async getAllSavedGyms(): Promise<SavedGym[]> {
+    return Array.from(this.savedGymStore.values());
+  }
+  
   async saveGym(savedGymData: InsertSavedGym): Promise<SavedGym> {
     const { userId, gymId } = savedGymData;
     const key = this.getSavedGymKey(userId, gymId);
@@ -229,132 +687,13 @@ export class MemStorage implements IStorage {
     return this.savedGymStore.delete(key);
   }
   
-  async getMatchesForUser(userId: number): Promise<Array<Gym & { matchScore: number }>> {
+  async getMatchesForUser(userId: number, options: MatchOptions = {}): Promise<GymMatch[]> {
     const user = await this.getUser(userId);
     if (!user) return [];
     
     const allGyms = await this.getAllGyms();
-    
-    // Enhanced matching algorithm using user preferences and goals
-    return allGyms.map(gym => {
-      // Base score
-      let matchScore = 70; // Start with a base score of 70%
-      let totalFactors = 0;
-      let matchingFactors = 0;
-      
-      // Match based on user fitness goals and gym amenities
-      if (user.fitnessGoals && gym.amenities && user.fitnessGoals.length > 0) {
-        totalFactors++;
-        
-        // Common fitness goals and related gym amenities
-        const goalToAmenity: Record<string, string[]> = {
-          'Build Muscle': ['Free Weights', 'Weight Training', 'Personal Training', 'Strength Equipment'],
-          'Weight Loss': ['Cardio Equipment', 'Classes', 'Swimming Pool', 'Group Training'],
-          'Improve Strength': ['Free Weights', 'Weight Training', 'CrossFit', 'Functional Training'],
-          'Cardio': ['Treadmills', 'Ellipticals', 'Rowing Machines', 'Cardio Equipment'],
-          'Flexibility': ['Yoga Classes', 'Stretching Area', 'Group Classes'],
-          'Endurance': ['Cardio Equipment', 'Swimming Pool', 'Running Track'],
-          'Agility': ['Functional Training', 'CrossFit', 'Group Classes'],
-        };
-        
-        // Perform fuzzy matching (not case-sensitive, contains partial words)
-        let matchCount = 0;
-        let amenityMatchCount = 0;
-        
-        // For each user goal, check if any gym amenity is related
-        user.fitnessGoals.forEach(goal => {
-          // Get related amenities for this goal
-          const goalLower = goal.toLowerCase();
-          let relatedAmenities: string[] = [];
-          
-          // Check if the goal exactly matches one of our predefined goals
-          for (const [knownGoal, amenities] of Object.entries(goalToAmenity)) {
-            if (goalLower.includes(knownGoal.toLowerCase()) || 
-                knownGoal.toLowerCase().includes(goalLower)) {
-              relatedAmenities = [...relatedAmenities, ...amenities];
-            }
-          }
-          
-          // If no predefined match, try a more generic approach
-          if (relatedAmenities.length === 0) {
-            // Default amenities that are good for most goals
-            relatedAmenities = ['Classes', 'Personal Training', 'Equipment'];
-          }
-          
-          // Check if gym has any of these amenities
-          let foundMatch = false;
-          relatedAmenities.forEach(amenity => {
-            const amenityLower = amenity.toLowerCase();
-            gym.amenities?.forEach(gymAmenity => {
-              if (gymAmenity.toLowerCase().includes(amenityLower) || 
-                  amenityLower.includes(gymAmenity.toLowerCase())) {
-                amenityMatchCount++;
-                foundMatch = true;
-              }
-            });
-          });
-          
-          if (foundMatch) matchCount++;
-        });
-        
-        // Calculate match percentage based on goals matched
-        if (user.fitnessGoals.length > 0) {
-          const goalMatchPercentage = (matchCount / user.fitnessGoals.length);
-          if (goalMatchPercentage > 0.5) {
-            matchingFactors += goalMatchPercentage;
-          }
-        }
-        
-        // Boost score based on how many amenities matched
-        matchScore += Math.min(15, amenityMatchCount * 3);
-      }
-      
-      // Match based on user gym preferences
-      if (user.gymPreferences && user.gymPreferences.length > 0 && gym.amenities) {
-        totalFactors++;
-        
-        let preferenceMatches = 0;
-        
-        // For each preference, check if the gym has related amenities
-        user.gymPreferences.forEach(preference => {
-          const prefLower = preference.toLowerCase();
-          
-          gym.amenities?.forEach(amenity => {
-            const amenityLower = amenity.toLowerCase();
-            
-            // Check for direct or partial matches
-            if (prefLower.includes(amenityLower) || 
-                amenityLower.includes(prefLower) ||
-                (amenityLower.split(' ').some(word => prefLower.includes(word) && word.length > 3))) {
-              preferenceMatches++;
-            }
-          });
-        });
-        
-        // Calculate match percentage based on preferences matched
-        if (user.gymPreferences.length > 0) {
-          const prefMatchPercentage = Math.min(1, preferenceMatches / user.gymPreferences.length);
-          matchingFactors += prefMatchPercentage;
-          
-          // Add bonus points for preference matches (up to 20 points)
-          matchScore += Math.min(20, preferenceMatches * 5);
-        }
-      }
-      
-      // If we have factors to consider, adjust the base score
-      if (totalFactors > 0) {
-        const factorScore = (matchingFactors / totalFactors) * 20;
-        matchScore += factorScore;
-      }
-      
-      // Cap at 100%
-      matchScore = Math.min(100, Math.round(matchScore));
-      
-      return {
-        ...gym,
-        matchScore
-      };
-    }).sort((a, b) => b.matchScore - a.matchScore); // Sort by match score
+    const allPlans = await this.getAllMembershipPlans();
+    return rankGymsForUser(user, allGyms, allPlans, await this.getAllAmenities(), options);
   }
   
   // User Match operations
@@ -380,6 +719,10 @@ export class MemStorage implements IStorage {
   }
 
   async createUserMatch(userMatchData: InsertUserMatch): Promise<UserMatch> {
+    if (await this.isBlocked(userMatchData.senderId, userMatchData.receiverId)) {
+      throw new BlockedUserError();
+    }
+    
     // Check if this match already exists in either direction
     const existingMatch = await this.getUserMatchByUsers(
       userMatchData.senderId,
@@ -436,16 +779,73 @@ export class MemStorage implements IStorage {
   async deleteUserMatch(id: number): Promise<boolean> {
     return this.userMatchStore.delete(id);
   }
+
+  async getPartnerRecommendations(userId: number): Promise<PartnerRecommendation[]> {
+    const user = await this.getUser(userId);
+    if (!user) return [];
+    
+    const context = buildPartnerContext(await this.getAllSavedGyms(), await this.getAllGyms());
+    const existingMatches = await this.getUserMatches(userId);
+    const blockedUserIds = await this.getBlockedUserIds(userId);
+    return rankPartnersForUser(user, await this.getAllUsers(), existingMatches, blockedUserIds, context);
+  }
+
+  async getPartnerScore(userId: number, candidateId: number): Promise<PartnerRecommendation | undefined> {
+    const user = await this.getUser(userId);
+    const candidate = await this.getUser(candidateId);
+    if (!user || !candidate) return undefined;
+    
+    const context = buildPartnerContext(await this.getAllSavedGyms(), await this.getAllGyms());
+    return scorePartner(user, candidate, context);
+  }
   
   // Message operations
-  async getMessages(userId: number, otherUserId: number): Promise<Message[]> {
+  async getMessages(userId: number, otherUserId: number, options: MessagePageOptions = {}): Promise<Message[]> {
+    const { before, limit } = options;
     const messages = Array.from(this.messageStore.values()).filter(message => 
-      (message.senderId === userId && message.receiverId === otherUserId) ||
-      (message.senderId === otherUserId && message.receiverId === userId)
+      ((message.senderId === userId && message.receiverId === otherUserId) ||
+      (message.senderId === otherUserId && message.receiverId === userId)) &&
+      (before === undefined || message.id < before)
     );
     
-    // Sort by created time ascending
-    return messages.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    // Sort by ID (creation order) ascending and keep the newest page
+    messages.sort((a, b) => a.id - b.id);
+    return limit === undefined ? messages : messages.slice(-limit);
+  }
+
+  async getConversations(userId: number): Promise<Conversation[]> {
+    const matches = await this.getUserMatches(userId, "accepted");
+    const blockedUserIds = new Set(await this.getBlockedUserIds(userId));
+    const partnerIds = Array.from(new Set(matches.map(match => 
+      match.senderId === userId ? match.receiverId : match.senderId
+    ))).filter(partnerId => !blockedUserIds.has(partnerId));
+    
+    const conversations: Conversation[] = [];
+    for (const partnerId of partnerIds) {
+      const partner = this.userStore.get(partnerId);
+      if (!partner) continue;
+      
+      const [lastMessage] = await this.getMessages(userId, partnerId, { limit: 1 });
+      const unreadCount = Array.from(this.messageStore.values()).filter(message => 
+        message.senderId === partnerId && message.receiverId === userId && !message.read
+      ).length;
+      
+      conversations.push({
+        partner: {
+          id: partner.id,
+          username: partner.username,
+          name: partner.name,
+          profilePic: partner.profilePic
+        },
+        lastMessage: lastMessage ?? null,
+        unreadCount
+      });
+    }
+    
+    // Most recent conversation first; matches without messages go last
+    return conversations.sort((a, b) => 
+      (b.lastMessage?.id ?? 0) - (a.lastMessage?.id ?? 0) || a.partner.name.localeCompare(b.partner.name)
+    );
   }
 
   async getUnreadMessageCount(userId: number): Promise<number> {
@@ -454,7 +854,15 @@ export class MemStorage implements IStorage {
     ).length;
   }
 
+  async getMessage(id: number): Promise<Message | undefined> {
+    return this.messageStore.get(id);
+  }
+
   async createMessage(messageData: InsertMessage): Promise<Message> {
+    if (await this.isBlocked(messageData.senderId, messageData.receiverId)) {
+      throw new BlockedUserError();
+    }
+    
     const id = this.messageIdCounter++;
     const createdAt = new Date();
     
@@ -462,6 +870,9 @@ export class MemStorage implements IStorage {
       ...messageData,
       id,
       read: false,
+      status: "sent",
+      deliveredAt: null,
+      readAt: null,
       createdAt
     };
     
@@ -469,21 +880,599 @@ export class MemStorage implements IStorage {
     return message;
   }
 
-  async markMessagesAsRead(receiverId: number, senderId: number): Promise<void> {
+  async markMessagesAsDelivered(receiverId: number): Promise<Message[]> {
+    const deliveredAt = new Date();
+    
+    // Find all messages to the receiver that haven't reached them yet
+    return Array.from(this.messageStore.values())
+      .filter(message => message.receiverId === receiverId && message.status === "sent")
+      .map(message => {
+        const delivered: Message = { ...message, status: "delivered", deliveredAt };
+        this.messageStore.set(message.id, delivered);
+        return delivered;
+      });
+  }
+
+  async markMessagesAsRead(receiverId: number, senderId: number): Promise<Message[]> {
+    const readAt = new Date();
+    
     // Find all messages from sender to receiver that are unread
-    Array.from(this.messageStore.values())
+    return Array.from(this.messageStore.values())
       .filter(message => 
         message.senderId === senderId && 
         message.receiverId === receiverId && 
         !message.read
       )
-      .forEach(message => {
-        // Mark each message as read
-        this.messageStore.set(message.id, {
+      .map(message => {
+        // Mark each message as read; reading implies delivery
+        const read: Message = {
           ...message,
-          read: true
-        });
+          read: true,
+          status: "read",
+          deliveredAt: message.deliveredAt ?? readAt,
+          readAt
+        };
+        this.messageStore.set(message.id, read);
+        return read;
+      });
+  }
+
+  // Gym review operations
+  async getGymReviews(gymId: number): Promise<GymReviewWithAuthor[]> {
+    const reviews: GymReviewWithAuthor[] = [];
+    
+    for (const review of Array.from(this.gymReviewStore.values())) {
+      const author = this.userStore.get(review.userId);
+      if (review.gymId !== gymId || !author) continue;
+      
+      reviews.push({
+        ...review,
+        author: { id: author.id, name: author.name, profilePic: author.profilePic }
       });
+    }
+    
+    // Most recently written or edited first
+    return reviews.sort((a, b) => 
+      (b.updatedAt?.getTime() ?? 0) - (a.updatedAt?.getTime() ?? 0) || b.id - a.id
+    );
+  }
+  
+  async getGymReview(id: number): Promise<GymReview | undefined> {
+    return this.gymReviewStore.get(id);
+  }
+  
+  async getGymReviewByUser(gymId: number, userId: number): Promise<GymReview | undefined> {
+    return Array.from(this.gymReviewStore.values()).find(
+      (review) => review.gymId === gymId && review.userId === userId
+    );
+  }
+  
+  async createGymReview(reviewData: InsertGymReview): Promise<GymReview> {
+    const id = this.gymReviewIdCounter++;
+    const now = new Date();
+    
+    const review: GymReview = {
+      ...reviewData,
+      id,
+      text: reviewData.text ?? null,
+      visitDate: reviewData.visitDate ?? null,
+      photos: reviewData.photos || [],
+      createdAt: now,
+      updatedAt: now
+    };
+    
+    this.gymReviewStore.set(id, review);
+    this.refreshGymRating(review.gymId);
+    return review;
+  }
+  
+  async updateGymReview(id: number, reviewData: Partial<InsertGymReview>): Promise<GymReview | undefined> {
+    const existingReview = await this.getGymReview(id);
+    if (!existingReview) return undefined;
+    
+    const updatedReview: GymReview = { ...existingReview, ...reviewData, updatedAt: new Date() };
+    this.gymReviewStore.set(id, updatedReview);
+    this.refreshGymRating(updatedReview.gymId);
+    return updatedReview;
+  }
+  
+  async deleteGymReview(id: number): Promise<boolean> {
+    const review = this.gymReviewStore.get(id);
+    if (!review) return false;
+    
+    this.gymReviewStore.delete(id);
+    this.refreshGymRating(review.gymId);
+    return true;
+  }
+  
+  // Membership plan operations
+  async getMembershipPlans(gymId: number): Promise<MembershipPlan[]> {
+    return Array.from(this.membershipPlanStore.values())
+      .filter(plan => plan.gymId === gymId)
+      .sort((a, b) => a.monthlyPrice - b.monthlyPrice || a.id - b.id);
+  }
+  
+  async getAllMembershipPlans(): Promise<MembershipPlan[]> {
+    return Array.from(this.membershipPlanStore.values());
+  }
+  
+  async getMembershipPlansForGyms(gymIds: number[]): Promise<MembershipPlan[]> {
+    return Array.from(this.membershipPlanStore.values()).filter(plan => gymIds.includes(plan.gymId));
+  }
+  
+  async getMembershipPlan(id: number): Promise<MembershipPlan | undefined> {
+    return this.membershipPlanStore.get(id);
+  }
+  
+  async createMembershipPlan(planData: InsertMembershipPlan): Promise<MembershipPlan> {
+    const id = this.membershipPlanIdCounter++;
+    const now = new Date();
+    
+    const plan: MembershipPlan = {
+      ...planData,
+      id,
+      currency: planData.currency ?? "USD",
+      contractMonths: planData.contractMonths ?? 0,
+      dayPassPrice: planData.dayPassPrice ?? null,
+      includedAmenities: planData.includedAmenities || [],
+      createdAt: now,
+      updatedAt: now
+    };
+    
+    this.membershipPlanStore.set(id, plan);
+    return plan;
+  }
+  
+  async updateMembershipPlan(id: number, planData: Partial<InsertMembershipPlan>): Promise<MembershipPlan | undefined> {
+    const existingPlan = await this.getMembershipPlan(id);
+    if (!existingPlan) return undefined;
+    
+    const updatedPlan: MembershipPlan = { ...existingPlan, ...planData, updatedAt: new Date() };
+    this.membershipPlanStore.set(id, updatedPlan);
+    return updatedPlan;
+  }
+  
+  async deleteMembershipPlan(id: number): Promise<boolean> {
+    return this.membershipPlanStore.delete(id);
+  }
+  
+  // Block operations
+  async getUserBlocks(blockerId: number): Promise<UserBlock[]> {
+    return Array.from(this.userBlockStore.values())
+      .filter(block => block.blockerId === blockerId);
+  }
+  
+  async getBlockedUserIds(userId: number): Promise<number[]> {
+    const ids = Array.from(this.userBlockStore.values())
+      .filter(block => block.blockerId === userId || block.blockedId === userId)
+      .map(block => block.blockerId === userId ? block.blockedId : block.blockerId);
+    return Array.from(new Set(ids));
+  }
+  
+  async isBlocked(userId: number, otherUserId: number): Promise<boolean> {
+    return Array.from(this.userBlockStore.values()).some(block => 
+      (block.blockerId === userId && block.blockedId === otherUserId) ||
+      (block.blockerId === otherUserId && block.blockedId === userId)
+    );
+  }
+  
+  async createUserBlock(blockData: InsertUserBlock): Promise<UserBlock> {
+    const existing = Array.from(this.userBlockStore.values()).find(block => 
+      block.blockerId === blockData.blockerId && block.blockedId === blockData.blockedId
+    );
+    if (existing) return existing;
+    
+    const id = this.userBlockIdCounter++;
+    const block: UserBlock = { ...blockData, id, createdAt: new Date() };
+    this.userBlockStore.set(id, block);
+    return block;
+  }
+  
+  async deleteUserBlock(blockerId: number, blockedId: number): Promise<boolean> {
+    const block = Array.from(this.userBlockStore.values()).find(block => 
+      block.blockerId === blockerId && block.blockedId === blockedId
+    );
+    return block ? this.userBlockStore.delete(block.id) : false;
+  }
+  
+  // Report operations
+  async getUserReports(status?: string): Promise<UserReport[]> {
+    return Array.from(this.userReportStore.values())
+      .filter(report => !status || report.status === status)
+      .sort((a, b) => b.id - a.id);
+  }
+  
+  async getUserReport(id: number): Promise<UserReport | undefined> {
+    return this.userReportStore.get(id);
+  }
+  
+  async createUserReport(reportData: InsertUserReport): Promise<UserReport> {
+    const id = this.userReportIdCounter++;
+    const report: UserReport = {
+      ...reportData,
+      id,
+      details: reportData.details ?? null,
+      messageId: reportData.messageId ?? null,
+      messageExcerpt: reportData.messageExcerpt ?? null,
+      status: "open",
+      resolvedBy: null,
+      resolutionNote: null,
+      resolvedAt: null,
+      createdAt: new Date()
+    };
+    this.userReportStore.set(id, report);
+    return report;
+  }
+  
+  async updateUserReport(id: number, reportData: Partial<UserReport>): Promise<UserReport | undefined> {
+    const existing = this.userReportStore.get(id);
+    if (!existing) return undefined;
+    
+    const updated = { ...existing, ...reportData };
+    this.userReportStore.set(id, updated);
+    return updated;
+  }
+  
+  // Audit log operations
+  async createAuditLogEntry(entryData: InsertAuditLogEntry): Promise<AuditLogEntry> {
+    const entry: AuditLogEntry = {
+      id: this.auditLogIdCounter++,
+      actorId: entryData.actorId ?? null,
+      actorUsername: entryData.actorUsername ?? null,
+      action: entryData.action,
+      targetType: entryData.targetType,
+      targetId: entryData.targetId ?? null,
+      changes: entryData.changes ?? null,
+      metadata: entryData.metadata ?? null,
+      ip: entryData.ip ?? null,
+      createdAt: new Date()
+    };
+    this.auditLog.push(entry);
+    return entry;
+  }
+  
+  async getAuditLog(filters: AuditLogFilters = {}): Promise<AuditLogEntry[]> {
+    const { actorId, action, targetType, targetId, from, to, before, limit } = filters;
+    const entries = this.auditLog
+      .filter(entry => 
+        (actorId === undefined || entry.actorId === actorId) &&
+        (action === undefined || entry.action === action) &&
+        (targetType === undefined || entry.targetType === targetType) &&
+        (targetId === undefined || entry.targetId === targetId) &&
+        (from === undefined || entry.createdAt >= from) &&
+        (to === undefined || entry.createdAt <= to) &&
+        (before === undefined || entry.id < before)
+      )
+      .sort((a, b) => b.id - a.id);
+    
+    return limit === undefined ? entries : entries.slice(0, limit);
+  }
+  
+  // Gym manager operations
+  async getManagedGymIds(userId: number): Promise<number[]> {
+    return Array.from(this.gymManagerStore.values())
+      .filter(assignment => assignment.userId === userId)
+      .map(assignment => assignment.gymId);
+  }
+  
+  async isGymManager(userId: number, gymId: number): Promise<boolean> {
+    return Array.from(this.gymManagerStore.values()).some(assignment => 
+      assignment.userId === userId && assignment.gymId === gymId
+    );
+  }
+  
+  async setManagedGyms(userId: number, gymIds: number[]): Promise<void> {
+    for (const assignment of Array.from(this.gymManagerStore.values())) {
+      if (assignment.userId === userId) this.gymManagerStore.delete(assignment.id);
+    }
+    for (const gymId of Array.from(new Set(gymIds))) {
+      const id = this.gymManagerIdCounter++;
+      this.gymManagerStore.set(id, { id, gymId, userId, createdAt: new Date() });
+    }
+  }
+  
+  async addGymManager(userId: number, gymId: number): Promise<void> {
+    if (await this.isGymManager(userId, gymId)) return;
+    const id = this.gymManagerIdCounter++;
+    this.gymManagerStore.set(id, { id, gymId, userId, createdAt: new Date() });
+  }
+  
+  // Gym claim operations
+  async getGymClaims(filters: { status?: string; userId?: number } = {}): Promise<GymClaim[]> {
+    return Array.from(this.gymClaimStore.values())
+      .filter(claim => 
+        (!filters.status || claim.status === filters.status) &&
+        (filters.userId === undefined || claim.userId === filters.userId)
+      )
+      .sort((a, b) => b.id - a.id);
+  }
+  
+  async getGymClaim(id: number): Promise<GymClaim | undefined> {
+    return this.gymClaimStore.get(id);
+  }
+  
+  async createGymClaim(claimData: InsertGymClaim): Promise<GymClaim> {
+    const id = this.gymClaimIdCounter++;
+    const claim: GymClaim = {
+      ...claimData,
+      id,
+      proofText: claimData.proofText ?? null,
+      documentPath: claimData.documentPath ?? null,
+      documentName: claimData.documentName ?? null,
+      status: "pending",
+      reviewedBy: null,
+      reviewNote: null,
+      reviewedAt: null,
+      createdAt: new Date()
+    };
+    this.gymClaimStore.set(id, claim);
+    return claim;
+  }
+  
+  async updateGymClaim(id: number, claimData: Partial<GymClaim>): Promise<GymClaim | undefined> {
+    const existing = this.gymClaimStore.get(id);
+    if (!existing) return undefined;
+    
+    const updated = { ...existing, ...claimData };
+    this.gymClaimStore.set(id, updated);
+    return updated;
+  }
+  
+  // Gym announcement operations
+  async getGymAnnouncements(gymId: number): Promise<GymAnnouncement[]> {
+    return Array.from(this.gymAnnouncementStore.values())
+      .filter(announcement => announcement.gymId === gymId)
+      .sort((a, b) => b.id - a.id);
+  }
+  
+  async getGymAnnouncement(id: number): Promise<GymAnnouncement | undefined> {
+    return this.gymAnnouncementStore.get(id);
+  }
+  
+  async createGymAnnouncement(announcementData: InsertGymAnnouncement): Promise<GymAnnouncement> {
+    const id = this.gymAnnouncementIdCounter++;
+    const now = new Date();
+    const announcement: GymAnnouncement = {
+      ...announcementData,
+      id,
+      authorId: announcementData.authorId ?? null,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.gymAnnouncementStore.set(id, announcement);
+    return announcement;
+  }
+  
+  async updateGymAnnouncement(id: number, announcementData: Partial<InsertGymAnnouncement>): Promise<GymAnnouncement | undefined> {
+    const existing = this.gymAnnouncementStore.get(id);
+    if (!existing) return undefined;
+    
+    const updated = { ...existing, ...announcementData, updatedAt: new Date() };
+    this.gymAnnouncementStore.set(id, updated);
+    return updated;
+  }
+  
+  async deleteGymAnnouncement(id: number): Promise<boolean> {
+    return this.gymAnnouncementStore.delete(id);
+  }
+  
+  // Email token operations
+  async createAuthToken(tokenData: InsertAuthToken): Promise<AuthToken> {
+    const id = this.authTokenIdCounter++;
+    const token: AuthToken = { ...tokenData, id, usedAt: null, createdAt: new Date() };
+    this.authTokenStore.set(id, token);
+    return token;
+  }
+  
+  async getAuthTokenByHash(tokenHash: string): Promise<AuthToken | undefined> {
+    return Array.from(this.authTokenStore.values()).find(token => token.tokenHash === tokenHash);
+  }
+  
+  async consumeAuthToken(id: number): Promise<boolean> {
+    const token = this.authTokenStore.get(id);
+    if (!token || token.usedAt) return false;
+    
+    this.authTokenStore.set(id, { ...token, usedAt: new Date() });
+    return true;
+  }
+  
+  async deleteAuthTokens(userId: number, purpose: AuthTokenPurpose): Promise<void> {
+    for (const token of Array.from(this.authTokenStore.values())) {
+      if (token.userId === userId && token.purpose === purpose) this.authTokenStore.delete(token.id);
+    }
+  }
+  
+  // API token operations
+  async createApiToken(tokenData: InsertApiToken): Promise<ApiToken> {
+    const id = this.apiTokenIdCounter++;
+    const token: ApiToken = {
+      ...tokenData,
+      id,
+      scopes: tokenData.scopes ?? [],
+      expiresAt: tokenData.expiresAt ?? null,
+      lastUsedAt: null,
+      createdAt: new Date()
+    };
+    this.apiTokenStore.set(id, token);
+    return token;
+  }
+  
+  async getApiTokens(userId: number): Promise<ApiToken[]> {
+    return Array.from(this.apiTokenStore.values())
+      .filter(token => token.userId === userId)
+      .sort((a, b) => b.id - a.id);
+  }
+  
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    return Array.from(this.apiTokenStore.values()).find(token => token.tokenHash === tokenHash);
+  }
+  
+  async touchApiToken(id: number): Promise<void> {
+    const token = this.apiTokenStore.get(id);
+    if (token) this.apiTokenStore.set(id, { ...token, lastUsedAt: new Date() });
+  }
+  
+  async deleteApiToken(id: number, userId: number): Promise<boolean> {
+    const token = this.apiTokenStore.get(id);
+    if (!token || token.userId !== userId) return false;
+    return this.apiTokenStore.delete(id);
+  }
+  
+  // Settings operations
+  async getSetting(key: string): Promise<unknown | undefined> {
+    return this.settingStore.get(key);
+  }
+  
+  async setSetting(key: string, value: unknown, _updatedBy: number): Promise<void> {
+    this.settingStore.set(key, value);
+  }
+  
+  // Login attempt operations
+  async recordLoginAttempt(attemptData: InsertLoginAttempt): Promise<LoginAttempt> {
+    const attempt: LoginAttempt = {
+      id: this.loginAttemptIdCounter++,
+      kind: attemptData.kind,
+      outcome: attemptData.outcome,
+      username: attemptData.username ?? null,
+      userId: attemptData.userId ?? null,
+      ip: attemptData.ip,
+      createdAt: new Date()
+    };
+    this.loginAttempts.push(attempt);
+    return attempt;
+  }
+  
+  async updateLoginAttempt(id: number, attemptData: Partial<Pick<InsertLoginAttempt, "outcome" | "userId">>): Promise<void> {
+    const attempt = this.loginAttempts.find(existing => existing.id === id);
+    if (attempt) Object.assign(attempt, attemptData);
+  }
+  
+  async getLoginAttempts(filters: LoginAttemptFilters = {}): Promise<LoginAttempt[]> {
+    const { kind, outcome, username, ip, from, before, limit } = filters;
+    const attempts = this.loginAttempts
+      .filter(attempt => 
+        (kind === undefined || attempt.kind === kind) &&
+        (outcome === undefined || attempt.outcome === outcome) &&
+        (username === undefined || attempt.username === username) &&
+        (ip === undefined || attempt.ip === ip) &&
+        (from === undefined || attempt.createdAt >= from) &&
+        (before === undefined || attempt.id < before)
+      )
+      .sort((a, b) => b.id - a.id);
+    
+    return limit === undefined ? attempts : attempts.slice(0, limit);
+  }
+  
+  async countLoginAttempts(filters: LoginAttemptCountFilters): Promise<LoginAttemptCount> {
+    const { kind, outcomes, username, ip, from, exceptId } = filters;
+    const times = this.loginAttempts
+      .filter(attempt =>
+        attempt.kind === kind &&
+        outcomes.includes(attempt.outcome as LoginAttemptOutcome) &&
+        (username === undefined || attempt.username === username) &&
+        (ip === undefined || attempt.ip === ip) &&
+        attempt.createdAt >= from &&
+        attempt.id !== exceptId
+      )
+      .map(attempt => attempt.createdAt.getTime());
+    
+    return {
+      count: times.length,
+      oldestAt: times.length > 0 ? new Date(Math.min(...times)) : null,
+      newestAt: times.length > 0 ? new Date(Math.max(...times)) : null,
+    };
+  }
+  
+  async getPasswordHashCounts(): Promise<PasswordHashCount[]> {
+    const counts = new Map<string, PasswordHashCount>();
+    for (const user of Array.from(this.userStore.values())) {
+      const { scheme, cost } = user.password ? describePasswordHash(user.password) : { scheme: "none" as const, cost: null };
+      const key = `${scheme}:${cost}`;
+      const existing = counts.get(key);
+      if (existing) {
+        existing.count++;
+      } else {
+        counts.set(key, { scheme, cost, count: 1 });
+      }
+    }
+    return Array.from(counts.values());
+  }
+  
+  // Job operations
+  async createJob(jobData: InsertJob): Promise<Job> {
+    const job: Job = {
+      id: this.jobIdCounter++,
+      type: jobData.type,
+      description: jobData.description,
+      status: "queued",
+      userId: jobData.userId ?? null,
+      payload: jobData.payload,
+      progress: 0,
+      result: null,
+      error: null,
+      cancelRequested: false,
+      createdAt: new Date(),
+      startedAt: null,
+      finishedAt: null
+    };
+    this.jobStore.set(job.id, job);
+    return job;
+  }
+  
+  async getJob(id: number): Promise<Job | undefined> {
+    return this.jobStore.get(id);
+  }
+  
+  async getJobsByUser(userId: number, limit: number): Promise<Job[]> {
+    return Array.from(this.jobStore.values())
+      .filter(job => job.userId === userId)
+      .sort((a, b) => b.id - a.id)
+      .slice(0, limit);
+  }
+  
+  async claimNextJob(): Promise<Job | undefined> {
+    const next = Array.from(this.jobStore.values())
+      .filter(job => job.status === "queued")
+      .sort((a, b) => a.id - b.id)[0];
+    if (!next) return undefined;
+    
+    const job: Job = { ...next, status: "running", startedAt: new Date() };
+    this.jobStore.set(job.id, job);
+    return job;
+  }
+  
+  async updateJob(id: number, jobData: Partial<Job>): Promise<Job | undefined> {
+    const job = this.jobStore.get(id);
+    if (!job) return undefined;
+    
+    const updatedJob = { ...job, ...jobData, id };
+    this.jobStore.set(id, updatedJob);
+    return updatedJob;
+  }
+  
+  async failInterruptedJobs(error: string): Promise<Job[]> {
+    const interrupted = Array.from(this.jobStore.values()).filter(job => job.status === "running");
+    return interrupted.map(job => {
+      const failedJob: Job = { ...job, status: "failed", error, finishedAt: new Date() };
+      this.jobStore.set(job.id, failedJob);
+      return failedJob;
+    });
+  }
+  
+  // Recompute a gym's average rating and review count from its reviews
+  private refreshGymRating(gymId: number) {
+    const gym = this.gymStore.get(gymId);
+    if (!gym) return;
+    
+    const ratings = Array.from(this.gymReviewStore.values())
+      .filter(review => review.gymId === gymId)
+      .map(review => review.rating);
+    
+    this.gymStore.set(gymId, {
+      ...gym,
+      rating: ratings.length > 0 ? ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length : null,
+      reviewCount: ratings.length
+    });
   }
 
   // Create sample gyms for demo
@@ -498,7 +1487,8 @@ export class MemStorage implements IStorage {
         },
         images: ["gym1_image1.jpg", "gym1_image2.jpg"],
         amenities: ["24/7 Access", "Personal Training", "Pool"],
-        rating: 4.8,
+        openingHours: ALWAYS_OPEN,
+        timezone: "America/Los_Angeles",
         addedBy: 1
       },
       {
@@ -510,7 +1500,8 @@ export class MemStorage implements IStorage {
         },
         images: ["gym2_image1.jpg", "gym2_image2.jpg"],
         amenities: ["Group Classes", "Cardio Equipment", "Free Weights"],
-        rating: 4.5,
+        openingHours: parseOpeningHours("Mon-Fri 05:00-23:00; Sat-Sun 07:00-20:00"),
+        timezone: "America/Los_Angeles",
         addedBy: 1
       },
       {
@@ -522,7 +1513,8 @@ export class MemStorage implements IStorage {
         },
         images: ["gym3_image1.jpg", "gym3_image2.jpg"],
         amenities: ["Sauna", "Yoga Studio", "Parking"],
-        rating: 4.0,
+        openingHours: parseOpeningHours("Mon-Fri 05:00-23:00; Sat-Sun 07:00-20:00"),
+        timezone: "America/Denver",
         addedBy: 1
       },
       {
@@ -534,7 +1526,8 @@ export class MemStorage implements IStorage {
         },
         images: ["gym4_image1.jpg", "gym4_image2.jpg"],
         amenities: ["Weightlifting", "CrossFit", "24/7"],
-        rating: 4.6,
+        openingHours: ALWAYS_OPEN,
+        timezone: "America/Los_Angeles",
         addedBy: 1
       },
       {
@@ -546,7 +1539,8 @@ export class MemStorage implements IStorage {
         },
         images: ["gym5_image1.jpg", "gym5_image2.jpg"],
         amenities: ["Cardio", "Classes", "Personal Training"],
-        rating: 4.3,
+        openingHours: parseOpeningHours("Mon-Fri 05:00-23:00; Sat-Sun 07:00-20:00"),
+        timezone: "America/Los_Angeles",
         addedBy: 1
       },
       {
@@ -558,7 +1552,8 @@ export class MemStorage implements IStorage {
         },
         images: ["gym6_image1.jpg", "gym6_image2.jpg"],
         amenities: ["Free Weights", "Cardio Equipment", "Sauna"],
-        rating: 4.2,
+        openingHours: parseOpeningHours("Mon-Fri 05:00-23:00; Sat-Sun 07:00-20:00"),
+        timezone: "America/New_York",
         addedBy: 1
       },
       {
@@ -570,7 +1565,8 @@ export class MemStorage implements IStorage {
         },
         images: ["gym7_image1.jpg", "gym7_image2.jpg"],
         amenities: ["Group Classes", "Personal Training", "Smoothie Bar"],
-        rating: 4.5,
+        openingHours: parseOpeningHours("Mon-Fri 05:00-23:00; Sat-Sun 07:00-20:00"),
+        timezone: "America/Chicago",
         addedBy: 1
       },
       {
@@ -582,7 +1578,8 @@ export class MemStorage implements IStorage {
         },
         images: ["gym8_image1.jpg", "gym8_image2.jpg"],
         amenities: ["CrossFit", "Yoga", "Boxing"],
-        rating: 3.9,
+        openingHours: parseOpeningHours("Mon-Fri 05:00-23:00; Sat-Sun 07:00-20:00"),
+        timezone: "America/Phoenix",
         addedBy: 1
       }
     ];
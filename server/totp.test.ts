@@ -0,0 +1,68 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { currentTotpCounter, generateRecoveryCodes, hashRecoveryCode, verifyTotp } from "./totp";
+
+// The RFC 6238 appendix B SHA-1 key, "12345678901234567890", in base32
+const RFC_SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+
+// RFC 6238 appendix B SHA-1 vectors, cut to the 6 digits authenticator apps show
+const RFC_VECTORS: [seconds: number, code: string][] = [
+  [59, "287082"],
+  [1111111109, "081804"],
+  [1111111111, "050471"],
+  [1234567890, "005924"],
+  [2000000000, "279037"],
+  [20000000000, "353130"],
+];
+
+test("codes match the RFC 6238 SHA-1 test vectors", (t) => {
+  for (const [seconds, code] of RFC_VECTORS) {
+    t.mock.method(Date, "now", () => seconds * 1000);
+    assert.equal(verifyTotp(RFC_SECRET, code), currentTotpCounter(), `code at T=${seconds}`);
+    t.mock.restoreAll();
+  }
+});
+
+test("codes from one step either side are accepted to allow for clock drift", (t) => {
+  const [seconds, code] = RFC_VECTORS[3];
+  const counter = Math.floor(seconds / 30);
+  const at = (offsetSeconds: number) => t.mock.method(Date, "now", () => (seconds + offsetSeconds) * 1000);
+
+  at(-30);
+  assert.equal(verifyTotp(RFC_SECRET, code), counter);
+  at(30);
+  assert.equal(verifyTotp(RFC_SECRET, code), counter);
+  at(-60);
+  assert.equal(verifyTotp(RFC_SECRET, code), null);
+  at(60);
+  assert.equal(verifyTotp(RFC_SECRET, code), null);
+});
+
+test("codes at or before the last used step are rejected", (t) => {
+  const [seconds, code] = RFC_VECTORS[3];
+  const counter = Math.floor(seconds / 30);
+  t.mock.method(Date, "now", () => seconds * 1000);
+
+  assert.equal(verifyTotp(RFC_SECRET, code, counter), null);
+  assert.equal(verifyTotp(RFC_SECRET, code, counter + 1), null);
+  assert.equal(verifyTotp(RFC_SECRET, code, counter - 1), counter);
+});
+
+test("malformed codes are rejected and spaces are ignored", (t) => {
+  const [seconds, code] = RFC_VECTORS[3];
+  t.mock.method(Date, "now", () => seconds * 1000);
+
+  assert.equal(verifyTotp(RFC_SECRET, `${code.slice(0, 3)} ${code.slice(3)}`), Math.floor(seconds / 30));
+  assert.equal(verifyTotp(RFC_SECRET, "12345"), null);
+  assert.equal(verifyTotp(RFC_SECRET, "abcdef"), null);
+});
+
+test("recovery codes hash the same regardless of case and dashes", () => {
+  const codes = generateRecoveryCodes();
+  assert.equal(new Set(codes).size, codes.length);
+
+  const [code] = codes;
+  assert.match(code, /^[0-9a-f]{5}-[0-9a-f]{5}$/);
+  assert.equal(hashRecoveryCode(code.toUpperCase().replace("-", "")), hashRecoveryCode(` ${code} `));
+  assert.notEqual(hashRecoveryCode(codes[0]), hashRecoveryCode(codes[1]));
+});
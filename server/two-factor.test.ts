@@ -0,0 +1,58 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { InsertUser, User } from "@shared/schema";
+import { generateRecoveryCodes, hashRecoveryCode } from "./totp";
+
+// The RFC 6238 SHA-1 key in base32, and the code it gives at T=1234567890
+const SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+const CODE_AT = { seconds: 1234567890, code: "005924" };
+
+// storage.ts builds a DatabaseStorage on import, and db.ts refuses to load
+// without a connection string; nothing here connects
+process.env.DATABASE_URL ??= "postgres://localhost/gymmatchmate_test";
+const { MemStorage, storage } = await import("./storage");
+const { checkTwoFactorCode } = await import("./two-factor");
+
+// Points the shared storage's 2FA bookkeeping at a fresh in-memory store
+// holding one user with 2FA turned on
+async function userWithTwoFactor(t: import("node:test").TestContext) {
+  const memStorage = new MemStorage();
+  t.mock.method(storage, "useTotpCounter", memStorage.useTotpCounter.bind(memStorage));
+  t.mock.method(storage, "useRecoveryCode", memStorage.useRecoveryCode.bind(memStorage));
+
+  const recoveryCodes = generateRecoveryCodes();
+  const { id } = await memStorage.createUser({ username: "alice", password: "hash", name: "Alice" } as InsertUser);
+  const user = await memStorage.updateUser(id, {
+    totpSecret: SECRET,
+    totpEnabledAt: new Date(),
+    totpLastUsedCounter: null,
+    totpRecoveryCodes: recoveryCodes.map(hashRecoveryCode),
+  }) as User;
+  return { user, recoveryCodes };
+}
+
+test("an authenticator code can't be used twice, even by a stale copy of the user", async (t) => {
+  const { user } = await userWithTwoFactor(t);
+  t.mock.method(Date, "now", () => CODE_AT.seconds * 1000);
+  const { code } = CODE_AT;
+
+  assert.equal(await checkTwoFactorCode(user, { code }), true);
+  // The user was loaded before the first use, so only storage can turn this away
+  assert.equal(await checkTwoFactorCode(user, { code }), false);
+});
+
+test("each recovery code works once", async (t) => {
+  const { user, recoveryCodes } = await userWithTwoFactor(t);
+
+  assert.equal(await checkTwoFactorCode(user, { recoveryCode: recoveryCodes[0].toUpperCase() }), true);
+  assert.equal(await checkTwoFactorCode(user, { recoveryCode: recoveryCodes[0] }), false);
+  assert.equal(await checkTwoFactorCode(user, { recoveryCode: recoveryCodes[1] }), true);
+  assert.equal(await checkTwoFactorCode(user, { recoveryCode: "00000-00000" }), false);
+});
+
+test("codes are refused when 2FA is off", async (t) => {
+  const { user, recoveryCodes } = await userWithTwoFactor(t);
+  const disabled = { ...user, totpEnabledAt: null };
+
+  assert.equal(await checkTwoFactorCode(disabled, { recoveryCode: recoveryCodes[0] }), false);
+});
@@ -0,0 +1,57 @@
+// Two-factor checks shared by the login flow, the 2FA settings routes and the
+// admin route guards. The TOTP maths lives in totp.ts.
+import { isStaff } from "@shared/permissions";
+import {
+  DEFAULT_SECURITY_SETTINGS,
+  securitySettingsSchema,
+  type SecuritySettings,
+  type TwoFactorCode,
+  type User
+} from "@shared/schema";
+import { storage } from "./storage";
+import { hashRecoveryCode, verifyTotp } from "./totp";
+
+const SECURITY_SETTINGS_KEY = "security";
+
+export async function getSecuritySettings(): Promise<SecuritySettings> {
+  const parsed = securitySettingsSchema.safeParse(await storage.getSetting(SECURITY_SETTINGS_KEY));
+  return parsed.success ? parsed.data : DEFAULT_SECURITY_SETTINGS;
+}
+
+export async function saveSecuritySettings(settings: SecuritySettings, updatedBy: number) {
+  await storage.setSetting(SECURITY_SETTINGS_KEY, settings, updatedBy);
+}
+
+// Whether the user must have 2FA turned on before using admin tools
+export async function isTwoFactorRequired(user: User): Promise<boolean> {
+  return isStaff(user) && (await getSecuritySettings()).requireStaffTwoFactor;
+}
+
+// Check an authenticator code or recovery code for a user with 2FA enabled,
+// recording its use so neither can be replayed. Storage only accepts each use
+// once, so two sign-ins racing with the same code can't both succeed.
+export async function checkTwoFactorCode(user: User, { code, recoveryCode }: TwoFactorCode): Promise<boolean> {
+  if (!user.totpSecret || !user.totpEnabledAt) return false;
+
+  if (code) {
+    const counter = verifyTotp(user.totpSecret, code, user.totpLastUsedCounter);
+    if (counter === null) return false;
+    return await storage.useTotpCounter(user.id, counter);
+  }
+
+  if (recoveryCode) {
+    const hash = hashRecoveryCode(recoveryCode);
+    if (!user.totpRecoveryCodes.includes(hash)) return false;
+    return await storage.useRecoveryCode(user.id, hash);
+  }
+
+  return false;
+}
+
+// Fields that turn 2FA off; used when a user disables it and when an admin resets it
+export const TWO_FACTOR_DISABLED: Pick<User, "totpSecret" | "totpEnabledAt" | "totpLastUsedCounter" | "totpRecoveryCodes"> = {
+  totpSecret: null,
+  totpEnabledAt: null,
+  totpLastUsedCounter: null,
+  totpRecoveryCodes: []
+};
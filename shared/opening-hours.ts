@@ -0,0 +1,250 @@
+import { z } from "zod";
+
+// Opening hours are stored per gym as wall-clock times in the gym's own
+// timezone. Used by the server for the openNow filter and by the client for
+// the open/closed badge, so keep this free of Node- or DOM-only APIs.
+
+export const WEEKDAYS = ["mon", "tue", "wed", "thu", "fri", "sat", "sun"] as const;
+
+export type Weekday = typeof WEEKDAYS[number];
+
+const WEEKDAY_LABELS: Record<Weekday, string> = {
+  mon: "Mon",
+  tue: "Tue",
+  wed: "Wed",
+  thu: "Thu",
+  fri: "Fri",
+  sat: "Sat",
+  sun: "Sun",
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$|^24:00$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// "HH:MM" 24-hour times. A close time at or before the open time runs past
+// midnight into the next day; "24:00" closes at the end of the day.
+export const timeRangeSchema = z.object({
+  open: z.string().regex(TIME_PATTERN, "Times must be in HH:MM format"),
+  close: z.string().regex(TIME_PATTERN, "Times must be in HH:MM format"),
+});
+
+// A weekday with no ranges (or missing entirely) is closed
+export const openingHoursSchema = z.object(
+  Object.fromEntries(WEEKDAYS.map(day => [day, z.array(timeRangeSchema).optional()])) as
+    Record<Weekday, z.ZodOptional<z.ZodArray<typeof timeRangeSchema>>>
+);
+
+// Exceptions for specific dates, replacing that day's regular hours
+export const holidayHoursSchema = z.array(z.object({
+  date: z.string().regex(DATE_PATTERN, "Dates must be in YYYY-MM-DD format"),
+  ranges: z.array(timeRangeSchema),
+}));
+
+export const timezoneSchema = z.string().refine(isValidTimeZone, {
+  message: "Unknown timezone",
+});
+
+export type TimeRange = z.infer<typeof timeRangeSchema>;
+export type OpeningHours = z.infer<typeof openingHoursSchema>;
+export type HolidayHours = z.infer<typeof holidayHoursSchema>;
+
+// The hours-related fields of a gym
+export interface GymHours {
+  openingHours: OpeningHours | null;
+  holidayHours: HolidayHours | null;
+  timezone: string;
+}
+
+export const ALWAYS_OPEN: OpeningHours = Object.fromEntries(
+  WEEKDAYS.map(day => [day, [{ open: "00:00", close: "24:00" }]])
+);
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+function isOvernight(range: TimeRange): boolean {
+  return toMinutes(range.close) <= toMinutes(range.open);
+}
+
+interface LocalDay {
+  date: string;
+  weekday: Weekday;
+}
+
+// Wall-clock date, weekday and minutes past midnight at the given instant in a timezone
+function getLocalTime(at: Date, timeZone: string): LocalDay & { minutes: number } {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    weekday: "short",
+  }).formatToParts(at);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value ?? "";
+
+  return {
+    date: `${part("year")}-${part("month")}-${part("day")}`,
+    weekday: part("weekday").toLowerCase() as Weekday,
+    minutes: parseInt(part("hour")) * 60 + parseInt(part("minute")),
+  };
+}
+
+function previousDay(day: LocalDay): LocalDay {
+  const [year, month, date] = day.date.split("-").map(Number);
+  const previous = new Date(Date.UTC(year, month - 1, date - 1));
+
+  return {
+    date: previous.toISOString().slice(0, 10),
+    weekday: WEEKDAYS[(WEEKDAYS.indexOf(day.weekday) + 6) % 7],
+  };
+}
+
+// Ranges in effect on a day, with holiday exceptions taking precedence
+function getRangesForDay(hours: GymHours, day: LocalDay): TimeRange[] {
+  const holiday = hours.holidayHours?.find(h => h.date === day.date);
+  if (holiday) return holiday.ranges;
+  return hours.openingHours?.[day.weekday] ?? [];
+}
+
+// Whether the gym is open at the given instant, or null if it has no hours set
+export function isOpenAt(hours: GymHours, at: Date = new Date()): boolean | null {
+  if (!hours.openingHours) return null;
+
+  const now = getLocalTime(at, hours.timezone);
+  const today = getRangesForDay(hours, now);
+  const yesterday = getRangesForDay(hours, previousDay(now));
+
+  const openToday = today.some(range => {
+    const open = toMinutes(range.open);
+    return isOvernight(range)
+      ? now.minutes >= open
+      : now.minutes >= open && now.minutes < toMinutes(range.close);
+  });
+
+  // Ranges from yesterday that run past midnight
+  const openFromYesterday = yesterday.some(range =>
+    isOvernight(range) && now.minutes < toMinutes(range.close)
+  );
+
+  return openToday || openFromYesterday;
+}
+
+// Today's ranges in the gym's timezone, for display next to the open/closed badge
+export function getTodaysHours(hours: GymHours, at: Date = new Date()): TimeRange[] {
+  if (!hours.openingHours) return [];
+  return getRangesForDay(hours, getLocalTime(at, hours.timezone));
+}
+
+export function formatTimeRanges(ranges: TimeRange[]): string {
+  if (ranges.length === 0) return "closed";
+  return ranges.map(range => `${range.open}-${range.close}`).join(",");
+}
+
+function parseTimeRanges(text: string): TimeRange[] {
+  if (text.toLowerCase() === "closed") return [];
+
+  return text.split(",").map(part => {
+    const [open, close, ...rest] = part.trim().split("-");
+    const range = { open: open?.trim(), close: close?.trim() };
+
+    if (rest.length > 0 || !timeRangeSchema.safeParse(range).success) {
+      throw new Error(`Invalid time range "${part.trim()}", expected HH:MM-HH:MM`);
+    }
+    return range;
+  });
+}
+
+function parseWeekday(text: string): Weekday {
+  const day = text.trim().slice(0, 3).toLowerCase() as Weekday;
+  if (!WEEKDAYS.includes(day)) {
+    throw new Error(`Unknown weekday "${text.trim()}"`);
+  }
+  return day;
+}
+
+function parseWeekdays(text: string): Weekday[] {
+  if (text.toLowerCase() === "daily") return [...WEEKDAYS];
+
+  return text.split(",").flatMap(part => {
+    const [from, to] = part.split("-");
+    if (to === undefined) return [parseWeekday(from)];
+
+    // Ranges may wrap around the week, e.g. Sat-Sun or Fri-Mon
+    const start = WEEKDAYS.indexOf(parseWeekday(from));
+    const end = WEEKDAYS.indexOf(parseWeekday(to));
+    const length = ((end - start + 7) % 7) + 1;
+    return Array.from({ length }, (_, i) => WEEKDAYS[(start + i) % 7]);
+  });
+}
+
+// Parse the text format used by CSV imports and the admin form:
+// "Mon-Fri 06:00-22:00; Sat 08:00-12:00,14:00-20:00; Sun closed", or "24/7".
+// Days that aren't mentioned are closed. Throws on malformed input.
+export function parseOpeningHours(text: string): OpeningHours {
+  const trimmed = text.trim();
+  if (trimmed.toLowerCase() === "24/7") return ALWAYS_OPEN;
+
+  const hours: OpeningHours = {};
+  for (const segment of trimmed.split(/[;\n]/).map(s => s.trim()).filter(Boolean)) {
+    const match = segment.match(/^(\S+)\s+(.+)$/);
+    if (!match) {
+      throw new Error(`Invalid opening hours "${segment}", expected e.g. "Mon-Fri 06:00-22:00"`);
+    }
+
+    const ranges = parseTimeRanges(match[2].replace(/\s+/g, ""));
+    for (const day of parseWeekdays(match[1])) {
+      hours[day] = ranges;
+    }
+  }
+
+  return hours;
+}
+
+// Inverse of parseOpeningHours, grouping consecutive days with the same hours
+export function formatOpeningHours(hours: OpeningHours): string {
+  const formatted = WEEKDAYS.map(day => formatTimeRanges(hours[day] ?? []));
+  if (formatted.every(ranges => ranges === "00:00-24:00")) return "24/7";
+
+  const segments: string[] = [];
+  let start = 0;
+  for (let i = 1; i <= WEEKDAYS.length; i++) {
+    if (i === WEEKDAYS.length || formatted[i] !== formatted[start]) {
+      const days = i - 1 === start
+        ? WEEKDAY_LABELS[WEEKDAYS[start]]
+        : `${WEEKDAY_LABELS[WEEKDAYS[start]]}-${WEEKDAY_LABELS[WEEKDAYS[i - 1]]}`;
+      segments.push(`${days} ${formatted[start]}`);
+      start = i;
+    }
+  }
+
+  return segments.join("; ");
+}
+
+// Parse holiday exceptions: "2025-12-25 closed; 2025-12-31 08:00-14:00"
+export function parseHolidayHours(text: string): HolidayHours {
+  return text.split(/[;\n]/).map(s => s.trim()).filter(Boolean).map(segment => {
+    const match = segment.match(/^(\S+)\s+(.+)$/);
+    if (!match || !DATE_PATTERN.test(match[1])) {
+      throw new Error(`Invalid holiday hours "${segment}", expected e.g. "2025-12-25 closed"`);
+    }
+    return { date: match[1], ranges: parseTimeRanges(match[2].replace(/\s+/g, "")) };
+  });
+}
+
+export function formatHolidayHours(holidays: HolidayHours): string {
+  return holidays.map(h => `${h.date} ${formatTimeRanges(h.ranges)}`).join("; ");
+}
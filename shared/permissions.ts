@@ -0,0 +1,74 @@
+// Roles and what each one is allowed to do. Shared so the client can hide
+// controls the server would reject anyway.
+
+export const ROLES = ["member", "gym_manager", "moderator", "super_admin"] as const;
+export type Role = typeof ROLES[number];
+
+export const PERMISSIONS = [
+  "gyms:create",
+  "gyms:update", // gym managers are limited to the gyms assigned to them
+  "gyms:manage_all", // update any gym, not just assigned ones
+  "gyms:delete",
+  "gyms:import",
+  "gyms:export",
+  "gyms:review_claims",
+  "amenities:manage", // edit the amenity list and merge duplicates
+  "users:manage",
+  "users:assign_roles",
+  "reports:moderate",
+  "reviews:moderate",
+  "audit:view",
+  "stats:view",
+  "security:manage", // site-wide security settings such as requiring 2FA
+] as const;
+export type Permission = typeof PERMISSIONS[number];
+
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  member: [],
+  gym_manager: ["gyms:update"],
+  moderator: ["reports:moderate", "reviews:moderate"],
+  super_admin: PERMISSIONS,
+};
+
+export const ROLE_LABELS: Record<Role, string> = {
+  member: "Member",
+  gym_manager: "Gym Manager",
+  moderator: "Moderator",
+  super_admin: "Super Admin",
+};
+
+// What a personal API token can be used for. A token never does more than its
+// owner could; scopes listed in API_TOKEN_SCOPE_PERMISSIONS also need that permission.
+export const API_TOKEN_SCOPES = ["read:profile", "write:profile", "read:gyms", "admin:import"] as const;
+export type ApiTokenScope = typeof API_TOKEN_SCOPES[number];
+
+export const API_TOKEN_SCOPE_PERMISSIONS: Partial<Record<ApiTokenScope, Permission>> = {
+  "admin:import": "gyms:import",
+};
+
+export const API_TOKEN_SCOPE_LABELS: Record<ApiTokenScope, string> = {
+  "read:profile": "Read your profile and saved gyms",
+  "write:profile": "Update your profile and photos",
+  "read:gyms": "Read gyms, plans, reviews and matches",
+  "admin:import": "Import gyms from CSV and check on the import",
+};
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === "string" && (ROLES as readonly string[]).includes(value);
+}
+
+// Unknown roles get no permissions rather than throwing
+export function hasPermission(user: { role: string } | null | undefined, permission: Permission): boolean {
+  if (!user || !isRole(user.role)) return false;
+  return ROLE_PERMISSIONS[user.role].includes(permission);
+}
+
+export function canGrantScope(user: { role: string } | null | undefined, scope: ApiTokenScope): boolean {
+  const permission = API_TOKEN_SCOPE_PERMISSIONS[scope];
+  return !!user && (!permission || hasPermission(user, permission));
+}
+
+// Anyone with at least one permission can open the admin dashboard
+export function isStaff(user: { role: string } | null | undefined): boolean {
+  return !!user && isRole(user.role) && ROLE_PERMISSIONS[user.role].length > 0;
+}
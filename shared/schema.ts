@@ -1,7 +1,15 @@
-import { pgTable, text, serial, integer, boolean, jsonb, timestamp, real, primaryKey } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, jsonb, timestamp, real, primaryKey, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { relations } from "drizzle-orm";
 import { z } from "zod";
+import {
+  openingHoursSchema,
+  holidayHoursSchema,
+  timezoneSchema,
+  type OpeningHours,
+  type HolidayHours
+} from "./opening-hours";
+import { API_TOKEN_SCOPES, ROLES } from "./permissions";
 
 // User schema
 export const users = pgTable("users", {
@@ -10,6 +18,7 @@ export const users = pgTable("users", {
   password: text("password"),  // Allow null for OAuth users
   name: text("name").notNull(),
   email: text("email"),
+  emailVerifiedAt: timestamp("email_verified_at"), // null until the address is confirmed, see auth.ts
   googleId: text("google_id").unique(),
   googleProfile: jsonb("google_profile"),
   age: integer("age"),
@@ -19,9 +28,18 @@ export const users = pgTable("users", {
   profilePic: text("profile_pic"),
   progressPhotos: text("progress_photos").array().default([]),
   gymPreferences: text("gym_preferences").array().default([]),
-  isAdmin: boolean("is_admin").default(false),
+  monthlyBudget: real("monthly_budget"), // max monthly membership price, in budgetCurrency
+  budgetCurrency: text("budget_currency").notNull().default("USD"),
+  role: text("role").notNull().default("member"), // one of ROLES, see shared/permissions.ts
+  // TOTP two-factor auth, see server/totp.ts. The secret is set during setup
+  // but only enforced once totpEnabledAt is set.
+  totpSecret: text("totp_secret"),
+  totpEnabledAt: timestamp("totp_enabled_at"),
+  totpLastUsedCounter: integer("totp_last_used_counter"), // stops a code being replayed
+  totpRecoveryCodes: text("totp_recovery_codes").array().notNull().default([]), // SHA-256 hashes
   isBanned: boolean("is_banned").default(false),
   status: text("status").default("active"),
+  lastActiveAt: timestamp("last_active_at"), // bumped by authenticated requests, see auth.ts
   createdAt: timestamp("created_at").defaultNow()
 });
 
@@ -31,12 +49,28 @@ export const gyms = pgTable("gyms", {
   name: text("name").notNull(),
   location: jsonb("location").notNull(),
   images: text("images").array(),
-  amenities: text("amenities").array(),
-  rating: real("rating"),
+  amenities: text("amenities").array(), // canonical names of amenityIds, in the same order
+  amenityIds: integer("amenity_ids").array().notNull().default([]), // see the amenities table
+  rating: real("rating"), // average of gym_reviews, recomputed whenever a review changes
+  reviewCount: integer("review_count").notNull().default(0),
+  openingHours: jsonb("opening_hours").$type<OpeningHours>(), // null when the hours are unknown
+  holidayHours: jsonb("holiday_hours").$type<HolidayHours>().notNull().default([]),
+  timezone: text("timezone").notNull().default("UTC"),
   addedBy: integer("added_by"),
   createdAt: timestamp("created_at").defaultNow()
 });
 
+// Canonical gym amenities. Free-text names are matched against each amenity's
+// name and synonyms whenever a gym is saved, see server/amenities.ts.
+export const amenities = pgTable("amenities", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  category: text("category").notNull().default("other"), // one of AMENITY_CATEGORIES
+  icon: text("icon"), // one of AMENITY_ICONS
+  synonyms: text("synonyms").array().notNull().default([]),
+  createdAt: timestamp("created_at").notNull().defaultNow()
+});
+
 // Saved Gyms schema
 export const savedGyms = pgTable("saved_gyms", {
   id: serial("id").primaryKey(),
@@ -64,9 +98,185 @@ export const messages = pgTable("messages", {
   receiverId: integer("receiver_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
   content: text("content").notNull(),
   read: boolean("read").default(false),
+  status: text("status").notNull().default("sent"), // sent, delivered, read
+  deliveredAt: timestamp("delivered_at"),
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").defaultNow()
+});
+
+// Gym reviews schema (one review per user per gym)
+export const gymReviews = pgTable("gym_reviews", {
+  id: serial("id").primaryKey(),
+  gymId: integer("gym_id").notNull().references(() => gyms.id, { onDelete: 'cascade' }),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  rating: integer("rating").notNull(), // 1-5 stars
+  text: text("text"),
+  visitDate: timestamp("visit_date"),
+  photos: text("photos").array().default([]),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow()
+}, (table) => ({
+  gymUserUnique: unique("gym_reviews_gym_user_unique").on(table.gymId, table.userId)
+}));
+
+// Membership plans offered by a gym; prices are in the plan's currency
+export const gymMembershipPlans = pgTable("gym_membership_plans", {
+  id: serial("id").primaryKey(),
+  gymId: integer("gym_id").notNull().references(() => gyms.id, { onDelete: 'cascade' }),
+  name: text("name").notNull(),
+  monthlyPrice: real("monthly_price").notNull(),
+  currency: text("currency").notNull().default("USD"), // ISO 4217 code
+  contractMonths: integer("contract_months").notNull().default(0), // 0 = month-to-month
+  dayPassPrice: real("day_pass_price"),
+  includedAmenities: text("included_amenities").array().default([]),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow()
+});
+
+// A user hiding another from themselves. Blocks apply in both directions:
+// neither user can match with or message the other.
+export const userBlocks = pgTable("user_blocks", {
+  id: serial("id").primaryKey(),
+  blockerId: integer("blocker_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  blockedId: integer("blocked_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  createdAt: timestamp("created_at").defaultNow()
+}, (table) => ({
+  blockerBlockedUnique: unique("user_blocks_blocker_blocked_unique").on(table.blockerId, table.blockedId)
+}));
+
+// Gyms a gym_manager may edit. Other roles ignore these rows.
+export const gymManagers = pgTable("gym_managers", {
+  id: serial("id").primaryKey(),
+  gymId: integer("gym_id").notNull().references(() => gyms.id, { onDelete: 'cascade' }),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  createdAt: timestamp("created_at").defaultNow()
+}, (table) => ({
+  gymUserUnique: unique("gym_managers_gym_user_unique").on(table.gymId, table.userId)
+}));
+
+// A request from gym staff to manage a listing. Approving it makes the
+// claimant a gym manager for that gym.
+export const gymClaims = pgTable("gym_claims", {
+  id: serial("id").primaryKey(),
+  gymId: integer("gym_id").notNull().references(() => gyms.id, { onDelete: 'cascade' }),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  proofText: text("proof_text"),
+  documentPath: text("document_path"), // private upload, only served to admins
+  documentName: text("document_name"), // original file name
+  status: text("status").notNull().default("pending"), // pending, approved, rejected
+  reviewedBy: integer("reviewed_by").references(() => users.id, { onDelete: 'set null' }),
+  reviewNote: text("review_note"),
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").defaultNow()
+});
+
+// News a gym posts to its listing, written by the gym's managers
+export const gymAnnouncements = pgTable("gym_announcements", {
+  id: serial("id").primaryKey(),
+  gymId: integer("gym_id").notNull().references(() => gyms.id, { onDelete: 'cascade' }),
+  authorId: integer("author_id").references(() => users.id, { onDelete: 'set null' }),
+  title: text("title").notNull(),
+  body: text("body").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow()
+});
+
+// Site-wide settings admins can change at runtime, one JSON value per key
+export const appSettings = pgTable("app_settings", {
+  key: text("key").primaryKey(),
+  value: jsonb("value").notNull(),
+  updatedBy: integer("updated_by").references(() => users.id, { onDelete: 'set null' }),
+  updatedAt: timestamp("updated_at").defaultNow()
+});
+
+// Single-use tokens emailed to users. Only a hash is stored, so a leaked
+// table can't be used to reset passwords.
+export const authTokens = pgTable("auth_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  purpose: text("purpose").notNull(), // one of AUTH_TOKEN_PURPOSES
+  tokenHash: text("token_hash").notNull().unique(),
+  email: text("email").notNull(), // the address the token was sent to
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow()
+});
+
+// Personal access tokens for scripts, sent as "Authorization: Bearer". Only a
+// hash is stored; the token itself is shown once, when it's created.
+export const apiTokens = pgTable("api_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  name: text("name").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  tokenPrefix: text("token_prefix").notNull(), // first few characters, so users can tell tokens apart
+  scopes: text("scopes").array().notNull().default([]), // API_TOKEN_SCOPES
+  lastUsedAt: timestamp("last_used_at"),
+  expiresAt: timestamp("expires_at"), // null for tokens that never expire
   createdAt: timestamp("created_at").defaultNow()
 });
 
+// Sign-in, registration and password reset attempts, used to throttle
+// password guessing and reset emails, and shown to admins. No foreign keys, so rows outlive deleted accounts.
+export const loginAttempts = pgTable("login_attempts", {
+  id: serial("id").primaryKey(),
+  kind: text("kind").notNull(), // one of LOGIN_ATTEMPT_KINDS
+  outcome: text("outcome").notNull(), // one of LOGIN_ATTEMPT_OUTCOMES
+  username: text("username"), // lower-cased as typed (the email for resets); the account may not exist
+  userId: integer("user_id"),
+  ip: text("ip").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow()
+});
+
+// Work too slow for one HTTP request, such as large imports and exports.
+// server/jobs.ts runs queued jobs in the background.
+export const jobs = pgTable("jobs", {
+  id: serial("id").primaryKey(),
+  type: text("type").notNull(), // one of JOB_TYPES
+  description: text("description").notNull(), // shown in job lists, e.g. "Import gyms.csv"
+  status: text("status").notNull().default("queued"), // one of JOB_STATUSES
+  userId: integer("user_id").references(() => users.id, { onDelete: 'cascade' }), // who started it
+  payload: jsonb("payload").notNull(), // the job's input, specific to its type
+  progress: integer("progress").notNull().default(0), // percent complete
+  result: jsonb("result"), // set when the job succeeds
+  error: text("error"), // set when the job fails
+  cancelRequested: boolean("cancel_requested").notNull().default(false),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  startedAt: timestamp("started_at"),
+  finishedAt: timestamp("finished_at")
+});
+
+// Reports about a member, reviewed by admins in the moderation queue
+export const userReports = pgTable("user_reports", {
+  id: serial("id").primaryKey(),
+  reporterId: integer("reporter_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  reportedUserId: integer("reported_user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  reason: text("reason").notNull(), // one of REPORT_REASONS
+  details: text("details"),
+  messageId: integer("message_id").references(() => messages.id, { onDelete: 'set null' }),
+  messageExcerpt: text("message_excerpt"), // copied at report time so it outlives the message
+  status: text("status").notNull().default("open"), // open, dismissed, warned, banned
+  resolvedBy: integer("resolved_by").references(() => users.id, { onDelete: 'set null' }),
+  resolutionNote: text("resolution_note"),
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").defaultNow()
+});
+
+// Append-only record of privileged admin actions. Actor and target are plain
+// columns rather than foreign keys so entries outlive the rows they describe.
+export const adminAuditLog = pgTable("admin_audit_log", {
+  id: serial("id").primaryKey(),
+  actorId: integer("actor_id"),
+  actorUsername: text("actor_username"), // snapshot, in case the actor is later renamed or deleted
+  action: text("action").notNull(), // one of AUDIT_ACTIONS
+  targetType: text("target_type").notNull(), // user, gym, membership_plan, report
+  targetId: integer("target_id"), // null for bulk actions such as CSV imports
+  changes: jsonb("changes").$type<AuditChanges>(), // changed fields only
+  metadata: jsonb("metadata").$type<Record<string, unknown>>(),
+  ip: text("ip"),
+  createdAt: timestamp("created_at").notNull().defaultNow()
+});
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   savedGyms: many(savedGyms),
@@ -74,10 +284,24 @@ export const usersRelations = relations(users, ({ many }) => ({
   receivedMatches: many(userMatches, { relationName: "receiver" }),
   sentMessages: many(messages, { relationName: "sender" }),
   receivedMessages: many(messages, { relationName: "receiver" }),
+  gymReviews: many(gymReviews),
+  blocks: many(userBlocks, { relationName: "blocker" }),
+  blockedBy: many(userBlocks, { relationName: "blocked" }),
+  filedReports: many(userReports, { relationName: "reporter" }),
+  receivedReports: many(userReports, { relationName: "reportedUser" }),
+  managedGyms: many(gymManagers),
+  gymClaims: many(gymClaims),
+  authTokens: many(authTokens),
+  apiTokens: many(apiTokens),
 }));
 
 export const gymsRelations = relations(gyms, ({ many, one }) => ({
   savedGyms: many(savedGyms),
+  reviews: many(gymReviews),
+  membershipPlans: many(gymMembershipPlans),
+  managers: many(gymManagers),
+  claims: many(gymClaims),
+  announcements: many(gymAnnouncements),
   addedByUser: one(users, {
     fields: [gyms.addedBy],
     references: [users.id],
@@ -121,18 +345,155 @@ export const messagesRelations = relations(messages, ({ one }) => ({
   }),
 }));
 
+export const gymReviewsRelations = relations(gymReviews, ({ one }) => ({
+  gym: one(gyms, {
+    fields: [gymReviews.gymId],
+    references: [gyms.id],
+  }),
+  user: one(users, {
+    fields: [gymReviews.userId],
+    references: [users.id],
+  }),
+}));
+
+export const gymMembershipPlansRelations = relations(gymMembershipPlans, ({ one }) => ({
+  gym: one(gyms, {
+    fields: [gymMembershipPlans.gymId],
+    references: [gyms.id],
+  }),
+}));
+
+export const gymManagersRelations = relations(gymManagers, ({ one }) => ({
+  gym: one(gyms, {
+    fields: [gymManagers.gymId],
+    references: [gyms.id],
+  }),
+  user: one(users, {
+    fields: [gymManagers.userId],
+    references: [users.id],
+  }),
+}));
+
+export const gymClaimsRelations = relations(gymClaims, ({ one }) => ({
+  gym: one(gyms, {
+    fields: [gymClaims.gymId],
+    references: [gyms.id],
+  }),
+  user: one(users, {
+    fields: [gymClaims.userId],
+    references: [users.id],
+  }),
+}));
+
+export const gymAnnouncementsRelations = relations(gymAnnouncements, ({ one }) => ({
+  gym: one(gyms, {
+    fields: [gymAnnouncements.gymId],
+    references: [gyms.id],
+  }),
+  author: one(users, {
+    fields: [gymAnnouncements.authorId],
+    references: [users.id],
+  }),
+}));
+
+export const authTokensRelations = relations(authTokens, ({ one }) => ({
+  user: one(users, {
+    fields: [authTokens.userId],
+    references: [users.id],
+  }),
+}));
+
+export const apiTokensRelations = relations(apiTokens, ({ one }) => ({
+  user: one(users, {
+    fields: [apiTokens.userId],
+    references: [users.id],
+  }),
+}));
+
+export const jobsRelations = relations(jobs, ({ one }) => ({
+  user: one(users, {
+    fields: [jobs.userId],
+    references: [users.id],
+  }),
+}));
+
+export const userBlocksRelations = relations(userBlocks, ({ one }) => ({
+  blocker: one(users, {
+    fields: [userBlocks.blockerId],
+    references: [users.id],
+    relationName: "blocker"
+  }),
+  blocked: one(users, {
+    fields: [userBlocks.blockedId],
+    references: [users.id],
+    relationName: "blocked"
+  }),
+}));
+
+export const userReportsRelations = relations(userReports, ({ one }) => ({
+  reporter: one(users, {
+    fields: [userReports.reporterId],
+    references: [users.id],
+    relationName: "reporter"
+  }),
+  reportedUser: one(users, {
+    fields: [userReports.reportedUserId],
+    references: [users.id],
+    relationName: "reportedUser"
+  }),
+  message: one(messages, {
+    fields: [userReports.messageId],
+    references: [messages.id],
+  }),
+}));
+
 // Insert schemas for validation
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
-  isAdmin: true,
+  role: true,
+  totpSecret: true,
+  totpEnabledAt: true,
+  totpLastUsedCounter: true,
+  totpRecoveryCodes: true,
+  lastActiveAt: true,
+  createdAt: true
+});
+
+// amenityIds are worked out from the amenity names when the gym is saved
+export const insertGymSchema = createInsertSchema(gyms, {
+  openingHours: openingHoursSchema.nullish(),
+  holidayHours: holidayHoursSchema.optional(),
+  timezone: timezoneSchema.optional(),
+}).omit({
+  id: true,
+  amenityIds: true,
+  rating: true,
+  reviewCount: true,
   createdAt: true
 });
 
-export const insertGymSchema = createInsertSchema(gyms).omit({
+export const AMENITY_CATEGORIES = ["equipment", "classes", "facilities", "services", "access", "other"] as const;
+// lucide icon names the client knows how to draw
+export const AMENITY_ICONS = [
+  "dumbbell", "heart-pulse", "activity", "trophy", "swords", "bike", "users", "flower", "waves", "flame",
+  "sparkles", "footprints", "circle-dot", "bath", "lock", "car", "baby", "shield", "user-check",
+  "cup-soda", "shopping-bag", "clock", "tag"
+] as const;
+
+export const insertAmenitySchema = createInsertSchema(amenities, {
+  name: z.string().trim().min(1, "Name is required"),
+  category: z.enum(AMENITY_CATEGORIES).optional(),
+  icon: z.enum(AMENITY_ICONS).nullish(),
+  synonyms: z.array(z.string().trim().min(1)).optional(),
+}).omit({
   id: true,
   createdAt: true
 });
 
+export const mergeAmenitiesSchema = z.object({
+  sourceIds: z.array(z.number().int().positive()).min(1, "Pick at least one amenity to merge"),
+});
+
 export const insertSavedGymSchema = createInsertSchema(savedGyms).omit({
   id: true,
   savedAt: true
@@ -148,6 +509,201 @@ export const insertUserMatchSchema = createInsertSchema(userMatches).omit({
 export const insertMessageSchema = createInsertSchema(messages).omit({
   id: true,
   read: true,
+  status: true,
+  deliveredAt: true,
+  readAt: true,
+  createdAt: true
+});
+
+export const insertGymReviewSchema = createInsertSchema(gymReviews, {
+  rating: z.coerce.number().int().min(1, "Rating must be between 1 and 5").max(5, "Rating must be between 1 and 5"),
+  text: z.string().max(2000, "Review must be at most 2000 characters").nullish(),
+  visitDate: z.coerce.date().nullish(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true
+});
+
+// Fields a member fills in when writing or editing a review
+export const gymReviewFormSchema = insertGymReviewSchema.pick({
+  rating: true,
+  text: true,
+  visitDate: true
+});
+
+export const insertMembershipPlanSchema = createInsertSchema(gymMembershipPlans, {
+  name: z.string().trim().min(1, "Plan name is required").max(100),
+  monthlyPrice: z.coerce.number().nonnegative("Price can't be negative"),
+  currency: z.string().trim().toUpperCase().regex(/^[A-Z]{3}$/, "Currency must be a 3-letter code like USD"),
+  contractMonths: z.coerce.number().int().min(0).max(60),
+  dayPassPrice: z.coerce.number().nonnegative("Price can't be negative").nullish(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true
+});
+
+// Fields an admin fills in for a plan; the gym comes from the URL
+export const membershipPlanFormSchema = insertMembershipPlanSchema.omit({
+  gymId: true
+});
+
+export const REPORT_REASONS = ["spam", "harassment", "inappropriate_content", "fake_profile", "other"] as const;
+
+export const insertUserBlockSchema = createInsertSchema(userBlocks).omit({
+  id: true,
+  createdAt: true
+});
+
+export const insertUserReportSchema = createInsertSchema(userReports, {
+  reason: z.enum(REPORT_REASONS),
+  details: z.string().trim().max(1000, "Keep details under 1000 characters").nullish(),
+}).omit({
+  id: true,
+  status: true,
+  resolvedBy: true,
+  resolutionNote: true,
+  resolvedAt: true,
+  createdAt: true
+});
+
+// What a member submits when reporting someone; the excerpt is copied server-side
+export const reportFormSchema = insertUserReportSchema.omit({
+  reporterId: true,
+  messageExcerpt: true
+});
+
+// How an admin closes a report
+export const resolveReportSchema = z.object({
+  action: z.enum(["dismiss", "warn", "ban"]),
+  note: z.string().trim().max(1000).optional()
+});
+
+// How a super admin changes someone's role; gymIds replaces a gym manager's assigned gyms
+export const updateUserRoleSchema = z.object({
+  role: z.enum(ROLES),
+  gymIds: z.array(z.number().int().positive()).default([])
+});
+
+export const insertGymClaimSchema = createInsertSchema(gymClaims, {
+  proofText: z.string().trim().max(2000, "Keep your proof under 2000 characters").nullish(),
+}).omit({
+  id: true,
+  status: true,
+  reviewedBy: true,
+  reviewNote: true,
+  reviewedAt: true,
+  createdAt: true
+});
+
+// What a claimant types; the document arrives as a multipart upload
+export const gymClaimFormSchema = insertGymClaimSchema.pick({ proofText: true });
+
+// How an admin decides a claim
+export const reviewGymClaimSchema = z.object({
+  action: z.enum(["approve", "reject"]),
+  note: z.string().trim().max(1000).optional()
+});
+
+export const insertGymAnnouncementSchema = createInsertSchema(gymAnnouncements, {
+  title: z.string().trim().min(1, "Title is required").max(120, "Keep the title under 120 characters"),
+  body: z.string().trim().min(1, "Write something to announce").max(2000, "Keep announcements under 2000 characters"),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true
+});
+
+export const gymAnnouncementFormSchema = insertGymAnnouncementSchema.pick({ title: true, body: true });
+
+export const securitySettingsSchema = z.object({
+  requireStaffTwoFactor: z.boolean()
+});
+
+export const DEFAULT_SECURITY_SETTINGS: z.infer<typeof securitySettingsSchema> = {
+  requireStaffTwoFactor: false
+};
+
+// A six-digit authenticator code, or one of the recovery codes issued at setup
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().regex(/^\d{6}$/, "Enter the 6-digit code from your authenticator app").optional(),
+  recoveryCode: z.string().trim().min(1).optional()
+}).refine(data => data.code || data.recoveryCode, {
+  message: "Enter an authenticator code or a recovery code"
+});
+
+export const AUTH_TOKEN_PURPOSES = ["email_verification", "password_reset"] as const;
+
+export const insertAuthTokenSchema = createInsertSchema(authTokens, {
+  purpose: z.enum(AUTH_TOKEN_PURPOSES),
+}).omit({
+  id: true,
+  usedAt: true,
+  createdAt: true
+});
+
+export const insertApiTokenSchema = createInsertSchema(apiTokens, {
+  scopes: z.array(z.enum(API_TOKEN_SCOPES)),
+}).omit({
+  id: true,
+  lastUsedAt: true,
+  createdAt: true
+});
+
+// What the profile page sends to create a token; the server fills in the rest
+export const createApiTokenSchema = z.object({
+  name: z.string().trim().min(1, "Give the token a name").max(60, "Name must be at most 60 characters"),
+  scopes: z.array(z.enum(API_TOKEN_SCOPES)).min(1, "Choose at least one scope"),
+  expiresInDays: z.number().int().min(1).max(365).nullable(), // null for no expiry
+});
+
+export const LOGIN_ATTEMPT_KINDS = ["login", "register", "password_reset"] as const;
+// "blocked" attempts were turned away by the rate limiter without checking the password;
+// "two_factor" sign-ins had the right password and went on to ask for a 2FA code
+export const LOGIN_ATTEMPT_OUTCOMES = ["success", "failure", "blocked", "two_factor"] as const;
+
+export const insertLoginAttemptSchema = createInsertSchema(loginAttempts, {
+  kind: z.enum(LOGIN_ATTEMPT_KINDS),
+  outcome: z.enum(LOGIN_ATTEMPT_OUTCOMES),
+}).omit({
+  id: true,
+  createdAt: true
+});
+
+export const JOB_TYPES = ["gym.import", "gym.export", "amenity.rename", "amenity.merge"] as const;
+export const JOB_STATUSES = ["queued", "running", "succeeded", "failed", "cancelled"] as const;
+
+export const insertJobSchema = createInsertSchema(jobs, {
+  type: z.enum(JOB_TYPES),
+  payload: z.record(z.unknown()),
+}).pick({
+  type: true,
+  description: true,
+  userId: true,
+  payload: true
+});
+
+export const AUDIT_ACTIONS = [
+  "user.delete", "user.ban", "user.unban", "user.role_change", "user.two_factor_reset",
+  "gym.create", "gym.update", "gym.delete", "gym.import", "gym.export",
+  "amenity.create", "amenity.update", "amenity.merge",
+  "membership_plan.create", "membership_plan.update", "membership_plan.delete",
+  "report.resolve",
+  "gym_claim.approve", "gym_claim.reject",
+  "gym_announcement.create", "gym_announcement.update", "gym_announcement.delete",
+  "settings.update"
+] as const;
+
+export const AUDIT_TARGET_TYPES = ["user", "gym", "amenity", "membership_plan", "report", "gym_claim", "gym_announcement", "settings"] as const;
+
+export const insertAuditLogEntrySchema = createInsertSchema(adminAuditLog, {
+  action: z.enum(AUDIT_ACTIONS),
+  targetType: z.enum(AUDIT_TARGET_TYPES),
+  changes: z.custom<AuditChanges>().nullable().optional(),
+  metadata: z.record(z.unknown()).nullable().optional(),
+}).omit({
+  id: true,
   createdAt: true
 });
 
@@ -156,12 +712,251 @@ export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type Gym = typeof gyms.$inferSelect;
 export type InsertGym = z.infer<typeof insertGymSchema>;
+export type GymWithDistance = Gym & { distanceKm: number };
+export type Amenity = typeof amenities.$inferSelect;
+export type InsertAmenity = z.infer<typeof insertAmenitySchema>;
+export type AmenityCategory = typeof AMENITY_CATEGORIES[number];
+export type AmenityIcon = typeof AMENITY_ICONS[number];
+// An amenity as listed for admins, with how many gyms have it
+export type AmenityWithUsage = Amenity & { gymCount: number };
+// What an amenity edit or merge changed; also the result of amenity.rename and amenity.merge jobs
+export type AmenityUpdateResult = { amenity: Amenity; gymsUpdated: number };
+export type MembershipPlan = typeof gymMembershipPlans.$inferSelect;
+export type InsertMembershipPlan = z.infer<typeof insertMembershipPlanSchema>;
+// Why a gym got its match score. Each factor reports the points it added
+// (negative for budget and rating when they count against the gym).
+export type MatchBreakdown = {
+  goals: {
+    points: number;
+    matches: { goal: string; amenities: string[] }[];
+  };
+  preferences: {
+    points: number;
+    hits: { preference: string; amenity: string }[];
+  };
+  distance: {
+    points: number;
+    distanceKm: number | null; // null when the user's location is unknown
+  };
+  rating: {
+    points: number;
+    rating: number | null;
+    reviewCount: number;
+  };
+  budget: {
+    points: number;
+    lowestMonthlyPrice: number | null;
+    monthlyBudget: number | null;
+    currency: string;
+  };
+};
+// A gym scored for a user. lowestMonthlyPrice is the cheapest plan in the
+// user's budget currency, or null when the gym has no plan priced in it.
+export type GymMatch = Gym & {
+  matchScore: number;
+  lowestMonthlyPrice: number | null;
+  matchBreakdown: MatchBreakdown;
+};
+// A gym in search results. distanceKm is set when searching near a point, and
+// the match fields when the searcher is signed in.
+export type GymSearchResult = Gym & {
+  distanceKm: number | null;
+  matchScore: number | null;
+  lowestMonthlyPrice: number | null;
+  matchBreakdown: MatchBreakdown | null;
+};
+// How many of the matching gyms have each amenity
+export type AmenityFacet = Pick<Amenity, "id" | "name" | "icon"> & { count: number };
+export type GymSearchPage = {
+  gyms: GymSearchResult[];
+  total: number;
+  facets: AmenityFacet[];
+  nextCursor: string | null;
+  hasMore: boolean;
+};
+export type GymReview = typeof gymReviews.$inferSelect;
+export type InsertGymReview = z.infer<typeof insertGymReviewSchema>;
+export type GymReviewWithAuthor = GymReview & {
+  author: Pick<User, "id" | "name" | "profilePic">;
+};
+// Star rating counts keyed 1-5
+export type RatingDistribution = Record<1 | 2 | 3 | 4 | 5, number>;
+export type GymReviewSummary = {
+  average: number | null;
+  count: number;
+  distribution: RatingDistribution;
+};
+// What other members can see of a user
+export type PublicProfile = Pick<
+  User,
+  "id" | "name" | "age" | "gender" | "fitnessGoals" | "gymPreferences" | "profilePic" | "lastActiveAt" | "createdAt"
+>;
+// Points each factor contributed to a workout-partner score (see server/partner-matching.ts)
+export type PartnerBreakdown = {
+  goals: { points: number; shared: string[] };
+  preferences: { points: number; shared: string[] };
+  gyms: { points: number; shared: Pick<Gym, "id" | "name">[] };
+  age: { points: number; band: string | null; sameBand: boolean };
+  distance: { points: number; distanceKm: number | null };
+  activity: { points: number; lastActiveAt: Date | null };
+};
+export type PartnerRecommendation = PublicProfile & {
+  matchScore: number;
+  matchBreakdown: PartnerBreakdown;
+};
+export type UserBlock = typeof userBlocks.$inferSelect;
+export type InsertUserBlock = z.infer<typeof insertUserBlockSchema>;
+export type GymManager = typeof gymManagers.$inferSelect;
+export type UpdateUserRole = z.infer<typeof updateUserRoleSchema>;
+export type UserBlockWithUser = UserBlock & { blockedUser: PublicProfile | null };
+export type ReportReason = typeof REPORT_REASONS[number];
+export type GymClaim = typeof gymClaims.$inferSelect;
+export type InsertGymClaim = z.infer<typeof insertGymClaimSchema>;
+export type GymClaimAction = z.infer<typeof reviewGymClaimSchema>["action"];
+// A claim as listed for admins and for the claimant; the stored document path stays server-side
+export type GymClaimWithDetails = Omit<GymClaim, "documentPath"> & {
+  hasDocument: boolean;
+  gym: Pick<Gym, "id" | "name"> | null;
+  claimant: Pick<User, "id" | "username" | "name" | "email"> | null;
+};
+// What a CSV import does, or would do in a dry run, with one row
+export type GymImportRow = {
+  line: number; // line in the file, counting the header as line 1
+  name: string;
+  address: string;
+  action: "create" | "update" | "error";
+  gymId: number | null; // the gym being updated, or the new gym once committed
+  distanceMeters: number | null; // how far an updated gym is from the row's coordinates
+  errors: string[];
+};
+export type GymImportResult = {
+  dryRun: boolean;
+  rows: GymImportRow[];
+  created: number;
+  updated: number;
+  failed: number;
+  ignoredColumns: string[]; // e.g. rating, which comes from member reviews
+  errorReport: string | null; // CSV of the failed rows and why, null when none failed
+};
+// Result of a gym.export job; the file is downloaded from GET /api/jobs/:id/download
+export type GymExportResult = {
+  fileName: string;
+  exported: number;
+};
+export type GymAnnouncement = typeof gymAnnouncements.$inferSelect;
+export type InsertGymAnnouncement = z.infer<typeof insertGymAnnouncementSchema>;
+export type SecuritySettings = z.infer<typeof securitySettingsSchema>;
+export type TwoFactorCode = z.infer<typeof twoFactorCodeSchema>;
+// What /api/user/2fa reports; never includes the secret itself
+export type TwoFactorStatus = {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+  required: boolean; // staff must enable it before using admin tools
+};
+export type TwoFactorSetup = { secret: string; otpauthUri: string };
+// /api/login answers with this instead of the user when a second step is needed
+export type TwoFactorChallenge = { twoFactorRequired: true };
+export type AuthTokenPurpose = typeof AUTH_TOKEN_PURPOSES[number];
+export type AuthToken = typeof authTokens.$inferSelect;
+export type InsertAuthToken = z.infer<typeof insertAuthTokenSchema>;
+// Accounts per password hash format; cost is the bcrypt cost factor
+export type PasswordHashCount = { scheme: "bcrypt" | "scrypt" | "none"; cost: number | null; count: number };
+// What /api/admin/password-hashes reports. Legacy and outdated hashes are
+// replaced when their owners next sign in.
+export type PasswordHashReport = {
+  currentCost: number;
+  total: number;
+  legacy: number; // scrypt "hash.salt" hashes
+  outdatedCost: number; // bcrypt below the current cost factor
+  current: number;
+  withoutPassword: number; // accounts that only sign in with Google
+  byCost: { cost: number; count: number }[];
+};
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type InsertApiToken = z.infer<typeof insertApiTokenSchema>;
+export type CreateApiToken = z.infer<typeof createApiTokenSchema>;
+// A token as listed on the profile page, without its hash
+export type ApiTokenSummary = Omit<ApiToken, "tokenHash">;
+// Returned once when a token is created; `secret` is never shown again
+export type CreatedApiToken = { token: ApiTokenSummary; secret: string };
+export type LoginAttemptKind = typeof LOGIN_ATTEMPT_KINDS[number];
+export type LoginAttemptOutcome = typeof LOGIN_ATTEMPT_OUTCOMES[number];
+export type LoginAttempt = typeof loginAttempts.$inferSelect;
+export type InsertLoginAttempt = z.infer<typeof insertLoginAttemptSchema>;
+// Filters for login attempts; `before` is an attempt ID cursor like the audit log
+export type LoginAttemptFilters = {
+  kind?: LoginAttemptKind;
+  outcome?: LoginAttemptOutcome;
+  username?: string;
+  ip?: string;
+  from?: Date;
+  before?: number;
+  limit?: number;
+};
+// What the rate limiter counts; exceptId leaves out the attempt being decided on
+export type LoginAttemptCountFilters = {
+  kind: LoginAttemptKind;
+  outcomes: LoginAttemptOutcome[];
+  username?: string;
+  ip?: string;
+  from: Date;
+  exceptId?: number;
+};
+export type LoginAttemptCount = { count: number; oldestAt: Date | null; newestAt: Date | null };
+export type JobType = typeof JOB_TYPES[number];
+export type JobStatus = typeof JOB_STATUSES[number];
+export type Job = typeof jobs.$inferSelect;
+export type InsertJob = z.infer<typeof insertJobSchema>;
+// A job as sent to the client; the payload can hold file paths and other internals
+export type JobSummary = Omit<Job, "payload">;
+export type UserReport = typeof userReports.$inferSelect;
+export type InsertUserReport = z.infer<typeof insertUserReportSchema>;
+export type ReportAction = z.infer<typeof resolveReportSchema>["action"];
+// A report as shown in the admin moderation queue
+export type UserReportWithUsers = UserReport & {
+  reporter: Pick<User, "id" | "username" | "name"> | null;
+  reportedUser: Pick<User, "id" | "username" | "name" | "isBanned"> | null;
+  // Earlier reports against the same user that ended in a warning
+  priorWarnings: number;
+};
+// Before/after values of each field an admin action changed
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+export type AuditTargetType = typeof AUDIT_TARGET_TYPES[number];
+export type AuditLogEntry = typeof adminAuditLog.$inferSelect;
+export type InsertAuditLogEntry = z.infer<typeof insertAuditLogEntrySchema>;
+// Filters for the audit log; `before` is an entry ID cursor like message history
+export type AuditLogFilters = {
+  actorId?: number;
+  action?: string;
+  targetType?: string;
+  targetId?: number;
+  from?: Date;
+  to?: Date;
+  before?: number;
+  limit?: number;
+};
 export type SavedGym = typeof savedGyms.$inferSelect;
 export type InsertSavedGym = z.infer<typeof insertSavedGymSchema>;
 export type UserMatch = typeof userMatches.$inferSelect;
 export type InsertUserMatch = z.infer<typeof insertUserMatchSchema>;
 export type Message = typeof messages.$inferSelect;
 export type InsertMessage = z.infer<typeof insertMessageSchema>;
+export type MessageStatus = "sent" | "delivered" | "read";
+
+// Cursor pagination for message history: `before` is a message ID
+export type MessagePageOptions = {
+  before?: number;
+  limit?: number;
+};
+
+// One row per chat partner in the inbox
+export type ConversationPartner = Pick<User, "id" | "username" | "name" | "profilePic">;
+export type Conversation = {
+  partner: ConversationPartner;
+  lastMessage: Message | null;
+  unreadCount: number;
+};
 
 // Extended types for frontend
 export const loginSchema = z.object({
@@ -176,7 +971,24 @@ export const registerSchema = insertUserSchema.pick({
   password: true,
   name: true
 }).extend({
+  email: z.string().trim().email("Enter a valid email address"),
   password: z.string().min(6, "Password must be at least 6 characters")
 });
 
-export type RegisterData = z.infer<typeof registerSchema>;
\ No newline at end of file
+export type RegisterData = z.infer<typeof registerSchema>;
+
+export const passwordResetRequestSchema = z.object({
+  email: z.string().trim().email("Enter a valid email address")
+});
+
+export const passwordResetConfirmSchema = z.object({
+  token: z.string().min(1, "Reset link is missing its token"),
+  password: z.string().min(6, "Password must be at least 6 characters")
+});
+
+export const emailVerificationSchema = z.object({
+  token: z.string().min(1, "Verification link is missing its token")
+});
+
+export type PasswordResetRequest = z.infer<typeof passwordResetRequestSchema>;
+export type PasswordResetConfirm = z.infer<typeof passwordResetConfirmSchema>;
\ No newline at end of file